@@ -0,0 +1,159 @@
+/**
+ * Backup CLI: export the board (Firestore content, Auth accounts, Storage files) to a local
+ * folder, check a backup folder's integrity, or restore one into an empty project or the
+ * local emulator. The archive code is shared with the exportBackup callable
+ * (src/backupArchive.ts), so build first: `npm run backup -- <command> ...` does both.
+ *
+ * Usage:
+ *   node scripts/backup.mjs export <dir> [options]
+ *   node scripts/backup.mjs check <dir> [--emulator]
+ *   node scripts/backup.mjs restore <dir> [--force] [options]
+ *
+ * Options:
+ *   --key <serviceAccountKey.json>  Credentials (or set GOOGLE_APPLICATION_CREDENTIALS)
+ *   --emulator                      Use the Firestore (8080) and Storage (9199) emulators;
+ *                                   Auth is skipped unless FIREBASE_AUTH_EMULATOR_HOST is set
+ *   --project <id>                  Default: acptributeboard
+ *   --bucket <name>                 Default: <project>.firebasestorage.app
+ *   --no-auth                       Leave out Auth accounts
+ *   --force                         Restore into a project that already has content
+ *
+ * A backup made with the callable (Admin → Backups) lives in the bucket; download its folder
+ * first, e.g. `gcloud storage cp -r gs://<bucket>/backups/<backupId> ./backups/`.
+ */
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { parseArgs } from 'util';
+import { initializeApp, cert } from 'firebase-admin/app';
+
+const USAGE = 'Usage: node scripts/backup.mjs <export|check|restore> <dir> '
+    + '[--key serviceAccountKey.json] [--emulator] [--project id] [--bucket name] [--no-auth] [--force]';
+
+/** Dangling references printed before the list is cut short */
+const DANGLING_PRINT_LIMIT = 50;
+
+let args;
+try {
+    args = parseArgs({
+        allowPositionals: true,
+        options: {
+            key: { type: 'string' },
+            emulator: { type: 'boolean', default: false },
+            project: { type: 'string', default: 'acptributeboard' },
+            bucket: { type: 'string' },
+            'no-auth': { type: 'boolean', default: false },
+            force: { type: 'boolean', default: false },
+        },
+    });
+} catch (err) {
+    console.error(err.message);
+    console.error(USAGE);
+    process.exit(1);
+}
+
+const [command, dir] = args.positionals;
+const { key, emulator, project, force } = args.values;
+
+if (!['export', 'check', 'restore'].includes(command) || !dir) {
+    console.error(USAGE);
+    process.exit(1);
+}
+
+if (emulator) {
+    process.env.FIRESTORE_EMULATOR_HOST ??= '127.0.0.1:8080';
+    process.env.FIREBASE_STORAGE_EMULATOR_HOST ??= '127.0.0.1:9199';
+    // Lets the URL helpers accept the emulator's http://127.0.0.1 download URLs
+    process.env.FUNCTIONS_EMULATOR = 'true';
+}
+const skipAuth = args.values['no-auth'] || (emulator && !process.env.FIREBASE_AUTH_EMULATOR_HOST);
+
+let appOptions = { projectId: project, storageBucket: args.values.bucket ?? `${project}.firebasestorage.app` };
+if (key) {
+    const keyPathResolved = resolve(process.cwd(), key);
+    appOptions = { ...appOptions, credential: cert(JSON.parse(readFileSync(keyPathResolved, 'utf8'))) };
+}
+
+initializeApp(appOptions);
+
+const formatBytes = (bytes) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+function printDangling(dangling) {
+    if (dangling.length === 0) {
+        console.log('No dangling Storage URLs.');
+        return;
+    }
+    console.log(`${dangling.length} dangling Storage URLs (documents referring to missing files):`);
+    for (const { document, path } of dangling.slice(0, DANGLING_PRINT_LIMIT)) {
+        console.log(`  ${document} → ${path}`);
+    }
+    if (dangling.length > DANGLING_PRINT_LIMIT) {
+        console.log(`  … and ${dangling.length - DANGLING_PRINT_LIMIT} more (see manifest.json)`);
+    }
+}
+
+function printList(label, paths) {
+    if (paths.length === 0) return;
+    console.log(`${paths.length} ${label}:`);
+    paths.forEach((path) => console.log(`  ${path}`));
+}
+
+async function main() {
+    let archive;
+    try {
+        archive = await import('../lib/backupArchive.js');
+    } catch (err) {
+        if (err.code !== 'ERR_MODULE_NOT_FOUND') throw err;
+        console.error('lib/backupArchive.js not found: run `npm run build` first (or use `npm run backup -- ...`).');
+        process.exit(1);
+    }
+    const target = resolve(process.cwd(), dir);
+
+    if (command === 'export') {
+        const summary = await archive.createBackup(archive.localBackupTarget(target), { includeAuth: !skipAuth });
+        console.log(`Exported ${summary.documentCount} documents, ${summary.authUserCount} accounts and `
+            + `${summary.fileCount} files (${formatBytes(summary.totalBytes)}) to ${target}.`);
+        printDangling(summary.dangling);
+        return;
+    }
+
+    if (command === 'check') {
+        const check = await archive.checkBackup(target);
+        printList('files missing from the backup', check.missingFiles);
+        printList('files that do not match the manifest', check.corruptFiles);
+        printDangling(check.dangling);
+        if (check.missingFiles.length > 0 || check.corruptFiles.length > 0) process.exit(2);
+        console.log('Backup files are complete.');
+        return;
+    }
+
+    const result = await archive.restoreBackup(target, { force, skipAuth });
+    console.log(`Restored ${result.documentCount} documents, ${result.fileCount} files and `
+        + `${result.authUserCount} accounts${skipAuth ? ' (Auth skipped)' : ''}.`);
+    if (result.rewroteUrls) {
+        console.log('Download URLs were rewritten for this bucket and Storage host.');
+    }
+    for (const { uid, message } of result.authErrors) {
+        console.log(`  Account ${uid} not imported: ${message}`);
+    }
+    printDangling(result.check.dangling);
+    if (result.failedDocuments.length > 0) {
+        console.error(`Restore is INCOMPLETE: ${result.failedDocuments.length} documents could not be written:`);
+        for (const { path, message } of result.failedDocuments) {
+            console.error(`  ${path}: ${message}`);
+        }
+        console.error('Fix the cause and run the restore again with --force.');
+        process.exit(2);
+    }
+}
+
+main().catch((err) => {
+    if (err.code === 'app/invalid-credential') {
+        console.error('Credential error. Options:');
+        console.error('  1. Pass service account path: node scripts/backup.mjs <command> <dir> --key path/to/key.json');
+        console.error('  2. Set GOOGLE_APPLICATION_CREDENTIALS=path/to/key.json');
+        console.error('  3. Use --emulator for the local emulators');
+    } else {
+        console.error(err.message ?? err);
+    }
+    process.exit(1);
+});
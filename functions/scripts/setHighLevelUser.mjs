@@ -1,5 +1,6 @@
 /**
- * Bootstrap script: set highLevel custom claim for a user.
+ * Bootstrap script: set highLevel custom claim for a user and mark their
+ * Firestore profile (users/{uid}.role) as 'staff'.
  *
  * Usage:
  *   node scripts/setHighLevelUser.mjs <uid> [serviceAccountKey.json]
@@ -16,6 +17,7 @@ import { readFileSync } from 'fs';
 import { resolve } from 'path';
 import { initializeApp, cert } from 'firebase-admin/app';
 import { getAuth } from 'firebase-admin/auth';
+import { getFirestore } from 'firebase-admin/firestore';
 
 const projectId = 'acptributeboard';
 const uid = process.argv[2];
@@ -39,7 +41,12 @@ initializeApp(appOptions);
 
 async function main() {
     await getAuth().setCustomUserClaims(uid, { highLevel: true });
-    console.log(`Set highLevel: true for uid ${uid}. User may need to sign out/in to see changes.`);
+    // roleUpdatedAt makes a signed-in client refresh its ID token (see AuthContext)
+    await getFirestore().collection('users').doc(uid).set(
+        { role: 'staff', roleUpdatedAt: Date.now() },
+        { merge: true },
+    );
+    console.log(`Set highLevel: true and role 'staff' for uid ${uid}.`);
 }
 
 main().catch((err) => {
@@ -0,0 +1,166 @@
+/**
+ * Post analytics for the Admin Analytics tab, kept in a single aggregate document
+ * (analytics/posts) so the dashboard never scans the posts collection in the browser.
+ *
+ * `updatePostAnalytics` applies each post write as increments: the old version's
+ * contribution is subtracted and the new one added. Triggers can run more than once,
+ * so counts may drift slightly; `rebuildPostAnalytics` (Staff callable, also run nightly)
+ * recomputes the document from every post.
+ */
+import { onDocumentWritten } from "firebase-functions/v2/firestore";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { logger } from "firebase-functions";
+import { FieldValue, getFirestore, type DocumentData } from "firebase-admin/firestore";
+
+const ANALYTICS_DOC = "analytics/posts";
+
+/** Nested counters; leaves are numbers (or increments when written) */
+interface CounterTree {
+    [key: string]: number | CounterTree;
+}
+
+/**
+ * Counters one post adds. Hidden posts only count towards `hiddenPosts`.
+ * Months are UTC `YYYY-MM` keys; `values` counts company value tags by id. Sentiment comes from the `analysis` written by sentiment.ts.
+ */
+function contributionOf(post: DocumentData | undefined): Array<[string[], number]> {
+    if (!post) return [];
+    const counters: Array<[string[], number]> = [[["totalPosts"], 1]];
+    if (post.hidden === true) {
+        counters.push([["hiddenPosts"], 1]);
+        return counters;
+    }
+
+    const content = typeof post.content === "string" ? post.content : "";
+    const hasImage = /<img\s/i.test(content);
+    const hasVideo = /<video\s/i.test(content);
+    const hasAudio = /<audio\s/i.test(content);
+    counters.push([["visiblePosts"], 1]);
+    if (hasImage) counters.push([["media", "image"], 1]);
+    if (hasVideo) counters.push([["media", "video"], 1]);
+    if (hasAudio) counters.push([["media", "audio"], 1]);
+    if (!hasImage && !hasVideo && !hasAudio) counters.push([["media", "textOnly"], 1]);
+
+    if (typeof post.exhibit === "number") {
+        counters.push([["exhibits", String(post.exhibit)], 1]);
+    } else {
+        counters.push([["unassignedPosts"], 1]);
+    }
+
+    const authorId = typeof post.authorId === "string" ? post.authorId : "";
+    if (authorId) counters.push([["authors", authorId], 1]);
+
+    const values: unknown[] = Array.isArray(post.values) ? post.values : [];
+    new Set(values.filter((id): id is string => typeof id === "string"))
+        .forEach((id) => counters.push([["values", id], 1]));
+
+    const month = typeof post.createdAt === "number" ? new Date(post.createdAt).toISOString().slice(0, 7) : null;
+    if (month) {
+        counters.push([["months", month, "posts"], 1]);
+        if (authorId) counters.push([["months", month, "authors", authorId], 1]);
+    }
+
+    // Sentiment: count and summed comparative score (average = sum / count) per exhibit and month
+    const analysis = post.analysis as { comparative?: unknown; label?: unknown } | undefined;
+    if (typeof analysis?.comparative === "number" && typeof analysis.label === "string") {
+        const exhibitKey = typeof post.exhibit === "number" ? String(post.exhibit) : "unassigned";
+        const groups = [["sentiment", "exhibits", exhibitKey], ...(month ? [["sentiment", "months", month]] : [])];
+        counters.push([["sentiment", "labels", analysis.label], 1]);
+        for (const group of groups) {
+            counters.push([[...group, "count"], 1]);
+            counters.push([[...group, "sum"], analysis.comparative]);
+        }
+    }
+    return counters;
+}
+
+function addCounter(tree: CounterTree, path: string[], amount: number): void {
+    let node = tree;
+    for (const key of path.slice(0, -1)) {
+        if (typeof node[key] !== "object") node[key] = {};
+        node = node[key] as CounterTree;
+    }
+    const leaf = path[path.length - 1];
+    node[leaf] = ((node[leaf] as number | undefined) ?? 0) + amount;
+}
+
+/** Same shape with every non-zero leaf turned into a FieldValue.increment */
+function toIncrements(tree: CounterTree): Record<string, unknown> | null {
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(tree)) {
+        if (typeof value === "number") {
+            if (value !== 0) result[key] = FieldValue.increment(value);
+        } else {
+            const nested = toIncrements(value);
+            if (nested) result[key] = nested;
+        }
+    }
+    return Object.keys(result).length ? result : null;
+}
+
+export const updatePostAnalytics = onDocumentWritten("posts/{postId}", async (event) => {
+    const delta: CounterTree = {};
+    contributionOf(event.data?.before?.data()).forEach(([path, n]) => addCounter(delta, path, -n));
+    contributionOf(event.data?.after?.data()).forEach(([path, n]) => addCounter(delta, path, n));
+
+    const increments = toIncrements(delta);
+    if (!increments) return;
+    await getFirestore().doc(ANALYTICS_DOC).set({ ...increments, updatedAt: Date.now() }, { merge: true });
+});
+
+/**
+ * Recompute analytics/posts from every post, replacing the incrementally maintained counters.
+ */
+async function rebuildAnalytics(): Promise<number> {
+    const db = getFirestore();
+    const posts = await db.collection("posts")
+        .select("authorId", "content", "createdAt", "exhibit", "hidden", "analysis", "values")
+        .get();
+
+    const totals: CounterTree = {
+        totalPosts: 0,
+        hiddenPosts: 0,
+        visiblePosts: 0,
+        unassignedPosts: 0,
+        media: { image: 0, video: 0, audio: 0, textOnly: 0 },
+        exhibits: {},
+        authors: {},
+        values: {},
+        months: {},
+        sentiment: { labels: { positive: 0, neutral: 0, negative: 0 }, exhibits: {}, months: {} },
+    };
+    posts.docs.forEach((doc) => {
+        contributionOf(doc.data()).forEach(([path, n]) => addCounter(totals, path, n));
+    });
+
+    const now = Date.now();
+    await db.doc(ANALYTICS_DOC).set({ ...totals, updatedAt: now, rebuiltAt: now });
+    logger.info("Rebuilt post analytics", { posts: posts.size });
+    return posts.size;
+}
+
+export const rebuildPostAnalyticsNightly = onSchedule(
+    { schedule: "every day 04:00", timeZone: "America/New_York", timeoutSeconds: 300 },
+    async () => {
+        await rebuildAnalytics();
+    },
+);
+
+/**
+ * Callable function: rebuild the analytics document now (e.g. right after deploying, to backfill).
+ * Only high-level users can invoke this.
+ */
+export const rebuildPostAnalytics = onCall({ timeoutSeconds: 300 }, async (request) => {
+    if (!request.auth) {
+        throw new HttpsError("unauthenticated", "Must be logged in");
+    }
+    if (!request.auth.token.highLevel) {
+        throw new HttpsError(
+            "permission-denied",
+            "Only high-level users can rebuild analytics"
+        );
+    }
+    const postCount = await rebuildAnalytics();
+    return { postCount };
+});
@@ -0,0 +1,142 @@
+/**
+ * Append-only audit log of privileged actions, stored in the `auditLog` collection.
+ *
+ * Entries are written only here (Firestore rules deny client writes): by the post and
+ * artifact triggers below, which read the acting user from the event's auth context,
+ * and by the role callables in roles.ts.
+ */
+import {
+    onDocumentWrittenWithAuthContext,
+    type DocumentSnapshot,
+    type FirestoreAuthEvent,
+} from "firebase-functions/v2/firestore";
+import { logger } from "firebase-functions";
+import { getFirestore } from "firebase-admin/firestore";
+import { plainTextExcerpt } from "./sanitize.js";
+
+export type AuditAction =
+    | "post.update"
+    | "post.delete"
+    | "post.exhibit"
+    | "post.hide"
+    | "post.unhide"
+    | "post.feature"
+    | "post.unfeature"
+    | "artifact.create"
+    | "artifact.update"
+    | "artifact.delete"
+    | "role.grant"
+    | "role.revoke";
+
+export type AuditTargetType = "post" | "artifact" | "user";
+
+type Summary = Record<string, string | number | boolean | null>;
+
+export interface AuditEntry {
+    /** Uid of the user who acted, or null for system writes */
+    actorId: string | null;
+    action: AuditAction;
+    targetType: AuditTargetType;
+    targetId: string;
+    before: Summary | null;
+    after: Summary | null;
+}
+
+const EXCERPT_LENGTH = 120;
+
+export async function writeAuditEntry(entry: AuditEntry): Promise<void> {
+    await getFirestore().collection("auditLog").add({ ...entry, createdAt: Date.now() });
+}
+
+/**
+ * The acting user's uid, or null when the write came from a service account
+ * (e.g. other Cloud Functions such as content sanitization) or the system.
+ */
+export function actorOf(event: FirestoreAuthEvent<unknown>): string | null {
+    if (event.authType === "service_account" || event.authType === "system") return null;
+    return event.authId ?? null;
+}
+
+function summarizePost(snap: DocumentSnapshot | undefined): Summary | null {
+    if (!snap?.exists) return null;
+    return {
+        authorId: snap.get("authorId") ?? null,
+        exhibit: snap.get("exhibit") ?? null,
+        hidden: snap.get("hidden") === true,
+        featured: typeof snap.get("featuredAt") === "number",
+        excerpt: plainTextExcerpt(snap.get("content"), EXCERPT_LENGTH),
+    };
+}
+
+function summarizeArtifact(snap: DocumentSnapshot | undefined): Summary | null {
+    if (!snap?.exists) return null;
+    return {
+        title: snap.get("title") ?? null,
+        type: snap.get("type") ?? null,
+        exhibitId: snap.get("exhibitId") ?? null,
+    };
+}
+
+/**
+ * Which privileged actions a post write represents. Authors creating and editing their
+ * own posts are not logged; deletes, moderation/exhibit/featured changes and edits by
+ * anyone other than the author are.
+ */
+function postActions(
+    before: Summary | null,
+    after: Summary | null,
+    actorId: string | null,
+    contentChanged: boolean,
+): AuditAction[] {
+    if (!before) return [];
+    if (!after) return ["post.delete"];
+    const actions: AuditAction[] = [];
+    if (before.exhibit !== after.exhibit) actions.push("post.exhibit");
+    if (before.hidden !== after.hidden) actions.push(after.hidden ? "post.hide" : "post.unhide");
+    if (before.featured !== after.featured) actions.push(after.featured ? "post.feature" : "post.unfeature");
+    if (contentChanged && actorId !== null && actorId !== after.authorId) actions.push("post.update");
+    return actions;
+}
+
+export const auditPostWrites = onDocumentWrittenWithAuthContext("posts/{postId}", async (event) => {
+    const actorId = actorOf(event);
+    const beforeSnap = event.data?.before;
+    const afterSnap = event.data?.after;
+    const before = summarizePost(beforeSnap);
+    const after = summarizePost(afterSnap);
+    const contentChanged = !!beforeSnap?.exists && !!afterSnap?.exists &&
+        beforeSnap.get("content") !== afterSnap.get("content");
+
+    const actions = postActions(before, after, actorId, contentChanged);
+    if (actions.length === 0) return;
+
+    await Promise.all(actions.map((action) => writeAuditEntry({
+        actorId,
+        action,
+        targetType: "post",
+        targetId: event.params.postId,
+        before,
+        after,
+    })));
+    logger.info("Recorded post audit entries", { postId: event.params.postId, actions });
+});
+
+export const auditArtifactWrites = onDocumentWrittenWithAuthContext("artifacts/{artifactId}", async (event) => {
+    const actorId = actorOf(event);
+    // Skip rewrites by other functions (content sanitization); artifact changes are always staff actions
+    if (actorId === null) return;
+    const before = summarizeArtifact(event.data?.before);
+    const after = summarizeArtifact(event.data?.after);
+    if (!before && !after) return;
+
+    const action: AuditAction = !before ? "artifact.create" : !after ? "artifact.delete" : "artifact.update";
+    await writeAuditEntry({
+        actorId,
+        action,
+        targetType: "artifact",
+        targetId: event.params.artifactId,
+        before,
+        after,
+    });
+    logger.info("Recorded artifact audit entry", { artifactId: event.params.artifactId, action });
+});
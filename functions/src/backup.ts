@@ -0,0 +1,70 @@
+/**
+ * On-demand backups from the Admin dashboard. The archive format and the restore side live in
+ * backupArchive.ts; scripts/backup.mjs is the command-line counterpart.
+ */
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { logger } from "firebase-functions";
+import { getFirestore } from "firebase-admin/firestore";
+import { createBackup, storageBackupTarget, type DanglingReference } from "./backupArchive.js";
+
+/** Max dangling references stored on a backup record (the manifest has them all) */
+const RECORD_DANGLING_LIMIT = 200;
+
+/** backups/{backupId}: one per callable backup, readable by Staff */
+export interface BackupRecord {
+    actorId: string;
+    startedAt: number;
+    finishedAt: number;
+    /** Folder in the default bucket holding manifest.json and files/ */
+    storagePrefix: string;
+    documentCount: number;
+    authUserCount: number;
+    fileCount: number;
+    totalBytes: number;
+    danglingCount: number;
+    /** First RECORD_DANGLING_LIMIT references to missing Storage files */
+    dangling: DanglingReference[];
+}
+
+/**
+ * Callable function: back up users, posts, artifacts, exhibits and their files to
+ * `backups/{backupId}/` in the bucket and return the backup id.
+ * Only high-level users can invoke this.
+ */
+export const exportBackup = onCall({ timeoutSeconds: 540, memory: "1GiB" }, async (request) => {
+    if (!request.auth) {
+        throw new HttpsError("unauthenticated", "Must be logged in");
+    }
+    if (!request.auth.token.highLevel) {
+        throw new HttpsError(
+            "permission-denied",
+            "Only high-level users can back up the board"
+        );
+    }
+
+    const startedAt = Date.now();
+    const backupId = new Date(startedAt).toISOString().replace(/[:.]/g, "-");
+    const storagePrefix = `backups/${backupId}`;
+    const summary = await createBackup(storageBackupTarget(storagePrefix));
+
+    const record: BackupRecord = {
+        actorId: request.auth.uid,
+        startedAt,
+        finishedAt: Date.now(),
+        storagePrefix,
+        documentCount: summary.documentCount,
+        authUserCount: summary.authUserCount,
+        fileCount: summary.fileCount,
+        totalBytes: summary.totalBytes,
+        danglingCount: summary.dangling.length,
+        dangling: summary.dangling.slice(0, RECORD_DANGLING_LIMIT),
+    };
+    await getFirestore().collection("backups").doc(backupId).set(record);
+    logger.info("Backup finished", {
+        backupId,
+        documentCount: summary.documentCount,
+        fileCount: summary.fileCount,
+        danglingCount: summary.dangling.length,
+    });
+    return { backupId };
+});
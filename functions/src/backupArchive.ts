@@ -0,0 +1,526 @@
+/**
+ * Backup and restore of the board's content: Firestore documents (users, posts with their
+ * comments and reactions, artifacts, exhibits, settings), Auth accounts, and the Storage files
+ * those documents reference plus everything under website-images/ (hero image, exhibit
+ * backgrounds and carousels).
+ *
+ * A backup is a folder: `manifest.json` (a versioned BackupManifest) next to `files/`, which
+ * holds every archived object under its original path. The `exportBackup` callable writes one
+ * to `backups/{backupId}/` in the bucket; scripts/backup.mjs writes one to a local directory and
+ * restores from it, so restoring a callable backup means downloading its folder first.
+ */
+import { createHash } from "node:crypto";
+import { createReadStream } from "node:fs";
+import { mkdir, readFile, stat, writeFile } from "node:fs/promises";
+import { dirname, join, resolve, sep } from "node:path";
+import { getApp } from "firebase-admin/app";
+import { getAuth, type UserImportRecord } from "firebase-admin/auth";
+import {
+    getFirestore, DocumentReference, GeoPoint, Timestamp, type DocumentSnapshot,
+} from "firebase-admin/firestore";
+import { getStorage } from "firebase-admin/storage";
+import { extractStoragePaths } from "./storageRefs.js";
+
+type Bucket = ReturnType<ReturnType<typeof getStorage>["bucket"]>;
+type StorageFile = ReturnType<Bucket["file"]>;
+
+export const BACKUP_FORMAT = "tribute-board-backup";
+
+/** Bump when the manifest changes shape; restore refuses manifests newer than it understands */
+export const BACKUP_VERSION = 1;
+
+/** Top-level collections that hold board content (derived data such as searchIndex is rebuilt instead) */
+const BACKUP_COLLECTIONS = ["users", "posts", "artifacts", "exhibits", "settings"];
+
+/** Subcollections of posts/{postId} */
+const POST_SUBCOLLECTIONS = ["comments", "reactions"];
+
+/** A restore into a project with documents in any of these needs `force` */
+const CONTENT_COLLECTIONS = ["users", "posts", "artifacts", "exhibits"];
+
+/** Archived whole, since the app looks these files up by path rather than by URL */
+const WEBSITE_IMAGES_PREFIX = "website-images/";
+
+const CAROUSEL_PATH = /^website-images\/exhibits\/exhibit-(\d+)\/[^/]+$/;
+
+/** Storage requests run this many at a time */
+const FILE_CONCURRENCY = 8;
+
+const PRODUCTION_STORAGE_ORIGIN = "https://firebasestorage.googleapis.com";
+
+export interface BackupDocument {
+    /** Full document path, e.g. "posts/abc/comments/def" */
+    path: string;
+    /** Document data with Firestore types encoded as `{ __type, ... }` objects (see encodeValue) */
+    data: Record<string, unknown>;
+}
+
+export interface BackupAuthUser {
+    uid: string;
+    email: string | null;
+    emailVerified: boolean;
+    displayName: string | null;
+    photoURL: string | null;
+    disabled: boolean;
+    customClaims: Record<string, unknown> | null;
+    /** ISO timestamp */
+    creationTime: string;
+}
+
+export interface BackupFile {
+    /** Object path in the bucket, and under `files/` in the backup */
+    path: string;
+    size: number;
+    contentType: string;
+    /** Base64 MD5 from the object metadata, checked on restore */
+    md5Hash: string;
+    /** Keeps existing download URLs (`?token=…`) working after a restore */
+    downloadTokens: string | null;
+}
+
+/** A document referring to a Storage object that does not exist */
+export interface DanglingReference {
+    document: string;
+    path: string;
+}
+
+export interface BackupManifest {
+    format: typeof BACKUP_FORMAT;
+    version: number;
+    /** ISO timestamp */
+    createdAt: string;
+    projectId: string;
+    bucket: string;
+    /** Origin of the download URLs in the documents (the emulator's differs from production) */
+    storageOrigin: string;
+    documents: BackupDocument[];
+    authUsers: BackupAuthUser[];
+    /** Exhibit number → carousel image paths in display (file name) order */
+    carousels: Record<string, string[]>;
+    files: BackupFile[];
+    dangling: DanglingReference[];
+}
+
+export interface BackupSummary {
+    documentCount: number;
+    authUserCount: number;
+    fileCount: number;
+    totalBytes: number;
+    dangling: DanglingReference[];
+}
+
+/** Where createBackup writes a backup */
+export interface BackupTarget {
+    /** Store an object under `files/{path}` */
+    addFile(file: StorageFile, path: string): Promise<void>;
+    writeManifest(manifest: BackupManifest): Promise<void>;
+}
+
+export interface BackupCheck {
+    /** Files listed in the manifest but absent from the backup folder */
+    missingFiles: string[];
+    /** Files whose size or MD5 differs from the manifest */
+    corruptFiles: string[];
+    dangling: DanglingReference[];
+}
+
+export interface RestoreOptions {
+    /** Restore into a project that already has content (documents with the same path are overwritten) */
+    force?: boolean;
+    /** Leave Auth accounts alone (e.g. the emulator runs without the Auth emulator) */
+    skipAuth?: boolean;
+}
+
+export interface RestoreResult {
+    check: BackupCheck;
+    /** Documents written */
+    documentCount: number;
+    /** Documents that could not be written after BulkWriter's retries; the restore is partial */
+    failedDocuments: Array<{ path: string; message: string }>;
+    fileCount: number;
+    authUserCount: number;
+    /** Accounts that could not be imported, e.g. because the uid or email is taken */
+    authErrors: Array<{ uid: string; message: string }>;
+    /** True when download URLs were rewritten for a different bucket or Storage host */
+    rewroteUrls: boolean;
+}
+
+// --- Firestore values ---
+
+/** JSON-safe copy of a Firestore value; Timestamps, GeoPoints, references and bytes become tagged objects */
+export function encodeValue(value: unknown): unknown {
+    if (value instanceof Timestamp) {
+        return { __type: "timestamp", seconds: value.seconds, nanoseconds: value.nanoseconds };
+    }
+    if (value instanceof GeoPoint) {
+        return { __type: "geopoint", latitude: value.latitude, longitude: value.longitude };
+    }
+    if (value instanceof DocumentReference) return { __type: "reference", path: value.path };
+    if (value instanceof Uint8Array) return { __type: "bytes", base64: Buffer.from(value).toString("base64") };
+    if (Array.isArray(value)) return value.map(encodeValue);
+    if (value && typeof value === "object") {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, encodeValue(item)]));
+    }
+    return value;
+}
+
+/** Inverse of encodeValue; `rewrite` is applied to every string */
+export function decodeValue(value: unknown, rewrite: (text: string) => string = (text) => text): unknown {
+    if (typeof value === "string") return rewrite(value);
+    if (Array.isArray(value)) return value.map((item) => decodeValue(item, rewrite));
+    if (!value || typeof value !== "object") return value;
+
+    const tagged = value as Record<string, unknown>;
+    switch (tagged.__type) {
+    case "timestamp":
+        return new Timestamp(Number(tagged.seconds), Number(tagged.nanoseconds));
+    case "geopoint":
+        return new GeoPoint(Number(tagged.latitude), Number(tagged.longitude));
+    case "reference":
+        return getFirestore().doc(String(tagged.path));
+    case "bytes":
+        return Buffer.from(String(tagged.base64), "base64");
+    default:
+        return Object.fromEntries(Object.entries(tagged).map(([key, item]) => [key, decodeValue(item, rewrite)]));
+    }
+}
+
+/** Every Storage path referenced from any string in a document */
+function referencedPaths(value: unknown, paths = new Set<string>()): Set<string> {
+    if (typeof value === "string") {
+        extractStoragePaths(value).forEach((path) => paths.add(path));
+    } else if (value && typeof value === "object") {
+        Object.values(value).forEach((item) => referencedPaths(item, paths));
+    }
+    return paths;
+}
+
+/** References from `documents` to paths not in `available` */
+function findDangling(documents: BackupDocument[], available: Set<string>): DanglingReference[] {
+    return documents.flatMap((doc) => [...referencedPaths(doc.data)]
+        .filter((path) => !available.has(path))
+        .map((path) => ({ document: doc.path, path })));
+}
+
+// --- Helpers ---
+
+/** Run `fn` over `items`, at most `limit` at a time */
+async function forEachLimited<T>(items: T[], limit: number, fn: (item: T) => Promise<void>): Promise<void> {
+    let next = 0;
+    const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+        while (next < items.length) {
+            await fn(items[next++]);
+        }
+    });
+    await Promise.all(workers);
+}
+
+/** Origin of download URLs for the Storage the Admin SDK talks to */
+function currentStorageOrigin(): string {
+    const emulatorHost = process.env.FIREBASE_STORAGE_EMULATOR_HOST;
+    if (!emulatorHost) return PRODUCTION_STORAGE_ORIGIN;
+    return /^https?:\/\//.test(emulatorHost) ? emulatorHost.replace(/\/$/, "") : `http://${emulatorHost}`;
+}
+
+/** Absolute path of `path` under `root`; refuses paths that would escape it */
+function pathInside(root: string, path: string): string {
+    const base = resolve(root);
+    const full = resolve(base, path);
+    if (!full.startsWith(base + sep)) {
+        throw new Error(`Refusing path outside the backup folder: ${path}`);
+    }
+    return full;
+}
+
+function md5Base64(path: string): Promise<string> {
+    return new Promise((done, fail) => {
+        const hash = createHash("md5");
+        createReadStream(path)
+            .on("error", fail)
+            .on("data", (chunk) => hash.update(chunk))
+            .on("end", () => done(hash.digest("base64")));
+    });
+}
+
+// --- Export ---
+
+async function collectDocuments(): Promise<BackupDocument[]> {
+    const db = getFirestore();
+    const snapshots = await Promise.all([
+        ...BACKUP_COLLECTIONS.map((name) => db.collection(name).get()),
+        ...POST_SUBCOLLECTIONS.map((name) => db.collectionGroup(name).get()),
+    ]);
+    const toDocument = (doc: DocumentSnapshot): BackupDocument => ({
+        path: doc.ref.path,
+        data: encodeValue(doc.data() ?? {}) as Record<string, unknown>,
+    });
+    return snapshots
+        .flatMap((snap) => snap.docs)
+        .filter((doc) => doc.ref.parent.parent === null || doc.ref.parent.parent.parent.id === "posts")
+        .map(toDocument)
+        .sort((a, b) => a.path.localeCompare(b.path));
+}
+
+async function collectAuthUsers(): Promise<BackupAuthUser[]> {
+    const users: BackupAuthUser[] = [];
+    let pageToken: string | undefined;
+    do {
+        const page = await getAuth().listUsers(1000, pageToken);
+        for (const user of page.users) {
+            users.push({
+                uid: user.uid,
+                email: user.email ?? null,
+                emailVerified: user.emailVerified,
+                displayName: user.displayName ?? null,
+                photoURL: user.photoURL ?? null,
+                disabled: user.disabled,
+                customClaims: user.customClaims ?? null,
+                creationTime: new Date(user.metadata.creationTime).toISOString(),
+            });
+        }
+        pageToken = page.pageToken;
+    } while (pageToken);
+    return users;
+}
+
+function toBackupFile(file: StorageFile): BackupFile {
+    const { metadata } = file;
+    const tokens = metadata.metadata?.firebaseStorageDownloadTokens;
+    return {
+        path: file.name,
+        size: Number(metadata.size ?? 0),
+        contentType: metadata.contentType ?? "application/octet-stream",
+        md5Hash: metadata.md5Hash ?? "",
+        downloadTokens: typeof tokens === "string" ? tokens : null,
+    };
+}
+
+/**
+ * Write a backup of the current project to `target`. Referenced files that no longer exist are
+ * not an error: they are listed in the manifest's `dangling`.
+ */
+export async function createBackup(
+    target: BackupTarget,
+    options: { includeAuth?: boolean } = {},
+): Promise<BackupSummary> {
+    const bucket = getStorage().bucket();
+    const [documents, authUsers, [websiteFiles]] = await Promise.all([
+        collectDocuments(),
+        options.includeAuth === false ? Promise.resolve([]) : collectAuthUsers(),
+        bucket.getFiles({ prefix: WEBSITE_IMAGES_PREFIX }),
+    ]);
+
+    const objects = new Map<string, StorageFile>();
+    websiteFiles
+        .filter((file) => !file.name.endsWith("/"))
+        .forEach((file) => objects.set(file.name, file));
+
+    const referenced = new Set<string>();
+    documents.forEach((doc) => referencedPaths(doc.data, referenced));
+    await forEachLimited([...referenced].filter((path) => !objects.has(path)), FILE_CONCURRENCY, async (path) => {
+        const file = bucket.file(path);
+        const [exists] = await file.exists();
+        if (!exists) return;
+        await file.getMetadata();
+        objects.set(path, file);
+    });
+
+    const files = [...objects.values()].map(toBackupFile).sort((a, b) => a.path.localeCompare(b.path));
+    await forEachLimited([...objects.values()], FILE_CONCURRENCY, (file) => target.addFile(file, file.name));
+
+    const carousels: Record<string, string[]> = {};
+    for (const { path } of files) {
+        const exhibitNumber = path.match(CAROUSEL_PATH)?.[1];
+        if (exhibitNumber) (carousels[exhibitNumber] ??= []).push(path);
+    }
+
+    const dangling = findDangling(documents, new Set(objects.keys()));
+    await target.writeManifest({
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        createdAt: new Date().toISOString(),
+        projectId: getApp().options.projectId ?? process.env.GCLOUD_PROJECT ?? "",
+        bucket: bucket.name,
+        storageOrigin: currentStorageOrigin(),
+        documents,
+        authUsers,
+        carousels,
+        files,
+        dangling,
+    });
+
+    return {
+        documentCount: documents.length,
+        authUserCount: authUsers.length,
+        fileCount: files.length,
+        totalBytes: files.reduce((sum, file) => sum + file.size, 0),
+        dangling,
+    };
+}
+
+/** Backup folder in the project's own bucket, e.g. `backups/2026-10-19T08-00-00-000Z` */
+export function storageBackupTarget(prefix: string): BackupTarget {
+    const bucket = getStorage().bucket();
+    return {
+        async addFile(file, path) {
+            await file.copy(bucket.file(`${prefix}/files/${path}`));
+        },
+        async writeManifest(manifest) {
+            await bucket.file(`${prefix}/manifest.json`).save(JSON.stringify(manifest), {
+                contentType: "application/json",
+                resumable: false,
+            });
+        },
+    };
+}
+
+/** Backup folder on the local disk (scripts/backup.mjs) */
+export function localBackupTarget(dir: string): BackupTarget {
+    return {
+        async addFile(file, path) {
+            const destination = pathInside(join(dir, "files"), path);
+            await mkdir(dirname(destination), { recursive: true });
+            await file.download({ destination });
+        },
+        async writeManifest(manifest) {
+            await mkdir(dir, { recursive: true });
+            await writeFile(join(dir, "manifest.json"), JSON.stringify(manifest, null, 2));
+        },
+    };
+}
+
+// --- Check and restore ---
+
+/** Read and validate `manifest.json` of a local backup folder */
+export async function readManifest(dir: string): Promise<BackupManifest> {
+    const manifest = JSON.parse(await readFile(join(dir, "manifest.json"), "utf8")) as Partial<BackupManifest>;
+    if (manifest.format !== BACKUP_FORMAT) {
+        throw new Error(`${dir} does not contain a tribute board backup`);
+    }
+    if (typeof manifest.version !== "number" || manifest.version > BACKUP_VERSION) {
+        throw new Error(`Backup version ${manifest.version} is newer than this tool supports (${BACKUP_VERSION})`);
+    }
+    return manifest as BackupManifest;
+}
+
+/**
+ * Integrity check of a local backup folder: every listed file is present with the recorded size
+ * and MD5, and every Storage URL in the documents points to an archived file.
+ */
+export async function checkBackup(dir: string, manifest?: BackupManifest): Promise<BackupCheck> {
+    const backup = manifest ?? await readManifest(dir);
+    const missingFiles: string[] = [];
+    const corruptFiles: string[] = [];
+    await forEachLimited(backup.files, FILE_CONCURRENCY, async (file) => {
+        const local = pathInside(join(dir, "files"), file.path);
+        const info = await stat(local).catch(() => null);
+        if (!info?.isFile()) {
+            missingFiles.push(file.path);
+        } else if (info.size !== file.size || (file.md5Hash && await md5Base64(local) !== file.md5Hash)) {
+            corruptFiles.push(file.path);
+        }
+    });
+    const broken = new Set([...missingFiles, ...corruptFiles]);
+    const available = new Set(backup.files.map((file) => file.path).filter((path) => !broken.has(path)));
+    return {
+        missingFiles: missingFiles.sort(),
+        corruptFiles: corruptFiles.sort(),
+        dangling: findDangling(backup.documents, available),
+    };
+}
+
+/**
+ * Rewrites download URLs from the backup's bucket and Storage host to the current ones, for
+ * restores into another project or the emulator. Also covers URL-encoded copies (Office viewer embeds).
+ */
+export function storageUrlRewriter(manifest: BackupManifest, bucket: string): ((text: string) => string) | null {
+    const from = `${manifest.storageOrigin}/v0/b/${manifest.bucket}/o/`;
+    const to = `${currentStorageOrigin()}/v0/b/${bucket}/o/`;
+    if (from === to) return null;
+    const pairs: Array<[string, string]> = [[from, to], [encodeURIComponent(from), encodeURIComponent(to)]];
+    return (text) => pairs.reduce((result, [a, b]) => result.split(a).join(b), text);
+}
+
+async function hasContent(): Promise<boolean> {
+    const db = getFirestore();
+    const snaps = await Promise.all(CONTENT_COLLECTIONS.map((name) => db.collection(name).limit(1).get()));
+    return snaps.some((snap) => !snap.empty);
+}
+
+async function importAuthUsers(users: BackupAuthUser[]): Promise<RestoreResult["authErrors"]> {
+    const errors: RestoreResult["authErrors"] = [];
+    for (let i = 0; i < users.length; i += 1000) {
+        const batch = users.slice(i, i + 1000);
+        // No password hashes are exported; members set a new password with "Forgot password"
+        const records: UserImportRecord[] = batch.map((user) => ({
+            uid: user.uid,
+            email: user.email ?? undefined,
+            emailVerified: user.emailVerified,
+            displayName: user.displayName ?? undefined,
+            photoURL: user.photoURL ?? undefined,
+            disabled: user.disabled,
+            customClaims: user.customClaims ?? undefined,
+            metadata: { creationTime: user.creationTime },
+        }));
+        const result = await getAuth().importUsers(records);
+        result.errors.forEach(({ index, error }) => errors.push({ uid: batch[index].uid, message: error.message }));
+    }
+    return errors;
+}
+
+/**
+ * Restore a local backup folder into the current project: files first (with their download
+ * tokens), then documents, then Auth accounts. Refuses a project that already has content unless
+ * `force`, and any backup whose files are missing or corrupt. Documents that fail to write are
+ * listed in `failedDocuments` rather than thrown, so the caller can report every one of them.
+ */
+export async function restoreBackup(dir: string, options: RestoreOptions = {}): Promise<RestoreResult> {
+    const manifest = await readManifest(dir);
+    const check = await checkBackup(dir, manifest);
+    if (check.missingFiles.length > 0 || check.corruptFiles.length > 0) {
+        throw new Error(`Backup is incomplete: ${check.missingFiles.length} missing and `
+            + `${check.corruptFiles.length} corrupt files (run the check command for the list)`);
+    }
+    if (!options.force && await hasContent()) {
+        throw new Error("The project already has posts, users, artifacts or exhibits; restore with --force to overwrite");
+    }
+
+    const bucket = getStorage().bucket();
+    await forEachLimited(manifest.files, FILE_CONCURRENCY, async (file) => {
+        await bucket.upload(pathInside(join(dir, "files"), file.path), {
+            destination: file.path,
+            resumable: false,
+            metadata: {
+                contentType: file.contentType,
+                metadata: file.downloadTokens ? { firebaseStorageDownloadTokens: file.downloadTokens } : undefined,
+            },
+        });
+    });
+
+    const rewrite = storageUrlRewriter(manifest, bucket.name);
+    const db = getFirestore();
+    const writer = db.bulkWriter();
+    const writes: Array<Promise<void>> = [];
+    const failedDocuments: RestoreResult["failedDocuments"] = [];
+    let documentCount = 0;
+    for (const doc of manifest.documents) {
+        const write = writer.set(db.doc(doc.path), decodeValue(doc.data, rewrite ?? undefined) as Record<string, unknown>);
+        writes.push(write.then(() => { documentCount++; }, (err: unknown) => {
+            failedDocuments.push({ path: doc.path, message: err instanceof Error ? err.message : String(err) });
+        }));
+    }
+    await writer.close();
+    await Promise.all(writes);
+
+    const authErrors = options.skipAuth ? [] : await importAuthUsers(manifest.authUsers);
+
+    return {
+        check,
+        documentCount,
+        failedDocuments: failedDocuments.sort((a, b) => a.path.localeCompare(b.path)),
+        fileCount: manifest.files.length,
+        authUserCount: options.skipAuth ? 0 : manifest.authUsers.length - authErrors.length,
+        authErrors,
+        rewroteUrls: rewrite !== null,
+    };
+}
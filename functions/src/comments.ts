@@ -0,0 +1,53 @@
+/**
+ * Comment upkeep that members cannot do from the browser: rules only let them delete their
+ * own comments, and `commentCount` on a post is read-only for its author.
+ */
+import { onDocumentDeleted, onDocumentWritten } from "firebase-functions/v2/firestore";
+import { getFirestore } from "firebase-admin/firestore";
+
+/** Firestore batch write limit */
+const BATCH_SIZE = 500;
+
+/**
+ * Delete the replies to a top-level comment once it is deleted. Until this runs,
+ * getVisibleComments in the app hides the orphaned replies.
+ */
+export const deleteRepliesOnCommentDelete = onDocumentDeleted("posts/{postId}/comments/{commentId}", async (event) => {
+    if (event.data?.get("parentId") != null) return;
+    const { postId, commentId } = event.params;
+
+    const db = getFirestore();
+    const replies = await db.collection(`posts/${postId}/comments`).where("parentId", "==", commentId).get();
+    for (let i = 0; i < replies.docs.length; i += BATCH_SIZE) {
+        const batch = db.batch();
+        replies.docs.slice(i, i + BATCH_SIZE).forEach((reply) => batch.delete(reply.ref));
+        await batch.commit();
+    }
+});
+
+/**
+ * Keep `commentCount` on the post (comments and replies) so feed cards need no comment reads.
+ * The count is taken from the collection rather than incremented, so retried triggers cannot
+ * make it drift. A reply whose parent was deleted before it was written is deleted instead,
+ * which runs this again. Posts last commented on before this function was deployed have no count.
+ */
+export const syncCommentCount = onDocumentWritten("posts/{postId}/comments/{commentId}", async (event) => {
+    const before = event.data?.before;
+    const after = event.data?.after;
+    if (before?.exists && after?.exists) return;
+
+    const { postId } = event.params;
+    const db = getFirestore();
+    const parentId = after?.exists ? after.get("parentId") as string | null : null;
+    if (parentId && !(await db.doc(`posts/${postId}/comments/${parentId}`).get()).exists) {
+        await after!.ref.delete();
+        return;
+    }
+
+    const post = db.doc(`posts/${postId}`);
+    const [snapshot, aggregate] = await Promise.all([post.get(), post.collection("comments").count().get()]);
+    if (!snapshot.exists) return;
+    const commentCount = aggregate.data().count;
+    if (snapshot.get("commentCount") === commentCount) return;
+    await post.update({ commentCount });
+});
@@ -0,0 +1,39 @@
+import { onDocumentWritten } from "firebase-functions/v2/firestore";
+import { logger } from "firebase-functions";
+import { sanitizeArtifactContent, sanitizePostHtml } from "./sanitize.js";
+
+/**
+ * Firestore trigger: re-sanitize post HTML on every create/update.
+ * Clients can write to `posts` directly (bypassing the TipTap editor), so anything
+ * outside the editor's schema is stripped here. Writing back the cleaned value
+ * re-triggers this function once, which is then a no-op.
+ */
+export const sanitizePostOnWrite = onDocumentWritten("posts/{postId}", async (event) => {
+    const after = event.data?.after;
+    if (!after?.exists) return;
+    const content = after.get("content");
+    if (typeof content !== "string") return;
+
+    const cleaned = sanitizePostHtml(content);
+    if (cleaned === content) return;
+
+    logger.info("Rewrote post content after sanitization", { postId: event.params.postId });
+    await after.ref.update({ content: cleaned });
+});
+
+/**
+ * Firestore trigger: restrict artifact content to allowed embeds and Storage URLs.
+ */
+export const sanitizeArtifactOnWrite = onDocumentWritten("artifacts/{artifactId}", async (event) => {
+    const after = event.data?.after;
+    if (!after?.exists) return;
+    const content = after.get("content");
+    const type = after.get("type");
+    if (typeof content !== "string" || typeof type !== "string") return;
+
+    const cleaned = sanitizeArtifactContent(type, content);
+    if (cleaned === content) return;
+
+    logger.info("Rewrote artifact content after sanitization", { artifactId: event.params.artifactId, type });
+    await after.ref.update({ content: cleaned });
+});
@@ -0,0 +1,314 @@
+/**
+ * Email: the weekly digest of new posts, "your memory was added to an exhibit" messages,
+ * and report alerts for Staff, sent through the transport in mailTransport.ts.
+ *
+ * Each user has a mailSubscriptions/{uid} document (functions only) holding a random
+ * unsubscribe token and the lists they left. Every email links to the `unsubscribe`
+ * route (`/unsubscribe` via a Hosting rewrite) with that token, and carries
+ * List-Unsubscribe headers for one-click unsubscribe. Sends are recorded in mailLog/{key}
+ * first so trigger retries do not mail anyone twice.
+ */
+import { randomBytes, timingSafeEqual } from "node:crypto";
+import { onDocumentCreated, onDocumentUpdated } from "firebase-functions/v2/firestore";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { onRequest } from "firebase-functions/v2/https";
+import { logger } from "firebase-functions";
+import { getAuth } from "firebase-admin/auth";
+import { FieldValue, getFirestore } from "firebase-admin/firestore";
+import { MAIL_SECRETS, sendMail, type MailMessage } from "./mailTransport.js";
+import {
+    appUrl,
+    digestEmail,
+    escapeHtml,
+    exhibitEmail,
+    reportAlertEmail,
+    unsubscribePage,
+    type EmailPost,
+    type RenderedEmail,
+} from "./mailTemplates.js";
+import { getDisplayName } from "./notifications.js";
+
+export type MailList = "digest" | "exhibit" | "reports";
+
+const MAIL_LISTS: MailList[] = ["digest", "exhibit", "reports"];
+
+const LIST_LABELS: Record<MailList | "all", string> = {
+    digest: "the weekly digest",
+    exhibit: "exhibit emails",
+    reports: "report alerts",
+    all: "all Tribute Board emails",
+};
+
+/** Posts shown in full in the digest; the rest are only counted */
+const DIGEST_POST_LIMIT = 10;
+
+const DIGEST_PERIOD_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** gRPC status for create() on an existing document */
+const ALREADY_EXISTS = 6;
+
+interface MailSubscription {
+    token: string;
+    unsubscribed: MailList[];
+}
+
+/**
+ * The user's subscription, creating the unsubscribe token on first use.
+ */
+async function getMailSubscription(uid: string): Promise<MailSubscription> {
+    const db = getFirestore();
+    const ref = db.doc(`mailSubscriptions/${uid}`);
+    return db.runTransaction(async (tx) => {
+        const snap = await tx.get(ref);
+        const unsubscribed = (snap.get("unsubscribed") as MailList[] | undefined) ?? [];
+        const token = snap.get("token");
+        if (typeof token === "string" && token) return { token, unsubscribed };
+
+        const created = { token: randomBytes(24).toString("base64url"), unsubscribed };
+        tx.set(ref, created, { merge: true });
+        return created;
+    });
+}
+
+function unsubscribeUrl(uid: string, token: string, list: MailList): string {
+    const params = new URLSearchParams({ uid, token, list });
+    return `${appUrl()}/unsubscribe?${params}`;
+}
+
+/**
+ * Send unless mailLog/{key} already exists. The log entry is removed again if sending fails,
+ * so a retry can try once more.
+ */
+async function sendMailOnce(key: string, message: MailMessage): Promise<void> {
+    const ref = getFirestore().doc(`mailLog/${key}`);
+    try {
+        await ref.create({ to: message.to, subject: message.subject, sentAt: Date.now() });
+    } catch (err) {
+        if ((err as { code?: number }).code === ALREADY_EXISTS) return;
+        throw err;
+    }
+    try {
+        await sendMail(message);
+    } catch (err) {
+        await ref.delete();
+        throw err;
+    }
+}
+
+/**
+ * Email one user on a list they have not left. `render` receives the user's unsubscribe URL.
+ */
+async function sendToUser(
+    uid: string,
+    email: string | undefined,
+    list: MailList,
+    key: string,
+    render: (unsubscribeUrl: string) => RenderedEmail,
+): Promise<void> {
+    if (!email) return;
+    const subscription = await getMailSubscription(uid);
+    if (subscription.unsubscribed.includes(list)) return;
+
+    const url = unsubscribeUrl(uid, subscription.token, list);
+    await sendMailOnce(key, {
+        to: email,
+        ...render(url),
+        headers: {
+            "List-Unsubscribe": `<${url}>`,
+            "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+        },
+    });
+}
+
+async function getEmail(uid: string): Promise<string | undefined> {
+    const profile = await getFirestore().doc(`users/${uid}`).get();
+    return (profile.get("email") as string | undefined) || undefined;
+}
+
+/**
+ * Every Monday, email members the posts created in the past week (hidden posts excluded).
+ */
+export const sendWeeklyDigest = onSchedule(
+    {
+        schedule: "every monday 08:00",
+        timeZone: "America/New_York",
+        timeoutSeconds: 540,
+        secrets: MAIL_SECRETS,
+    },
+    async () => {
+        const db = getFirestore();
+        const now = Date.now();
+        const since = now - DIGEST_PERIOD_MS;
+        const snap = await db.collection("posts")
+            .where("createdAt", ">=", since)
+            .orderBy("createdAt", "desc")
+            .get();
+        const posts = snap.docs.filter((doc) => doc.get("hidden") !== true && doc.get("content"));
+        if (posts.length === 0) {
+            logger.info("No new posts; skipping weekly digest");
+            return;
+        }
+
+        const names = new Map<string, string | null>();
+        const digestPosts: EmailPost[] = [];
+        for (const doc of posts.slice(0, DIGEST_POST_LIMIT)) {
+            const authorId = doc.get("authorId") as string;
+            if (!names.has(authorId)) names.set(authorId, await getDisplayName(authorId));
+            digestPosts.push({
+                id: doc.id,
+                authorName: names.get(authorId) ?? null,
+                content: doc.get("content"),
+                createdAt: doc.get("createdAt"),
+            });
+        }
+
+        const digestKey = new Date(now).toISOString().slice(0, 10);
+        const users = await db.collection("users").select("email").get();
+        let sent = 0;
+        for (const user of users.docs) {
+            try {
+                await sendToUser(user.id, user.get("email"), "digest", `digest_${digestKey}_${user.id}`,
+                    (url) => digestEmail(digestPosts, posts.length, url));
+                sent++;
+            } catch (err) {
+                logger.error("Failed to send digest", { uid: user.id, err });
+            }
+        }
+        logger.info("Weekly digest finished", { posts: posts.length, recipients: sent });
+    },
+);
+
+/**
+ * Email the author when Staff place their post in an exhibit.
+ */
+export const emailOnPostExhibit = onDocumentUpdated(
+    { document: "posts/{postId}", secrets: MAIL_SECRETS },
+    async (event) => {
+        const before = event.data?.before;
+        const after = event.data?.after;
+        const exhibitNumber = after?.get("exhibit");
+        if (typeof exhibitNumber !== "number" || exhibitNumber === before?.get("exhibit")) return;
+
+        const { postId } = event.params;
+        const authorId = after!.get("authorId") as string;
+        const [exhibits, email, authorName] = await Promise.all([
+            getFirestore().collection("exhibits").where("exhibitNumber", "==", exhibitNumber).limit(1).get(),
+            getEmail(authorId),
+            getDisplayName(authorId),
+        ]);
+        const post: EmailPost = {
+            id: postId,
+            authorName,
+            content: after!.get("content") ?? "",
+            createdAt: after!.get("createdAt"),
+        };
+        const title = (exhibits.docs[0]?.get("title") as string | undefined) ?? "";
+
+        await sendToUser(authorId, email ?? after!.get("authorEmail"), "exhibit", `exhibit_${postId}_${exhibitNumber}`,
+            (url) => exhibitEmail(post, exhibitNumber, title, url));
+    },
+);
+
+/**
+ * Alert every Staff member (highLevel claim) about a new post report.
+ */
+export const emailStaffOnReport = onDocumentCreated(
+    { document: "reports/{reportId}", secrets: MAIL_SECRETS },
+    async (event) => {
+        const report = event.data;
+        if (!report) return;
+        const { reportId } = event.params;
+
+        const post = await getFirestore().doc(`posts/${report.get("postId")}`).get();
+        if (!post.exists) return;
+        const [reporterName, authorName] = await Promise.all([
+            getDisplayName(report.get("reporterId")),
+            getDisplayName(post.get("authorId")),
+        ]);
+        const details = {
+            reason: report.get("reason") as string,
+            details: (report.get("details") as string | undefined) ?? "",
+            reporterName,
+        };
+        const emailPost: EmailPost = {
+            id: post.id,
+            authorName,
+            content: post.get("content") ?? "",
+            createdAt: post.get("createdAt"),
+        };
+
+        let pageToken: string | undefined;
+        do {
+            const page = await getAuth().listUsers(1000, pageToken);
+            for (const user of page.users.filter((u) => u.customClaims?.highLevel === true)) {
+                try {
+                    await sendToUser(user.uid, user.email, "reports", `report_${reportId}_${user.uid}`,
+                        (url) => reportAlertEmail(details, emailPost, url));
+                } catch (err) {
+                    logger.error("Failed to send report alert", { uid: user.uid, reportId, err });
+                }
+            }
+            pageToken = page.pageToken;
+        } while (pageToken);
+    },
+);
+
+function tokensMatch(expected: string, actual: string): boolean {
+    const a = Buffer.from(expected);
+    const b = Buffer.from(actual);
+    return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * GET shows a confirmation button (so link scanners do not unsubscribe anyone); POST, including
+ * RFC 8058 one-click requests from mail clients, records the unsubscribe.
+ * Query: uid, token, list ("digest" | "exhibit" | "reports" | "all").
+ */
+export const unsubscribe = onRequest(async (req, res) => {
+    res.set("Cache-Control", "no-store");
+    if (req.method !== "GET" && req.method !== "POST") {
+        res.status(405).set("Allow", "GET, POST").send("Method not allowed");
+        return;
+    }
+
+    const uid = typeof req.query.uid === "string" ? req.query.uid : "";
+    const token = typeof req.query.token === "string" ? req.query.token : "";
+    const list = typeof req.query.list === "string" ? req.query.list : "";
+    const lists = list === "all" ? MAIL_LISTS : MAIL_LISTS.filter((l) => l === list);
+    if (!uid || !token || lists.length === 0 || uid.includes("/")) {
+        res.status(400).send(unsubscribePage("Invalid link",
+            "<p>This unsubscribe link is incomplete. Use the link from the bottom of the email.</p>"));
+        return;
+    }
+
+    const ref = getFirestore().doc(`mailSubscriptions/${uid}`);
+    const snap = await ref.get();
+    const stored = snap.get("token");
+    if (typeof stored !== "string" || !tokensMatch(stored, token)) {
+        res.status(403).send(unsubscribePage("Invalid link",
+            "<p>This unsubscribe link is not valid. Use the link from the most recent email.</p>"));
+        return;
+    }
+
+    const label = LIST_LABELS[list as MailList | "all"];
+    if (req.method === "GET") {
+        const formFor = (target: string, text: string, primary: boolean) => {
+            const query = new URLSearchParams({ uid, token, list: target });
+            const style = primary ?
+                "padding:10px 18px;background:#003a70;color:#ffffff;border:none;border-radius:6px;cursor:pointer;" :
+                "padding:0;background:none;border:none;color:#003a70;text-decoration:underline;cursor:pointer;";
+            return `<form method="post" action="?${escapeHtml(query.toString())}" style="margin:0 0 12px;">`
+                + `<button type="submit" style="${style}">${escapeHtml(text)}</button></form>`;
+        };
+        res.send(unsubscribePage("Unsubscribe",
+            `<p>Stop receiving ${escapeHtml(label)}?</p>`
+            + formFor(list, "Unsubscribe", true)
+            + (list === "all" ? "" : formFor("all", `Unsubscribe from ${LIST_LABELS.all}`, false))));
+        return;
+    }
+
+    await ref.set({ unsubscribed: FieldValue.arrayUnion(...lists), updatedAt: Date.now() }, { merge: true });
+    logger.info("Unsubscribed", { uid, lists });
+    res.send(unsubscribePage("You're unsubscribed",
+        `<p>You will no longer receive ${escapeHtml(label)}. In-app notifications are not affected.</p>`));
+});
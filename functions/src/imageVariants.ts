@@ -0,0 +1,113 @@
+/**
+ * Responsive image variants: when an image lands in post-images/ or artifacts/,
+ * write resized WebP copies plus a tiny LQIP placeholder, and record them in
+ * imageVariants/{id} so clients can build `srcset` and show a blurred preview.
+ */
+import { onObjectFinalized, onObjectDeleted } from "firebase-functions/v2/storage";
+import { logger } from "firebase-functions";
+import { getFirestore } from "firebase-admin/firestore";
+import { getStorage } from "firebase-admin/storage";
+import sharp from "sharp";
+
+/** Originals under these prefixes get variants */
+const SOURCE_PREFIXES = ["post-images/", "artifacts/"];
+
+/** Variants are stored at image-variants/<original path>/<width>.webp */
+const VARIANT_PREFIX = "image-variants/";
+
+/** Target widths in pixels; only widths smaller than the original are generated */
+const VARIANT_WIDTHS = [320, 640, 1024, 1600];
+
+/** Width of the placeholder image (height follows the aspect ratio) */
+const PLACEHOLDER_WIDTH = 16;
+
+/** Animated or vector formats that resizing would break */
+const SKIPPED_TYPES = ["image/gif", "image/svg+xml"];
+
+export interface ImageVariant {
+    width: number;
+    url: string;
+}
+
+export interface ImageVariantsDoc {
+    /** Storage path of the original */
+    path: string;
+    width: number;
+    height: number;
+    /** Tiny WebP data URL, shown blurred while the real image loads */
+    placeholder: string;
+    /** Smallest first; the original is not included */
+    variants: ImageVariant[];
+    createdAt: number;
+}
+
+/**
+ * Document id for an original's variants. Storage paths contain slashes, which
+ * Firestore ids cannot, so the path is URI-encoded (the client does the same).
+ */
+export function imageVariantsId(path: string): string {
+    return encodeURIComponent(path);
+}
+
+function publicUrl(bucketName: string, path: string): string {
+    return `https://firebasestorage.googleapis.com/v0/b/${bucketName}/o/${encodeURIComponent(path)}?alt=media`;
+}
+
+function isSourceImage(path: string | undefined, contentType: string | undefined): path is string {
+    if (!path || !contentType?.startsWith("image/") || SKIPPED_TYPES.includes(contentType)) return false;
+    return SOURCE_PREFIXES.some((prefix) => path.startsWith(prefix));
+}
+
+export const generateImageVariants = onObjectFinalized(
+    { memory: "1GiB", timeoutSeconds: 120 },
+    async (event) => {
+        const { name: path, contentType } = event.data;
+        if (!isSourceImage(path, contentType)) return;
+
+        const bucket = getStorage().bucket(event.data.bucket);
+        const [original] = await bucket.file(path).download();
+
+        // Apply EXIF orientation once so every output (and the recorded size) is upright
+        const upright = await sharp(original).rotate().toBuffer({ resolveWithObject: true });
+        const { width, height } = upright.info;
+
+        const variants: ImageVariant[] = [];
+        for (const targetWidth of VARIANT_WIDTHS.filter((w) => w < width)) {
+            const variantPath = `${VARIANT_PREFIX}${path}/${targetWidth}.webp`;
+            const resized = await sharp(upright.data).resize({ width: targetWidth }).webp({ quality: 80 }).toBuffer();
+            await bucket.file(variantPath).save(resized, {
+                contentType: "image/webp",
+                metadata: { cacheControl: "public, max-age=31536000, immutable" },
+            });
+            variants.push({ width: targetWidth, url: publicUrl(bucket.name, variantPath) });
+        }
+
+        const placeholder = await sharp(upright.data)
+            .resize({ width: PLACEHOLDER_WIDTH })
+            .webp({ quality: 40 })
+            .toBuffer();
+
+        const doc: ImageVariantsDoc = {
+            path,
+            width,
+            height,
+            placeholder: `data:image/webp;base64,${placeholder.toString("base64")}`,
+            variants,
+            createdAt: Date.now(),
+        };
+        await getFirestore().collection("imageVariants").doc(imageVariantsId(path)).set(doc);
+        logger.info("Generated image variants", { path, count: variants.length });
+    },
+);
+
+/**
+ * Remove an original's variants and metadata once the original is deleted
+ * (post/artifact cleanup, the storage garbage collector, or editor removals).
+ */
+export const deleteImageVariants = onObjectDeleted(async (event) => {
+    const path = event.data.name;
+    if (!path || !SOURCE_PREFIXES.some((prefix) => path.startsWith(prefix))) return;
+
+    await getStorage().bucket(event.data.bucket).deleteFiles({ prefix: `${VARIANT_PREFIX}${path}/` });
+    await getFirestore().collection("imageVariants").doc(imageVariantsId(path)).delete();
+});
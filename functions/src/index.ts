@@ -8,32 +8,36 @@
  */
 
 import { setGlobalOptions } from "firebase-functions";
-import { onCall, HttpsError } from "firebase-functions/v2/https";
-import { getAuth } from "firebase-admin/auth";
+import { initializeApp } from "firebase-admin/app";
+
+initializeApp();
 
 // Start writing functions
 // https://firebase.google.com/docs/functions/typescript
 
 setGlobalOptions({ maxInstances: 10 });
 
-/**
- * Callable function: assign highLevel custom claim to a user.
- * Only existing high-level users can invoke this.
- */
-export const assignHighLevel = onCall(async (request) => {
-    if (!request.auth) {
-        throw new HttpsError("unauthenticated", "Must be logged in");
-    }
-    if (!request.auth.token.highLevel) {
-        throw new HttpsError(
-            "permission-denied",
-            "Only high-level users can assign this role"
-        );
-    }
-    const targetUid = request.data?.uid;
-    if (!targetUid || typeof targetUid !== "string") {
-        throw new HttpsError("invalid-argument", "uid is required");
-    }
-    await getAuth().setCustomUserClaims(targetUid, { highLevel: true });
-    return { success: true };
-});
+export { assignHighLevel, revokeHighLevel, setUserRole } from "./roles.js";
+export { sanitizePostOnWrite, sanitizeArtifactOnWrite } from "./contentSanitization.js";
+export { auditPostWrites, auditArtifactWrites } from "./auditLog.js";
+export {
+    cleanupPostFilesOnDelete,
+    cleanupArtifactFilesOnDelete,
+    collectStorageGarbage,
+    previewStorageGc,
+} from "./storageCleanup.js";
+export { generateImageVariants, deleteImageVariants } from "./imageVariants.js";
+export { deleteRepliesOnCommentDelete, syncCommentCount } from "./comments.js";
+export { syncReactionCounts } from "./reactions.js";
+export { notifyOnPostExhibit, notifyOnReaction, notifyOnComment, syncPostMentions } from "./notifications.js";
+export { sendWeeklyDigest, emailOnPostExhibit, emailStaffOnReport, unsubscribe } from "./email.js";
+export { ogPreview } from "./ogPreview.js";
+export { updatePostAnalytics, rebuildPostAnalytics, rebuildPostAnalyticsNightly } from "./analytics.js";
+export { analyzePostOnWrite } from "./sentiment.js";
+export {
+    indexPostForSearch,
+    indexArtifactForSearch,
+    indexExhibitForSearch,
+    rebuildSearchIndex,
+} from "./search.js";
+export { exportBackup } from "./backup.js";
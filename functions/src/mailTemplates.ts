@@ -0,0 +1,268 @@
+/**
+ * Email templates. Each returns subject, HTML and plain-text bodies. Post HTML is re-sanitized for
+ * mail clients: relative image and link URLs become absolute (against APP_URL), video is shown as its
+ * poster frame and audio as a note, since mail clients cannot play either.
+ */
+import sanitizeHtml from "sanitize-html";
+import { defineString } from "firebase-functions/params";
+import { plainTextExcerpt } from "./sanitize.js";
+
+const appUrlParam = defineString("APP_URL", {
+    default: "https://acptributeboard.web.app",
+    description: "Public URL of the Tribute Board, used for links and images in email",
+});
+
+/** Public site URL without a trailing slash */
+export function appUrl(): string {
+    return appUrlParam.value().replace(/\/+$/, "");
+}
+
+export interface RenderedEmail {
+    subject: string;
+    html: string;
+    text: string;
+}
+
+export interface EmailPost {
+    /** Post document id, for its permalink */
+    id: string;
+    authorName: string | null;
+    content: string;
+    createdAt: number;
+}
+
+const TEXT_ALIGN_STYLE = { "text-align": [/^(left|right|center|justify)$/] };
+
+const IMAGE_STYLE = "display:block;max-width:100%;height:auto;margin:8px 0;border-radius:6px;";
+
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+}
+
+/** `value` resolved against `base`, or "" unless it is an http(s) URL */
+export function absoluteUrl(value: string | undefined, base: string): string {
+    if (!value) return "";
+    try {
+        const url = new URL(value, `${base}/`);
+        return url.protocol === "https:" || url.protocol === "http:" ? url.toString() : "";
+    } catch {
+        return "";
+    }
+}
+
+/**
+ * Post HTML ready for an email body, with every URL absolute.
+ */
+export function renderPostHtmlForEmail(html: string, base = appUrl()): string {
+    return sanitizeHtml(html, {
+        allowedTags: [
+            "p", "h1", "h2", "h3", "h4", "h5", "h6",
+            "strong", "b", "em", "i", "s", "u", "code", "pre", "blockquote",
+            "ul", "ol", "li", "br", "hr", "a", "img",
+        ],
+        allowedAttributes: {
+            "a": ["href", "target", "rel"],
+            "img": ["src", "alt", "width", "height", "style"],
+            "ol": ["start", "type"],
+            "p": ["style"],
+            "h1": ["style"],
+            "h2": ["style"],
+            "h3": ["style"],
+            "h4": ["style"],
+            "h5": ["style"],
+            "h6": ["style"],
+        },
+        allowedStyles: {
+            "*": TEXT_ALIGN_STYLE,
+            "img": {
+                "display": [/^block$/],
+                "max-width": [/^100%$/],
+                "height": [/^auto$/],
+                "margin": [/^[\d\spx]+$/],
+                "border-radius": [/^\d+px$/],
+            },
+        },
+        allowedSchemes: ["http", "https", "mailto"],
+        allowProtocolRelative: false,
+        transformTags: {
+            a: (tagName, attribs) => ({
+                tagName,
+                attribs: {
+                    href: attribs.href?.startsWith("mailto:") ? attribs.href : absoluteUrl(attribs.href, base),
+                    target: "_blank",
+                    rel: "noopener noreferrer",
+                },
+            }),
+            img: (tagName, attribs) => ({
+                tagName,
+                attribs: { src: absoluteUrl(attribs.src, base), alt: attribs.alt ?? "", style: IMAGE_STYLE },
+            }),
+            video: (_tagName, attribs): sanitizeHtml.Tag => (attribs.poster ?
+                { tagName: "img", attribs: { src: absoluteUrl(attribs.poster, base), alt: "Video message", style: IMAGE_STYLE } } :
+                { tagName: "p", attribs: {}, text: "[Video message - open the Tribute Board to watch]" }),
+            audio: () => ({ tagName: "p", attribs: {}, text: "[Audio message - open the Tribute Board to listen]" }),
+        },
+        exclusiveFilter: (frame) => frame.tag === "img" && !frame.attribs.src,
+    });
+}
+
+function formatDate(timestamp: number): string {
+    return new Date(timestamp).toLocaleDateString("en-US", {
+        month: "long", day: "numeric", year: "numeric", timeZone: "America/New_York",
+    });
+}
+
+/**
+ * Shared layout: heading, body, a button to the board and an optional unsubscribe footer.
+ */
+function layout(options: {
+    heading: string;
+    bodyHtml: string;
+    buttonLabel: string;
+    buttonUrl: string;
+    unsubscribeUrl?: string;
+    footerNote?: string;
+}): string {
+    const footer = [
+        options.footerNote ? escapeHtml(options.footerNote) : "",
+        options.unsubscribeUrl ?
+            `<a href="${escapeHtml(options.unsubscribeUrl)}" style="color:#6c757d;">Unsubscribe</a>` :
+            "",
+    ].filter(Boolean).join("<br>");
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1"><title>${escapeHtml(options.heading)}</title></head>
+<body style="margin:0;padding:0;background:#f4f5f7;font-family:Arial,Helvetica,sans-serif;color:#212529;">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f4f5f7;"><tr><td align="center" style="padding:24px 12px;">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:600px;background:#ffffff;border-radius:8px;">
+<tr><td style="padding:24px 24px 8px;"><h1 style="margin:0;font-size:22px;color:#003a70;">${escapeHtml(options.heading)}</h1></td></tr>
+<tr><td style="padding:8px 24px;font-size:15px;line-height:1.5;">${options.bodyHtml}</td></tr>
+<tr><td style="padding:16px 24px 24px;"><a href="${escapeHtml(options.buttonUrl)}" style="display:inline-block;padding:10px 18px;background:#003a70;color:#ffffff;text-decoration:none;border-radius:6px;">${escapeHtml(options.buttonLabel)}</a></td></tr>
+</table>
+<p style="max-width:600px;margin:12px auto 0;font-size:12px;color:#6c757d;">${footer}</p>
+</td></tr></table>
+</body>
+</html>`;
+}
+
+/** Permalink page of a post (the app's `/post/:postId` route) */
+function postUrl(base: string, postId: string): string {
+    return `${base}/post/${encodeURIComponent(postId)}`;
+}
+
+function textFooter(unsubscribeUrl?: string): string {
+    return unsubscribeUrl ? `\n\n--\nUnsubscribe: ${unsubscribeUrl}` : "";
+}
+
+/**
+ * Weekly digest of new tribute posts. `totalCount` may exceed `posts.length` when the list was capped.
+ */
+export function digestEmail(posts: EmailPost[], totalCount: number, unsubscribeUrl: string): RenderedEmail {
+    const base = appUrl();
+    const subject = totalCount === 1 ?
+        "1 new tribute on the ACP Tribute Board this week" :
+        `${totalCount} new tributes on the ACP Tribute Board this week`;
+
+    const items = posts.map((post) => {
+        const byline = `${escapeHtml(post.authorName || "A colleague")} &middot; ${formatDate(post.createdAt)}`;
+        return `<div style="border-top:1px solid #dee2e6;padding:16px 0;">
+<p style="margin:0 0 8px;font-size:13px;color:#6c757d;">${byline}</p>
+${renderPostHtmlForEmail(post.content, base)}
+<p style="margin:8px 0 0;font-size:13px;"><a href="${escapeHtml(postUrl(base, post.id))}" style="color:#003a70;">View on the board</a></p>
+</div>`;
+    }).join("\n");
+    const more = totalCount > posts.length ?
+        `<p style="color:#6c757d;">And ${totalCount - posts.length} more on the board.</p>` :
+        "";
+
+    const textItems = posts.map((post) =>
+        `- ${post.authorName || "A colleague"} (${formatDate(post.createdAt)}): ${plainTextExcerpt(post.content, 300)}\n  ${postUrl(base, post.id)}`);
+    if (totalCount > posts.length) textItems.push(`And ${totalCount - posts.length} more on the board.`);
+
+    return {
+        subject,
+        html: layout({
+            heading: "New tributes this week",
+            bodyHtml: `${items}\n${more}`,
+            buttonLabel: "Visit the Tribute Board",
+            buttonUrl: base,
+            unsubscribeUrl,
+            footerNote: "You receive this weekly digest as a member of the ACP Tribute Board.",
+        }),
+        text: `New tributes this week\n\n${textItems.join("\n\n")}\n\nVisit the Tribute Board: ${base}${textFooter(unsubscribeUrl)}`,
+    };
+}
+
+export function exhibitEmail(
+    post: EmailPost,
+    exhibitNumber: number,
+    exhibitTitle: string,
+    unsubscribeUrl: string,
+): RenderedEmail {
+    const base = appUrl();
+    const exhibitName = exhibitTitle ? `Exhibit ${exhibitNumber}: ${exhibitTitle}` : `Exhibit ${exhibitNumber}`;
+    return {
+        subject: `Your memory was added to Exhibit ${exhibitNumber}`,
+        html: layout({
+            heading: `Your memory was added to ${exhibitName}`,
+            bodyHtml: `<p>Staff have placed your post in <strong>${escapeHtml(exhibitName)}</strong>. Thank you for sharing it.</p>
+<div style="border-left:3px solid #dee2e6;padding-left:12px;">${renderPostHtmlForEmail(post.content, base)}</div>`,
+            buttonLabel: "View your post",
+            buttonUrl: postUrl(base, post.id),
+            unsubscribeUrl,
+        }),
+        text: `Staff have placed your post in ${exhibitName}. Thank you for sharing it.\n\n`
+            + `"${plainTextExcerpt(post.content, 500)}"\n\nView your post: ${postUrl(base, post.id)}`
+            + `\nView the exhibit: ${base}/exhibit/${exhibitNumber}${textFooter(unsubscribeUrl)}`,
+    };
+}
+
+export function reportAlertEmail(
+    report: { reason: string; details: string; reporterName: string | null },
+    post: EmailPost,
+    unsubscribeUrl: string,
+): RenderedEmail {
+    const base = appUrl();
+    const reporter = report.reporterName || "A member";
+    const details = report.details ? `<p><strong>Details:</strong> ${escapeHtml(report.details)}</p>` : "";
+    return {
+        subject: `New report on a post: ${report.reason}`,
+        html: layout({
+            heading: "A post was reported",
+            bodyHtml: `<p>${escapeHtml(reporter)} reported a post by ${escapeHtml(post.authorName || "a member")} `
+                + `as <strong>${escapeHtml(report.reason)}</strong>.</p>${details}
+<div style="border-left:3px solid #dee2e6;padding-left:12px;">${renderPostHtmlForEmail(post.content, base)}</div>
+<p style="font-size:13px;"><a href="${escapeHtml(postUrl(base, post.id))}" style="color:#003a70;">View the post</a></p>`,
+            buttonLabel: "Open the moderation queue",
+            buttonUrl: `${base}/admin`,
+            unsubscribeUrl,
+            footerNote: "You receive report alerts as Staff on the ACP Tribute Board.",
+        }),
+        text: `${reporter} reported a post by ${post.authorName || "a member"} as ${report.reason}.\n`
+            + (report.details ? `Details: ${report.details}\n` : "")
+            + `\n"${plainTextExcerpt(post.content, 500)}"\n\nView the post: ${postUrl(base, post.id)}`
+            + `\nOpen the moderation queue: ${base}/admin${textFooter(unsubscribeUrl)}`,
+    };
+}
+
+/**
+ * Small standalone page for the unsubscribe route. `bodyHtml` must already be escaped.
+ */
+export function unsubscribePage(heading: string, bodyHtml: string): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1"><meta name="robots" content="noindex"><title>${escapeHtml(heading)}</title></head>
+<body style="margin:0;padding:48px 16px;background:#f4f5f7;font-family:Arial,Helvetica,sans-serif;color:#212529;">
+<main style="max-width:480px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px;">
+<h1 style="margin-top:0;font-size:22px;color:#003a70;">${escapeHtml(heading)}</h1>
+${bodyHtml}
+<p style="margin-bottom:0;"><a href="${escapeHtml(appUrl())}">Back to the Tribute Board</a></p>
+</main>
+</body>
+</html>`;
+}
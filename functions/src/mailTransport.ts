@@ -0,0 +1,97 @@
+/**
+ * Outgoing mail. The `MAIL_TRANSPORT` parameter picks the transport at runtime:
+ *
+ * - "smtp": sends through SMTP_HOST / SMTP_PORT, authenticating as SMTP_USER with the SMTP_PASSWORD secret
+ * - "file": writes each message as an .eml file under MAIL_OUTBOX_DIR (local emulator)
+ * - "console" (default): only logs recipient and subject
+ *
+ * Functions that send mail must bind MAIL_SECRETS so the SMTP password is available. Secrets
+ * are bound at deploy time, whatever MAIL_TRANSPORT says, so SMTP_PASSWORD must exist in
+ * Secret Manager before those functions deploy; with another transport any placeholder will do.
+ */
+import { mkdir, writeFile } from "node:fs/promises";
+import { randomBytes } from "node:crypto";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import nodemailer from "nodemailer";
+import { logger } from "firebase-functions";
+import { defineInt, defineSecret, defineString } from "firebase-functions/params";
+
+const mailTransportName = defineString("MAIL_TRANSPORT", {
+    default: "console",
+    description: "Mail transport: smtp, file or console",
+});
+const smtpHost = defineString("SMTP_HOST", { default: "" });
+const smtpPort = defineInt("SMTP_PORT", { default: 587 });
+const smtpUser = defineString("SMTP_USER", { default: "" });
+const smtpPassword = defineSecret("SMTP_PASSWORD");
+const mailFrom = defineString("MAIL_FROM", { default: "ACP Tribute Board <no-reply@acptributeboard.web.app>" });
+const mailOutboxDir = defineString("MAIL_OUTBOX_DIR", { default: "" });
+
+/** Secrets to bind (`secrets: MAIL_SECRETS`) on every function that sends mail */
+export const MAIL_SECRETS = [smtpPassword];
+
+export interface MailMessage {
+    to: string;
+    subject: string;
+    html: string;
+    text: string;
+    /** Extra headers, e.g. List-Unsubscribe */
+    headers?: Record<string, string>;
+}
+
+interface MailTransport {
+    send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+function smtpTransport(): MailTransport {
+    const port = smtpPort.value();
+    const user = smtpUser.value();
+    const transporter = nodemailer.createTransport({
+        host: smtpHost.value(),
+        port,
+        secure: port === 465,
+        auth: user ? { user, pass: smtpPassword.value() } : undefined,
+    });
+    return {
+        async send(message) {
+            await transporter.sendMail(message);
+        },
+    };
+}
+
+function fileTransport(): MailTransport {
+    const dir = mailOutboxDir.value() || path.join(tmpdir(), "mail-outbox");
+    const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: "unix" });
+    return {
+        async send(message) {
+            const info = await transporter.sendMail(message);
+            await mkdir(dir, { recursive: true });
+            const file = path.join(dir, `${Date.now()}-${randomBytes(4).toString("hex")}.eml`);
+            await writeFile(file, info.message as Buffer);
+            logger.info("Wrote mail to outbox", { to: message.to, subject: message.subject, file });
+        },
+    };
+}
+
+const consoleTransport: MailTransport = {
+    async send(message) {
+        logger.info("Mail (console transport, not sent)", { to: message.to, subject: message.subject });
+    },
+};
+
+let transport: MailTransport | null = null;
+
+function getMailTransport(): MailTransport {
+    if (!transport) {
+        const name = mailTransportName.value();
+        if (name === "smtp") transport = smtpTransport();
+        else if (name === "file") transport = fileTransport();
+        else transport = consoleTransport;
+    }
+    return transport;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+    await getMailTransport().send({ ...message, from: mailFrom.value() });
+}
@@ -0,0 +1,187 @@
+/**
+ * In-app notifications, stored at notifications/{uid}/items/{itemId}.
+ *
+ * Only these triggers write items (Firestore rules deny client creates). Users mute
+ * categories through `muted` on their notifications/{uid} settings document, which
+ * is checked here before anything is written.
+ */
+import {
+    onDocumentCreated,
+    onDocumentUpdatedWithAuthContext,
+    onDocumentWritten,
+} from "firebase-functions/v2/firestore";
+import { getFirestore } from "firebase-admin/firestore";
+import { mentionedUids, plainTextExcerpt } from "./sanitize.js";
+import { actorOf } from "./auditLog.js";
+
+export type NotificationCategory = "exhibit" | "reaction" | "comment" | "mention";
+
+export interface NewNotification {
+    category: NotificationCategory;
+    postId: string;
+    /** Uid of the user who caused it, or null for system/staff actions shown without a name */
+    actorId: string | null;
+    actorName: string | null;
+    /** Post excerpt, or the comment text for comment notifications */
+    excerpt: string;
+    reaction?: string;
+    exhibitNumber?: number;
+    exhibitTitle?: string;
+    /** True when a comment notification is a reply to the recipient's comment */
+    isReply?: boolean;
+}
+
+const EXCERPT_LENGTH = 100;
+
+/** Most members one post can mention; further mentions are not stored or notified */
+const MAX_MENTIONS = 20;
+
+/** gRPC status for create() on an existing document */
+const ALREADY_EXISTS = 6;
+
+/** "First Last" from the user's profile, falling back to their email */
+export async function getDisplayName(uid: string | null): Promise<string | null> {
+    if (!uid) return null;
+    const profile = await getFirestore().doc(`users/${uid}`).get();
+    const first = (profile.get("firstName") as string | undefined)?.trim() ?? "";
+    const last = (profile.get("lastName") as string | undefined)?.trim() ?? "";
+    return [first, last].filter(Boolean).join(" ") || (profile.get("email") as string | undefined) || null;
+}
+
+/**
+ * Write a notification unless the recipient caused it or muted its category.
+ * With `itemId`, at most one notification is ever written for that id (e.g. a reaction
+ * toggled off and on again does not notify twice).
+ */
+export async function notifyUser(uid: string, notification: NewNotification, itemId?: string): Promise<void> {
+    if (!uid || notification.actorId === uid) return;
+
+    const db = getFirestore();
+    const settings = await db.doc(`notifications/${uid}`).get();
+    const muted: unknown = settings.get("muted");
+    if (Array.isArray(muted) && muted.includes(notification.category)) return;
+
+    const items = db.collection("notifications").doc(uid).collection("items");
+    const data = { ...notification, read: false, createdAt: Date.now() };
+    if (!itemId) {
+        await items.add(data);
+        return;
+    }
+    try {
+        await items.doc(itemId).create(data);
+    } catch (err) {
+        if ((err as { code?: number }).code !== ALREADY_EXISTS) throw err;
+    }
+}
+
+/**
+ * Tell the author when Staff place their post in an exhibit.
+ */
+export const notifyOnPostExhibit = onDocumentUpdatedWithAuthContext("posts/{postId}", async (event) => {
+    const before = event.data?.before;
+    const after = event.data?.after;
+    const exhibitNumber = after?.get("exhibit");
+    if (typeof exhibitNumber !== "number" || exhibitNumber === before?.get("exhibit")) return;
+
+    const exhibits = await getFirestore().collection("exhibits")
+        .where("exhibitNumber", "==", exhibitNumber).limit(1).get();
+    const actorId = actorOf(event);
+
+    await notifyUser(after!.get("authorId"), {
+        category: "exhibit",
+        postId: event.params.postId,
+        actorId,
+        actorName: null,
+        excerpt: plainTextExcerpt(after!.get("content"), EXCERPT_LENGTH),
+        exhibitNumber,
+        exhibitTitle: exhibits.docs[0]?.get("title") ?? "",
+    }, `exhibit_${event.params.postId}_${exhibitNumber}`);
+});
+
+export const notifyOnReaction = onDocumentCreated("posts/{postId}/reactions/{reactionId}", async (event) => {
+    const { postId, reactionId } = event.params;
+    const actorId = event.data?.get("userId") as string | undefined;
+    if (!actorId) return;
+
+    const post = await getFirestore().doc(`posts/${postId}`).get();
+    if (!post.exists) return;
+
+    await notifyUser(post.get("authorId"), {
+        category: "reaction",
+        postId,
+        actorId,
+        actorName: await getDisplayName(actorId),
+        excerpt: plainTextExcerpt(post.get("content"), EXCERPT_LENGTH),
+        reaction: event.data?.get("reaction"),
+    }, `reaction_${postId}_${reactionId}`);
+});
+
+/**
+ * Tell the post author about new comments, and the parent comment's author about replies.
+ */
+export const notifyOnComment = onDocumentCreated("posts/{postId}/comments/{commentId}", async (event) => {
+    const { postId } = event.params;
+    const comment = event.data;
+    const actorId = comment?.get("authorId") as string | undefined;
+    if (!comment || !actorId) return;
+
+    const db = getFirestore();
+    const parentId = comment.get("parentId") as string | null;
+    const [post, parent, actorName] = await Promise.all([
+        db.doc(`posts/${postId}`).get(),
+        parentId ? db.doc(`posts/${postId}/comments/${parentId}`).get() : Promise.resolve(null),
+        getDisplayName(actorId),
+    ]);
+    if (!post.exists) return;
+
+    const base = {
+        category: "comment" as const,
+        postId,
+        actorId,
+        actorName,
+        excerpt: plainTextExcerpt(comment.get("content"), EXCERPT_LENGTH),
+    };
+    const postAuthorId = post.get("authorId") as string;
+    const parentAuthorId = parent?.get("authorId") as string | undefined;
+
+    await notifyUser(postAuthorId, base);
+    if (parentAuthorId && parentAuthorId !== postAuthorId) {
+        await notifyUser(parentAuthorId, { ...base, isReply: true });
+    }
+});
+
+/**
+ * Keep `mentions` on a post (uids of the members it @mentions, read from the mention links
+ * in its content) in sync, and notify members when they are first mentioned. Authors cannot
+ * write `mentions` themselves; unknown uids are dropped. Writing the field back re-triggers
+ * this function once, which is then a no-op.
+ */
+export const syncPostMentions = onDocumentWritten("posts/{postId}", async (event) => {
+    const { postId } = event.params;
+    const after = event.data?.after;
+    if (!after?.exists) return;
+
+    const db = getFirestore();
+    const candidates = mentionedUids(after.get("content")).slice(0, MAX_MENTIONS);
+    const profiles = candidates.length ? await db.getAll(...candidates.map((uid) => db.doc(`users/${uid}`))) : [];
+    const mentions = profiles.filter((profile) => profile.exists).map((profile) => profile.id);
+
+    const stored: unknown = after.get("mentions");
+    if ((Array.isArray(stored) ? stored : []).join() !== mentions.join()) {
+        await after.ref.update({ mentions });
+    }
+
+    const before = new Set(mentionedUids(event.data?.before?.get("content")));
+    const added = mentions.filter((uid) => !before.has(uid));
+    if (!added.length || after.get("hidden") === true) return;
+
+    const authorId = after.get("authorId") as string;
+    const notification = {
+        category: "mention" as const,
+        postId,
+        actorId: authorId,
+        actorName: await getDisplayName(authorId),
+        excerpt: plainTextExcerpt(after.get("content"), EXCERPT_LENGTH),
+    };
+    await Promise.all(added.map((uid) => notifyUser(uid, notification, `mention_${postId}_${uid}`)));
+});
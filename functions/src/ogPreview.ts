@@ -0,0 +1,191 @@
+/**
+ * Link previews for shared URLs. The app is a client-rendered SPA, so crawlers (email clients,
+ * LinkedIn, Slack) only ever see the generic index.html. Hosting rewrites `/post/**` and
+ * `/exhibit/**` to `ogPreview`, which serves the same index.html with the item's Open Graph
+ * tags; browsers then boot the app as usual.
+ */
+import { onRequest } from "firebase-functions/v2/https";
+import { logger } from "firebase-functions";
+import { getFirestore } from "firebase-admin/firestore";
+import { decodeHtmlEntities, plainTextExcerpt } from "./sanitize.js";
+import { absoluteUrl, appUrl, escapeHtml } from "./mailTemplates.js";
+
+const SITE_NAME = "Dr. Moyer's Tribute Board";
+
+const DEFAULT_DESCRIPTION = "Memories, messages and milestones celebrating a decade of inspiring leadership at ACP.";
+
+const DESCRIPTION_LENGTH = 200;
+
+/** How long the fetched index.html is reused */
+const SHELL_TTL_MS = 10 * 60 * 1000;
+
+/** Served when index.html cannot be fetched: enough for a preview, with a link into the app */
+const FALLBACK_SHELL = `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <title>${SITE_NAME}</title>
+  </head>
+  <body>
+    <p><a href="/">Open the Tribute Board</a></p>
+  </body>
+</html>`;
+
+export interface PageMeta {
+    title: string;
+    description: string;
+    /** Absolute image URL, or "" for none */
+    image: string;
+    /** Absolute URL of the page */
+    url: string;
+    type: "article" | "website";
+}
+
+let shell: { fetchedAt: number; html: Promise<string> } | null = null;
+
+/**
+ * The deployed index.html. Hosting serves `/index.html` as a static file (rewrites only apply
+ * to paths without one), so this does not loop back into the function.
+ */
+function appShell(): Promise<string> {
+    if (!shell || Date.now() - shell.fetchedAt > SHELL_TTL_MS) {
+        const html = fetch(`${appUrl()}/index.html`).then((res) => {
+            if (!res.ok) throw new Error(`index.html responded ${res.status}`);
+            return res.text();
+        });
+        shell = { fetchedAt: Date.now(), html };
+        html.catch(() => { shell = null; });
+    }
+    return shell.html;
+}
+
+/** First image in post HTML, else the first video's poster frame, with entities such as `&amp;` decoded */
+function firstImageSrc(html: string): string | undefined {
+    const src = html.match(/<img\b[^>]*\ssrc=["']([^"']+)["']/i)?.[1]
+        ?? html.match(/<video\b[^>]*\sposter=["']([^"']+)["']/i)?.[1];
+    return src && decodeHtmlEntities(src);
+}
+
+/**
+ * `html` with its title, description and Open Graph/Twitter tags replaced by `meta`.
+ * Every value is HTML-escaped; the tags go at the end of `<head>`.
+ */
+export function injectMeta(html: string, meta: PageMeta): string {
+    const tags: Array<[string, string, string]> = [
+        ["name", "description", meta.description],
+        ["property", "og:site_name", SITE_NAME],
+        ["property", "og:type", meta.type],
+        ["property", "og:title", meta.title],
+        ["property", "og:description", meta.description],
+        ["property", "og:url", meta.url],
+        ["name", "twitter:card", meta.image ? "summary_large_image" : "summary"],
+        ["name", "twitter:title", meta.title],
+        ["name", "twitter:description", meta.description],
+    ];
+    if (meta.image) {
+        tags.push(["property", "og:image", meta.image], ["name", "twitter:image", meta.image]);
+    }
+    const head = [
+        `<title>${escapeHtml(meta.title)}</title>`,
+        ...tags.map(([attr, key, value]) => `<meta ${attr}="${key}" content="${escapeHtml(value)}" />`),
+    ].map((line) => `    ${line}\n`).join("");
+
+    return html
+        .replace(/<title>[\s\S]*?<\/title>\s*/i, "")
+        .replace(/<meta\s+(?:property="og:[^"]*"|name="(?:description|twitter:[^"]*)")[^>]*>\s*/gi, "")
+        // A replacer function, so `$` sequences in the values are not treated as patterns
+        .replace(/<\/head>/i, () => `${head}  </head>`);
+}
+
+function defaultMeta(url: string): PageMeta {
+    return { title: SITE_NAME, description: DEFAULT_DESCRIPTION, image: "", url, type: "website" };
+}
+
+/** Preview of `/post/{postId}`; null for deleted and hidden posts */
+async function postMeta(postId: string, url: string, base: string): Promise<PageMeta | null> {
+    const post = await getFirestore().collection("posts").doc(postId).get();
+    if (!post.exists || post.get("hidden") === true) return null;
+    const content = typeof post.get("content") === "string" ? post.get("content") as string : "";
+    const authorName = (post.get("authorName") as string | undefined)?.trim() || "a colleague";
+    return {
+        title: `A tribute from ${authorName} | ${SITE_NAME}`,
+        description: plainTextExcerpt(content, DESCRIPTION_LENGTH) || DEFAULT_DESCRIPTION,
+        image: absoluteUrl(firstImageSrc(content), base),
+        url,
+        type: "article",
+    };
+}
+
+/** Preview of `/exhibit/{exhibitNumber}`; null for unknown and hidden exhibits */
+async function exhibitMeta(exhibitNumber: number, url: string, base: string): Promise<PageMeta | null> {
+    const snap = await getFirestore().collection("exhibits")
+        .where("exhibitNumber", "==", exhibitNumber)
+        .limit(1)
+        .get();
+    const exhibit = snap.docs[0];
+    if (!exhibit || exhibit.get("visible") === false) return null;
+    const quote = [exhibit.get("quote"), exhibit.get("quoteAuthor")]
+        .filter((part): part is string => typeof part === "string" && part.trim() !== "")
+        .join(" ");
+    const subtitle = typeof exhibit.get("subtitle") === "string" ? exhibit.get("subtitle") as string : "";
+    return {
+        title: `Exhibit ${exhibitNumber}: ${exhibit.get("title")} | ${SITE_NAME}`,
+        description: plainTextExcerpt(subtitle || quote, DESCRIPTION_LENGTH) || DEFAULT_DESCRIPTION,
+        image: absoluteUrl(exhibit.get("backgroundImage"), base),
+        url,
+        type: "website",
+    };
+}
+
+/**
+ * Meta for a request path. Unknown items get the site defaults and `found: false`,
+ * so the response can be a 404 while the app still shows its own not-found page.
+ */
+async function metaForPath(path: string): Promise<{ meta: PageMeta; found: boolean }> {
+    const base = appUrl();
+    const url = `${base}${path}`;
+    const [, section, id, ...rest] = path.split("/");
+    let meta: PageMeta | null = null;
+    if (rest.length === 0 && id) {
+        const key = decodeURIComponent(id);
+        if (section === "post" && key && !key.includes("/")) {
+            meta = await postMeta(key, url, base);
+        } else if (section === "exhibit" && /^\d+$/.test(key)) {
+            meta = await exhibitMeta(Number(key), url, base);
+        }
+    } else if (section === "exhibit" && !id) {
+        return { meta: { ...defaultMeta(url), title: `Exhibit | ${SITE_NAME}` }, found: true };
+    }
+    return meta ? { meta, found: true } : { meta: defaultMeta(url), found: false };
+}
+
+/**
+ * HTTP function behind the `/post/**` and `/exhibit/**` hosting rewrites: index.html with
+ * per-item Open Graph tags.
+ */
+export const ogPreview = onRequest(async (req, res) => {
+    if (req.method !== "GET" && req.method !== "HEAD") {
+        res.status(405).set("Allow", "GET, HEAD").send("Method not allowed");
+        return;
+    }
+
+    let html = FALLBACK_SHELL;
+    try {
+        html = await appShell();
+    } catch (err) {
+        logger.error("Failed to fetch index.html for link preview", { err });
+    }
+
+    let result: { meta: PageMeta; found: boolean };
+    try {
+        result = await metaForPath(req.path);
+    } catch (err) {
+        logger.error("Failed to build link preview", { path: req.path, err });
+        result = { meta: defaultMeta(`${appUrl()}${req.path}`), found: false };
+    }
+
+    res.status(result.found ? 200 : 404)
+        .set("Cache-Control", result.found ? "public, max-age=300, s-maxage=600" : "public, max-age=60")
+        .type("html")
+        .send(injectMeta(html, result.meta));
+});
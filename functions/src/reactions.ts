@@ -0,0 +1,32 @@
+/**
+ * Reaction totals on the post, so pages that show them (the Exhibit page stats) need no
+ * reaction reads. Members cannot write `reactionCounts`; rules keep it read-only for authors.
+ */
+import { onDocumentWritten } from "firebase-functions/v2/firestore";
+import { getFirestore } from "firebase-admin/firestore";
+
+/** The reaction palette (REACTIONS in src/hooks/postService.ts, also checked in rules) */
+const REACTION_TYPES = ["heart", "clap", "star"];
+
+/**
+ * Keep `reactionCounts` ({ heart, clap, star }) on the post. Counts are taken from the
+ * collection rather than incremented, so retried triggers cannot make them drift. Posts last
+ * reacted to before this function was deployed have no counts.
+ */
+export const syncReactionCounts = onDocumentWritten("posts/{postId}/reactions/{reactionId}", async (event) => {
+    if (event.data?.before?.exists && event.data?.after?.exists) return;
+
+    const { postId } = event.params;
+    const post = getFirestore().doc(`posts/${postId}`);
+    const reactions = post.collection("reactions");
+    const [snapshot, counts] = await Promise.all([
+        post.get(),
+        Promise.all(REACTION_TYPES.map((type) => reactions.where("reaction", "==", type).count().get())),
+    ]);
+    if (!snapshot.exists) return;
+
+    const reactionCounts = Object.fromEntries(REACTION_TYPES.map((type, i) => [type, counts[i].data().count]));
+    const stored = snapshot.get("reactionCounts") as Record<string, unknown> | undefined;
+    if (REACTION_TYPES.every((type) => stored?.[type] === reactionCounts[type])) return;
+    await post.update({ reactionCounts });
+});
@@ -0,0 +1,144 @@
+import { onCall, HttpsError, type CallableRequest } from "firebase-functions/v2/https";
+import { logger } from "firebase-functions";
+import { getAuth } from "firebase-admin/auth";
+import { getFirestore } from "firebase-admin/firestore";
+import { writeAuditEntry } from "./auditLog.js";
+
+/** Roles stored on users/{uid}.role; 'staff' maps to the highLevel custom claim */
+export type UserRole = "staff" | "user";
+
+const ROLES: UserRole[] = ["staff", "user"];
+
+/** Returns the caller's uid */
+function requireHighLevel(request: CallableRequest): string {
+    if (!request.auth) {
+        throw new HttpsError("unauthenticated", "Must be logged in");
+    }
+    if (!request.auth.token.highLevel) {
+        throw new HttpsError(
+            "permission-denied",
+            "Only high-level users can change roles"
+        );
+    }
+    return request.auth.uid;
+}
+
+function requireUid(data: unknown): string {
+    const uid = (data as { uid?: unknown } | undefined)?.uid;
+    if (!uid || typeof uid !== "string") {
+        throw new HttpsError("invalid-argument", "uid is required");
+    }
+    return uid;
+}
+
+/**
+ * Count users holding the highLevel claim. Claims are the source of truth
+ * (staff promoted before roles were synced may still read 'user' in Firestore).
+ */
+async function countHighLevelUsers(): Promise<number> {
+    let count = 0;
+    let pageToken: string | undefined;
+    do {
+        const page = await getAuth().listUsers(1000, pageToken);
+        count += page.users.filter((u) => u.customClaims?.highLevel === true).length;
+        pageToken = page.pageToken;
+    } while (pageToken);
+    return count;
+}
+
+/**
+ * Set a user's role: updates the highLevel claim and users/{uid}.role together.
+ * If the Firestore write fails the claim change is rolled back. `roleUpdatedAt`
+ * tells the user's client to refresh its ID token (see AuthContext).
+ * Refuses to remove the last staff member: the count is checked before revoking and
+ * again afterwards, since two concurrent demotions can both pass the first check; if
+ * no staff remain the revoke is rolled back. Actual changes are recorded in the audit log.
+ */
+async function applyRole(uid: string, role: UserRole, actorId: string): Promise<void> {
+    const auth = getAuth();
+    const user = await auth.getUser(uid).catch(() => {
+        throw new HttpsError("not-found", "User not found");
+    });
+    const previousClaims = user.customClaims ?? {};
+    const wasHighLevel = previousClaims.highLevel === true;
+
+    if (role === "user" && wasHighLevel && await countHighLevelUsers() <= 1) {
+        throw new HttpsError("failed-precondition", "Cannot remove the last staff member");
+    }
+
+    const claims = { ...previousClaims };
+    if (role === "staff") {
+        claims.highLevel = true;
+    } else {
+        delete claims.highLevel;
+    }
+    await auth.setCustomUserClaims(uid, claims);
+
+    if (role === "user" && wasHighLevel) {
+        const remaining = await countHighLevelUsers().catch(async (err) => {
+            await auth.setCustomUserClaims(uid, previousClaims);
+            throw err;
+        });
+        if (remaining === 0) {
+            await auth.setCustomUserClaims(uid, previousClaims);
+            throw new HttpsError("failed-precondition", "Cannot remove the last staff member");
+        }
+    }
+
+    try {
+        await getFirestore().collection("users").doc(uid).set(
+            { role, roleUpdatedAt: Date.now() },
+            { merge: true },
+        );
+    } catch (err) {
+        await auth.setCustomUserClaims(uid, previousClaims);
+        throw err;
+    }
+    logger.info("Updated user role", { uid, role });
+
+    if (wasHighLevel !== (role === "staff")) {
+        await writeAuditEntry({
+            actorId,
+            action: role === "staff" ? "role.grant" : "role.revoke",
+            targetType: "user",
+            targetId: uid,
+            before: { role: wasHighLevel ? "staff" : "user" },
+            after: { role },
+        });
+    }
+}
+
+/**
+ * Callable function: set a user's role ('staff' or 'user').
+ * Only existing high-level users can invoke this.
+ */
+export const setUserRole = onCall(async (request) => {
+    const actorId = requireHighLevel(request);
+    const uid = requireUid(request.data);
+    const role = (request.data as { role?: unknown }).role;
+    if (typeof role !== "string" || !ROLES.includes(role as UserRole)) {
+        throw new HttpsError("invalid-argument", "role must be 'staff' or 'user'");
+    }
+    await applyRole(uid, role as UserRole, actorId);
+    return { success: true };
+});
+
+/**
+ * Callable function: assign highLevel custom claim to a user.
+ * Only existing high-level users can invoke this.
+ */
+export const assignHighLevel = onCall(async (request) => {
+    const actorId = requireHighLevel(request);
+    await applyRole(requireUid(request.data), "staff", actorId);
+    return { success: true };
+});
+
+/**
+ * Callable function: remove the highLevel custom claim from a user.
+ * Only existing high-level users can invoke this.
+ */
+export const revokeHighLevel = onCall(async (request) => {
+    const actorId = requireHighLevel(request);
+    await applyRole(requireUid(request.data), "user", actorId);
+    return { success: true };
+});
@@ -0,0 +1,267 @@
+/**
+ * HTML sanitization for user-authored content.
+ *
+ * Post HTML is cleaned against an allowlist matching the client's TipTap schema
+ * (StarterKit, TextAlign, Image, Video, Audio, Emoji, member mentions). Artifact content is either JSON (gallery,
+ * slideshow) whose URLs must point at our Storage bucket, or HTML whose iframes may
+ * only embed YouTube, Vimeo, the Office viewer, or our bucket.
+ */
+import sanitizeHtml from "sanitize-html";
+
+/** Storage buckets whose download URLs may be used for images, slides and documents */
+const STORAGE_BUCKETS = [
+    "acptributeboard.firebasestorage.app",
+    "acptributeboard.appspot.com",
+];
+
+/** Additional hosts allowed as post image sources */
+const APPROVED_IMAGE_HOSTS = ["images.unsplash.com"];
+
+const TEXT_ALIGN_STYLE = { "text-align": [/^(left|right|center|justify)$/] };
+
+function parseUrl(value: string | undefined): URL | null {
+    if (!value) return null;
+    try {
+        return new URL(value);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * True when the URL is a download URL for one of our Storage buckets
+ * (or the local Storage emulator when running under the Functions emulator).
+ */
+export function isStorageUrl(value: string | undefined): boolean {
+    const url = parseUrl(value);
+    if (!url) return false;
+    const bucketMatch = url.pathname.match(/^\/v0\/b\/([^/]+)\/o\//);
+    if (!bucketMatch || !STORAGE_BUCKETS.includes(bucketMatch[1])) return false;
+    if (url.protocol === "https:" && url.hostname === "firebasestorage.googleapis.com") return true;
+    return process.env.FUNCTIONS_EMULATOR === "true"
+        && url.protocol === "http:"
+        && (url.hostname === "127.0.0.1" || url.hostname === "localhost");
+}
+
+export function isAllowedImageSrc(value: string | undefined): boolean {
+    if (isStorageUrl(value)) return true;
+    const url = parseUrl(value);
+    return !!url && url.protocol === "https:" && APPROVED_IMAGE_HOSTS.includes(url.hostname);
+}
+
+/**
+ * Allowed embeds: YouTube/Vimeo players, the Office Online viewer wrapping one of
+ * our Storage files, or a Storage file directly (PDFs).
+ */
+export function isAllowedIframeSrc(value: string | undefined): boolean {
+    if (isStorageUrl(value)) return true;
+    const url = parseUrl(value);
+    if (!url || url.protocol !== "https:") return false;
+    switch (url.hostname) {
+    case "www.youtube.com":
+    case "youtube.com":
+    case "www.youtube-nocookie.com":
+        return /^\/embed\/[\w-]+$/.test(url.pathname);
+    case "player.vimeo.com":
+        return /^\/video\/\d+$/.test(url.pathname);
+    case "view.officeapps.live.com":
+        return url.pathname === "/op/embed.aspx" && isStorageUrl(url.searchParams.get("src") ?? undefined);
+    default:
+        return false;
+    }
+}
+
+/**
+ * Undo the entity escaping sanitize-html applies to text and attribute values
+ * (e.g. the `&amp;` between query parameters of a URL read from sanitized HTML).
+ */
+export function decodeHtmlEntities(text: string): string {
+    return text
+        .replace(/&lt;/g, "<")
+        .replace(/&gt;/g, ">")
+        .replace(/&quot;/g, "\"")
+        .replace(/&#39;/g, "'")
+        .replace(/&amp;/g, "&");
+}
+
+/**
+ * Plain text of some HTML with whitespace collapsed, cut to `maxLength` characters with an ellipsis.
+ * The result is unescaped text for display as text, never as HTML.
+ */
+export function plainTextExcerpt(html: unknown, maxLength: number): string {
+    if (typeof html !== "string") return "";
+    const text = decodeHtmlEntities(sanitizeHtml(html, { allowedTags: [], allowedAttributes: {} }))
+        .replace(/\s+/g, " ")
+        .trim();
+    return text.length > maxLength ? `${text.slice(0, maxLength)}…` : text;
+}
+
+function withSafeLinks(tagName: string, attribs: sanitizeHtml.Attributes): sanitizeHtml.Tag {
+    return {
+        tagName,
+        attribs: { ...attribs, target: "_blank", rel: "noopener noreferrer nofollow" },
+    };
+}
+
+/**
+ * Member mentions (`data-type="mention"`) link to the mentioned member's profile in the same tab;
+ * their href is rebuilt from `data-id` so it cannot point anywhere else. Other links open in a new tab.
+ */
+function postLink(tagName: string, attribs: sanitizeHtml.Attributes): sanitizeHtml.Tag {
+    if (attribs["data-type"] !== "mention") {
+        const rest = Object.fromEntries(Object.entries(attribs).filter(([name]) => !name.startsWith("data-")));
+        return withSafeLinks(tagName, rest);
+    }
+    const uid = attribs["data-id"] ?? "";
+    return {
+        tagName,
+        attribs: {
+            "data-type": "mention",
+            "data-id": uid,
+            ...(attribs["data-label"] ? { "data-label": attribs["data-label"] } : {}),
+            "data-mention-suggestion-char": "@",
+            "href": `/members/${encodeURIComponent(uid)}`,
+            "class": "mention",
+        },
+    };
+}
+
+/**
+ * Uids of the members mentioned in (sanitized) post HTML, in order of first mention.
+ */
+export function mentionedUids(html: unknown): string[] {
+    if (typeof html !== "string") return [];
+    const uids = new Set<string>();
+    for (const [tag] of html.matchAll(/<a\s[^>]*data-type="mention"[^>]*>/g)) {
+        const uid = tag.match(/\sdata-id="([^"]+)"/)?.[1];
+        if (uid) uids.add(uid);
+    }
+    return [...uids];
+}
+
+const POST_OPTIONS: sanitizeHtml.IOptions = {
+    allowedTags: [
+        "p", "h1", "h2", "h3", "h4", "h5", "h6",
+        "strong", "b", "em", "i", "s", "u", "code", "pre", "blockquote",
+        "ul", "ol", "li", "br", "hr", "a", "img", "video", "audio", "span",
+    ],
+    allowedAttributes: {
+        "a": [
+            "href", "target", "rel",
+            { name: "data-type", multiple: false, values: ["mention"] },
+            "data-id", "data-label", "data-mention-suggestion-char",
+        ],
+        "img": ["src", "alt", "title", "width", "height"],
+        "video": ["src", "poster", "controls", "preload", "playsinline"],
+        "audio": ["src", "controls", "preload"],
+        "ol": ["start", "type"],
+        "span": [{ name: "data-type", multiple: false, values: ["emoji"] }, "data-name"],
+        "p": ["style"],
+        "h1": ["style"],
+        "h2": ["style"],
+        "h3": ["style"],
+        "h4": ["style"],
+        "h5": ["style"],
+        "h6": ["style"],
+    },
+    allowedClasses: {
+        code: [/^language-[\w-]+$/],
+        a: ["mention"],
+    },
+    allowedStyles: {
+        "*": TEXT_ALIGN_STYLE,
+    },
+    allowedSchemes: ["http", "https", "mailto"],
+    allowProtocolRelative: false,
+    transformTags: {
+        a: postLink,
+    },
+    exclusiveFilter: (frame) => {
+        if (frame.tag === "img") return !isAllowedImageSrc(frame.attribs.src);
+        // Videos are uploads only; a poster from anywhere else drops the whole video
+        if (frame.tag === "video") {
+            return !isStorageUrl(frame.attribs.src)
+                || (!!frame.attribs.poster && !isStorageUrl(frame.attribs.poster));
+        }
+        if (frame.tag === "audio") return !isStorageUrl(frame.attribs.src);
+        return false;
+    },
+};
+
+const ARTIFACT_HTML_OPTIONS: sanitizeHtml.IOptions = {
+    allowedTags: ["iframe", "div", "a", "p", "br", "strong", "em"],
+    allowedAttributes: {
+        iframe: [
+            "src", "width", "height", "title", "frameborder", "allow", "allowfullscreen", "style",
+        ],
+        a: ["href", "target", "rel", "class"],
+        div: ["class"],
+    },
+    allowedClasses: {
+        div: [/^artifact-file-[\w-]+$/],
+        a: ["artifact-file-button"],
+    },
+    allowedStyles: {
+        iframe: { border: [/^none$/] },
+    },
+    allowedSchemes: ["https"],
+    allowProtocolRelative: false,
+    transformTags: {
+        a: withSafeLinks,
+    },
+    exclusiveFilter: (frame) => {
+        if (frame.tag === "iframe") return !isAllowedIframeSrc(frame.attribs.src);
+        if (frame.tag === "a") return !isStorageUrl(frame.attribs.href);
+        return false;
+    },
+};
+
+/** Emit void elements as `<br>` rather than `<br />`, matching TipTap's getHTML() output */
+function unselfClose(html: string): string {
+    return html.replace(/<(img|br|hr)([^>]*?) \/>/g, "<$1$2>");
+}
+
+/**
+ * Clean post HTML: strips scripts, event handlers, unknown tags/attributes,
+ * and images whose src is not our bucket or an approved host.
+ */
+export function sanitizePostHtml(html: string): string {
+    return unselfClose(sanitizeHtml(html, POST_OPTIONS));
+}
+
+/**
+ * Clean artifact content by type. Gallery/slideshow JSON keeps only Storage URLs
+ * (non-numeric layout fields are dropped); video/document HTML only keeps allowed embeds.
+ */
+export function sanitizeArtifactContent(type: string, content: string): string {
+    if (type === "gallery" || type === "slideshow") {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(content);
+        } catch {
+            return "";
+        }
+        if (type === "slideshow") {
+            const slides = (parsed as { slides?: unknown })?.slides;
+            const urls = Array.isArray(slides) ?
+                slides.filter((s): s is string => typeof s === "string" && isStorageUrl(s)) :
+                [];
+            return urls.length ? JSON.stringify({ slides: urls }) : "";
+        }
+        const images = (parsed as { images?: unknown })?.images;
+        const cleaned = Array.isArray(images) ?
+            images
+                .filter((img): img is Record<string, unknown> =>
+                    !!img && typeof img === "object" && isStorageUrl((img as { url?: string }).url))
+                .map((img) => {
+                    const layout: Record<string, unknown> = { url: img.url };
+                    for (const key of ["x", "y", "scale", "aspect", "width", "height"]) {
+                        if (typeof img[key] === "number" && Number.isFinite(img[key])) layout[key] = img[key];
+                    }
+                    return layout;
+                }) :
+            [];
+        return cleaned.length ? JSON.stringify({ images: cleaned }) : "";
+    }
+    return unselfClose(sanitizeHtml(content, ARTIFACT_HTML_OPTIONS));
+}
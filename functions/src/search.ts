@@ -0,0 +1,233 @@
+/**
+ * Full-text search index, stored at searchIndex/{type}_{id} (no third-party search service).
+ *
+ * Each entry holds the plain text shown in results and `tokens`: the normalized words of the
+ * title, author name and text plus their prefixes, so the client can find entries with one
+ * `array-contains` query per search and check the remaining words itself. Hidden posts and
+ * hidden exhibits are removed from the index. The client (src/utils/searchText.ts) mirrors
+ * the normalization below; keep the two in sync.
+ */
+import { createHash } from "node:crypto";
+import { onDocumentWritten } from "firebase-functions/v2/firestore";
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { logger } from "firebase-functions";
+import { getFirestore, type DocumentData } from "firebase-admin/firestore";
+import { plainTextExcerpt } from "./sanitize.js";
+import { getDisplayName } from "./notifications.js";
+
+export type SearchEntryType = "post" | "artifact" | "exhibit";
+
+export interface SearchEntry {
+    type: SearchEntryType;
+    /** Id of the indexed post, artifact or exhibit document */
+    refId: string;
+    /** Artifact or exhibit title; empty for posts */
+    title: string;
+    /** Plain text shown in result snippets */
+    text: string;
+    /** Post author; null for artifacts and exhibits */
+    authorId: string | null;
+    authorName: string | null;
+    /** Exhibit number the entry belongs to, or null for posts not placed in an exhibit */
+    exhibit: number | null;
+    createdAt: number;
+    tokens: string[];
+    /** Hash of the fields above, so unchanged entries are not rewritten */
+    hash: string;
+}
+
+const INDEX_COLLECTION = "searchIndex";
+
+/** Longest text stored per entry; longer posts are searchable by their beginning */
+const MAX_TEXT_LENGTH = 5000;
+
+/** Words are indexed by their prefixes from this length, so "lead" finds "leadership" */
+export const MIN_PREFIX_LENGTH = 3;
+
+/** Longer words are cut to this length (in the index and in queries alike) */
+export const MAX_WORD_LENGTH = 24;
+
+/** Most tokens stored per entry; title and author tokens come first */
+const MAX_TOKENS = 2000;
+
+export const STOPWORDS = new Set(("a an and are as at be but by for from had has have he her his i in is it its "
+    + "of on or our she so that the their them they this to was we were what when which who will with you your").split(" "));
+
+/** Lowercase, without diacritics ("Café" → "cafe") */
+export function normalizeText(text: string): string {
+    return text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+}
+
+/** Searchable words of some text, in order: letters and digits, stopwords and single characters left out */
+export function searchWords(text: string): string[] {
+    return (normalizeText(text).match(/[a-z0-9]+/g) ?? [])
+        .filter((word) => word.length >= 2 && !STOPWORDS.has(word))
+        .map((word) => word.slice(0, MAX_WORD_LENGTH));
+}
+
+/** Index tokens for some texts: every word and its prefixes of at least MIN_PREFIX_LENGTH characters */
+export function searchTokens(...texts: string[]): string[] {
+    const tokens = new Set<string>();
+    for (const word of texts.flatMap(searchWords)) {
+        if (tokens.size >= MAX_TOKENS) break;
+        for (let length = MIN_PREFIX_LENGTH; length < word.length; length++) {
+            tokens.add(word.slice(0, length));
+        }
+        tokens.add(word);
+    }
+    return [...tokens].slice(0, MAX_TOKENS);
+}
+
+function entry(fields: Omit<SearchEntry, "tokens" | "hash">): SearchEntry {
+    const tokens = searchTokens(fields.title, fields.authorName ?? "", fields.text);
+    const hash = createHash("sha1").update(JSON.stringify({ ...fields, tokens })).digest("hex");
+    return { ...fields, tokens, hash };
+}
+
+function numberOrNull(value: unknown): number | null {
+    return typeof value === "number" ? value : null;
+}
+
+/** Index entry for a post, or null when it should not be searchable */
+async function postEntry(id: string, post: DocumentData | undefined): Promise<SearchEntry | null> {
+    if (!post || post.hidden === true) return null;
+    const authorId = typeof post.authorId === "string" ? post.authorId : null;
+    const authorName = (typeof post.authorName === "string" && post.authorName.trim())
+        || await getDisplayName(authorId);
+    return entry({
+        type: "post",
+        refId: id,
+        title: "",
+        text: plainTextExcerpt(post.content, MAX_TEXT_LENGTH),
+        authorId,
+        authorName,
+        exhibit: numberOrNull(post.exhibit),
+        createdAt: numberOrNull(post.createdAt) ?? 0,
+    });
+}
+
+function artifactEntry(id: string, artifact: DocumentData | undefined): SearchEntry | null {
+    if (!artifact) return null;
+    return entry({
+        type: "artifact",
+        refId: id,
+        title: typeof artifact.title === "string" ? artifact.title : "",
+        text: plainTextExcerpt(artifact.description, MAX_TEXT_LENGTH),
+        authorId: null,
+        authorName: null,
+        exhibit: numberOrNull(artifact.exhibitId),
+        createdAt: numberOrNull(artifact.createdAt) ?? 0,
+    });
+}
+
+function exhibitEntry(id: string, exhibit: DocumentData | undefined): SearchEntry | null {
+    if (!exhibit || exhibit.visible === false) return null;
+    const text = [exhibit.subtitle, exhibit.quote, exhibit.quoteAuthor]
+        .filter((part): part is string => typeof part === "string" && part.trim() !== "")
+        .join(" ");
+    return entry({
+        type: "exhibit",
+        refId: id,
+        title: typeof exhibit.title === "string" ? exhibit.title : "",
+        text: plainTextExcerpt(text, MAX_TEXT_LENGTH),
+        authorId: null,
+        authorName: null,
+        exhibit: numberOrNull(exhibit.exhibitNumber),
+        createdAt: numberOrNull(exhibit.createdAt) ?? 0,
+    });
+}
+
+/** Write or remove one index entry; entries with an unchanged hash are left alone */
+async function writeEntry(type: SearchEntryType, id: string, value: SearchEntry | null): Promise<void> {
+    const ref = getFirestore().collection(INDEX_COLLECTION).doc(`${type}_${id}`);
+    if (!value) {
+        await ref.delete();
+        return;
+    }
+    const existing = await ref.get();
+    if (existing.get("hash") === value.hash) return;
+    await ref.set({ ...value, updatedAt: Date.now() });
+}
+
+export const indexPostForSearch = onDocumentWritten("posts/{postId}", async (event) => {
+    const { postId } = event.params;
+    await writeEntry("post", postId, await postEntry(postId, event.data?.after?.data()));
+});
+
+export const indexArtifactForSearch = onDocumentWritten("artifacts/{artifactId}", async (event) => {
+    const { artifactId } = event.params;
+    await writeEntry("artifact", artifactId, artifactEntry(artifactId, event.data?.after?.data()));
+});
+
+export const indexExhibitForSearch = onDocumentWritten("exhibits/{exhibitId}", async (event) => {
+    const { exhibitId } = event.params;
+    await writeEntry("exhibit", exhibitId, exhibitEntry(exhibitId, event.data?.after?.data()));
+});
+
+/**
+ * Recompute the whole index from posts, artifacts and exhibits, removing entries for
+ * documents that no longer exist or are no longer searchable. `failed` counts index
+ * writes that still failed after the BulkWriter's retries; a later rebuild retries them.
+ */
+async function rebuildIndex(): Promise<{ indexed: number; removed: number; failed: number }> {
+    const db = getFirestore();
+    const [posts, artifacts, exhibits, existing] = await Promise.all([
+        db.collection("posts").get(),
+        db.collection("artifacts").get(),
+        db.collection("exhibits").get(),
+        db.collection(INDEX_COLLECTION).select("hash").get(),
+    ]);
+
+    const entries = new Map<string, SearchEntry>();
+    const add = (value: SearchEntry | null) => {
+        if (value) entries.set(`${value.type}_${value.refId}`, value);
+    };
+    for (const doc of posts.docs) add(await postEntry(doc.id, doc.data()));
+    artifacts.docs.forEach((doc) => add(artifactEntry(doc.id, doc.data())));
+    exhibits.docs.forEach((doc) => add(exhibitEntry(doc.id, doc.data())));
+
+    const hashes = new Map(existing.docs.map((doc) => [doc.id, doc.get("hash") as unknown]));
+    const writer = db.bulkWriter();
+    const now = Date.now();
+    const writes: Array<Promise<void>> = [];
+    let removed = 0;
+    let failed = 0;
+    const track = (write: Promise<unknown>, id: string, onSuccess: () => void = () => undefined) => {
+        writes.push(write.then(onSuccess, (err: unknown) => {
+            failed++;
+            logger.error("Search index write failed", { id, error: err instanceof Error ? err.message : String(err) });
+        }));
+    };
+    entries.forEach((value, id) => {
+        if (hashes.get(id) !== value.hash) {
+            track(writer.set(db.collection(INDEX_COLLECTION).doc(id), { ...value, updatedAt: now }), id);
+        }
+    });
+    hashes.forEach((_hash, id) => {
+        if (!entries.has(id)) {
+            track(writer.delete(db.collection(INDEX_COLLECTION).doc(id)), id, () => { removed++; });
+        }
+    });
+    await writer.close();
+    await Promise.all(writes);
+
+    logger.info("Rebuilt search index", { indexed: entries.size, removed, failed });
+    return { indexed: entries.size, removed, failed };
+}
+
+/**
+ * Callable function: rebuild the search index now (e.g. right after deploying, to backfill,
+ * or after members change their names). Only high-level users can invoke this.
+ */
+export const rebuildSearchIndex = onCall({ timeoutSeconds: 300 }, async (request) => {
+    if (!request.auth) {
+        throw new HttpsError("unauthenticated", "Must be logged in");
+    }
+    if (!request.auth.token.highLevel) {
+        throw new HttpsError(
+            "permission-denied",
+            "Only high-level users can rebuild the search index"
+        );
+    }
+    return rebuildIndex();
+});
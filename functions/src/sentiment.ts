@@ -0,0 +1,148 @@
+/**
+ * Offline sentiment and theme analysis of post text.
+ *
+ * Scores use the bundled AFINN-165 lexicon of the `sentiment` package (no external API),
+ * adjusted for tribute messages: words of loss and medical vocabulary are common in
+ * memorials and clinical stories and should not read as hostility. The result is stored
+ * on the post as `analysis`; strongly negative posts are flagged for the moderation queue.
+ */
+import { createHash } from "node:crypto";
+import Sentiment from "sentiment";
+import { onDocumentWritten } from "firebase-functions/v2/firestore";
+import { logger } from "firebase-functions";
+import { plainTextExcerpt } from "./sanitize.js";
+
+export type SentimentLabel = "positive" | "neutral" | "negative";
+
+export interface PostAnalysis {
+    /** Sum of word scores */
+    score: number;
+    /** Score per word, roughly -5..5; what labels and charts use */
+    comparative: number;
+    label: SentimentLabel;
+    /** Most frequent meaningful words, most frequent first */
+    keywords: string[];
+    /** Company-value theme ids whose keywords appear in the text */
+    themes: string[];
+    /** Strongly negative; listed in the Admin moderation queue until Staff dismiss it */
+    flagged: boolean;
+    /** Hash of the analyzed text, so unchanged posts are not re-analyzed */
+    textHash: string;
+    analyzedAt: number;
+}
+
+/**
+ * Company-value themes matched by keyword. Keywords are matched as word prefixes
+ * ("mentor" matches "mentoring", "mentored").
+ */
+export const VALUE_THEMES: Array<{ id: string; keywords: string[] }> = [
+    { id: "advocacy", keywords: ["advoca", "policy", "policies", "congress", "legislat", "champion"] },
+    { id: "leadership", keywords: ["lead", "vision", "guid", "inspir", "steward"] },
+    { id: "inclusion", keywords: ["inclus", "divers", "equit", "equity", "belong", "welcom"] },
+    { id: "education", keywords: ["educat", "teach", "learn", "mentor", "train", "evidence", "guideline"] },
+    { id: "compassion", keywords: ["compassion", "kind", "empath", "caring", "support", "wellbeing", "well-being"] },
+    { id: "collaboration", keywords: ["collaborat", "team", "together", "partner", "colleague"] },
+    { id: "excellence", keywords: ["excellen", "quality", "rigor", "dedicat", "professional"] },
+    { id: "integrity", keywords: ["integrity", "honest", "ethic", "trust", "transparen"] },
+];
+
+/** Tribute-specific lexicon adjustments on top of AFINN-165 */
+const TRIBUTE_LEXICON: Record<string, number> = {
+    miss: 1,
+    missed: 1,
+    loss: 0,
+    lost: 0,
+    died: 0,
+    death: 0,
+    disease: 0,
+    cancer: 0,
+    sick: 0,
+    pain: 0,
+    emergency: 0,
+    crisis: 0,
+    fight: 0,
+    fighting: 0,
+    hard: 0,
+    mentor: 2,
+    mentored: 2,
+    mentoring: 2,
+};
+
+/** Labels: comparative at or beyond ±0.05 is positive/negative */
+const LABEL_THRESHOLD = 0.05;
+
+/** Posts at or below this comparative score are flagged for Staff review */
+export const STRONGLY_NEGATIVE_COMPARATIVE = -0.5;
+
+const KEYWORD_COUNT = 8;
+
+/** Longest text analyzed; longer posts are scored on their beginning */
+const MAX_TEXT_LENGTH = 20000;
+
+const STOPWORDS = new Set(("about above after again against also always because been before being below between both "
+    + "came come could did does doing down during each even ever every from further gave have having here just know "
+    + "like made make many more most much must only other over really same should some still such than that their "
+    + "them then there these they thing things this those through time times very want well went were what when "
+    + "where which while will with would year years your yours our ours we you his her hers him she he it its the "
+    + "and for are but not all any can had has was who how out one two may new now way use thank thanks").split(" "));
+
+const analyzer = new Sentiment();
+
+function tokenize(text: string): string[] {
+    return text.toLowerCase().match(/[a-z][a-z'-]*[a-z]/g) ?? [];
+}
+
+function topKeywords(tokens: string[]): string[] {
+    const counts = new Map<string, number>();
+    tokens
+        .filter((token) => token.length >= 4 && !STOPWORDS.has(token))
+        .forEach((token) => counts.set(token, (counts.get(token) ?? 0) + 1));
+    return [...counts.entries()]
+        .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+        .slice(0, KEYWORD_COUNT)
+        .map(([token]) => token);
+}
+
+function matchThemes(tokens: string[]): string[] {
+    return VALUE_THEMES
+        .filter((theme) => tokens.some((token) => theme.keywords.some((keyword) => token.startsWith(keyword))))
+        .map((theme) => theme.id);
+}
+
+/**
+ * Analyze plain text. Empty text scores as neutral with no keywords.
+ */
+export function analyzeText(text: string): Omit<PostAnalysis, "textHash" | "analyzedAt"> {
+    const result = analyzer.analyze(text, { extras: TRIBUTE_LEXICON });
+    const tokens = tokenize(text);
+    const comparative = Math.round(result.comparative * 1000) / 1000;
+    const label: SentimentLabel = comparative >= LABEL_THRESHOLD ? "positive" :
+        comparative <= -LABEL_THRESHOLD ? "negative" : "neutral";
+    return {
+        score: result.score,
+        comparative,
+        label,
+        keywords: topKeywords(tokens),
+        themes: matchThemes(tokens),
+        flagged: comparative <= STRONGLY_NEGATIVE_COMPARATIVE,
+    };
+}
+
+/**
+ * Firestore trigger: analyze a post's text whenever it changes and store the result on the post.
+ * The write-back re-triggers this function, which then stops at the unchanged text hash.
+ */
+export const analyzePostOnWrite = onDocumentWritten("posts/{postId}", async (event) => {
+    const after = event.data?.after;
+    if (!after?.exists) return;
+
+    const text = plainTextExcerpt(after.get("content"), MAX_TEXT_LENGTH);
+    const textHash = createHash("sha1").update(text).digest("hex");
+    if (after.get("analysis.textHash") === textHash) return;
+
+    const analysis: PostAnalysis = { ...analyzeText(text), textHash, analyzedAt: Date.now() };
+    await after.ref.update({ analysis });
+    if (analysis.flagged) {
+        logger.info("Flagged strongly negative post", { postId: event.params.postId, comparative: analysis.comparative });
+    }
+});
@@ -0,0 +1,195 @@
+/**
+ * Storage cleanup: delete a document's files when it is deleted (and a post's comments and
+ * reactions), and periodically garbage-collect uploads that no document references any more
+ * (images removed while editing, abandoned drafts, replaced artifact files).
+ */
+import { onDocumentDeleted } from "firebase-functions/v2/firestore";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { logger } from "firebase-functions";
+import { getFirestore } from "firebase-admin/firestore";
+import { getStorage } from "firebase-admin/storage";
+import { extractStoragePaths, storagePathFromUrl } from "./storageRefs.js";
+
+/** Unreferenced files younger than this are kept (uploads happen before the document is saved) */
+const GRACE_PERIOD_DAYS = 7;
+
+/**
+ * Prefixes the collector scans. Other website-images (hero image, exhibit carousel
+ * folders) are looked up by path rather than referenced from documents, so they are never collected.
+ */
+const GC_PREFIXES = ["post-images/", "post-videos/", "post-audio/", "artifacts/", "website-images/exhibits/backgrounds/"];
+
+/** Max candidates stored on a report document (keeps it well under the 1 MiB limit) */
+const REPORT_CANDIDATE_LIMIT = 500;
+
+export interface GcCandidate {
+    path: string;
+    size: number;
+    timeCreated: string;
+}
+
+export interface StorageGcReport {
+    dryRun: boolean;
+    trigger: "schedule" | "manual";
+    /** Uid of the Staff member who requested a manual run */
+    actorId: string | null;
+    startedAt: number;
+    finishedAt: number;
+    graceDays: number;
+    scannedCount: number;
+    candidateCount: number;
+    candidateBytes: number;
+    deletedCount: number;
+    /** First REPORT_CANDIDATE_LIMIT candidates, oldest first */
+    candidates: GcCandidate[];
+}
+
+/**
+ * Delete a post's files and its comments and reactions, which rules keep publicly readable
+ * and which Firestore does not remove with the post document.
+ */
+export const cleanupPostFilesOnDelete = onDocumentDeleted("posts/{postId}", async (event) => {
+    const { postId } = event.params;
+    const db = getFirestore();
+    const bucket = getStorage().bucket();
+    await Promise.all([
+        bucket.deleteFiles({ prefix: `post-images/${postId}/` }),
+        bucket.deleteFiles({ prefix: `post-videos/${postId}/` }),
+        bucket.deleteFiles({ prefix: `post-audio/${postId}/` }),
+        db.recursiveDelete(db.doc(`posts/${postId}`)),
+    ]);
+    logger.info("Deleted post files, comments and reactions", { postId });
+});
+
+export const cleanupArtifactFilesOnDelete = onDocumentDeleted("artifacts/{artifactId}", async (event) => {
+    const paths = [...artifactStoragePaths(event.data?.get("content"), event.data?.get("thumbnailUrl"))]
+        .filter((path) => path.startsWith("artifacts/"));
+    if (paths.length === 0) return;
+
+    const bucket = getStorage().bucket();
+    await Promise.all(paths.map((path) => bucket.file(path).delete({ ignoreNotFound: true })));
+    logger.info("Deleted artifact files", { artifactId: event.params.artifactId, count: paths.length });
+});
+
+/** Storage paths an artifact uses: files in its content plus its custom thumbnail */
+function artifactStoragePaths(content: unknown, thumbnailUrl: unknown): Set<string> {
+    const paths = extractStoragePaths(content);
+    const thumbnail = typeof thumbnailUrl === "string" ? storagePathFromUrl(thumbnailUrl) : null;
+    if (thumbnail) paths.add(thumbnail);
+    return paths;
+}
+
+/**
+ * Every Storage path referenced from posts, artifacts (content and thumbnail), or exhibit backgrounds.
+ */
+async function collectReferencedPaths(): Promise<Set<string>> {
+    const db = getFirestore();
+    const [posts, artifacts, exhibits] = await Promise.all([
+        db.collection("posts").select("content").get(),
+        db.collection("artifacts").select("content", "thumbnailUrl").get(),
+        db.collection("exhibits").select("backgroundImage").get(),
+    ]);
+
+    const referenced = new Set<string>();
+    for (const doc of posts.docs) {
+        extractStoragePaths(doc.get("content")).forEach((path) => referenced.add(path));
+    }
+    for (const doc of artifacts.docs) {
+        artifactStoragePaths(doc.get("content"), doc.get("thumbnailUrl")).forEach((path) => referenced.add(path));
+    }
+    for (const doc of exhibits.docs) {
+        const background = doc.get("backgroundImage");
+        const path = typeof background === "string" ? storagePathFromUrl(background) : null;
+        if (path) referenced.add(path);
+    }
+    return referenced;
+}
+
+/**
+ * Find unreferenced files older than the grace period, delete them unless `dryRun`,
+ * and store the outcome in storageGcReports.
+ */
+async function runStorageGc(
+    dryRun: boolean,
+    trigger: StorageGcReport["trigger"],
+    actorId: string | null,
+): Promise<string> {
+    const startedAt = Date.now();
+    const cutoff = startedAt - GRACE_PERIOD_DAYS * 24 * 60 * 60 * 1000;
+    const bucket = getStorage().bucket();
+    const referenced = await collectReferencedPaths();
+
+    let scannedCount = 0;
+    const candidates: GcCandidate[] = [];
+    for (const prefix of GC_PREFIXES) {
+        const [files] = await bucket.getFiles({ prefix });
+        for (const file of files) {
+            if (file.name.endsWith("/")) continue; // folder placeholder
+            scannedCount++;
+            const timeCreated = file.metadata.timeCreated ?? "";
+            if (referenced.has(file.name) || !timeCreated || Date.parse(timeCreated) > cutoff) continue;
+            candidates.push({ path: file.name, size: Number(file.metadata.size ?? 0), timeCreated });
+        }
+    }
+    candidates.sort((a, b) => a.timeCreated.localeCompare(b.timeCreated));
+
+    let deletedCount = 0;
+    if (!dryRun) {
+        for (const candidate of candidates) {
+            try {
+                await bucket.file(candidate.path).delete({ ignoreNotFound: true });
+                deletedCount++;
+            } catch (err) {
+                logger.warn("Failed to delete unreferenced file", { path: candidate.path, err });
+            }
+        }
+    }
+
+    const report: StorageGcReport = {
+        dryRun,
+        trigger,
+        actorId,
+        startedAt,
+        finishedAt: Date.now(),
+        graceDays: GRACE_PERIOD_DAYS,
+        scannedCount,
+        candidateCount: candidates.length,
+        candidateBytes: candidates.reduce((sum, c) => sum + c.size, 0),
+        deletedCount,
+        candidates: candidates.slice(0, REPORT_CANDIDATE_LIMIT),
+    };
+    const ref = await getFirestore().collection("storageGcReports").add(report);
+    logger.info("Storage garbage collection finished", {
+        reportId: ref.id, dryRun, scannedCount, candidateCount: candidates.length, deletedCount,
+    });
+    return ref.id;
+}
+
+/**
+ * Scheduled job: delete unreferenced uploads older than the grace period.
+ */
+export const collectStorageGarbage = onSchedule(
+    { schedule: "every day 03:00", timeZone: "America/New_York", timeoutSeconds: 540 },
+    async () => {
+        await runStorageGc(false, "schedule", null);
+    },
+);
+
+/**
+ * Callable function: run the collector in dry-run mode and return the report id.
+ * Only high-level users can invoke this.
+ */
+export const previewStorageGc = onCall({ timeoutSeconds: 300 }, async (request) => {
+    if (!request.auth) {
+        throw new HttpsError("unauthenticated", "Must be logged in");
+    }
+    if (!request.auth.token.highLevel) {
+        throw new HttpsError(
+            "permission-denied",
+            "Only high-level users can run storage cleanup reports"
+        );
+    }
+    const reportId = await runStorageGc(true, "manual", request.auth.uid);
+    return { reportId };
+});
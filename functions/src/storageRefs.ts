@@ -0,0 +1,44 @@
+/**
+ * Helpers for finding the Storage objects a document refers to by download URL.
+ */
+import { isStorageUrl } from "./sanitize.js";
+
+/** Download URLs in plain text, HTML, or JSON: https://<host>/v0/b/<bucket>/o/<encoded path>?... */
+const DOWNLOAD_URL_PATTERN = /https?:\/\/[^\s"'<>]+?\/v0\/b\/[^/\s"'<>]+\/o\/[^\s"'<>?&]+/g;
+
+/**
+ * Object path for one of our bucket's download URLs, or null for anything else.
+ */
+export function storagePathFromUrl(url: string): string | null {
+    if (!isStorageUrl(url)) return null;
+    const match = new URL(url).pathname.match(/\/o\/(.+)$/);
+    if (!match) return null;
+    try {
+        return decodeURIComponent(match[1]);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * All Storage object paths referenced from a document field. Also looks inside
+ * URL-encoded values, e.g. the Office viewer's `src=` parameter in document artifacts.
+ */
+export function extractStoragePaths(text: unknown): Set<string> {
+    const paths = new Set<string>();
+    if (typeof text !== "string" || !text) return paths;
+
+    const variants = [text.replace(/&amp;/g, "&")];
+    try {
+        variants.push(decodeURIComponent(variants[0]));
+    } catch {
+        // Not URL-encoded as a whole; the raw text is enough
+    }
+    for (const variant of variants) {
+        for (const match of variant.matchAll(DOWNLOAD_URL_PATTERN)) {
+            const path = storagePathFromUrl(match[0]);
+            if (path) paths.add(path);
+        }
+    }
+    return paths;
+}
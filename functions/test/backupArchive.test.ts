@@ -0,0 +1,212 @@
+import { createHash } from "node:crypto";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { getApps, initializeApp } from "firebase-admin/app";
+import { DocumentReference, GeoPoint, Timestamp, getFirestore } from "firebase-admin/firestore";
+import {
+    BACKUP_FORMAT,
+    BACKUP_VERSION,
+    checkBackup,
+    decodeValue,
+    encodeValue,
+    readManifest,
+    storageUrlRewriter,
+    type BackupFile,
+    type BackupManifest,
+} from "../src/backupArchive.js";
+
+const BUCKET = "acptributeboard.firebasestorage.app";
+const PRODUCTION_URL = `https://firebasestorage.googleapis.com/v0/b/${BUCKET}/o/post-images%2Fp1%2Fa.webp?alt=media&token=t1`;
+
+function manifest(extra: Partial<BackupManifest> = {}): BackupManifest {
+    return {
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        createdAt: "2026-10-19T08:00:00.000Z",
+        projectId: "acptributeboard",
+        bucket: BUCKET,
+        storageOrigin: "https://firebasestorage.googleapis.com",
+        documents: [],
+        authUsers: [],
+        carousels: {},
+        files: [],
+        dangling: [],
+        ...extra,
+    };
+}
+
+beforeAll(() => {
+    // decodeValue turns reference tags into DocumentReferences of the default app
+    if (getApps().length === 0) initializeApp({ projectId: "demo-acptributeboard" });
+});
+
+describe("encodeValue / decodeValue", () => {
+    it("round-trips timestamps", () => {
+        const value = new Timestamp(1_760_860_800, 123_000_000);
+        const encoded = encodeValue(value);
+        expect(encoded).toEqual({ __type: "timestamp", seconds: 1_760_860_800, nanoseconds: 123_000_000 });
+        expect((decodeValue(JSON.parse(JSON.stringify(encoded))) as Timestamp).isEqual(value)).toBe(true);
+    });
+
+    it("round-trips geopoints", () => {
+        const value = new GeoPoint(39.95, -75.16);
+        const encoded = encodeValue(value);
+        expect(encoded).toEqual({ __type: "geopoint", latitude: 39.95, longitude: -75.16 });
+        expect((decodeValue(JSON.parse(JSON.stringify(encoded))) as GeoPoint).isEqual(value)).toBe(true);
+    });
+
+    it("round-trips document references", () => {
+        const value = getFirestore().doc("posts/p1/comments/c1");
+        const encoded = encodeValue(value);
+        expect(encoded).toEqual({ __type: "reference", path: "posts/p1/comments/c1" });
+        const decoded = decodeValue(JSON.parse(JSON.stringify(encoded)));
+        expect(decoded).toBeInstanceOf(DocumentReference);
+        expect((decoded as DocumentReference).path).toBe("posts/p1/comments/c1");
+    });
+
+    it("round-trips bytes", () => {
+        const value = Buffer.from([0, 1, 2, 250, 255]);
+        const encoded = encodeValue(value);
+        expect(encoded).toEqual({ __type: "bytes", base64: "AAEC+v8=" });
+        expect(Buffer.compare(decodeValue(JSON.parse(JSON.stringify(encoded))) as Buffer, value)).toBe(0);
+    });
+
+    it("round-trips nested maps and arrays of tagged values and plain JSON", () => {
+        const data = {
+            title: "Hello",
+            count: 3,
+            hidden: false,
+            missing: null,
+            tags: ["a", "b"],
+            history: [{ at: new Timestamp(1, 2), by: getFirestore().doc("users/u1") }],
+        };
+        const decoded = decodeValue(JSON.parse(JSON.stringify(encodeValue(data)))) as typeof data;
+        expect(decoded.title).toBe("Hello");
+        expect(decoded.count).toBe(3);
+        expect(decoded.hidden).toBe(false);
+        expect(decoded.missing).toBeNull();
+        expect(decoded.tags).toEqual(["a", "b"]);
+        expect(decoded.history[0].at.isEqual(new Timestamp(1, 2))).toBe(true);
+        expect(decoded.history[0].by.path).toBe("users/u1");
+    });
+
+    it("applies the rewrite to every string, including nested ones", () => {
+        const decoded = decodeValue({ a: "x-1", b: ["x-2", { c: "x-3" }] }, (text) => text.replace("x", "y"));
+        expect(decoded).toEqual({ a: "y-1", b: ["y-2", { c: "y-3" }] });
+    });
+});
+
+describe("storageUrlRewriter", () => {
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it("does nothing when bucket and Storage host are unchanged", () => {
+        vi.stubEnv("FIREBASE_STORAGE_EMULATOR_HOST", "");
+        expect(storageUrlRewriter(manifest(), BUCKET)).toBeNull();
+    });
+
+    it("rewrites production URLs for the emulator, including URL-encoded copies", () => {
+        vi.stubEnv("FIREBASE_STORAGE_EMULATOR_HOST", "127.0.0.1:9199");
+        const rewrite = storageUrlRewriter(manifest(), "demo-acptributeboard.appspot.com");
+        expect(rewrite).not.toBeNull();
+
+        const emulatorUrl = "http://127.0.0.1:9199/v0/b/demo-acptributeboard.appspot.com/o/post-images%2Fp1%2Fa.webp?alt=media&token=t1";
+        expect(rewrite!(`<img src="${PRODUCTION_URL}">`)).toBe(`<img src="${emulatorUrl}">`);
+
+        const viewer = `https://view.officeapps.live.com/op/embed.aspx?src=${encodeURIComponent(PRODUCTION_URL)}`;
+        expect(rewrite!(viewer)).toBe(`https://view.officeapps.live.com/op/embed.aspx?src=${encodeURIComponent(emulatorUrl)}`);
+    });
+
+    it("rewrites to another project's bucket and leaves other URLs alone", () => {
+        vi.stubEnv("FIREBASE_STORAGE_EMULATOR_HOST", "");
+        const rewrite = storageUrlRewriter(manifest(), "other.firebasestorage.app")!;
+        expect(rewrite(PRODUCTION_URL)).toBe(PRODUCTION_URL.replace(BUCKET, "other.firebasestorage.app"));
+        expect(rewrite("https://images.unsplash.com/photo-1")).toBe("https://images.unsplash.com/photo-1");
+    });
+});
+
+describe("checkBackup", () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), "backup-test-"));
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    async function archive(path: string, body: string): Promise<BackupFile> {
+        const local = join(dir, "files", path);
+        await mkdir(join(local, ".."), { recursive: true });
+        await writeFile(local, body);
+        return {
+            path,
+            size: Buffer.byteLength(body),
+            contentType: "image/webp",
+            md5Hash: createHash("md5").update(body).digest("base64"),
+            downloadTokens: "t1",
+        };
+    }
+
+    it("accepts a complete backup", async () => {
+        const file = await archive("post-images/p1/a.webp", "image bytes");
+        const check = await checkBackup(dir, manifest({
+            files: [file],
+            documents: [{ path: "posts/p1", data: { content: `<img src="${PRODUCTION_URL}">` } }],
+        }));
+        expect(check).toEqual({ missingFiles: [], corruptFiles: [], dangling: [] });
+    });
+
+    it("reports missing files and the documents left dangling by them", async () => {
+        const check = await checkBackup(dir, manifest({
+            files: [{ path: "post-images/p1/a.webp", size: 1, contentType: "image/webp", md5Hash: "", downloadTokens: null }],
+            documents: [{ path: "posts/p1", data: { content: `<img src="${PRODUCTION_URL}">` } }],
+        }));
+        expect(check.missingFiles).toEqual(["post-images/p1/a.webp"]);
+        expect(check.corruptFiles).toEqual([]);
+        expect(check.dangling).toEqual([{ document: "posts/p1", path: "post-images/p1/a.webp" }]);
+    });
+
+    it("reports a file whose MD5 does not match, even at the recorded size", async () => {
+        const file = await archive("post-images/p1/a.webp", "image bytes");
+        await writeFile(join(dir, "files", file.path), "IMAGE BYTES");
+        const check = await checkBackup(dir, manifest({ files: [file] }));
+        expect(check.corruptFiles).toEqual(["post-images/p1/a.webp"]);
+        expect(check.missingFiles).toEqual([]);
+    });
+
+    it("reports a file with the wrong size", async () => {
+        const file = await archive("post-images/p1/a.webp", "image bytes");
+        const check = await checkBackup(dir, manifest({ files: [{ ...file, size: file.size + 1 }] }));
+        expect(check.corruptFiles).toEqual(["post-images/p1/a.webp"]);
+    });
+
+    it("refuses file paths that escape the backup folder", async () => {
+        await expect(checkBackup(dir, manifest({
+            files: [{ path: "../outside.txt", size: 1, contentType: "text/plain", md5Hash: "", downloadTokens: null }],
+        }))).rejects.toThrow(/outside the backup folder/);
+    });
+});
+
+describe("readManifest", () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), "backup-test-"));
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it("refuses folders that are not backups and newer manifest versions", async () => {
+        await writeFile(join(dir, "manifest.json"), JSON.stringify({ format: "something-else", version: 1 }));
+        await expect(readManifest(dir)).rejects.toThrow(/does not contain/);
+        await writeFile(join(dir, "manifest.json"), JSON.stringify(manifest({ version: BACKUP_VERSION + 1 })));
+        await expect(readManifest(dir)).rejects.toThrow(/newer than this tool supports/);
+    });
+});
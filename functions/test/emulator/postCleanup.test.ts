@@ -0,0 +1,47 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { getApps, initializeApp } from "firebase-admin/app";
+import { getFirestore } from "firebase-admin/firestore";
+import { getStorage } from "firebase-admin/storage";
+import { cleanupPostFilesOnDelete } from "../../src/storageCleanup.js";
+
+type DeleteEvent = Parameters<typeof cleanupPostFilesOnDelete.run>[0];
+
+/**
+ * Runs against the Firestore and Storage emulators (`npm run test:emulator`); skipped by `npm test`.
+ */
+describe.skipIf(!process.env.FIRESTORE_EMULATOR_HOST)("cleanupPostFilesOnDelete", () => {
+    beforeAll(() => {
+        if (getApps().length === 0) {
+            initializeApp({ projectId: "demo-acptributeboard", storageBucket: "demo-acptributeboard.appspot.com" });
+        }
+    });
+
+    it("deletes the post's comments, reactions and files, and nothing of other posts", async () => {
+        const db = getFirestore();
+        const bucket = getStorage().bucket();
+        await Promise.all([
+            db.doc("posts/gone/comments/c1").set({ authorId: "u1", content: "Hi", parentId: null }),
+            db.doc("posts/gone/comments/c2").set({ authorId: "u2", content: "Re", parentId: "c1" }),
+            db.doc("posts/gone/reactions/u1_heart").set({ userId: "u1", reaction: "heart" }),
+            db.doc("posts/kept").set({ authorId: "u1", content: "<p>Kept</p>" }),
+            db.doc("posts/kept/comments/c1").set({ authorId: "u1", content: "Hi", parentId: null }),
+            bucket.file("post-images/gone/a.webp").save("image"),
+            bucket.file("post-images/kept/a.webp").save("image"),
+        ]);
+
+        await cleanupPostFilesOnDelete.run({ params: { postId: "gone" }, data: undefined } as unknown as DeleteEvent);
+
+        const [comments, reactions, kept, [goneFile], [keptFile]] = await Promise.all([
+            db.collection("posts/gone/comments").get(),
+            db.collection("posts/gone/reactions").get(),
+            db.collection("posts/kept/comments").get(),
+            bucket.file("post-images/gone/a.webp").exists(),
+            bucket.file("post-images/kept/a.webp").exists(),
+        ]);
+        expect(comments.size).toBe(0);
+        expect(reactions.size).toBe(0);
+        expect(kept.size).toBe(1);
+        expect(goneFile).toBe(false);
+        expect(keptFile).toBe(true);
+    });
+});
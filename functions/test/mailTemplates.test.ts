@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+    absoluteUrl,
+    digestEmail,
+    escapeHtml,
+    exhibitEmail,
+    renderPostHtmlForEmail,
+    reportAlertEmail,
+    type EmailPost,
+} from "../src/mailTemplates.js";
+
+const BASE = "https://board.example";
+const UNSUBSCRIBE = `${BASE}/unsubscribe?uid=u1&token=t0k&list=digest`;
+
+function post(content: string, extra: Partial<EmailPost> = {}): EmailPost {
+    return { id: "p1", authorName: "Ann", content, createdAt: Date.UTC(2026, 1, 2, 15), ...extra };
+}
+
+beforeEach(() => {
+    vi.stubEnv("APP_URL", `${BASE}/`);
+});
+
+afterEach(() => {
+    vi.unstubAllEnvs();
+});
+
+describe("absoluteUrl", () => {
+    it("resolves relative URLs against the base", () => {
+        expect(absoluteUrl("/post/p1", BASE)).toBe(`${BASE}/post/p1`);
+        expect(absoluteUrl("images/a.png", BASE)).toBe(`${BASE}/images/a.png`);
+        expect(absoluteUrl("https://cdn.example/a.png", BASE)).toBe("https://cdn.example/a.png");
+    });
+
+    it("rejects missing and non-http(s) URLs", () => {
+        expect(absoluteUrl(undefined, BASE)).toBe("");
+        expect(absoluteUrl("javascript:alert(1)", BASE)).toBe("");
+        expect(absoluteUrl("data:image/png;base64,AAAA", BASE)).toBe("");
+    });
+});
+
+describe("renderPostHtmlForEmail", () => {
+    it("makes image and link URLs absolute", () => {
+        const html = renderPostHtmlForEmail("<p><a href=\"/members/u1\">Ann</a></p><img src=\"/images/a.png\" alt=\"A\">", BASE);
+        expect(html).toContain(`href="${BASE}/members/u1"`);
+        expect(html).toContain(`src="${BASE}/images/a.png"`);
+        expect(html).toContain("alt=\"A\"");
+    });
+
+    it("keeps mailto links as they are", () => {
+        expect(renderPostHtmlForEmail("<p><a href=\"mailto:ann@example.com\">Mail</a></p>", BASE))
+            .toContain("href=\"mailto:ann@example.com\"");
+    });
+
+    it("shows a video as its poster frame, or a note without one", () => {
+        const withPoster = renderPostHtmlForEmail("<video src=\"/v.mp4\" poster=\"/v.jpg\" controls></video>", BASE);
+        expect(withPoster).toMatch(new RegExp(`^<img src="${BASE}/v.jpg" alt="Video message"`));
+        expect(withPoster).not.toContain("<video");
+
+        const withoutPoster = renderPostHtmlForEmail("<video src=\"/v.mp4\" controls></video>", BASE);
+        expect(withoutPoster).toBe("<p>[Video message - open the Tribute Board to watch]</p>");
+    });
+
+    it("replaces audio with a note", () => {
+        expect(renderPostHtmlForEmail("<audio src=\"/a.webm\" controls></audio>", BASE))
+            .toBe("<p>[Audio message - open the Tribute Board to listen]</p>");
+    });
+
+    it("drops scripts, handlers and images without a usable src", () => {
+        const html = renderPostHtmlForEmail(
+            "<p onclick=\"x()\">Hi</p><script>alert(1)</script><img src=\"javascript:alert(1)\"><iframe src=\"https://evil.example\"></iframe>",
+            BASE,
+        );
+        expect(html).toBe("<p>Hi</p>");
+    });
+});
+
+describe("email templates", () => {
+    it("escapes author names, exhibit titles and report details", () => {
+        const evil = "<img src=x onerror=alert(1)>";
+        const digest = digestEmail([post("<p>Hi</p>", { authorName: evil })], 1, UNSUBSCRIBE);
+        const exhibit = exhibitEmail(post("<p>Hi</p>"), 2, evil, UNSUBSCRIBE);
+        const report = reportAlertEmail({ reason: "spam", details: evil, reporterName: evil }, post("<p>Hi</p>"), UNSUBSCRIBE);
+        for (const { html } of [digest, exhibit, report]) {
+            expect(html).not.toContain(evil);
+            expect(html).toContain(escapeHtml(evil));
+        }
+    });
+
+    it("links posts and the unsubscribe page with absolute URLs", () => {
+        const { html, text } = digestEmail([post("<p>Hi</p>")], 3, UNSUBSCRIBE);
+        expect(html).toContain(`href="${BASE}/post/p1"`);
+        expect(html).toContain(`href="${escapeHtml(UNSUBSCRIBE)}"`);
+        expect(html).toContain("And 2 more on the board.");
+        expect(text).toContain(`${BASE}/post/p1`);
+        expect(text).toContain(`Unsubscribe: ${UNSUBSCRIBE}`);
+    });
+
+    it("gives plain-text bodies without markup", () => {
+        const { text } = exhibitEmail(post("<p>Tom &amp; Jerry <strong>rock</strong></p>"), 4, "Leadership", UNSUBSCRIBE);
+        expect(text).toContain("\"Tom & Jerry rock\"");
+        expect(text).toContain(`${BASE}/exhibit/4`);
+        expect(text).not.toMatch(/<[a-z]/i);
+    });
+});
@@ -0,0 +1,74 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { CallableRequest } from "firebase-functions/v2/https";
+import { setUserRole } from "../src/roles.js";
+
+/** In-memory custom claims standing in for Firebase Auth */
+const claims = new Map<string, Record<string, unknown>>();
+
+/** Lets other calls run between each Auth round trip, as real network calls would */
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+vi.mock("firebase-admin/auth", () => ({
+    getAuth: () => ({
+        getUser: async (uid: string) => {
+            await tick();
+            if (!claims.has(uid)) throw new Error("no user");
+            return { uid, customClaims: { ...claims.get(uid) } };
+        },
+        listUsers: async () => {
+            await tick();
+            return {
+                users: [...claims].map(([uid, c]) => ({ uid, customClaims: { ...c } })),
+                pageToken: undefined,
+            };
+        },
+        setCustomUserClaims: async (uid: string, c: Record<string, unknown>) => {
+            await tick();
+            claims.set(uid, { ...c });
+        },
+    }),
+}));
+
+vi.mock("firebase-admin/firestore", () => ({
+    getFirestore: () => ({
+        collection: () => ({ doc: () => ({ set: async () => {} }) }),
+    }),
+}));
+
+vi.mock("../src/auditLog.js", () => ({ writeAuditEntry: async () => {} }));
+
+function demote(actor: string, uid: string) {
+    return setUserRole.run({
+        auth: { uid: actor, token: { highLevel: true } },
+        data: { uid, role: "user" },
+    } as unknown as CallableRequest);
+}
+
+const staffCount = () => [...claims.values()].filter((c) => c.highLevel === true).length;
+
+describe("setUserRole", () => {
+    beforeEach(() => {
+        claims.clear();
+        claims.set("a", { highLevel: true });
+        claims.set("b", { highLevel: true });
+        claims.set("m", {});
+    });
+
+    it("demotes a staff member while another remains", async () => {
+        await expect(demote("a", "b")).resolves.toEqual({ success: true });
+        expect(claims.get("b")).toEqual({});
+        expect(staffCount()).toBe(1);
+    });
+
+    it("refuses to demote the last staff member", async () => {
+        claims.set("b", {});
+        await expect(demote("a", "a")).rejects.toThrow("Cannot remove the last staff member");
+        expect(claims.get("a")).toEqual({ highLevel: true });
+    });
+
+    it("never leaves zero staff when two demotions race", async () => {
+        const results = await Promise.allSettled([demote("a", "b"), demote("b", "a")]);
+        expect(results.some((r) => r.status === "rejected")).toBe(true);
+        expect(staffCount()).toBeGreaterThanOrEqual(1);
+    });
+});
@@ -0,0 +1,209 @@
+import { describe, expect, it } from "vitest";
+import { decodeHtmlEntities, sanitizeArtifactContent, sanitizePostHtml } from "../src/sanitize.js";
+
+const BUCKET = "acptributeboard.firebasestorage.app";
+
+/** A download URL for an object in our bucket */
+function storageUrl(path: string, bucket = BUCKET): string {
+    return `https://firebasestorage.googleapis.com/v0/b/${bucket}/o/${encodeURIComponent(path)}?alt=media&token=abc`;
+}
+
+const IMAGE = storageUrl("post-images/p1/photo.webp");
+const VIDEO = storageUrl("post-videos/p1/clip.mp4");
+const POSTER = storageUrl("post-videos/p1/clip.jpg");
+const DOCUMENT = storageUrl("artifacts/exhibit-1/report.pdf");
+
+describe("sanitizePostHtml", () => {
+    it("removes script tags and their content", () => {
+        const html = sanitizePostHtml("<p>Hello</p><script>alert(document.cookie)</script><p>world</p>");
+        expect(html).toBe("<p>Hello</p><p>world</p>");
+    });
+
+    it("strips event handler attributes", () => {
+        const html = sanitizePostHtml(`<p onclick="steal()">Hi</p><img src="${IMAGE}" onerror="alert(1)">`);
+        expect(html).not.toMatch(/onclick|onerror|alert|steal/);
+        expect(html).toContain("<p>Hi</p>");
+        expect(html).toContain("<img src=");
+    });
+
+    it("drops an image whose onerror payload rides on a foreign src", () => {
+        expect(sanitizePostHtml(`<img src="x" onerror="alert(1)">`)).toBe("");
+    });
+
+    it("removes javascript: and data: hrefs but keeps the link text", () => {
+        const html = sanitizePostHtml(
+            "<p><a href=\"javascript:alert(1)\">one</a> <a href=\"JaVaScRiPt:alert(1)\">two</a> "
+            + "<a href=\"data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==\">three</a></p>",
+        );
+        expect(html).not.toMatch(/javascript:|data:/i);
+        expect(html).toContain("one");
+        expect(html).toContain("three");
+    });
+
+    it("makes ordinary links open safely in a new tab", () => {
+        const html = sanitizePostHtml("<p><a href=\"https://example.com\" data-evil=\"1\">site</a></p>");
+        expect(html).toBe(
+            "<p><a href=\"https://example.com\" target=\"_blank\" rel=\"noopener noreferrer nofollow\">site</a></p>",
+        );
+    });
+
+    it("rebuilds mention links from data-id", () => {
+        const html = sanitizePostHtml(
+            "<p><a data-type=\"mention\" data-id=\"u 1\" data-label=\"Ann\" href=\"https://evil.example\">@Ann</a></p>",
+        );
+        expect(html).toContain("href=\"/members/u%201\"");
+        expect(html).not.toContain("evil.example");
+    });
+
+    it("keeps images from our bucket and approved hosts", () => {
+        const unsplash = "https://images.unsplash.com/photo-1?w=800";
+        const html = sanitizePostHtml(`<img src="${IMAGE}"><img src="${unsplash}">`);
+        expect(html).toContain(IMAGE.replace(/&/g, "&amp;"));
+        expect(html).toContain(unsplash);
+    });
+
+    it("drops images from foreign hosts, other buckets and data: URLs", () => {
+        const html = sanitizePostHtml(
+            "<img src=\"https://evil.example/pixel.gif\">"
+            + `<img src="${storageUrl("post-images/p1/photo.webp", "someone-else.appspot.com")}">`
+            + "<img src=\"data:image/svg+xml;base64,PHN2Zz48L3N2Zz4=\">"
+            + "<img src=\"http://firebasestorage.googleapis.com/v0/b/acptributeboard.firebasestorage.app/o/x\">",
+        );
+        expect(html).toBe("");
+    });
+
+    it("drops iframes entirely", () => {
+        expect(sanitizePostHtml("<iframe src=\"https://www.youtube.com/embed/abc\"></iframe>")).toBe("");
+    });
+
+    it("keeps uploaded videos and drops those with a foreign source or poster", () => {
+        const kept = sanitizePostHtml(`<video src="${VIDEO}" poster="${POSTER}" controls></video>`);
+        expect(kept).toContain("<video");
+        expect(sanitizePostHtml("<video src=\"https://evil.example/a.mp4\" controls></video>")).toBe("");
+        expect(sanitizePostHtml(`<video src="${VIDEO}" poster="https://evil.example/p.jpg"></video>`)).toBe("");
+    });
+
+    it("drops audio from foreign hosts", () => {
+        expect(sanitizePostHtml("<audio src=\"https://evil.example/a.mp3\" controls></audio>")).toBe("");
+    });
+
+    it("only keeps text-align styles", () => {
+        const html = sanitizePostHtml(
+            "<p style=\"text-align: center; background-image: url(https://evil.example/x)\">Hi</p>",
+        );
+        expect(html).toBe("<p style=\"text-align:center\">Hi</p>");
+    });
+
+    it("is idempotent", () => {
+        const dirty = `<p style="text-align: right">Hi <a href="https://example.com">there</a></p>`
+            + `<img src="${IMAGE}" onerror="x()"><br /><video src="${VIDEO}" poster="${POSTER}" controls></video>`
+            + "<p><a data-type=\"mention\" data-id=\"u1\" data-label=\"Ann\">@Ann</a></p><script>x()</script>";
+        const once = sanitizePostHtml(dirty);
+        expect(sanitizePostHtml(once)).toBe(once);
+    });
+});
+
+describe("sanitizeArtifactContent", () => {
+    it("keeps allowed embeds and removes scripts around them", () => {
+        const html = sanitizeArtifactContent(
+            "video",
+            "<iframe src=\"https://www.youtube.com/embed/abc123\" onload=\"alert(1)\"></iframe><script>alert(1)</script>",
+        );
+        expect(html).toBe("<iframe src=\"https://www.youtube.com/embed/abc123\"></iframe>");
+    });
+
+    it("drops iframes from foreign hosts and javascript: sources", () => {
+        expect(sanitizeArtifactContent("video", "<iframe src=\"https://evil.example/embed\"></iframe>")).toBe("");
+        expect(sanitizeArtifactContent("video", "<iframe src=\"javascript:alert(1)\"></iframe>")).toBe("");
+        expect(sanitizeArtifactContent("video", "<iframe src=\"https://www.youtube.com/watch?v=abc\"></iframe>")).toBe("");
+    });
+
+    it("keeps Office viewer embeds that wrap a bucket file", () => {
+        const src = `https://view.officeapps.live.com/op/embed.aspx?src=${encodeURIComponent(DOCUMENT)}`;
+        const html = sanitizeArtifactContent("document", `<iframe src="${src}"></iframe>`);
+        expect(html).toContain("view.officeapps.live.com/op/embed.aspx");
+        expect(html).toContain(encodeURIComponent(DOCUMENT));
+    });
+
+    it("drops Office viewer embeds that wrap a foreign file", () => {
+        const foreign = encodeURIComponent("https://evil.example/report.docx");
+        expect(sanitizeArtifactContent(
+            "document",
+            `<iframe src="https://view.officeapps.live.com/op/embed.aspx?src=${foreign}"></iframe>`,
+        )).toBe("");
+        expect(sanitizeArtifactContent(
+            "document",
+            `<iframe src="https://view.officeapps.live.com/op/view.aspx?src=${encodeURIComponent(DOCUMENT)}"></iframe>`,
+        )).toBe("");
+    });
+
+    it("keeps file links to the bucket only, opening in a new tab", () => {
+        const html = sanitizeArtifactContent(
+            "document",
+            `<a href="${DOCUMENT}" class="artifact-file-button">Open</a><a href="https://evil.example/x.pdf">Bad</a>`
+            + "<a href=\"javascript:alert(1)\">Worse</a>",
+        );
+        expect(html).toContain("artifact-file-button");
+        expect(html).toContain("rel=\"noopener noreferrer nofollow\"");
+        expect(html).not.toMatch(/evil\.example|javascript:|Bad|Worse/);
+    });
+
+    it("keeps only bucket images in gallery JSON and drops unknown fields", () => {
+        const content = JSON.stringify({
+            images: [
+                { url: IMAGE, x: 0.1, y: 0.2, scale: 1, aspect: 1.5, onload: "alert(1)" },
+                { url: "https://evil.example/a.png", x: 0, y: 0, scale: 1, aspect: 1 },
+                { url: "javascript:alert(1)", x: 0, y: 0, scale: 1, aspect: 1 },
+                { url: IMAGE, x: "0.5", y: null, scale: Infinity },
+                "not an object",
+            ],
+            script: "<script>alert(1)</script>",
+        });
+        expect(JSON.parse(sanitizeArtifactContent("gallery", content))).toEqual({
+            images: [
+                { url: IMAGE, x: 0.1, y: 0.2, scale: 1, aspect: 1.5 },
+                { url: IMAGE },
+            ],
+        });
+    });
+
+    it("keeps only bucket URLs in slideshow JSON", () => {
+        const content = JSON.stringify({
+            slides: [IMAGE, "https://evil.example/slide.png", 42, storageUrl("x", "other-bucket.appspot.com")],
+            extra: true,
+        });
+        expect(JSON.parse(sanitizeArtifactContent("slideshow", content))).toEqual({ slides: [IMAGE] });
+    });
+
+    it("empties gallery and slideshow content that is invalid or has no allowed URLs", () => {
+        expect(sanitizeArtifactContent("gallery", "<img src=x onerror=alert(1)>")).toBe("");
+        expect(sanitizeArtifactContent("slideshow", JSON.stringify({ slides: ["https://evil.example/a.png"] }))).toBe("");
+    });
+
+    it("is idempotent", () => {
+        const document = sanitizeArtifactContent(
+            "document",
+            `<div class="artifact-file-card"><a href="${DOCUMENT}" class="artifact-file-button">Open</a></div>`
+            + "<iframe src=\"https://player.vimeo.com/video/123\" style=\"border: none\" allowfullscreen></iframe>",
+        );
+        expect(sanitizeArtifactContent("document", document)).toBe(document);
+
+        const gallery = sanitizeArtifactContent("gallery", JSON.stringify({ images: [{ url: IMAGE, x: 0, y: 0 }] }));
+        expect(sanitizeArtifactContent("gallery", gallery)).toBe(gallery);
+
+        const slideshow = sanitizeArtifactContent("slideshow", JSON.stringify({ slides: [IMAGE] }));
+        expect(sanitizeArtifactContent("slideshow", slideshow)).toBe(slideshow);
+    });
+});
+
+describe("decodeHtmlEntities", () => {
+    it("recovers a URL read from a sanitized attribute", () => {
+        const src = sanitizePostHtml(`<img src="${IMAGE}">`).match(/src="([^"]+)"/)?.[1] ?? "";
+        expect(src).toContain("&amp;token=");
+        expect(decodeHtmlEntities(src)).toBe(IMAGE);
+    });
+
+    it("decodes &amp; last so escaped entities stay literal", () => {
+        expect(decodeHtmlEntities("&lt;b&gt; &quot;x&quot; &#39;y&#39; &amp;lt;")).toBe("<b> \"x\" 'y' &lt;");
+    });
+});
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import * as server from "../src/search.js";
+import * as client from "../../src/utils/searchText.js";
+
+// Queries built in the browser must produce the same words the index was built with
+const SAMPLES = [
+    "Café au lait, naïve résumé",
+    "Ångström Øresund Straße Ćevapi",
+    "Dr. Moyer's 10-year anniversary!!",
+    "e-mail: first.last@example.com — thanks :)",
+    "The leader of the team and all of us",
+    "supercalifragilisticexpialidocious pneumonoultramicroscopic",
+    "  tabs\tand\nnewlines   ",
+    "I a x 42 ok",
+    "",
+];
+
+describe("search text normalization (browser vs. index)", () => {
+    it("uses the same stopwords", () => {
+        expect([...client.STOPWORDS].sort()).toEqual([...server.STOPWORDS].sort());
+    });
+
+    it("cuts words at the same length", () => {
+        expect(client.MAX_WORD_LENGTH).toBe(server.MAX_WORD_LENGTH);
+    });
+
+    it.each(SAMPLES)("normalizes %j the same way", (text) => {
+        expect(client.normalizeText(text)).toBe(server.normalizeText(text));
+        expect(client.searchWords(text)).toEqual(server.searchWords(text));
+    });
+});
@@ -0,0 +1,9 @@
+import { defineConfig } from "vitest/config";
+
+// Unit tests for pure helpers; anything touching Firebase belongs in the emulator-backed tests/rules.
+export default defineConfig({
+    test: {
+        include: ["test/**/*.test.ts"],
+        environment: "node",
+    },
+});
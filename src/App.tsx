@@ -6,6 +6,10 @@ import Exhibit from './pages/Exhibit';
 import Login from './pages/Login';
 import Signup from './pages/Signup';
 import Admin from './pages/Admin';
+import Member from './pages/Member';
+import Search from './pages/Search';
+import PostPage from './pages/PostPage';
+import MemoryBook from './pages/MemoryBook';
 import ProtectedRoute from './components/ProtectedRoute';
 import AdminRoute from './components/AdminRoute';
 
@@ -30,6 +34,10 @@ const router = createBrowserRouter([
                 path: 'feed',
                 element: <Feed />,
             },
+            {
+                path: 'post/:postId',
+                element: <PostPage />,
+            },
             {
                 path: 'exhibit',
                 element: (
@@ -38,6 +46,30 @@ const router = createBrowserRouter([
                     </ProtectedRoute>
                 ),
             },
+            {
+                path: 'exhibit/:exhibitNumber',
+                element: (
+                    <ProtectedRoute>
+                        <Exhibit />
+                    </ProtectedRoute>
+                ),
+            },
+            {
+                path: 'members/:uid',
+                element: (
+                    <ProtectedRoute>
+                        <Member />
+                    </ProtectedRoute>
+                ),
+            },
+            {
+                path: 'search',
+                element: (
+                    <ProtectedRoute>
+                        <Search />
+                    </ProtectedRoute>
+                ),
+            },
             {
                 path: 'admin',
                 element: (
@@ -46,6 +78,14 @@ const router = createBrowserRouter([
                     </AdminRoute>
                 ),
             },
+            {
+                path: 'admin/memory-book',
+                element: (
+                    <AdminRoute>
+                        <MemoryBook />
+                    </AdminRoute>
+                ),
+            },
         ],
     },
 ]);
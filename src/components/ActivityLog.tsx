@@ -0,0 +1,176 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Card, Table, Button, Spinner, Form } from 'react-bootstrap';
+import type { QueryDocumentSnapshot } from 'firebase/firestore';
+import {
+    AUDIT_ACTIONS,
+    getAuditLogPage,
+    type AuditAction,
+    type AuditLogEntry,
+} from '../hooks/auditLogService';
+import { getDisplayName, type UserProfile } from '../utils/userProfile';
+
+const PAGE_SIZE = 25;
+
+interface ActivityLogProps {
+    /** All user profiles (already loaded by the Admin page) for the actor filter and names */
+    users: UserProfile[];
+    onError: (message: string) => void;
+}
+
+const actionLabel = (action: AuditAction) => AUDIT_ACTIONS.find(a => a.value === action)?.label ?? action;
+
+const formatDateTime = (timestamp: number) => {
+    return new Date(timestamp).toLocaleString(undefined, {
+        year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit',
+    });
+};
+
+/**
+ * One-line description of what an entry changed: the title/excerpt of the target,
+ * plus `field: before → after` for fields that differ.
+ */
+function describeChange(entry: AuditLogEntry): string {
+    const { before, after } = entry;
+    const label = (after ?? before)?.title ?? (after ?? before)?.excerpt ?? '';
+    if (!before || !after) return String(label);
+    const changes = Object.keys(after)
+        .filter(key => key !== 'excerpt' && before[key] !== after[key])
+        .map(key => `${key}: ${String(before[key] ?? '—')} → ${String(after[key] ?? '—')}`);
+    return [label, ...changes].filter(Boolean).join(' · ');
+}
+
+/**
+ * Admin **Activity** tab: pages through the audit log (newest first) with actor and action filters.
+ */
+function ActivityLog({ users, onError }: ActivityLogProps) {
+    const [actorId, setActorId] = useState('');
+    const [action, setAction] = useState<AuditAction | ''>('');
+    const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+    const [cursor, setCursor] = useState<QueryDocumentSnapshot | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [loadingMore, setLoadingMore] = useState(false);
+    /** Ignore responses for filters that are no longer selected */
+    const requestIdRef = useRef(0);
+
+    const names = new Map(users.map(user => [user.uid, getDisplayName(user)]));
+
+    const loadPage = useCallback(async (after: QueryDocumentSnapshot | null) => {
+        const requestId = ++requestIdRef.current;
+        const page = await getAuditLogPage(
+            { actorId: actorId || undefined, action: action || undefined },
+            PAGE_SIZE,
+            after,
+        );
+        if (requestId !== requestIdRef.current) return;
+        setEntries(prev => (after ? [...prev, ...page.entries] : page.entries));
+        setCursor(page.cursor);
+    }, [actorId, action]);
+
+    useEffect(() => {
+        loadPage(null)
+            .catch((err: unknown) => onError((err as { message?: string })?.message || 'Failed to load activity.'))
+            .finally(() => setLoading(false));
+    }, [loadPage, onError]);
+
+    const handleFilterChange = (update: () => void) => {
+        setLoading(true);
+        update();
+    };
+
+    const handleLoadMore = async () => {
+        if (!cursor) return;
+        setLoadingMore(true);
+        try {
+            await loadPage(cursor);
+        } catch (err: unknown) {
+            onError((err as { message?: string })?.message || 'Failed to load activity.');
+        } finally {
+            setLoadingMore(false);
+        }
+    };
+
+    return (
+        <Card>
+            <Card.Header className="d-flex flex-wrap justify-content-between align-items-center gap-2">
+                <strong>Activity</strong>
+                <div className="d-flex gap-2">
+                    <Form.Select
+                        size="sm"
+                        value={actorId}
+                        onChange={(e) => handleFilterChange(() => setActorId(e.target.value))}
+                        aria-label="Filter by user"
+                        style={{ maxWidth: '14rem' }}
+                    >
+                        <option value="">All users</option>
+                        {users.map(user => (
+                            <option key={user.uid} value={user.uid}>{getDisplayName(user)}</option>
+                        ))}
+                    </Form.Select>
+                    <Form.Select
+                        size="sm"
+                        value={action}
+                        onChange={(e) => handleFilterChange(() => setAction(e.target.value as AuditAction | ''))}
+                        aria-label="Filter by action"
+                        style={{ maxWidth: '14rem' }}
+                    >
+                        <option value="">All actions</option>
+                        {AUDIT_ACTIONS.map(a => (
+                            <option key={a.value} value={a.value}>{a.label}</option>
+                        ))}
+                    </Form.Select>
+                </div>
+            </Card.Header>
+            <Card.Body className="p-0">
+                {loading ? (
+                    <div className="d-flex justify-content-center p-4">
+                        <Spinner animation="border" size="sm" />
+                    </div>
+                ) : entries.length === 0 ? (
+                    <p className="text-muted p-3 mb-0">No activity recorded.</p>
+                ) : (
+                    <div className="table-responsive">
+                        <Table className="mb-0 align-middle small">
+                            <thead>
+                                <tr>
+                                    <th>When</th>
+                                    <th>Who</th>
+                                    <th>Action</th>
+                                    <th>Target</th>
+                                    <th>Details</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {entries.map(entry => (
+                                    <tr key={entry.id}>
+                                        <td className="text-nowrap">{formatDateTime(entry.createdAt)}</td>
+                                        <td className="text-nowrap">
+                                            {entry.actorId
+                                                ? names.get(entry.actorId) ?? entry.actorId
+                                                : <span className="text-muted">System</span>}
+                                        </td>
+                                        <td className="text-nowrap">{actionLabel(entry.action)}</td>
+                                        <td className="text-nowrap">
+                                            {entry.targetType === 'user'
+                                                ? names.get(entry.targetId) ?? entry.targetId
+                                                : <code>{entry.targetId}</code>}
+                                        </td>
+                                        <td>{describeChange(entry)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </Table>
+                    </div>
+                )}
+            </Card.Body>
+            {!loading && cursor && (
+                <Card.Footer className="text-center">
+                    <Button size="sm" variant="outline-primary" onClick={handleLoadMore} disabled={loadingMore}>
+                        {loadingMore ? <Spinner animation="border" size="sm" /> : 'Load older activity'}
+                    </Button>
+                </Card.Footer>
+            )}
+        </Card>
+    );
+}
+
+export default ActivityLog;
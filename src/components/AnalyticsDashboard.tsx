@@ -0,0 +1,317 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Card, Button, Spinner, Row, Col, Table } from 'react-bootstrap';
+import BarChart from './BarChart';
+import ChartCard from './ChartCard';
+import {
+    getMonthlyActivity,
+    getTopContributors,
+    rebuildPostAnalytics,
+    subscribeToPostAnalytics,
+    formatMonth,
+    type PostAnalytics,
+} from '../hooks/analyticsService';
+import { useExhibits } from '../hooks/useExhibits';
+import { useCompanyValues } from '../hooks/useCompanyValues';
+import { getDisplayName, type UserProfile } from '../utils/userProfile';
+
+const TOP_CONTRIBUTORS = 10;
+
+interface AnalyticsDashboardProps {
+    /** All user profiles (already loaded by the Admin page) for contributor names */
+    users: UserProfile[];
+    onError: (message: string) => void;
+}
+
+const formatDateTime = (timestamp: number) => {
+    return new Date(timestamp).toLocaleString(undefined, {
+        year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit',
+    });
+};
+
+const percent = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 100) : 0);
+
+/**
+ * Admin **Analytics** tab: post and contributor trends, exhibit distribution, top contributors,
+ * company values, media mix and the unassigned-post backlog, read from the aggregate analytics/posts document.
+ */
+function AnalyticsDashboard({ users, onError }: AnalyticsDashboardProps) {
+    const { exhibits } = useExhibits();
+    const { values: companyValues } = useCompanyValues();
+    const [analytics, setAnalytics] = useState<PostAnalytics | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [rebuilding, setRebuilding] = useState(false);
+
+    useEffect(() => {
+        const unsubscribe = subscribeToPostAnalytics(data => {
+            setAnalytics(data);
+            setLoading(false);
+        }, err => {
+            onError(err.message);
+            setLoading(false);
+        });
+        return unsubscribe;
+    }, [onError]);
+
+    const monthly = useMemo(() => (analytics ? getMonthlyActivity(analytics) : []), [analytics]);
+
+    const exhibitCounts = useMemo(() => {
+        if (!analytics) return [];
+        const byNumber = analytics.exhibits ?? {};
+        const known = exhibits.map(exhibit => ({
+            exhibitNumber: exhibit.exhibitNumber,
+            title: exhibit.title,
+            posts: Math.max(byNumber[String(exhibit.exhibitNumber)] ?? 0, 0),
+        }));
+        // Posts can reference exhibit numbers whose definition no longer exists
+        const orphaned = Object.entries(byNumber)
+            .filter(([num, posts]) => posts > 0 && !exhibits.some(e => String(e.exhibitNumber) === num))
+            .map(([num, posts]) => ({ exhibitNumber: Number(num), title: '(no longer defined)', posts }));
+        return [...known, ...orphaned];
+    }, [analytics, exhibits]);
+
+    const valueCounts = useMemo(() => {
+        if (!analytics) return [];
+        const byId = analytics.values ?? {};
+        const known = companyValues.map(value => ({
+            id: value.id,
+            label: value.label,
+            posts: Math.max(byId[value.id] ?? 0, 0),
+        }));
+        // Tags for values Staff have since removed
+        const removed = Object.entries(byId)
+            .filter(([id, posts]) => posts > 0 && !companyValues.some(v => v.id === id))
+            .map(([id, posts]) => ({ id, label: `${id} (removed)`, posts }));
+        return [...known, ...removed];
+    }, [analytics, companyValues]);
+
+    const topContributors = useMemo(() => {
+        if (!analytics) return [];
+        const profiles = new Map(users.map(user => [user.uid, user]));
+        return getTopContributors(analytics, TOP_CONTRIBUTORS).map(({ uid, posts }) => ({
+            uid,
+            posts,
+            name: profiles.has(uid) ? getDisplayName(profiles.get(uid)!) : 'Unknown user',
+        }));
+    }, [analytics, users]);
+
+    const handleRebuild = async () => {
+        setRebuilding(true);
+        try {
+            await rebuildPostAnalytics();
+        } catch (err: unknown) {
+            onError((err as { message?: string })?.message || 'Failed to rebuild analytics.');
+        } finally {
+            setRebuilding(false);
+        }
+    };
+
+    const rebuildButton = (
+        <Button size="sm" variant="outline-primary" onClick={handleRebuild} disabled={rebuilding}>
+            {rebuilding ? <Spinner animation="border" size="sm" /> : 'Recalculate'}
+        </Button>
+    );
+
+    if (loading) {
+        return (
+            <div className="d-flex justify-content-center p-4">
+                <Spinner animation="border" size="sm" />
+            </div>
+        );
+    }
+
+    if (!analytics) {
+        return (
+            <Card>
+                <Card.Body className="d-flex flex-wrap justify-content-between align-items-center gap-2">
+                    <span>Analytics have not been calculated yet.</span>
+                    {rebuildButton}
+                </Card.Body>
+            </Card>
+        );
+    }
+
+    const visible = Math.max(analytics.visiblePosts ?? 0, 0);
+    const media = analytics.media ?? { image: 0, video: 0, audio: 0, textOnly: 0 };
+    const mediaRows = [
+        { label: 'With images', value: media.image },
+        { label: 'With video', value: media.video },
+        { label: 'With audio', value: media.audio },
+        { label: 'Text only', value: media.textOnly },
+    ].map(row => ({ ...row, value: Math.max(row.value ?? 0, 0) }));
+    const contributorCount = Object.values(analytics.authors ?? {}).filter(count => count > 0).length;
+    const unassigned = Math.max(analytics.unassignedPosts ?? 0, 0);
+
+    return (
+        <>
+            <div className="d-flex flex-wrap justify-content-between align-items-center gap-2 mb-3">
+                <small className="text-muted">
+                    Updated {formatDateTime(analytics.updatedAt)}. Hidden posts are excluded from the charts.
+                </small>
+                {rebuildButton}
+            </div>
+
+            <Row xs={2} md={4} className="g-3 mb-3">
+                {[
+                    { label: 'Posts', value: visible },
+                    { label: 'Contributors', value: contributorCount },
+                    { label: 'Awaiting an exhibit', value: unassigned },
+                    { label: 'Hidden', value: Math.max(analytics.hiddenPosts ?? 0, 0) },
+                ].map(stat => (
+                    <Col key={stat.label}>
+                        <Card className="analytics-stat text-center h-100">
+                            <Card.Body>
+                                <div className="analytics-stat-number">{stat.value}</div>
+                                <div className="analytics-stat-label">{stat.label}</div>
+                            </Card.Body>
+                        </Card>
+                    </Col>
+                ))}
+            </Row>
+
+            <Row xs={1} lg={2} className="g-3">
+                <Col>
+                    <ChartCard
+                        title="Posts over time"
+                        csv={{
+                            filename: 'posts-by-month.csv',
+                            header: ['Month', 'Posts'],
+                            rows: monthly.map(m => [m.month, m.posts]),
+                        }}
+                    >
+                        <BarChart
+                            orientation="vertical"
+                            ariaLabel="Posts per month"
+                            data={monthly.map(m => ({ label: formatMonth(m.month), value: m.posts }))}
+                        />
+                    </ChartCard>
+                </Col>
+                <Col>
+                    <ChartCard
+                        title="Contributors over time"
+                        csv={{
+                            filename: 'contributors-by-month.csv',
+                            header: ['Month', 'Active contributors', 'New contributors'],
+                            rows: monthly.map(m => [m.month, m.activeContributors, m.newContributors]),
+                        }}
+                    >
+                        <BarChart
+                            orientation="vertical"
+                            ariaLabel="Active contributors per month"
+                            data={monthly.map(m => ({
+                                label: formatMonth(m.month),
+                                value: m.activeContributors,
+                                title: `${formatMonth(m.month)}: ${m.activeContributors} active, ${m.newContributors} new`,
+                            }))}
+                        />
+                        <small className="text-muted">Authors who posted each month (hover for first-time contributors).</small>
+                    </ChartCard>
+                </Col>
+                <Col>
+                    <ChartCard
+                        title="Posts per exhibit"
+                        csv={{
+                            filename: 'posts-by-exhibit.csv',
+                            header: ['Exhibit', 'Title', 'Posts'],
+                            rows: [
+                                ...exhibitCounts.map(e => [e.exhibitNumber, e.title, e.posts]),
+                                ['', 'Unassigned', unassigned],
+                            ],
+                        }}
+                    >
+                        <BarChart
+                            ariaLabel="Posts per exhibit"
+                            data={[
+                                ...exhibitCounts.map(e => ({
+                                    label: `${e.exhibitNumber}. ${e.title}`,
+                                    value: e.posts,
+                                })),
+                                { label: 'Unassigned', value: unassigned },
+                            ]}
+                        />
+                    </ChartCard>
+                </Col>
+                <Col>
+                    <ChartCard
+                        title="Posts per value"
+                        csv={{
+                            filename: 'posts-by-value.csv',
+                            header: ['Value', 'Id', 'Posts'],
+                            rows: valueCounts.map(v => [v.label, v.id, v.posts]),
+                        }}
+                    >
+                        <BarChart
+                            ariaLabel="Posts tagged with each company value"
+                            data={valueCounts.map(v => ({ label: v.label, value: v.posts }))}
+                        />
+                        <small className="text-muted">A post tagged with several values counts once for each.</small>
+                    </ChartCard>
+                </Col>
+                <Col>
+                    <ChartCard
+                        title="Top contributors"
+                        csv={{
+                            filename: 'top-contributors.csv',
+                            header: ['Name', 'User ID', 'Posts'],
+                            rows: topContributors.map(c => [c.name, c.uid, c.posts]),
+                        }}
+                    >
+                        <BarChart
+                            ariaLabel={`Top ${TOP_CONTRIBUTORS} contributors by posts`}
+                            data={topContributors.map(c => ({ label: c.name, value: c.posts }))}
+                        />
+                    </ChartCard>
+                </Col>
+                <Col>
+                    <ChartCard
+                        title="Media mix"
+                        csv={{
+                            filename: 'media-mix.csv',
+                            header: ['Type', 'Posts', 'Share of posts (%)'],
+                            rows: visible > 0 ? mediaRows.map(r => [r.label, r.value, percent(r.value, visible)]) : [],
+                        }}
+                    >
+                        <Table size="sm" className="mb-0 align-middle">
+                            <tbody>
+                                {mediaRows.map(row => (
+                                    <tr key={row.label}>
+                                        <td className="text-nowrap">{row.label}</td>
+                                        <td className="w-100">
+                                            <div className="analytics-share" title={`${row.value} of ${visible} posts`}>
+                                                <div
+                                                    className="analytics-share-bar"
+                                                    style={{ width: `${percent(row.value, visible)}%` }}
+                                                />
+                                            </div>
+                                        </td>
+                                        <td className="text-end text-nowrap">{percent(row.value, visible)}%</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </Table>
+                        <small className="text-muted">A post with both images and video counts in both rows.</small>
+                    </ChartCard>
+                </Col>
+                <Col>
+                    <ChartCard
+                        title="Unassigned backlog"
+                        csv={{
+                            filename: 'unassigned-backlog.csv',
+                            header: ['Posts awaiting an exhibit', 'Visible posts', 'Share (%)'],
+                            rows: [[unassigned, visible, percent(unassigned, visible)]],
+                        }}
+                    >
+                        <div className="analytics-stat-number">{unassigned}</div>
+                        <p className="text-muted mb-2">
+                            of {visible} visible posts ({percent(unassigned, visible)}%) have not been placed in an exhibit yet.
+                        </p>
+                        <div className="analytics-share">
+                            <div className="analytics-share-bar" style={{ width: `${percent(unassigned, visible)}%` }} />
+                        </div>
+                    </ChartCard>
+                </Col>
+            </Row>
+        </>
+    );
+}
+
+export default AnalyticsDashboard;
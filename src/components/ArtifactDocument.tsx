@@ -12,12 +12,23 @@ interface UploadedFile {
     type: string;
 }
 
+/**
+ * Best-effort file name for saved document content (iframe title or file card name).
+ */
+function getDocumentFileName(content: string): string | null {
+    const match = content.match(/title="([^"]+)"/) ?? content.match(/class="artifact-file-name">([^<]+)</);
+    return match ? match[1] : null;
+}
+
 export interface ArtifactDocumentEditorProps {
     exhibitId: number;
+    /** Saved document content when editing; kept until a replacement is uploaded */
+    content?: string;
     onContentChange: (content: string) => void;
 }
 
-export function ArtifactDocumentEditor({ exhibitId, onContentChange }: ArtifactDocumentEditorProps) {
+export function ArtifactDocumentEditor({ exhibitId, content = '', onContentChange }: ArtifactDocumentEditorProps) {
+    const [savedContent] = useState(content);
     const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
     const [uploading, setUploading] = useState(false);
     const [dragActive, setDragActive] = useState(false);
@@ -74,14 +85,21 @@ export function ArtifactDocumentEditor({ exhibitId, onContentChange }: ArtifactD
     const removeFile = useCallback((index: number) => {
         setUploadedFiles(prev => {
             const next = prev.filter((_, i) => i !== index);
-            if (next.length === 0) onContentChange('');
+            if (next.length === 0) onContentChange(savedContent);
             return next;
         });
-    }, [onContentChange]);
+    }, [onContentChange, savedContent]);
 
     return (
         <Form.Group className="mb-3">
-            <Form.Label>Upload Document *</Form.Label>
+            <Form.Label>{savedContent ? 'Replace Document' : 'Upload Document *'}</Form.Label>
+            {savedContent && uploadedFiles.length === 0 && (
+                <div className="d-flex align-items-center gap-2 p-2 mb-2 border rounded" style={{ fontSize: '0.875rem' }}>
+                    <FileEarmarkText size={20} className="text-muted" />
+                    <span className="text-truncate">{getDocumentFileName(savedContent) ?? 'Current document'}</span>
+                    <small className="text-muted ms-auto">Upload a file to replace it</small>
+                </div>
+            )}
             <div className={`file-drop-zone p-4 text-center border rounded ${dragActive ? 'border-primary bg-primary bg-opacity-10' : 'border-dashed'}`}
                 onDragEnter={handleDrag} onDragLeave={handleDrag} onDragOver={handleDrag} onDrop={handleDrop}
                 onClick={() => fileInputRef.current?.click()}
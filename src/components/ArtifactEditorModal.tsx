@@ -1,7 +1,8 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Modal, Form, Button, Spinner } from 'react-bootstrap';
 import { createArtifact, updateArtifact, deleteArtifact } from '../hooks/artifactService';
-import { parseGalleryContent, extractAllImages } from '../utils/artifactUtils';
+import { parseGalleryContent, extractAllImages, extractArtifactFileUrls } from '../utils/artifactUtils';
+import { deleteStorageFilesByUrls } from '../utils/imageUpload';
 import { ArtifactGalleryEditor } from './ArtifactGallery';
 import { ArtifactSlideshowEditor } from './ArtifactSlideshow';
 import { ArtifactDocumentEditor } from './ArtifactDocument';
@@ -67,7 +68,11 @@ function ArtifactEditorModal({ show, exhibitId, artifact, onClose, onSaved }: Ar
     // Gallery-specific: images with layout
     const [galleryImages, setGalleryImages] = useState<GalleryImageLayout[]>([]);
 
+    // Bumped each time the form is (re)populated so type-specific editors remount with fresh content
+    const [formKey, setFormKey] = useState(0);
+
     const isEditing = !!artifact;
+    const savedFileUrls = useMemo(() => (artifact ? extractArtifactFileUrls(artifact) : []), [artifact]);
 
     // Populate form when editing an existing artifact
     useEffect(() => {
@@ -114,6 +119,7 @@ function ArtifactEditorModal({ show, exhibitId, artifact, onClose, onSaved }: Ar
             setVideoUrl('');
             setGalleryImages([]);
         }
+        setFormKey(k => k + 1);
     }, [artifact, show]);
 
     // Handle video URL changes - auto-generate embed code
@@ -122,8 +128,8 @@ function ArtifactEditorModal({ show, exhibitId, artifact, onClose, onSaved }: Ar
             const videoId = extractYouTubeVideoId(videoUrl);
             if (videoId) {
                 setContent(generateYouTubeEmbed(videoId));
-                // Auto-set thumbnail if not already set
-                if (!thumbnailUrl) {
+                // Auto-set thumbnail if not already set (or still pointing at a previous YouTube video)
+                if (!thumbnailUrl || /img\.youtube\.com\/vi\//.test(thumbnailUrl)) {
                     setThumbnailUrl(getYouTubeThumbnail(videoId));
                 }
             }
@@ -161,6 +167,12 @@ function ArtifactEditorModal({ show, exhibitId, artifact, onClose, onSaved }: Ar
 
             if (isEditing && artifact) {
                 await updateArtifact(artifact.id, artifactData);
+                // Clean up files the edit dropped (removed gallery images/slides, replaced documents)
+                const keptUrls = new Set(extractArtifactFileUrls(artifactData));
+                const removedUrls = savedFileUrls.filter(url => !keptUrls.has(url));
+                if (removedUrls.length > 0) {
+                    await deleteStorageFilesByUrls(removedUrls);
+                }
             } else {
                 await createArtifact(artifactData);
             }
@@ -178,6 +190,7 @@ function ArtifactEditorModal({ show, exhibitId, artifact, onClose, onSaved }: Ar
 
         setDeleting(true);
         try {
+            // Storage files are removed by the cleanupArtifactFilesOnDelete function
             await deleteArtifact(artifact.id);
             onSaved?.();
             onClose();
@@ -207,6 +220,7 @@ function ArtifactEditorModal({ show, exhibitId, artifact, onClose, onSaved }: Ar
                         <Form.Label>Type *</Form.Label>
                         <Form.Select
                             value={type}
+                            disabled={isEditing}
                             onChange={(e) => {
                                 setType(e.target.value as Artifact['type']);
                                 setContent('');
@@ -282,6 +296,7 @@ function ArtifactEditorModal({ show, exhibitId, artifact, onClose, onSaved }: Ar
 
                     {type === 'slideshow' && exhibitId != null && (
                         <ArtifactSlideshowEditor
+                            key={formKey}
                             exhibitId={exhibitId}
                             content={content}
                             onContentChange={setContent}
@@ -290,15 +305,19 @@ function ArtifactEditorModal({ show, exhibitId, artifact, onClose, onSaved }: Ar
 
                     {type === 'gallery' && exhibitId != null && (
                         <ArtifactGalleryEditor
+                            key={formKey}
                             exhibitId={exhibitId}
                             images={galleryImages}
                             onImagesChange={setGalleryImages}
+                            savedUrls={savedFileUrls}
                         />
                     )}
 
                     {type === 'document' && exhibitId != null && (
                         <ArtifactDocumentEditor
+                            key={formKey}
                             exhibitId={exhibitId}
+                            content={isEditing ? content : undefined}
                             onContentChange={setContent}
                         />
                     )}
@@ -6,6 +6,7 @@ import { Images } from 'react-bootstrap-icons';
 import { parseGalleryContent, extractAllImages, type GalleryImageLayout } from '../utils/artifactUtils';
 import { uploadArtifactFile, deleteStorageFileByUrl } from '../utils/imageUpload';
 import GalleryArrangement from './GalleryArrangement';
+import ResponsiveImage from './ResponsiveImage';
 import type { ArtifactProps } from './Artifact';
 
 /** Single-image lightbox modal for gallery display (backdrop click to close, like video) */
@@ -18,8 +19,9 @@ function GalleryImageModal({ show, imageUrl, onClose }: { show: boolean; imageUr
             role="dialog"
             aria-modal="true"
         >
-            <img
+            <ResponsiveImage
                 src={imageUrl}
+                sizes="90vw"
                 alt=""
                 className="gallery-image-modal-img"
                 onClick={(e) => e.stopPropagation()}
@@ -35,9 +37,11 @@ export interface ArtifactGalleryEditorProps {
     exhibitId: number;
     images: GalleryImageLayout[];
     onImagesChange: (images: GalleryImageLayout[]) => void;
+    /** URLs already saved on the artifact being edited; their files are cleaned up on save, not on remove */
+    savedUrls?: string[];
 }
 
-export function ArtifactGalleryEditor({ exhibitId, images, onImagesChange }: ArtifactGalleryEditorProps) {
+export function ArtifactGalleryEditor({ exhibitId, images, onImagesChange, savedUrls }: ArtifactGalleryEditorProps) {
     const [uploading, setUploading] = useState(false);
     const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -80,14 +84,14 @@ export function ArtifactGalleryEditor({ exhibitId, images, onImagesChange }: Art
 
     const handleRemoveImage = useCallback((index: number) => {
         const urlToDelete = images[index]?.url;
-        if (urlToDelete) {
+        if (urlToDelete && !savedUrls?.includes(urlToDelete)) {
             deleteStorageFileByUrl(urlToDelete).catch((err) =>
                 console.warn('Failed to delete image from storage:', err)
             );
         }
         const next = images.filter((_, i) => i !== index);
         onImagesChange(next);
-    }, [images, onImagesChange]);
+    }, [images, onImagesChange, savedUrls]);
 
     return (
         <Form.Group className="mb-3">
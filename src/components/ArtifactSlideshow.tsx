@@ -2,7 +2,9 @@ import { useCallback, useEffect, useRef, useState } from 'react';
 import { Form, Button, Spinner } from 'react-bootstrap';
 import { ArrowLeft, ArrowRight, CloudUpload, GripVertical, Trash, Images } from 'react-bootstrap-icons';
 import { uploadArtifactFile } from '../utils/imageUpload';
+import { parseSlidesContent } from '../utils/artifactUtils';
 import ArtifactModal from './ArtifactModal';
+import ResponsiveImage from './ResponsiveImage';
 import type { ArtifactProps } from './Artifact';
 
 interface SlideEntry {
@@ -10,17 +12,6 @@ interface SlideEntry {
     uploading?: boolean;
 }
 
-function parseSlidesContent(content: string): string[] {
-    if (!content.trim()) return [];
-    try {
-        const parsed = JSON.parse(content);
-        if (parsed?.slides && Array.isArray(parsed.slides)) {
-            return parsed.slides.filter((s: unknown) => typeof s === 'string');
-        }
-    } catch { /* invalid JSON */ }
-    return [];
-}
-
 // ---------------------------------------------------------------------------
 // Editor
 // ---------------------------------------------------------------------------
@@ -299,8 +290,9 @@ function SlideViewer({ slides }: { slides: string[] }) {
                     <ArrowLeft size={24} />
                 </button>
             )}
-            <img
+            <ResponsiveImage
                 src={slides[current]}
+                sizes="90vw"
                 alt={`Slide ${current + 1} of ${total}`}
                 className="slide-viewer-image"
                 draggable={false}
@@ -337,7 +329,12 @@ export default function ArtifactSlideshow({ artifact }: ArtifactProps) {
                 <div className="artifact-content">
                     <div className="artifact-preview artifact-slideshow-preview">
                         {firstSlide ? (
-                            <img src={firstSlide} alt={artifact.title} className="artifact-image" />
+                            <ResponsiveImage
+                                src={firstSlide}
+                                sizes="(max-width: 767px) 100vw, 400px"
+                                alt={artifact.title}
+                                className="artifact-image"
+                            />
                         ) : artifact.thumbnailUrl ? (
                             <img src={artifact.thumbnailUrl} alt={artifact.title} className="artifact-image" />
                         ) : (
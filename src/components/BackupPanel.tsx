@@ -0,0 +1,138 @@
+import { useEffect, useState } from 'react';
+import { Card, Table, Button, Spinner, Badge } from 'react-bootstrap';
+import { exportBackup, subscribeToBackups, type BackupRecord } from '../hooks/backupService';
+
+const BACKUP_HISTORY = 10;
+
+interface BackupPanelProps {
+    onError: (message: string) => void;
+}
+
+const formatDateTime = (timestamp: number) => {
+    return new Date(timestamp).toLocaleString(undefined, {
+        year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit',
+    });
+};
+
+const formatBytes = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Admin **Backups** tab: back up users, posts, artifacts, exhibits and their files to Storage,
+ * and list recent backups with the Storage URLs that pointed to missing files at the time.
+ * Restoring is done with `functions/scripts/backup.mjs`.
+ */
+function BackupPanel({ onError }: BackupPanelProps) {
+    const [backups, setBackups] = useState<BackupRecord[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [running, setRunning] = useState(false);
+
+    useEffect(() => {
+        const unsubscribe = subscribeToBackups(BACKUP_HISTORY, list => {
+            setBackups(list);
+            setLoading(false);
+        });
+        return unsubscribe;
+    }, []);
+
+    const selected = backups.find(b => b.id === selectedId) ?? backups[0] ?? null;
+
+    const handleBackup = async () => {
+        setRunning(true);
+        try {
+            setSelectedId(await exportBackup());
+        } catch (err: unknown) {
+            onError((err as { message?: string })?.message || 'Failed to back up the board.');
+        } finally {
+            setRunning(false);
+        }
+    };
+
+    return (
+        <Card>
+            <Card.Header className="d-flex flex-wrap justify-content-between align-items-center gap-2">
+                <strong>Backups</strong>
+                <Button size="sm" variant="outline-primary" onClick={handleBackup} disabled={running}>
+                    {running ? <Spinner animation="border" size="sm" /> : 'Back up now'}
+                </Button>
+            </Card.Header>
+            <Card.Body className={backups.length > 0 ? 'pb-0' : undefined}>
+                <p className="text-muted small">
+                    A backup stores users, posts with their comments and reactions, artifacts, exhibits, settings
+                    and Auth accounts in a versioned <code>manifest.json</code>, next to a copy of every Storage
+                    file they reference and of <code>website-images/</code> (including the exhibit carousels), under{' '}
+                    <code>backups/</code> in the Storage bucket. To restore, download the backup folder and run{' '}
+                    <code>npm run backup -- restore &lt;folder&gt;</code> in <code>functions/</code>.
+                </p>
+                {loading ? (
+                    <div className="d-flex justify-content-center p-3">
+                        <Spinner animation="border" size="sm" />
+                    </div>
+                ) : backups.length === 0 && (
+                    <p className="mb-0">No backups yet.</p>
+                )}
+            </Card.Body>
+            {backups.length > 0 && (
+                <div className="table-responsive">
+                    <Table className="mb-0 align-middle small" hover>
+                        <thead>
+                            <tr>
+                                <th>Started</th>
+                                <th>Folder</th>
+                                <th>Documents</th>
+                                <th>Accounts</th>
+                                <th>Files</th>
+                                <th>Missing files</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {backups.map(backup => (
+                                <tr
+                                    key={backup.id}
+                                    onClick={() => setSelectedId(backup.id)}
+                                    className={backup.id === selected?.id ? 'table-active' : undefined}
+                                    style={{ cursor: 'pointer' }}
+                                >
+                                    <td className="text-nowrap">{formatDateTime(backup.startedAt)}</td>
+                                    <td><code>{backup.storagePrefix}</code></td>
+                                    <td>{backup.documentCount}</td>
+                                    <td>{backup.authUserCount}</td>
+                                    <td className="text-nowrap">{backup.fileCount} ({formatBytes(backup.totalBytes)})</td>
+                                    <td>
+                                        {backup.danglingCount > 0
+                                            ? <Badge bg="warning" text="dark">{backup.danglingCount}</Badge>
+                                            : <span className="text-muted">None</span>}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </Table>
+                </div>
+            )}
+            {selected && selected.dangling.length > 0 && (
+                <Card.Footer className="small">
+                    <p className="mb-2">
+                        Documents in the backup of {formatDateTime(selected.startedAt)} that refer to Storage files
+                        which no longer exist:
+                    </p>
+                    <ul className="mb-0">
+                        {selected.dangling.map(({ document, path }) => (
+                            <li key={`${document} ${path}`}><code>{document}</code> → <code>{path}</code></li>
+                        ))}
+                    </ul>
+                    {selected.danglingCount > selected.dangling.length && (
+                        <p className="text-muted mt-2 mb-0">
+                            Showing {selected.dangling.length} of {selected.danglingCount}; the backup's manifest lists them all.
+                        </p>
+                    )}
+                </Card.Footer>
+            )}
+        </Card>
+    );
+}
+
+export default BackupPanel;
@@ -0,0 +1,61 @@
+export interface BarChartDatum {
+    label: string;
+    value: number;
+    /** Tooltip; defaults to "label: value" */
+    title?: string;
+}
+
+interface BarChartProps {
+    data: BarChartDatum[];
+    /** Vertical columns suit time series; horizontal rows suit long category labels */
+    orientation?: 'vertical' | 'horizontal';
+    /** Accessible description of the chart */
+    ariaLabel: string;
+    formatValue?: (value: number) => string;
+}
+
+/**
+ * Minimal bar chart drawn with CSS - enough for the Admin Analytics tab without a charting library.
+ * Negative values extend from a zero baseline in the opposite direction.
+ */
+function BarChart({ data, orientation = 'horizontal', ariaLabel, formatValue = String }: BarChartProps) {
+    const max = Math.max(0, ...data.map(d => d.value));
+    const min = Math.min(0, ...data.map(d => d.value));
+    const range = max - min || 1;
+    // Offset of the bar's start (the zero baseline, or the value for negatives) and its length, in % of the track
+    const offset = (value: number) => `${((Math.min(value, 0) - min) / range) * 100}%`;
+    const length = (value: number) => `${(Math.abs(value) / range) * 100}%`;
+    const barClass = (value: number) => `bar-chart-bar${value < 0 ? ' bar-chart-bar--negative' : ''}`;
+
+    if (orientation === 'vertical') {
+        return (
+            <div className="bar-chart bar-chart--vertical" role="img" aria-label={ariaLabel}>
+                {data.map(d => (
+                    <div key={d.label} className="bar-chart-column" title={d.title ?? `${d.label}: ${formatValue(d.value)}`}>
+                        <span className="bar-chart-value">{formatValue(d.value)}</span>
+                        <div className="bar-chart-track">
+                            <div className={barClass(d.value)} style={{ bottom: offset(d.value), height: length(d.value) }} />
+                        </div>
+                        <span className="bar-chart-label">{d.label}</span>
+                    </div>
+                ))}
+            </div>
+        );
+    }
+
+    return (
+        <div className="bar-chart bar-chart--horizontal" role="img" aria-label={ariaLabel}>
+            {data.map(d => (
+                <div key={d.label} className="bar-chart-row" title={d.title ?? `${d.label}: ${formatValue(d.value)}`}>
+                    <span className="bar-chart-label">{d.label}</span>
+                    <div className="bar-chart-track">
+                        <div className={barClass(d.value)} style={{ left: offset(d.value), width: length(d.value) }} />
+                    </div>
+                    <span className="bar-chart-value">{formatValue(d.value)}</span>
+                </div>
+            ))}
+        </div>
+    );
+}
+
+export default BarChart;
@@ -0,0 +1,38 @@
+import type { ReactNode } from 'react';
+import { Card, Button } from 'react-bootstrap';
+import { Download } from 'react-bootstrap-icons';
+import { downloadCsv, type CsvValue } from '../utils/csv';
+
+interface ChartCardProps {
+    title: string;
+    /** File name and rows for the card's "Export CSV" button */
+    csv: { filename: string; header: string[]; rows: CsvValue[][] };
+    children: ReactNode;
+}
+
+/**
+ * Card around an Admin chart with a button that downloads the chart's data as CSV.
+ */
+function ChartCard({ title, csv, children }: ChartCardProps) {
+    return (
+        <Card className="h-100">
+            <Card.Header className="d-flex justify-content-between align-items-center">
+                <strong>{title}</strong>
+                <Button
+                    size="sm"
+                    variant="outline-secondary"
+                    onClick={() => downloadCsv(csv.filename, csv.header, csv.rows)}
+                    disabled={csv.rows.length === 0}
+                    title={`Export ${title.toLowerCase()} as CSV`}
+                >
+                    <Download className="me-1" /> CSV
+                </Button>
+            </Card.Header>
+            <Card.Body>
+                {csv.rows.length === 0 ? <p className="text-muted mb-0">No data yet.</p> : children}
+            </Card.Body>
+        </Card>
+    );
+}
+
+export default ChartCard;
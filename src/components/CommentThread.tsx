@@ -0,0 +1,253 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button, Form, Spinner } from 'react-bootstrap';
+import { useAuth } from '../hooks/useAuth';
+import {
+    COMMENT_MAX_LENGTH,
+    addComment,
+    deleteComment,
+    getVisibleComments,
+    subscribeToComments,
+    updateComment,
+    type Comment,
+} from '../hooks/commentService';
+import { getDisplayName, getUserProfiles } from '../utils/userProfile';
+
+interface CommentFormProps {
+    initialValue?: string;
+    placeholder: string;
+    submitLabel: string;
+    onSubmit: (content: string) => Promise<void>;
+    onCancel?: () => void;
+    autoFocus?: boolean;
+}
+
+function CommentForm({ initialValue = '', placeholder, submitLabel, onSubmit, onCancel, autoFocus }: CommentFormProps) {
+    const [value, setValue] = useState(initialValue);
+    const [submitting, setSubmitting] = useState(false);
+    const trimmed = value.trim();
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!trimmed || submitting) return;
+        setSubmitting(true);
+        try {
+            await onSubmit(trimmed);
+            setValue('');
+        } catch (err) {
+            console.error('Failed to save comment:', err);
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    return (
+        <Form onSubmit={handleSubmit} className="comment-form">
+            <Form.Control
+                as="textarea"
+                rows={2}
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                placeholder={placeholder}
+                maxLength={COMMENT_MAX_LENGTH}
+                autoFocus={autoFocus}
+            />
+            <div className="d-flex justify-content-end gap-2 mt-2">
+                {onCancel && (
+                    <Button variant="outline-secondary" size="sm" onClick={onCancel} disabled={submitting}>
+                        Cancel
+                    </Button>
+                )}
+                <Button variant="primary" size="sm" type="submit" disabled={!trimmed || submitting}>
+                    {submitting ? <Spinner animation="border" size="sm" /> : submitLabel}
+                </Button>
+            </div>
+        </Form>
+    );
+}
+
+interface CommentItemProps {
+    comment: Comment;
+    authorName: string;
+    canReply: boolean;
+    canEdit: boolean;
+    canDelete: boolean;
+    onReply: () => void;
+    onSaveEdit: (content: string) => Promise<void>;
+    onDelete: () => void;
+}
+
+function CommentItem({ comment, authorName, canReply, canEdit, canDelete, onReply, onSaveEdit, onDelete }: CommentItemProps) {
+    const [editing, setEditing] = useState(false);
+
+    const formatDate = (timestamp: number) => {
+        return new Date(timestamp).toLocaleDateString('en-US', {
+            month: 'short',
+            day: 'numeric',
+            hour: '2-digit',
+            minute: '2-digit',
+        });
+    };
+
+    return (
+        <div className="comment-item">
+            <div className="d-flex align-items-baseline gap-2">
+                <strong className="comment-author">{authorName}</strong>
+                <small className="text-muted">
+                    {formatDate(comment.createdAt)}
+                    {comment.updatedAt > comment.createdAt && ' (edited)'}
+                </small>
+            </div>
+            {editing ? (
+                <CommentForm
+                    initialValue={comment.content}
+                    placeholder="Edit your comment"
+                    submitLabel="Save"
+                    autoFocus
+                    onSubmit={async (content) => {
+                        await onSaveEdit(content);
+                        setEditing(false);
+                    }}
+                    onCancel={() => setEditing(false)}
+                />
+            ) : (
+                <p className="comment-content mb-1">{comment.content}</p>
+            )}
+            {!editing && (canReply || canEdit || canDelete) && (
+                <div className="comment-actions">
+                    {canReply && (
+                        <Button variant="link" size="sm" className="p-0" onClick={onReply}>Reply</Button>
+                    )}
+                    {canEdit && (
+                        <Button variant="link" size="sm" className="p-0" onClick={() => setEditing(true)}>Edit</Button>
+                    )}
+                    {canDelete && (
+                        <Button variant="link" size="sm" className="p-0 text-danger" onClick={onDelete}>Delete</Button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
+
+interface CommentThreadProps {
+    postId: string;
+}
+
+/**
+ * Real-time comments with one level of replies, shown under a post in PostViewModal.
+ * Authors can edit/delete their own comments; Staff can delete any comment.
+ */
+function CommentThread({ postId }: CommentThreadProps) {
+    const { currentUser, isHighLevel } = useAuth();
+    const [comments, setComments] = useState<Comment[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [authorNames, setAuthorNames] = useState<Map<string, string>>(new Map());
+    const [replyingTo, setReplyingTo] = useState<string | null>(null);
+
+    useEffect(() => {
+        const unsubscribe = subscribeToComments(postId, list => {
+            setComments(list);
+            setLoading(false);
+        });
+        return unsubscribe;
+    }, [postId]);
+
+    // Resolve display names for authors we have not looked up yet
+    useEffect(() => {
+        const missing = [...new Set(comments.map(c => c.authorId))].filter(uid => !authorNames.has(uid));
+        if (missing.length === 0 || !currentUser) return;
+        let cancelled = false;
+        getUserProfiles(missing).then(profiles => {
+            if (cancelled) return;
+            setAuthorNames(prev => {
+                const next = new Map(prev);
+                missing.forEach(uid => next.set(uid, getDisplayName(profiles.get(uid) ?? null)));
+                return next;
+            });
+        }).catch(err => console.error('Failed to load comment authors:', err));
+        return () => { cancelled = true; };
+    }, [comments, authorNames, currentUser]);
+
+    const visible = useMemo(() => getVisibleComments(comments), [comments]);
+    const topLevel = visible.filter(c => c.parentId === null);
+
+    const handleDelete = async (comment: Comment) => {
+        if (!window.confirm('Delete this comment?')) return;
+        try {
+            await deleteComment(postId, comment.id);
+        } catch (err) {
+            console.error('Failed to delete comment:', err);
+        }
+    };
+
+    const renderComment = (comment: Comment) => {
+        const isAuthor = !!currentUser && currentUser.uid === comment.authorId;
+        return (
+            <CommentItem
+                key={comment.id}
+                comment={comment}
+                authorName={authorNames.get(comment.authorId) ?? 'Member'}
+                canReply={!!currentUser && comment.parentId === null}
+                canEdit={isAuthor}
+                canDelete={isAuthor || isHighLevel}
+                onReply={() => setReplyingTo(comment.id)}
+                onSaveEdit={(content) => updateComment(postId, comment.id, content)}
+                onDelete={() => handleDelete(comment)}
+            />
+        );
+    };
+
+    return (
+        <section className="comment-thread" aria-label="Comments">
+            <h6 className="comment-thread-title">
+                Comments{visible.length > 0 && ` (${visible.length})`}
+            </h6>
+
+            {loading ? (
+                <div className="text-center py-2">
+                    <Spinner animation="border" size="sm" />
+                </div>
+            ) : topLevel.length === 0 ? (
+                <p className="text-muted small mb-3">No comments yet.</p>
+            ) : (
+                <div className="comment-list">
+                    {topLevel.map(comment => (
+                        <div key={comment.id} className="comment-group">
+                            {renderComment(comment)}
+                            <div className="comment-replies">
+                                {visible.filter(c => c.parentId === comment.id).map(renderComment)}
+                                {currentUser && replyingTo === comment.id && (
+                                    <CommentForm
+                                        placeholder="Write a reply"
+                                        submitLabel="Reply"
+                                        autoFocus
+                                        onSubmit={async (content) => {
+                                            await addComment(postId, currentUser.uid, content, comment.id);
+                                            setReplyingTo(null);
+                                        }}
+                                        onCancel={() => setReplyingTo(null)}
+                                    />
+                                )}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {currentUser ? (
+                <CommentForm
+                    placeholder="Add a comment"
+                    submitLabel="Comment"
+                    onSubmit={(content) => addComment(postId, currentUser.uid, content).then(() => undefined)}
+                />
+            ) : (
+                <p className="text-muted small mb-0">
+                    <Link to="/login">Sign in</Link> to join the conversation.
+                </p>
+            )}
+        </section>
+    );
+}
+
+export default CommentThread;
@@ -0,0 +1,67 @@
+import { Form } from 'react-bootstrap';
+import { useCompanyValues } from '../hooks/useCompanyValues';
+import { MAX_POST_VALUES } from '../hooks/companyValueService';
+
+interface CompanyValuePickerProps {
+    /** Selected company value ids */
+    selected: string[];
+    onChange: (values: string[]) => void;
+    disabled?: boolean;
+}
+
+/**
+ * Toggleable chips for tagging a post with company values (post editor modal).
+ * Renders nothing until Staff have set up the list in /admin.
+ */
+function CompanyValuePicker({ selected, onChange, disabled }: CompanyValuePickerProps) {
+    const { values } = useCompanyValues();
+    // Tags whose value Staff have since removed stay visible so they can be cleared
+    const removed = selected.filter(id => !values.some(v => v.id === id));
+    const atLimit = selected.length >= MAX_POST_VALUES;
+
+    if (values.length === 0 && removed.length === 0) return null;
+
+    const toggle = (id: string) => {
+        onChange(selected.includes(id) ? selected.filter(v => v !== id) : [...selected, id]);
+    };
+
+    return (
+        <Form.Group className="mt-3">
+            <Form.Label className="small mb-1">
+                Which values does this post demonstrate? <span className="text-muted">(up to {MAX_POST_VALUES})</span>
+            </Form.Label>
+            <div className="value-chips" role="group" aria-label="Company values">
+                {values.map(value => {
+                    const active = selected.includes(value.id);
+                    return (
+                        <button
+                            key={value.id}
+                            type="button"
+                            className={`value-chip${active ? ' active' : ''}`}
+                            aria-pressed={active}
+                            disabled={disabled || (!active && atLimit)}
+                            onClick={() => toggle(value.id)}
+                        >
+                            {value.label}
+                        </button>
+                    );
+                })}
+                {removed.map(id => (
+                    <button
+                        key={id}
+                        type="button"
+                        className="value-chip active"
+                        aria-pressed
+                        title="No longer on the list; click to remove"
+                        disabled={disabled}
+                        onClick={() => toggle(id)}
+                    >
+                        {id} (removed)
+                    </button>
+                ))}
+            </div>
+        </Form.Group>
+    );
+}
+
+export default CompanyValuePicker;
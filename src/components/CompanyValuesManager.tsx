@@ -0,0 +1,191 @@
+import { useState } from 'react';
+import { Card, Table, Button, Spinner, Form, InputGroup } from 'react-bootstrap';
+import { ArrowUp, ArrowDown, Trash } from 'react-bootstrap-icons';
+import { useCompanyValues } from '../hooks/useCompanyValues';
+import {
+    DEFAULT_COMPANY_VALUES,
+    companyValueId,
+    saveCompanyValues,
+    type CompanyValue,
+} from '../hooks/companyValueService';
+
+interface CompanyValuesManagerProps {
+    onError: (message: string) => void;
+}
+
+/**
+ * Admin panel for the company values members can tag posts with: add, rename, reorder and remove.
+ * Removing a value keeps existing tags on posts but hides them and stops new ones.
+ */
+function CompanyValuesManager({ onError }: CompanyValuesManagerProps) {
+    const { values, saved, loading } = useCompanyValues();
+    const [newLabel, setNewLabel] = useState('');
+    /** Label being edited, keyed by value id */
+    const [drafts, setDrafts] = useState<Record<string, string>>({});
+    const [busy, setBusy] = useState(false);
+
+    const run = async (next: CompanyValue[], failure: string) => {
+        setBusy(true);
+        try {
+            await saveCompanyValues(next);
+        } catch (err: unknown) {
+            onError((err as { message?: string })?.message || failure);
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const label = newLabel.trim();
+        if (!label) return;
+        if (values.some(v => v.label.toLowerCase() === label.toLowerCase())) {
+            onError(`"${label}" is already on the list.`);
+            return;
+        }
+        await run([...values, { id: companyValueId(label, values), label }], 'Failed to add value.');
+        setNewLabel('');
+    };
+
+    const handleRename = (value: CompanyValue) => {
+        const label = drafts[value.id]?.trim();
+        setDrafts(prev => {
+            const next = { ...prev };
+            delete next[value.id];
+            return next;
+        });
+        if (!label || label === value.label) return;
+        void run(values.map(v => (v.id === value.id ? { ...v, label } : v)), 'Failed to rename value.');
+    };
+
+    const handleMove = (index: number, delta: -1 | 1) => {
+        const target = index + delta;
+        if (target < 0 || target >= values.length) return;
+        const next = [...values];
+        [next[index], next[target]] = [next[target], next[index]];
+        void run(next, 'Failed to reorder values.');
+    };
+
+    const handleRemove = (value: CompanyValue) => {
+        if (!window.confirm(`Remove "${value.label}"? Posts tagged with it will no longer show the tag.`)) return;
+        void run(values.filter(v => v.id !== value.id), 'Failed to remove value.');
+    };
+
+    const handleSeed = () => {
+        void run(DEFAULT_COMPANY_VALUES, 'Failed to import default values.');
+    };
+
+    return (
+        <Card>
+            <Card.Header className="d-flex justify-content-between align-items-center">
+                <strong>Company Values</strong>
+                {busy && <Spinner animation="border" size="sm" />}
+            </Card.Header>
+            <Card.Body className="p-0">
+                {loading ? (
+                    <div className="d-flex justify-content-center p-4">
+                        <Spinner animation="border" size="sm" />
+                    </div>
+                ) : (
+                    <>
+                        {!saved && (
+                            <div className="p-3 border-bottom">
+                                <p className="text-muted mb-2">
+                                    Members can tag posts once the list is saved.
+                                </p>
+                                <Button size="sm" variant="primary" onClick={handleSeed} disabled={busy}>
+                                    Import the {DEFAULT_COMPANY_VALUES.length} ACP values
+                                </Button>
+                            </div>
+                        )}
+                        {values.length > 0 && (
+                            <div className="table-responsive">
+                                <Table className="mb-0 align-middle">
+                                    <thead>
+                                        <tr>
+                                            <th>Order</th>
+                                            <th>Label</th>
+                                            <th>Id</th>
+                                            <th></th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {values.map((value, idx) => (
+                                            <tr key={value.id}>
+                                                <td className="text-nowrap">
+                                                    <Button
+                                                        variant="link"
+                                                        size="sm"
+                                                        className="p-1"
+                                                        disabled={busy || idx === 0}
+                                                        onClick={() => handleMove(idx, -1)}
+                                                        aria-label="Move up"
+                                                    >
+                                                        <ArrowUp size={14} />
+                                                    </Button>
+                                                    <Button
+                                                        variant="link"
+                                                        size="sm"
+                                                        className="p-1"
+                                                        disabled={busy || idx === values.length - 1}
+                                                        onClick={() => handleMove(idx, 1)}
+                                                        aria-label="Move down"
+                                                    >
+                                                        <ArrowDown size={14} />
+                                                    </Button>
+                                                </td>
+                                                <td>
+                                                    <Form.Control
+                                                        size="sm"
+                                                        value={drafts[value.id] ?? value.label}
+                                                        maxLength={40}
+                                                        disabled={busy}
+                                                        onChange={e => setDrafts(prev => ({ ...prev, [value.id]: e.target.value }))}
+                                                        onBlur={() => handleRename(value)}
+                                                        onKeyDown={e => {
+                                                            if (e.key === 'Enter') e.currentTarget.blur();
+                                                        }}
+                                                        aria-label={`Label for ${value.label}`}
+                                                    />
+                                                </td>
+                                                <td><code>{value.id}</code></td>
+                                                <td className="text-end">
+                                                    <Button
+                                                        size="sm"
+                                                        variant="outline-danger"
+                                                        disabled={busy}
+                                                        onClick={() => handleRemove(value)}
+                                                        aria-label={`Remove ${value.label}`}
+                                                    >
+                                                        <Trash size={14} />
+                                                    </Button>
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </Table>
+                            </div>
+                        )}
+                        <Form onSubmit={handleAdd} className="p-3">
+                            <InputGroup size="sm">
+                                <Form.Control
+                                    placeholder="New value, e.g. Mentorship"
+                                    value={newLabel}
+                                    maxLength={40}
+                                    onChange={e => setNewLabel(e.target.value)}
+                                    disabled={busy}
+                                    aria-label="New company value"
+                                />
+                                <Button type="submit" variant="outline-primary" disabled={busy || !newLabel.trim()}>
+                                    + Add Value
+                                </Button>
+                            </InputGroup>
+                        </Form>
+                    </>
+                )}
+            </Card.Body>
+        </Card>
+    );
+}
+
+export default CompanyValuesManager;
@@ -1,5 +1,5 @@
-import { useRef } from 'react';
-import { ButtonGroup, Button, Dropdown } from 'react-bootstrap';
+import { useRef, useState } from 'react';
+import { ButtonGroup, Button, Dropdown, Spinner } from 'react-bootstrap';
 import { useEditorState } from '@tiptap/react';
 import type { Editor } from '@tiptap/react';
 import {
@@ -18,7 +18,12 @@ import {
     EmojiSmile,
     CloudUpload,
     Link45deg,
+    CameraVideo,
+    Mic,
 } from 'react-bootstrap-icons';
+import { MAX_VIDEO_SECONDS, VIDEO_MIME_TYPES } from '../utils/videoFile';
+import type { Recording } from '../utils/mediaRecording';
+import RecordMessageModal from './RecordMessageModal';
 
 // Popular emojis grouped by category
 const emojiCategories = [
@@ -87,10 +92,16 @@ const emojiCategories = [
 interface EditorToolbarProps {
     editor: Editor | null;
     onUploadImage?: (file: File) => Promise<void>;
+    onUploadVideo?: (file: File) => Promise<void>;
+    /** When set, shows "Record a message"; should throw with a user-facing message on failure */
+    onRecordMessage?: (recording: Recording) => Promise<void>;
 }
 
-function EditorToolbar({ editor, onUploadImage }: EditorToolbarProps) {
+function EditorToolbar({ editor, onUploadImage, onUploadVideo, onRecordMessage }: EditorToolbarProps) {
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const videoInputRef = useRef<HTMLInputElement>(null);
+    const [uploadingVideo, setUploadingVideo] = useState(false);
+    const [showRecorder, setShowRecorder] = useState(false);
 
     const editorState = useEditorState({
         editor,
@@ -143,6 +154,19 @@ function EditorToolbar({ editor, onUploadImage }: EditorToolbarProps) {
         e.target.value = '';
     };
 
+    const handleVideoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file || !onUploadVideo) return;
+
+        setUploadingVideo(true);
+        try {
+            await onUploadVideo(file);
+        } finally {
+            setUploadingVideo(false);
+        }
+    };
+
     const handleEmbedUrl = () => {
         const url = window.prompt('Enter image URL:');
         if (url && url.trim()) {
@@ -297,6 +321,47 @@ function EditorToolbar({ editor, onUploadImage }: EditorToolbarProps) {
                 </Dropdown.Menu>
             </Dropdown>
 
+            {/* Video upload */}
+            {onUploadVideo && (
+                <Button
+                    variant="outline-secondary"
+                    size="sm"
+                    className="me-2"
+                    onClick={() => videoInputRef.current?.click()}
+                    disabled={uploadingVideo}
+                    title={`Upload video (up to ${MAX_VIDEO_SECONDS} seconds)`}
+                >
+                    {uploadingVideo ? <Spinner animation="border" size="sm" /> : <CameraVideo />}
+                </Button>
+            )}
+            <input
+                type="file"
+                ref={videoInputRef}
+                onChange={handleVideoChange}
+                accept={VIDEO_MIME_TYPES.join(',')}
+                style={{ display: 'none' }}
+            />
+
+            {/* Record a video or audio message */}
+            {onRecordMessage && (
+                <>
+                    <Button
+                        variant="outline-secondary"
+                        size="sm"
+                        className="me-2"
+                        onClick={() => setShowRecorder(true)}
+                        title="Record a message"
+                    >
+                        <Mic />
+                    </Button>
+                    <RecordMessageModal
+                        show={showRecorder}
+                        onClose={() => setShowRecorder(false)}
+                        onRecorded={onRecordMessage}
+                    />
+                </>
+            )}
+
             {/* Hidden file input for image upload */}
             <input
                 type="file"
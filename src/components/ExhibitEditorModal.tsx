@@ -0,0 +1,198 @@
+import { useEffect, useRef, useState } from 'react';
+import { Modal, Form, Button, Spinner } from 'react-bootstrap';
+import { CloudUpload } from 'react-bootstrap-icons';
+import { uploadExhibitBackground } from '../utils/exhibitImages';
+import type { ExhibitConfig } from './ParallaxExhibit';
+
+export interface ExhibitFormValues {
+    title: string;
+    subtitle: string;
+    quote: string;
+    quoteAuthor: string;
+    backgroundImage: string;
+    visible: boolean;
+}
+
+interface ExhibitEditorModalProps {
+    show: boolean;
+    /** Exhibit being edited, or null when creating a new one */
+    exhibit: ExhibitConfig | null;
+    /** Number the exhibit has (or will get on create); used for background upload paths */
+    exhibitNumber: number;
+    onSave: (values: ExhibitFormValues) => Promise<void>;
+    onClose: () => void;
+}
+
+function ExhibitEditorModal({ show, exhibit, exhibitNumber, onSave, onClose }: ExhibitEditorModalProps) {
+    const [title, setTitle] = useState('');
+    const [subtitle, setSubtitle] = useState('');
+    const [quote, setQuote] = useState('');
+    const [quoteAuthor, setQuoteAuthor] = useState('');
+    const [backgroundImage, setBackgroundImage] = useState('');
+    const [visible, setVisible] = useState(true);
+    const [uploading, setUploading] = useState(false);
+    const [saving, setSaving] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    // Populate form when opening
+    useEffect(() => {
+        if (!show) return;
+        setTitle(exhibit?.title ?? '');
+        setSubtitle(exhibit?.subtitle ?? '');
+        setQuote(exhibit?.quote ?? '');
+        setQuoteAuthor(exhibit?.quoteAuthor ?? '');
+        setBackgroundImage(exhibit?.backgroundImage ?? '');
+        setVisible(exhibit?.visible ?? true);
+    }, [exhibit, show]);
+
+    const handleBackgroundUpload = async (file: File) => {
+        setUploading(true);
+        try {
+            setBackgroundImage(await uploadExhibitBackground(file, exhibitNumber));
+        } catch (error) {
+            console.error('Failed to upload exhibit background:', error);
+        } finally {
+            setUploading(false);
+        }
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!title.trim()) return;
+        setSaving(true);
+        try {
+            await onSave({
+                title: title.trim(),
+                subtitle: subtitle.trim(),
+                quote: quote.trim(),
+                quoteAuthor: quoteAuthor.trim(),
+                backgroundImage: backgroundImage.trim(),
+                visible,
+            });
+            onClose();
+        } catch (error) {
+            console.error('Failed to save exhibit:', error);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <Modal show={show} onHide={onClose} size="lg" backdrop="static" keyboard={false}>
+            <Modal.Header closeButton={false}>
+                <Modal.Title>
+                    {exhibit ? `Edit Exhibit ${exhibit.exhibitNumber}` : `New Exhibit ${exhibitNumber}`}
+                </Modal.Title>
+            </Modal.Header>
+            <Form onSubmit={handleSubmit}>
+                <Modal.Body>
+                    <Form.Group className="mb-3">
+                        <Form.Label>Title *</Form.Label>
+                        <Form.Control
+                            type="text"
+                            value={title}
+                            onChange={(e) => setTitle(e.target.value)}
+                            placeholder="e.g., Leadership Development"
+                            required
+                        />
+                    </Form.Group>
+
+                    <Form.Group className="mb-3">
+                        <Form.Label>Subtitle</Form.Label>
+                        <Form.Control
+                            type="text"
+                            value={subtitle}
+                            onChange={(e) => setSubtitle(e.target.value)}
+                        />
+                    </Form.Group>
+
+                    <Form.Group className="mb-3">
+                        <Form.Label>Quote</Form.Label>
+                        <Form.Control
+                            as="textarea"
+                            rows={2}
+                            value={quote}
+                            onChange={(e) => setQuote(e.target.value)}
+                            placeholder={'"If you want to go fast, go alone; if you want to go far, go together."'}
+                        />
+                    </Form.Group>
+
+                    <Form.Group className="mb-3">
+                        <Form.Label>Quote Author</Form.Label>
+                        <Form.Control
+                            type="text"
+                            value={quoteAuthor}
+                            onChange={(e) => setQuoteAuthor(e.target.value)}
+                            placeholder="— African Proverb"
+                        />
+                    </Form.Group>
+
+                    <Form.Group className="mb-3">
+                        <Form.Label>Background Image</Form.Label>
+                        <div className="d-flex gap-2">
+                            <Form.Control
+                                type="text"
+                                value={backgroundImage}
+                                onChange={(e) => setBackgroundImage(e.target.value)}
+                                placeholder="/exhibits/bg-legacy.webp or https://..."
+                            />
+                            <Button
+                                variant="outline-primary"
+                                onClick={() => fileInputRef.current?.click()}
+                                disabled={uploading}
+                                className="d-flex align-items-center gap-1 flex-shrink-0"
+                            >
+                                {uploading ? <Spinner size="sm" /> : <CloudUpload size={16} />}
+                                Upload
+                            </Button>
+                        </div>
+                        <Form.Text className="text-muted">
+                            Shown when the exhibit has no carousel images
+                        </Form.Text>
+                        {backgroundImage && (
+                            <img src={backgroundImage} alt="" className="exhibit-editor-bg-preview mt-2" />
+                        )}
+                        <input
+                            ref={fileInputRef}
+                            type="file"
+                            accept="image/*"
+                            onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                if (file) handleBackgroundUpload(file);
+                                e.target.value = '';
+                            }}
+                            style={{ display: 'none' }}
+                        />
+                    </Form.Group>
+
+                    <Form.Check
+                        type="switch"
+                        id="exhibit-visible-switch"
+                        label="Visible on the Exhibit page"
+                        checked={visible}
+                        onChange={(e) => setVisible(e.target.checked)}
+                    />
+                </Modal.Body>
+                <Modal.Footer>
+                    <Button variant="secondary" onClick={onClose} disabled={saving}>
+                        Cancel
+                    </Button>
+                    <Button variant="primary" type="submit" disabled={saving || uploading}>
+                        {saving ? (
+                            <>
+                                <Spinner size="sm" className="me-2" />
+                                Saving...
+                            </>
+                        ) : exhibit ? (
+                            'Save Changes'
+                        ) : (
+                            'Create Exhibit'
+                        )}
+                    </Button>
+                </Modal.Footer>
+            </Form>
+        </Modal>
+    );
+}
+
+export default ExhibitEditorModal;
@@ -0,0 +1,180 @@
+import { useState } from 'react';
+import { Card, Table, Button, Spinner, Badge, Form } from 'react-bootstrap';
+import { ArrowUp, ArrowDown, Pencil } from 'react-bootstrap-icons';
+import { useExhibits } from '../hooks/useExhibits';
+import {
+    createExhibit,
+    updateExhibit,
+    reorderExhibits,
+    seedDefaultExhibits,
+} from '../hooks/exhibitService';
+import ExhibitEditorModal, { type ExhibitFormValues } from './ExhibitEditorModal';
+import type { ExhibitConfig } from './ParallaxExhibit';
+
+interface ExhibitManagerProps {
+    onError: (message: string) => void;
+}
+
+/**
+ * Admin panel for exhibit definitions: create, edit, reorder, and show/hide exhibits.
+ */
+function ExhibitManager({ onError }: ExhibitManagerProps) {
+    const { exhibits, loading } = useExhibits();
+    const [editorOpen, setEditorOpen] = useState(false);
+    const [editingExhibit, setEditingExhibit] = useState<ExhibitConfig | null>(null);
+    const [busy, setBusy] = useState(false);
+
+    const nextExhibitNumber = exhibits.reduce((max, e) => Math.max(max, e.exhibitNumber), 0) + 1;
+
+    const run = async (action: () => Promise<void>, failure: string) => {
+        setBusy(true);
+        try {
+            await action();
+        } catch (err: unknown) {
+            onError((err as { message?: string })?.message || failure);
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleMove = (index: number, delta: -1 | 1) => {
+        const target = index + delta;
+        if (target < 0 || target >= exhibits.length) return;
+        const ids = exhibits.map(e => e.id);
+        [ids[index], ids[target]] = [ids[target], ids[index]];
+        void run(() => reorderExhibits(ids), 'Failed to reorder exhibits.');
+    };
+
+    const handleToggleVisible = (exhibit: ExhibitConfig) => {
+        void run(() => updateExhibit(exhibit.id, { visible: !exhibit.visible }), 'Failed to update exhibit.');
+    };
+
+    const handleSeed = () => {
+        void run(seedDefaultExhibits, 'Failed to import default exhibits.');
+    };
+
+    const handleOpenCreate = () => {
+        setEditingExhibit(null);
+        setEditorOpen(true);
+    };
+
+    const handleOpenEdit = (exhibit: ExhibitConfig) => {
+        setEditingExhibit(exhibit);
+        setEditorOpen(true);
+    };
+
+    const handleSave = async (values: ExhibitFormValues) => {
+        if (editingExhibit) {
+            await updateExhibit(editingExhibit.id, values);
+        } else {
+            await createExhibit(exhibits, values);
+        }
+    };
+
+    return (
+        <Card>
+            <Card.Header className="d-flex justify-content-between align-items-center">
+                <strong>Exhibits</strong>
+                <div className="d-flex align-items-center gap-2">
+                    {busy && <Spinner animation="border" size="sm" />}
+                    <Button size="sm" variant="outline-primary" onClick={handleOpenCreate}>
+                        + New Exhibit
+                    </Button>
+                </div>
+            </Card.Header>
+            <Card.Body className="p-0">
+                {loading ? (
+                    <div className="d-flex justify-content-center p-4">
+                        <Spinner animation="border" size="sm" />
+                    </div>
+                ) : exhibits.length === 0 ? (
+                    <div className="p-3">
+                        <p className="text-muted mb-2">No exhibits defined yet.</p>
+                        <Button size="sm" variant="primary" onClick={handleSeed} disabled={busy}>
+                            Import the original 8 exhibits
+                        </Button>
+                    </div>
+                ) : (
+                    <div className="table-responsive">
+                        <Table className="mb-0 align-middle">
+                            <thead>
+                                <tr>
+                                    <th>Order</th>
+                                    <th>#</th>
+                                    <th>Title</th>
+                                    <th>Visible</th>
+                                    <th></th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {exhibits.map((exhibit, idx) => (
+                                    <tr key={exhibit.id} className={exhibit.visible ? '' : 'text-muted'}>
+                                        <td className="text-nowrap">
+                                            <Button
+                                                variant="link"
+                                                size="sm"
+                                                className="p-1"
+                                                disabled={busy || idx === 0}
+                                                onClick={() => handleMove(idx, -1)}
+                                                aria-label="Move up"
+                                            >
+                                                <ArrowUp size={14} />
+                                            </Button>
+                                            <Button
+                                                variant="link"
+                                                size="sm"
+                                                className="p-1"
+                                                disabled={busy || idx === exhibits.length - 1}
+                                                onClick={() => handleMove(idx, 1)}
+                                                aria-label="Move down"
+                                            >
+                                                <ArrowDown size={14} />
+                                            </Button>
+                                        </td>
+                                        <td>{exhibit.exhibitNumber}</td>
+                                        <td>
+                                            {exhibit.title}
+                                            {!exhibit.visible && (
+                                                <Badge bg="secondary" className="ms-2">Hidden</Badge>
+                                            )}
+                                        </td>
+                                        <td>
+                                            <Form.Check
+                                                type="switch"
+                                                id={`exhibit-visible-${exhibit.id}`}
+                                                checked={exhibit.visible}
+                                                disabled={busy}
+                                                onChange={() => handleToggleVisible(exhibit)}
+                                                aria-label="Visible on the Exhibit page"
+                                            />
+                                        </td>
+                                        <td className="text-end">
+                                            <Button
+                                                size="sm"
+                                                variant="outline-secondary"
+                                                onClick={() => handleOpenEdit(exhibit)}
+                                                aria-label="Edit exhibit"
+                                            >
+                                                <Pencil size={14} />
+                                            </Button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </Table>
+                    </div>
+                )}
+            </Card.Body>
+
+            <ExhibitEditorModal
+                show={editorOpen}
+                exhibit={editingExhibit}
+                exhibitNumber={editingExhibit?.exhibitNumber ?? nextExhibitNumber}
+                onSave={handleSave}
+                onClose={() => setEditorOpen(false)}
+            />
+        </Card>
+    );
+}
+
+export default ExhibitManager;
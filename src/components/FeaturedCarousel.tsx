@@ -0,0 +1,59 @@
+import { Carousel, Button } from 'react-bootstrap';
+import { PinAngleFill } from 'react-bootstrap-icons';
+import type { Post } from './PostCard';
+import { getFirstImageSrc, getPlainTextExcerpt } from '../utils/postText';
+
+interface FeaturedCarouselProps {
+    /** Featured posts in display order (hidden posts already removed) */
+    posts: Post[];
+    onView: (postId: string) => void;
+}
+
+/**
+ * Highlighted carousel of Staff-pinned posts, shown in the Feed hero card.
+ */
+function FeaturedCarousel({ posts, onView }: FeaturedCarouselProps) {
+    if (posts.length === 0) return null;
+
+    return (
+        <section className="featured-carousel text-start mx-auto mt-4" aria-label="Featured posts">
+            <div className="featured-carousel-label">
+                <PinAngleFill size={12} aria-hidden /> Featured
+            </div>
+            <Carousel
+                interval={7000}
+                indicators={posts.length > 1}
+                controls={posts.length > 1}
+                variant="dark"
+            >
+                {posts.map(post => {
+                    const imageSrc = getFirstImageSrc(post.content);
+                    return (
+                        <Carousel.Item key={post.id}>
+                            <div className="featured-slide">
+                                {imageSrc && (
+                                    <img src={imageSrc} alt="" className="featured-slide-image" />
+                                )}
+                                <div className="featured-slide-body">
+                                    <p className="featured-slide-excerpt">
+                                        {getPlainTextExcerpt(post.content, 220)}
+                                    </p>
+                                    <div className="d-flex justify-content-between align-items-center gap-2">
+                                        <small className="text-muted">
+                                            — {post.authorName || post.authorEmail}
+                                        </small>
+                                        <Button variant="outline-primary" size="sm" onClick={() => onView(post.id)}>
+                                            Read post
+                                        </Button>
+                                    </div>
+                                </div>
+                            </div>
+                        </Carousel.Item>
+                    );
+                })}
+            </Carousel>
+        </section>
+    );
+}
+
+export default FeaturedCarousel;
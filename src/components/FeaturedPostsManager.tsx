@@ -0,0 +1,134 @@
+import { useEffect, useState } from 'react';
+import { Card, Table, Button, Spinner, Badge } from 'react-bootstrap';
+import { ArrowUp, ArrowDown } from 'react-bootstrap-icons';
+import { reorderFeaturedPosts, setPostFeatured, subscribeToFeaturedPosts } from '../hooks/postService';
+import { getPlainTextExcerpt } from '../utils/postText';
+import type { Post } from './PostCard';
+
+interface FeaturedPostsManagerProps {
+    onError: (message: string) => void;
+}
+
+/**
+ * Admin panel for the Feed's featured carousel: reorder or unpin featured posts.
+ * Posts are pinned from the pin button on PostCard.
+ */
+function FeaturedPostsManager({ onError }: FeaturedPostsManagerProps) {
+    const [posts, setPosts] = useState<Post[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [busy, setBusy] = useState(false);
+
+    useEffect(() => {
+        const unsubscribe = subscribeToFeaturedPosts(list => {
+            setPosts(list);
+            setLoading(false);
+        });
+        return unsubscribe;
+    }, []);
+
+    const run = async (action: () => Promise<unknown>, failure: string) => {
+        setBusy(true);
+        try {
+            await action();
+        } catch (err: unknown) {
+            onError((err as { message?: string })?.message || failure);
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleMove = (index: number, delta: -1 | 1) => {
+        const target = index + delta;
+        if (target < 0 || target >= posts.length) return;
+        const ordered = [...posts];
+        [ordered[index], ordered[target]] = [ordered[target], ordered[index]];
+        void run(() => reorderFeaturedPosts(ordered), 'Failed to reorder featured posts.');
+    };
+
+    const handleUnpin = (postId: string) => {
+        void run(() => setPostFeatured(postId, false), 'Failed to unpin post.');
+    };
+
+    return (
+        <Card>
+            <Card.Header className="d-flex justify-content-between align-items-center">
+                <strong>Featured Posts</strong>
+                <div className="d-flex align-items-center gap-2">
+                    {busy && <Spinner animation="border" size="sm" />}
+                    <Badge bg="secondary">{posts.length}</Badge>
+                </div>
+            </Card.Header>
+            <Card.Body className="p-0">
+                {loading ? (
+                    <div className="d-flex justify-content-center p-4">
+                        <Spinner animation="border" size="sm" />
+                    </div>
+                ) : posts.length === 0 ? (
+                    <p className="text-muted p-3 mb-0">
+                        No featured posts. Use the pin button on a post in the feed to feature it.
+                    </p>
+                ) : (
+                    <div className="table-responsive">
+                        <Table className="mb-0 align-middle">
+                            <thead>
+                                <tr>
+                                    <th>Order</th>
+                                    <th>Author</th>
+                                    <th>Post</th>
+                                    <th></th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {posts.map((post, idx) => (
+                                    <tr key={post.id} className={post.hidden ? 'text-muted' : ''}>
+                                        <td className="text-nowrap">
+                                            <Button
+                                                variant="link"
+                                                size="sm"
+                                                className="p-1"
+                                                disabled={busy || idx === 0}
+                                                onClick={() => handleMove(idx, -1)}
+                                                aria-label="Move up"
+                                            >
+                                                <ArrowUp size={14} />
+                                            </Button>
+                                            <Button
+                                                variant="link"
+                                                size="sm"
+                                                className="p-1"
+                                                disabled={busy || idx === posts.length - 1}
+                                                onClick={() => handleMove(idx, 1)}
+                                                aria-label="Move down"
+                                            >
+                                                <ArrowDown size={14} />
+                                            </Button>
+                                        </td>
+                                        <td className="text-nowrap">{post.authorName || post.authorEmail}</td>
+                                        <td>
+                                            {getPlainTextExcerpt(post.content, 120) || <em className="text-muted">(image only)</em>}
+                                            {post.hidden && (
+                                                <Badge bg="secondary" className="ms-2">Hidden</Badge>
+                                            )}
+                                        </td>
+                                        <td className="text-end">
+                                            <Button
+                                                size="sm"
+                                                variant="outline-secondary"
+                                                disabled={busy}
+                                                onClick={() => handleUnpin(post.id)}
+                                            >
+                                                Unpin
+                                            </Button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </Table>
+                    </div>
+                )}
+            </Card.Body>
+        </Card>
+    );
+}
+
+export default FeaturedPostsManager;
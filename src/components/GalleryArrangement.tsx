@@ -2,6 +2,10 @@ import { useState, useRef, useEffect, useCallback } from 'react';
 import { Rnd } from 'react-rnd';
 import { Trash } from 'react-bootstrap-icons';
 import { GALLERY_TARGET_AREA, type GalleryImageLayout } from '../utils/artifactUtils';
+import ResponsiveImage from './ResponsiveImage';
+
+/** Gallery tiles are roughly a quarter of the layout width (half in the compact grid) */
+const GALLERY_IMAGE_SIZES = '(max-width: 499px) 50vw, 25vw';
 
 /** Derive width/height in relative units from scale and aspect. */
 function dimensionsFromScale(scale: number, aspect: number): { width: number; height: number } {
@@ -168,8 +172,9 @@ export default function GalleryArrangement({
                         tabIndex={onImageClick ? 0 : undefined}
                         onKeyDown={onImageClick ? (e) => e.key === 'Enter' && onImageClick(i, img.url) : undefined}
                     >
-                        <img
+                        <ResponsiveImage
                             src={img.url}
+                            sizes={GALLERY_IMAGE_SIZES}
                             alt=""
                             className="gallery-arrangement-image"
                             style={{ objectFit: 'cover', width: '100%', height: '100%' }}
@@ -275,8 +280,9 @@ export default function GalleryArrangement({
                         tabIndex={onImageClick ? 0 : undefined}
                         onKeyDown={onImageClick ? (e) => e.key === 'Enter' && onImageClick(i, img.url) : undefined}
                     >
-                        <img
+                        <ResponsiveImage
                             src={img.url}
+                            sizes={GALLERY_IMAGE_SIZES}
                             alt=""
                             className="gallery-arrangement-image"
                             style={{ objectFit: 'cover', width: '100%', height: '100%' }}
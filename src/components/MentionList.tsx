@@ -0,0 +1,73 @@
+import { useImperativeHandle, useState, type Ref } from 'react';
+
+export interface MentionItem {
+    /** Member uid */
+    id: string;
+    /** Display name, stored on the mention as its label */
+    label: string;
+    email: string;
+}
+
+export interface MentionListHandle {
+    /** Arrow keys move the highlight, Enter/Tab pick it; returns true when the key was handled */
+    onKeyDown: (event: KeyboardEvent) => boolean;
+}
+
+interface MentionListProps {
+    items: MentionItem[];
+    command: (item: MentionItem) => void;
+    ref?: Ref<MentionListHandle>;
+}
+
+/**
+ * Autocomplete list shown while typing `@name` in the post editor (see utils/mentionNode.ts).
+ */
+function MentionList({ items, command, ref }: MentionListProps) {
+    // The highlight goes back to the first match whenever the matches change
+    const [selection, setSelection] = useState({ items, index: 0 });
+    const index = selection.items === items ? selection.index : 0;
+
+    const select = (i: number) => {
+        const item = items[i];
+        if (item) command(item);
+    };
+
+    useImperativeHandle(ref, () => ({
+        onKeyDown: (event: KeyboardEvent) => {
+            if (items.length === 0) return false;
+            if (event.key === 'ArrowUp' || event.key === 'ArrowDown') {
+                const delta = event.key === 'ArrowUp' ? -1 : 1;
+                setSelection({ items, index: (index + delta + items.length) % items.length });
+                return true;
+            }
+            if (event.key === 'Enter' || event.key === 'Tab') {
+                select(index);
+                return true;
+            }
+            return false;
+        },
+    }));
+
+    return (
+        <div className="mention-list" role="listbox" aria-label="Members">
+            {items.length === 0 ? (
+                <div className="mention-list-empty">No matching members</div>
+            ) : items.map((item, i) => (
+                <button
+                    key={item.id}
+                    type="button"
+                    role="option"
+                    aria-selected={i === index}
+                    className={`mention-list-item${i === index ? ' active' : ''}`}
+                    onMouseDown={e => e.preventDefault()}
+                    onClick={() => select(i)}
+                >
+                    <span className="mention-list-name">{item.label}</span>
+                    <span className="mention-list-email">{item.email}</span>
+                </button>
+            ))}
+        </div>
+    );
+}
+
+export default MentionList;
@@ -0,0 +1,332 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Card, Button, Spinner, Badge, ListGroup } from 'react-bootstrap';
+import { REPORT_REASONS, deleteReports, subscribeToReports, type PostReport } from '../hooks/reportService';
+import { deletePost, getPost, setPostHidden, subscribeToHiddenPosts } from '../hooks/postService';
+import { dismissSentimentFlag, subscribeToFlaggedPosts, type FlaggedPost } from '../hooks/sentimentService';
+import { getPlainTextExcerpt } from '../utils/postText';
+import { getDisplayName, getUserProfiles } from '../utils/userProfile';
+import type { Post } from './PostCard';
+
+interface ModerationQueueProps {
+    onError: (message: string) => void;
+}
+
+/** Reports grouped by the post they target, most recently reported first */
+interface ReportGroup {
+    postId: string;
+    reports: PostReport[];
+    latestAt: number;
+}
+
+function groupReports(reports: PostReport[]): ReportGroup[] {
+    const groups = new Map<string, ReportGroup>();
+    reports.forEach(report => {
+        const group = groups.get(report.postId);
+        if (group) {
+            group.reports.push(report);
+            group.latestAt = Math.max(group.latestAt, report.createdAt);
+        } else {
+            groups.set(report.postId, { postId: report.postId, reports: [report], latestAt: report.createdAt });
+        }
+    });
+    return [...groups.values()].sort((a, b) => b.latestAt - a.latestAt);
+}
+
+const reasonLabel = (reason: string) => REPORT_REASONS.find(r => r.value === reason)?.label ?? reason;
+
+const formatDate = (timestamp: number) => {
+    return new Date(timestamp).toLocaleDateString(undefined, {
+        year: 'numeric', month: 'short', day: 'numeric',
+    });
+};
+
+/**
+ * Admin panel for reported posts: review reports, then dismiss them, hide the post, or delete it.
+ * Also lists posts flagged as strongly negative by sentiment analysis, and hidden posts so Staff can restore them.
+ */
+function ModerationQueue({ onError }: ModerationQueueProps) {
+    const [reports, setReports] = useState<PostReport[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [hiddenPosts, setHiddenPosts] = useState<Post[]>([]);
+    const [flaggedPosts, setFlaggedPosts] = useState<FlaggedPost[]>([]);
+    /** Reported posts by id; null once we know the post no longer exists */
+    const [posts, setPosts] = useState<Map<string, Post | null>>(new Map());
+    const [names, setNames] = useState<Map<string, string>>(new Map());
+    const [busy, setBusy] = useState<string | null>(null);
+
+    useEffect(() => {
+        const unsubscribe = subscribeToReports(list => {
+            setReports(list);
+            setLoading(false);
+        });
+        return unsubscribe;
+    }, []);
+
+    useEffect(() => subscribeToHiddenPosts(setHiddenPosts), []);
+    useEffect(() => subscribeToFlaggedPosts(setFlaggedPosts), []);
+
+    const groups = useMemo(() => groupReports(reports), [reports]);
+
+    // Load previews for reported posts we have not fetched yet
+    useEffect(() => {
+        const missing = groups.map(g => g.postId).filter(id => !posts.has(id));
+        if (missing.length === 0) return;
+        let cancelled = false;
+        Promise.all(missing.map(id => getPost(id).then(post => [id, post] as const))).then(entries => {
+            if (cancelled) return;
+            setPosts(prev => {
+                const next = new Map(prev);
+                entries.forEach(([id, post]) => next.set(id, post));
+                return next;
+            });
+        }).catch(err => console.error('Failed to load reported posts:', err));
+        return () => { cancelled = true; };
+    }, [groups, posts]);
+
+    // Resolve reporter and author names
+    useEffect(() => {
+        const uids = new Set<string>();
+        reports.forEach(r => uids.add(r.reporterId));
+        posts.forEach(post => { if (post) uids.add(post.authorId); });
+        flaggedPosts.forEach(post => uids.add(post.authorId));
+        const missing = [...uids].filter(uid => !names.has(uid));
+        if (missing.length === 0) return;
+        let cancelled = false;
+        getUserProfiles(missing).then(profiles => {
+            if (cancelled) return;
+            setNames(prev => {
+                const next = new Map(prev);
+                missing.forEach(uid => next.set(uid, getDisplayName(profiles.get(uid) ?? null)));
+                return next;
+            });
+        }).catch(err => console.error('Failed to load user names:', err));
+        return () => { cancelled = true; };
+    }, [reports, posts, flaggedPosts, names]);
+
+    const run = async (key: string, action: () => Promise<void>, failure: string) => {
+        setBusy(key);
+        try {
+            await action();
+        } catch (err: unknown) {
+            onError((err as { message?: string })?.message || failure);
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const handleDismiss = (group: ReportGroup) => {
+        void run(group.postId, () => deleteReports(group.reports.map(r => r.id)), 'Failed to dismiss reports.');
+    };
+
+    const handleHide = (group: ReportGroup) => {
+        void run(group.postId, async () => {
+            await setPostHidden(group.postId, true);
+            await deleteReports(group.reports.map(r => r.id));
+        }, 'Failed to hide post.');
+    };
+
+    const handleDelete = (group: ReportGroup) => {
+        if (!window.confirm('Delete this post and its images? This cannot be undone.')) return;
+        void run(group.postId, async () => {
+            await deletePost(group.postId);
+            await deleteReports(group.reports.map(r => r.id));
+        }, 'Failed to delete post.');
+    };
+
+    const handleDismissFlag = (postId: string) => {
+        void run(postId, () => dismissSentimentFlag(postId), 'Failed to dismiss flag.');
+    };
+
+    const handleHideFlagged = (postId: string) => {
+        void run(postId, () => setPostHidden(postId, true), 'Failed to hide post.');
+    };
+
+    const handleUnhide = (postId: string) => {
+        void run(postId, () => setPostHidden(postId, false), 'Failed to restore post.');
+    };
+
+    const authorLabel = (post: Pick<Post, 'authorId' | 'authorEmail' | 'authorName'>) => post.authorName || names.get(post.authorId) || post.authorEmail;
+
+    return (
+        <>
+            <Card className="mb-3">
+                <Card.Header className="d-flex justify-content-between align-items-center">
+                    <strong>Reported Posts</strong>
+                    <Badge bg={groups.length > 0 ? 'danger' : 'secondary'}>{groups.length}</Badge>
+                </Card.Header>
+                {loading ? (
+                    <Card.Body className="d-flex justify-content-center p-4">
+                        <Spinner animation="border" size="sm" />
+                    </Card.Body>
+                ) : groups.length === 0 ? (
+                    <Card.Body>
+                        <p className="text-muted mb-0">No open reports.</p>
+                    </Card.Body>
+                ) : (
+                    <ListGroup variant="flush">
+                        {groups.map(group => {
+                            const post = posts.get(group.postId);
+                            return (
+                                <ListGroup.Item key={group.postId} className="moderation-item">
+                                    <div className="d-flex justify-content-between align-items-start gap-3">
+                                        <div className="flex-grow-1">
+                                            {post === undefined ? (
+                                                <Spinner animation="border" size="sm" />
+                                            ) : post === null ? (
+                                                <p className="text-muted mb-1">This post no longer exists.</p>
+                                            ) : (
+                                                <>
+                                                    <div className="small text-muted mb-1">
+                                                        {authorLabel(post)} · {formatDate(post.createdAt)}
+                                                        {post.hidden && <Badge bg="secondary" className="ms-2">Hidden</Badge>}
+                                                    </div>
+                                                    <p className="moderation-excerpt mb-2">
+                                                        {getPlainTextExcerpt(post.content, 240) || <em className="text-muted">(image only)</em>}
+                                                    </p>
+                                                </>
+                                            )}
+                                            <ul className="moderation-reports small mb-0">
+                                                {group.reports.map(report => (
+                                                    <li key={report.id}>
+                                                        <strong>{reasonLabel(report.reason)}</strong>
+                                                        {' '}by {names.get(report.reporterId) ?? 'Member'}, {formatDate(report.createdAt)}
+                                                        {report.details && <span className="text-muted"> — {report.details}</span>}
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        </div>
+                                        <div className="d-flex flex-column gap-1 flex-shrink-0">
+                                            <Badge bg="danger" className="align-self-end mb-1">
+                                                {group.reports.length} {group.reports.length === 1 ? 'report' : 'reports'}
+                                            </Badge>
+                                            <Button
+                                                size="sm"
+                                                variant="outline-secondary"
+                                                disabled={busy === group.postId}
+                                                onClick={() => handleDismiss(group)}
+                                            >
+                                                Dismiss
+                                            </Button>
+                                            {post && !post.hidden && (
+                                                <Button
+                                                    size="sm"
+                                                    variant="outline-warning"
+                                                    disabled={busy === group.postId}
+                                                    onClick={() => handleHide(group)}
+                                                >
+                                                    Hide post
+                                                </Button>
+                                            )}
+                                            {post && (
+                                                <Button
+                                                    size="sm"
+                                                    variant="outline-danger"
+                                                    disabled={busy === group.postId}
+                                                    onClick={() => handleDelete(group)}
+                                                >
+                                                    Delete post
+                                                </Button>
+                                            )}
+                                        </div>
+                                    </div>
+                                </ListGroup.Item>
+                            );
+                        })}
+                    </ListGroup>
+                )}
+            </Card>
+
+            <Card className="mb-3">
+                <Card.Header className="d-flex justify-content-between align-items-center">
+                    <strong>Flagged by Sentiment Analysis</strong>
+                    <Badge bg={flaggedPosts.length > 0 ? 'warning' : 'secondary'}>{flaggedPosts.length}</Badge>
+                </Card.Header>
+                {flaggedPosts.length === 0 ? (
+                    <Card.Body>
+                        <p className="text-muted mb-0">No strongly negative posts.</p>
+                    </Card.Body>
+                ) : (
+                    <ListGroup variant="flush">
+                        {flaggedPosts.map(post => (
+                            <ListGroup.Item key={post.id} className="moderation-item">
+                                <div className="d-flex justify-content-between align-items-start gap-3">
+                                    <div className="flex-grow-1">
+                                        <div className="small text-muted mb-1">
+                                            {authorLabel(post)} · {formatDate(post.createdAt)}
+                                        </div>
+                                        <p className="moderation-excerpt mb-2">
+                                            {getPlainTextExcerpt(post.content, 240) || <em className="text-muted">(image only)</em>}
+                                        </p>
+                                        <div className="small text-muted">
+                                            Score {post.analysis.comparative.toFixed(2)}
+                                            {post.analysis.keywords.length > 0 && <> · {post.analysis.keywords.join(', ')}</>}
+                                        </div>
+                                    </div>
+                                    <div className="d-flex flex-column gap-1 flex-shrink-0">
+                                        <Button
+                                            size="sm"
+                                            variant="outline-secondary"
+                                            disabled={busy === post.id}
+                                            onClick={() => handleDismissFlag(post.id)}
+                                        >
+                                            Dismiss
+                                        </Button>
+                                        <Button
+                                            size="sm"
+                                            variant="outline-warning"
+                                            disabled={busy === post.id}
+                                            onClick={() => handleHideFlagged(post.id)}
+                                        >
+                                            Hide post
+                                        </Button>
+                                    </div>
+                                </div>
+                            </ListGroup.Item>
+                        ))}
+                    </ListGroup>
+                )}
+            </Card>
+
+            <Card>
+                <Card.Header className="d-flex justify-content-between align-items-center">
+                    <strong>Hidden Posts</strong>
+                    <Badge bg="secondary">{hiddenPosts.length}</Badge>
+                </Card.Header>
+                {hiddenPosts.length === 0 ? (
+                    <Card.Body>
+                        <p className="text-muted mb-0">No hidden posts.</p>
+                    </Card.Body>
+                ) : (
+                    <ListGroup variant="flush">
+                        {hiddenPosts.map(post => (
+                            <ListGroup.Item
+                                key={post.id}
+                                className="d-flex justify-content-between align-items-start gap-3"
+                            >
+                                <div>
+                                    <div className="small text-muted mb-1">
+                                        {authorLabel(post)} · {formatDate(post.createdAt)}
+                                    </div>
+                                    <p className="moderation-excerpt mb-0">
+                                        {getPlainTextExcerpt(post.content, 160) || <em className="text-muted">(image only)</em>}
+                                    </p>
+                                </div>
+                                <Button
+                                    size="sm"
+                                    variant="outline-primary"
+                                    className="flex-shrink-0"
+                                    disabled={busy === post.id}
+                                    onClick={() => handleUnhide(post.id)}
+                                >
+                                    Unhide
+                                </Button>
+                            </ListGroup.Item>
+                        ))}
+                    </ListGroup>
+                )}
+            </Card>
+        </>
+    );
+}
+
+export default ModerationQueue;
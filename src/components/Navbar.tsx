@@ -1,10 +1,11 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
-import { Navbar as BootstrapNavbar, Nav, Container } from 'react-bootstrap';
-import { BoxArrowRight, PersonCircle } from 'react-bootstrap-icons';
+import { Navbar as BootstrapNavbar, Nav, Container, Form } from 'react-bootstrap';
+import { BoxArrowRight, PersonCircle, Search } from 'react-bootstrap-icons';
 import { useAuth } from '../hooks/useAuth';
 import { signOut } from 'firebase/auth';
 import { auth } from '../firebaseConfig';
+import NotificationBell from './NotificationBell';
 
 const SCROLL_THRESHOLD = 8;
 
@@ -13,6 +14,7 @@ function Navbar() {
     const navigate = useNavigate();
     const [hidden, setHidden] = useState(false);
     const [expanded, setExpanded] = useState(false);
+    const [searchText, setSearchText] = useState('');
     const lastScrollY = useRef(0);
 
     const closeDrawer = useCallback(() => setExpanded(false), []);
@@ -38,6 +40,15 @@ function Navbar() {
         }
     };
 
+    const handleSearch = (e: React.FormEvent) => {
+        e.preventDefault();
+        const q = searchText.trim();
+        if (!q) return;
+        closeDrawer();
+        setSearchText('');
+        navigate(`/search?q=${encodeURIComponent(q)}`);
+    };
+
     return (
         <BootstrapNavbar
             expand="lg"
@@ -70,6 +81,20 @@ function Navbar() {
                         <Nav className="order-1 order-lg-2 align-items-lg-center navbar-user-section">
                             {currentUser ? (
                                 <>
+                                    <Form onSubmit={handleSearch} role="search" className="navbar-search px-3 py-2 px-lg-0 py-lg-0 me-lg-3">
+                                        <Search size={14} className="navbar-search-icon" aria-hidden="true" />
+                                        <Form.Control
+                                            type="search"
+                                            size="sm"
+                                            placeholder="Search"
+                                            value={searchText}
+                                            onChange={e => setSearchText(e.target.value)}
+                                            aria-label="Search posts, artifacts and exhibits"
+                                        />
+                                    </Form>
+                                    <div className="px-3 py-2 px-lg-0 py-lg-0 me-lg-3">
+                                        <NotificationBell uid={currentUser.uid} onNavigate={closeDrawer} />
+                                    </div>
                                     <div className="d-flex align-items-center gap-2 px-3 py-2 px-lg-0 py-lg-0 me-lg-3 navbar-user-info">
                                         <PersonCircle size={18} className="text-muted d-lg-none" />
                                         {isHighLevel && (
@@ -0,0 +1,180 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Dropdown, Badge, Button, Form } from 'react-bootstrap';
+import { Bell, BellFill, ChatDots, Collection, Gear, At, HeartFill } from 'react-bootstrap-icons';
+import {
+    NOTIFICATION_CATEGORIES,
+    UNREAD_COUNT_LIMIT,
+    markAllNotificationsRead,
+    markNotificationRead,
+    setCategoryMuted,
+    subscribeToMutedCategories,
+    subscribeToNotifications,
+    subscribeToUnreadCount,
+    type AppNotification,
+    type NotificationCategory,
+} from '../hooks/notificationService';
+import { REACTIONS } from '../hooks/postService';
+import { postPath } from '../utils/postLink';
+
+const NOTIFICATION_HISTORY = 20;
+
+interface NotificationBellProps {
+    uid: string;
+    /** Called after navigating from a notification (e.g. close the mobile nav drawer) */
+    onNavigate?: () => void;
+}
+
+const CATEGORY_ICONS: Record<NotificationCategory, typeof Bell> = {
+    exhibit: Collection,
+    reaction: HeartFill,
+    comment: ChatDots,
+    mention: At,
+};
+
+function describeNotification(n: AppNotification): string {
+    const actor = n.actorName || 'Someone';
+    switch (n.category) {
+    case 'exhibit':
+        return `Your post was added to Exhibit ${n.exhibitNumber}${n.exhibitTitle ? `: ${n.exhibitTitle}` : ''}`;
+    case 'reaction': {
+        const emoji = REACTIONS.find(r => r.type === n.reaction)?.emoji ?? '';
+        return `${actor} reacted ${emoji} to your post`.replace(/\s+/g, ' ');
+    }
+    case 'comment':
+        return n.isReply ? `${actor} replied to your comment` : `${actor} commented on your post`;
+    case 'mention':
+        return `${actor} mentioned you`;
+    default:
+        return 'New activity on your post';
+    }
+}
+
+const formatDateTime = (timestamp: number) => {
+    return new Date(timestamp).toLocaleString(undefined, {
+        month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit',
+    });
+};
+
+/**
+ * Navbar bell: unread badge, recent notifications with mark-read / mark-all-read,
+ * and per-category mute switches.
+ */
+function NotificationBell({ uid, onNavigate }: NotificationBellProps) {
+    const navigate = useNavigate();
+    const [notifications, setNotifications] = useState<AppNotification[]>([]);
+    const [unreadCount, setUnreadCount] = useState(0);
+    const [muted, setMuted] = useState<NotificationCategory[]>([]);
+    const [show, setShow] = useState(false);
+    const [showPreferences, setShowPreferences] = useState(false);
+
+    useEffect(() => subscribeToNotifications(uid, NOTIFICATION_HISTORY, setNotifications), [uid]);
+    useEffect(() => subscribeToUnreadCount(uid, setUnreadCount), [uid]);
+    useEffect(() => subscribeToMutedCategories(uid, setMuted), [uid]);
+
+    const handleOpen = (notification: AppNotification) => {
+        if (!notification.read) {
+            markNotificationRead(uid, notification.id).catch(err =>
+                console.error('Failed to mark notification read:', err));
+        }
+        setShow(false);
+        navigate(postPath(notification.postId));
+        onNavigate?.();
+    };
+
+    const handleMarkAllRead = () => {
+        markAllNotificationsRead(uid).catch(err => console.error('Failed to mark notifications read:', err));
+    };
+
+    const handleMuteChange = (category: NotificationCategory, enabled: boolean) => {
+        setCategoryMuted(uid, category, !enabled).catch(err =>
+            console.error('Failed to update notification preferences:', err));
+    };
+
+    const badge = unreadCount > UNREAD_COUNT_LIMIT ? `${UNREAD_COUNT_LIMIT}+` : String(unreadCount);
+
+    return (
+        <Dropdown align="end" show={show} onToggle={(next) => setShow(next)} className="notification-bell">
+            <Dropdown.Toggle
+                as="button"
+                type="button"
+                className="notification-bell-toggle"
+                aria-label={unreadCount > 0 ? `Notifications, ${badge} unread` : 'Notifications'}
+            >
+                {unreadCount > 0 ? <BellFill size={18} /> : <Bell size={18} />}
+                {unreadCount > 0 && (
+                    <Badge bg="danger" pill className="notification-bell-badge">{badge}</Badge>
+                )}
+            </Dropdown.Toggle>
+            <Dropdown.Menu className="notification-menu">
+                <div className="notification-menu-header">
+                    <strong>Notifications</strong>
+                    <div className="d-flex align-items-center gap-1">
+                        <Button
+                            variant="link"
+                            size="sm"
+                            className="p-0"
+                            onClick={handleMarkAllRead}
+                            disabled={unreadCount === 0}
+                        >
+                            Mark all read
+                        </Button>
+                        <Button
+                            variant="link"
+                            size="sm"
+                            className="p-1 text-muted"
+                            onClick={() => setShowPreferences(prev => !prev)}
+                            aria-expanded={showPreferences}
+                            aria-label="Notification preferences"
+                            title="Notification preferences"
+                        >
+                            <Gear size={14} />
+                        </Button>
+                    </div>
+                </div>
+                {showPreferences && (
+                    <div className="notification-preferences">
+                        <div className="small text-muted mb-1">Notify me about</div>
+                        {NOTIFICATION_CATEGORIES.map(category => (
+                            <Form.Check
+                                key={category.value}
+                                type="switch"
+                                id={`notify-${category.value}`}
+                                label={category.label}
+                                checked={!muted.includes(category.value)}
+                                onChange={(e) => handleMuteChange(category.value, e.target.checked)}
+                                className="small"
+                            />
+                        ))}
+                    </div>
+                )}
+                <div className="notification-list">
+                    {notifications.length === 0 ? (
+                        <p className="text-muted small text-center py-3 mb-0">No notifications yet.</p>
+                    ) : notifications.map(notification => {
+                        const Icon = CATEGORY_ICONS[notification.category] ?? Bell;
+                        return (
+                            <Dropdown.Item
+                                key={notification.id}
+                                as="button"
+                                onClick={() => handleOpen(notification)}
+                                className={`notification-item${notification.read ? '' : ' notification-item--unread'}`}
+                            >
+                                <Icon size={14} className="notification-item-icon" aria-hidden />
+                                <span className="notification-item-body">
+                                    <span className="notification-item-text">{describeNotification(notification)}</span>
+                                    {notification.excerpt && (
+                                        <span className="notification-item-excerpt">{notification.excerpt}</span>
+                                    )}
+                                    <span className="notification-item-time">{formatDateTime(notification.createdAt)}</span>
+                                </span>
+                            </Dropdown.Item>
+                        );
+                    })}
+                </div>
+            </Dropdown.Menu>
+        </Dropdown>
+    );
+}
+
+export default NotificationBell;
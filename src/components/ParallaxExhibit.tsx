@@ -1,20 +1,29 @@
 import { useEffect, useState } from 'react';
 import { Button, Carousel } from 'react-bootstrap';
-import { Trash, PencilSquare } from 'react-bootstrap-icons';
+import { Trash, Pencil, PencilSquare } from 'react-bootstrap-icons';
 import { getExhibitImages } from '../utils/exhibitImages';
 import MasonryGrid from './MasonryGrid';
 import PostCard from './PostCard';
 import Artifact, { type Artifact as ArtifactType } from './Artifact';
 import type { Post } from './PostCard';
 
+/**
+ * Exhibit definition - stored in the Firestore `exhibits` collection and managed from /admin.
+ * Posts and artifacts refer to an exhibit by `exhibitNumber`, which never changes once assigned.
+ */
 export interface ExhibitConfig {
     id: string;
     exhibitNumber: number;
     title: string;
     subtitle: string;
+    /** Fallback header image when the exhibit has no carousel images in Storage */
     backgroundImage: string;
     quote?: string;
     quoteAuthor?: string;
+    /** Display position on the Exhibit page (ascending) */
+    order: number;
+    /** Hidden exhibits are kept (with their posts/artifacts) but not shown on the Exhibit page */
+    visible: boolean;
 }
 
 export interface ParallaxExhibitProps {
@@ -28,10 +37,51 @@ export interface ParallaxExhibitProps {
     onEditPost: (postId: string) => void;
     onDeletePost: (postId: string) => void | Promise<void>;
     onAddArtifact: (exhibitNumber: number) => void;
+    onEditArtifact: (artifact: ArtifactType) => void;
     onDeleteArtifact: (artifact: ArtifactType) => void;
     onEditCarousel: (exhibitNumber: number) => void;
 }
 
+/** Staff-only edit/delete buttons overlaid on an artifact card */
+function ArtifactControls({
+    artifact,
+    onEdit,
+    onDelete,
+}: {
+    artifact: ArtifactType;
+    onEdit: (artifact: ArtifactType) => void;
+    onDelete: (artifact: ArtifactType) => void;
+}) {
+    return (
+        <>
+            <button
+                type="button"
+                className="artifact-edit-btn"
+                onClick={(e) => {
+                    e.preventDefault();
+                    e.stopPropagation();
+                    onEdit(artifact);
+                }}
+                aria-label="Edit artifact"
+            >
+                <Pencil size={16} />
+            </button>
+            <button
+                type="button"
+                className="artifact-delete-btn"
+                onClick={(e) => {
+                    e.preventDefault();
+                    e.stopPropagation();
+                    onDelete(artifact);
+                }}
+                aria-label="Delete artifact"
+            >
+                <Trash size={18} />
+            </button>
+        </>
+    );
+}
+
 /**
  * The Parallax Exhibit Divider
  * Uses sticky positioning to create a "reveal" effect as you scroll past.
@@ -47,6 +97,7 @@ const ParallaxExhibit = ({
     onEditPost,
     onDeletePost,
     onAddArtifact,
+    onEditArtifact,
     onDeleteArtifact,
     onEditCarousel,
 }: ParallaxExhibitProps) => {
@@ -70,7 +121,7 @@ const ParallaxExhibit = ({
     }));
 
     return (
-        <div className="parallax-chapter">
+        <div className="parallax-chapter" id={`exhibit-${exhibit.exhibitNumber}`}>
             {/* THE PARALLAX HEADER */}
             <div className="parallax-header">
                 <div className="parallax-dimmer" />
@@ -145,18 +196,11 @@ const ParallaxExhibit = ({
                 {artifacts[0] && (
                     <div className="chapter-artifact-container chapter-artifact-wrapper">
                         {isHighLevel && (
-                            <button
-                                type="button"
-                                className="artifact-delete-btn"
-                                onClick={(e) => {
-                                    e.preventDefault();
-                                    e.stopPropagation();
-                                    onDeleteArtifact(artifacts[0]);
-                                }}
-                                aria-label="Delete artifact"
-                            >
-                                <Trash size={18} />
-                            </button>
+                            <ArtifactControls
+                                artifact={artifacts[0]}
+                                onEdit={onEditArtifact}
+                                onDelete={onDeleteArtifact}
+                            />
                         )}
                         <Artifact artifact={artifacts[0]} />
                     </div>
@@ -181,18 +225,11 @@ const ParallaxExhibit = ({
                 {artifacts.slice(1).map(artifact => (
                     <div key={artifact.id} className="chapter-artifact-container chapter-artifact-wrapper">
                         {isHighLevel && (
-                            <button
-                                type="button"
-                                className="artifact-delete-btn"
-                                onClick={(e) => {
-                                    e.preventDefault();
-                                    e.stopPropagation();
-                                    onDeleteArtifact(artifact);
-                                }}
-                                aria-label="Delete artifact"
-                            >
-                                <Trash size={18} />
-                            </button>
+                            <ArtifactControls
+                                artifact={artifact}
+                                onEdit={onEditArtifact}
+                                onDelete={onDeleteArtifact}
+                            />
                         )}
                         <Artifact artifact={artifact} />
                     </div>
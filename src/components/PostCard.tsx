@@ -1,8 +1,18 @@
-import { useMemo, useState, useEffect } from 'react';
+import { useMemo, useState, useEffect, useRef } from 'react';
+import { Link } from 'react-router-dom';
 import { Card, Button, Form } from 'react-bootstrap';
-import { Pencil, Trash } from 'react-bootstrap-icons';
+import { Pencil, Trash, ChatDots, Flag, PinAngle, PinAngleFill, PlayFill, Share, Check2 } from 'react-bootstrap-icons';
 import { useAuth } from '../hooks/useAuth';
-import { updatePostExhibit } from '../hooks/postService';
+import { setPostFeatured, updatePostExhibit } from '../hooks/postService';
+import { useExhibits } from '../hooks/useExhibits';
+import { useCompanyValues } from '../hooks/useCompanyValues';
+import { useMentionLinks } from '../hooks/useMentionLinks';
+import { useImageVariants } from '../hooks/useImageVariants';
+import { applyImageVariants } from '../hooks/imageVariantService';
+import { sharePost } from '../utils/postLink';
+import ReactionBar from './ReactionBar';
+import ReportPostModal from './ReportPostModal';
+import ResponsiveImage from './ResponsiveImage';
 
 interface Post {
     id: string;
@@ -13,73 +23,108 @@ interface Post {
     createdAt: number;
     updatedAt: number;
     exhibit?: number;
+    /** Set by Staff from the moderation queue; hidden posts are excluded from the feed and exhibits */
+    hidden?: boolean;
+    /** Set when Staff pin the post to the Feed's featured carousel; also the carousel sort key */
+    featuredAt?: number;
+    /** Company value ids the post is tagged with (settings/companyValues) */
+    values?: string[];
+    /** Uids of members @mentioned in the content; maintained by Cloud Functions */
+    mentions?: string[];
+    /** Comments and replies on the post; maintained by Cloud Functions */
+    commentCount?: number;
+    /** Reactions on the post by type; maintained by Cloud Functions */
+    reactionCounts?: Record<string, number>;
 }
 
 interface PostCardProps {
     post: Post;
-    onEdit: (postId: string) => void;
+    /** When set, authors and Staff see an edit control that calls this */
+    onEdit?: (postId: string) => void;
     onView: (postId: string) => void;
     /** When set, owners see a delete control that calls this after confirmation */
     onDelete?: (postId: string) => void | Promise<void>;
     /** Called after Firestore exhibit update succeeds (e.g. patch local feed state) */
     onExhibitUpdated?: (postId: string, exhibit: number | undefined) => void;
+    /** Called after Staff pin/unpin the post (e.g. patch local feed state) */
+    onFeaturedUpdated?: (postId: string, featuredAt: number | undefined) => void;
     cardRef?: (el: HTMLDivElement | null) => void;
 }
 
-// Exhibit options (1-10)
-const EXHIBIT_OPTIONS = [
-    { value: '', label: 'No Exhibit' },
-    { value: '1', label: 'Exhibit 1' },
-    { value: '2', label: 'Exhibit 2' },
-    { value: '3', label: 'Exhibit 3' },
-    { value: '4', label: 'Exhibit 4' },
-    { value: '5', label: 'Exhibit 5' },
-    { value: '6', label: 'Exhibit 6' },
-    { value: '7', label: 'Exhibit 7' },
-    { value: '8', label: 'Exhibit 8' },
-    { value: '9', label: 'Exhibit 9' },
-    { value: '10', label: 'Exhibit 10' },
-];
+/** Rendered width of a card at the MasonryGrid breakpoints (1, 2, then 3 columns) */
+const CARD_IMAGE_SIZES = '(max-width: 575px) 100vw, (max-width: 991px) 50vw, 33vw';
+
+/** Leading image or video, shown in the card's top band */
+type LeadMedia =
+    | { kind: 'image'; src: string }
+    | { kind: 'video'; src: string; poster: string | null };
 
 /**
- * Extract the first image src from HTML content
+ * Extract the first image or video from HTML content
  */
-function extractFirstImage(html: string): { imageSrc: string | null; contentWithoutImage: string } {
-    // Match <img> tags and capture the src attribute
-    const imgRegex = /<img[^>]+src=["']([^"']+)["'][^>]*>/i;
-    const match = html.match(imgRegex);
-
-    if (match) {
-        const imageSrc = match[1];
-        // Remove the first image from content
-        const contentWithoutImage = html.replace(match[0], '');
-        return { imageSrc, contentWithoutImage };
+function extractFirstMedia(html: string): { media: LeadMedia | null; contentWithoutMedia: string } {
+    // Match <img> / <video> tags and capture the src attribute
+    const imgMatch = html.match(/<img[^>]+src=["']([^"']+)["'][^>]*>/i);
+    const videoMatch = html.match(/<video[^>]+src=["']([^"']+)["'][^>]*>(?:\s*<\/video>)?/i);
+
+    const match = imgMatch && (!videoMatch || imgMatch.index! < videoMatch.index!) ? imgMatch : videoMatch;
+    if (!match) {
+        return { media: null, contentWithoutMedia: html };
     }
 
-    return { imageSrc: null, contentWithoutImage: html };
+    const media: LeadMedia = match === imgMatch
+        ? { kind: 'image', src: match[1] }
+        : { kind: 'video', src: match[1], poster: match[0].match(/\sposter=["']([^"']+)["']/i)?.[1] ?? null };
+    // Remove the leading media from content
+    return { media, contentWithoutMedia: html.replace(match[0], '') };
 }
 
-function PostCard({ post, onEdit, onView, onDelete, onExhibitUpdated, cardRef }: PostCardProps) {
+function PostCard({ post, onEdit, onView, onDelete, onExhibitUpdated, onFeaturedUpdated, cardRef }: PostCardProps) {
     const { currentUser, isHighLevel } = useAuth();
+    const { exhibits } = useExhibits();
+    const { values: companyValues } = useCompanyValues();
+    const handleMentionClick = useMentionLinks();
 
-    const canEdit = !!currentUser && (currentUser.uid === post.authorId || isHighLevel);
+    const canEdit = !!currentUser && (currentUser.uid === post.authorId || isHighLevel) && !!onEdit;
     const isOwner = !!currentUser && currentUser.uid === post.authorId;
     const showDelete = isOwner && !!onDelete;
-    const exhibitLabel = EXHIBIT_OPTIONS.find(opt => opt.value === (post.exhibit?.toString() || ''))?.label ?? 'No Exhibit';
+    const canReport = !!currentUser && !isOwner;
+    const exhibitOptions = useMemo(() => [
+        { value: '', label: 'No Exhibit' },
+        ...exhibits.map(exhibit => ({
+            value: exhibit.exhibitNumber.toString(),
+            label: `${exhibit.exhibitNumber}. ${exhibit.title}${exhibit.visible ? '' : ' (hidden)'}`,
+        })),
+    ], [exhibits]);
+    // Tags for values Staff have since removed are not shown
+    const postValues = useMemo(
+        () => companyValues.filter(value => post.values?.includes(value.id)),
+        [companyValues, post.values],
+    );
+    const exhibitLabel = exhibitOptions.find(opt => opt.value === (post.exhibit?.toString() || ''))?.label ?? 'No Exhibit';
     const [aspectRatio, setAspectRatio] = useState<number | null>(null);
+    const [showReport, setShowReport] = useState(false);
+    /** Briefly true after the share action copied the post link to the clipboard */
+    const [linkCopied, setLinkCopied] = useState(false);
+    /** Lead video src playing inline in the top band (replaces the poster) */
+    const [playingSrc, setPlayingSrc] = useState<string | null>(null);
 
-    const { imageSrc, contentWithoutImage } = useMemo(
-        () => extractFirstImage(post.content),
+    const { media, contentWithoutMedia } = useMemo(
+        () => extractFirstMedia(post.content),
         [post.content]
     );
+    const imageSrc = media?.kind === 'video' ? media.poster : media?.src ?? null;
 
-    const hasImage = !!imageSrc;
+    const imageVariants = useImageVariants(imageSrc);
+    const contentRef = useRef<HTMLDivElement>(null);
+
+    const hasMedia = !!media;
     /** Width/height for CSS aspect-ratio on the top image band (~16:9 until metadata loads). */
-    const imageBandAspect = aspectRatio ?? 16 / 9;
+    const imageBandAspect = (imageVariants ? imageVariants.width / imageVariants.height : aspectRatio) ?? 16 / 9;
 
-    // Load image and calculate aspect ratio
+    // Load image and calculate aspect ratio (variant metadata already has it, so only fall back to loading the original)
     useEffect(() => {
-        if (!imageSrc) {
+        if (!imageSrc || imageVariants !== null) {
             return;
         }
 
@@ -105,7 +150,12 @@ function PostCard({ post, onEdit, onView, onDelete, onExhibitUpdated, cardRef }:
             cancelled = true;
             setAspectRatio(null);
         };
-    }, [imageSrc]);
+    }, [imageSrc, imageVariants]);
+
+    useEffect(() => {
+        if (!contentRef.current) return;
+        return applyImageVariants(contentRef.current, CARD_IMAGE_SIZES);
+    }, [contentWithoutMedia]);
 
     const formatDate = (timestamp: number) => {
         const date = new Date(timestamp);
@@ -118,13 +168,21 @@ function PostCard({ post, onEdit, onView, onDelete, onExhibitUpdated, cardRef }:
         });
     };
 
-    const handleCardClick = () => {
+    const handleCardClick = (e: React.MouseEvent) => {
+        // Audio messages play inline; using their controls should not open the post
+        if ((e.target as HTMLElement).closest('audio, video')) return;
+        if (handleMentionClick(e)) return;
         onView(post.id);
     };
 
+    const handlePlayClick = (e: React.MouseEvent) => {
+        e.stopPropagation();
+        if (media?.kind === 'video') setPlayingSrc(media.src);
+    };
+
     const handleEditClick = (e: React.MouseEvent) => {
         e.stopPropagation(); // Prevent card click from firing
-        onEdit(post.id);
+        onEdit?.(post.id);
     };
 
     const handleDeleteClick = (e: React.MouseEvent) => {
@@ -136,6 +194,35 @@ function PostCard({ post, onEdit, onView, onDelete, onExhibitUpdated, cardRef }:
         });
     };
 
+    const handleReportClick = (e: React.MouseEvent) => {
+        e.stopPropagation();
+        setShowReport(true);
+    };
+
+    const handleShareClick = (e: React.MouseEvent) => {
+        e.stopPropagation();
+        sharePost(post)
+            .then((result) => {
+                if (result !== 'copied') return;
+                setLinkCopied(true);
+                window.setTimeout(() => setLinkCopied(false), 2000);
+            })
+            .catch((error) => {
+                console.error('Failed to share post:', error);
+            });
+    };
+
+    const handleFeaturedClick = (e: React.MouseEvent) => {
+        e.stopPropagation();
+        setPostFeatured(post.id, !post.featuredAt)
+            .then((featuredAt) => {
+                onFeaturedUpdated?.(post.id, featuredAt ?? undefined);
+            })
+            .catch((error) => {
+                console.error('Failed to update featured state:', error);
+            });
+    };
+
     const handleExhibitChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
         e.stopPropagation(); // Prevent card click from firing
         const value = e.target.value;
@@ -152,16 +239,46 @@ function PostCard({ post, onEdit, onView, onDelete, onExhibitUpdated, cardRef }:
     return (
         <div ref={cardRef}>
             <Card
-                className={hasImage ? 'post-card post-card--with-image' : 'post-card'}
+                className={hasMedia ? 'post-card post-card--with-image' : 'post-card'}
                 style={{ cursor: 'pointer' }}
                 onClick={handleCardClick}
             >
-                {hasImage && (
+                {hasMedia && (
                     <div
-                        className="post-card-image-top post-card-old-style"
+                        className={`post-card-image-top post-card-old-style${media.kind === 'video' ? ' post-card-image-top--video' : ''}`}
                         style={{ aspectRatio: imageBandAspect }}
                     >
-                        <img src={imageSrc!} alt="" className="post-card-image-top-img" />
+                        {media.kind === 'video' && playingSrc === media.src ? (
+                            <video
+                                src={media.src}
+                                poster={media.poster ?? undefined}
+                                className="post-card-image-top-img"
+                                controls
+                                autoPlay
+                                playsInline
+                            />
+                        ) : (
+                            <>
+                                {imageSrc && (
+                                    <ResponsiveImage
+                                        src={imageSrc}
+                                        sizes={CARD_IMAGE_SIZES}
+                                        alt=""
+                                        className="post-card-image-top-img"
+                                    />
+                                )}
+                                {media.kind === 'video' && (
+                                    <button
+                                        type="button"
+                                        className="post-card-play-overlay"
+                                        onClick={handlePlayClick}
+                                        aria-label="Play video"
+                                    >
+                                        <PlayFill size={28} aria-hidden />
+                                    </button>
+                                )}
+                            </>
+                        )}
                     </div>
                 )}
                 <Card.Body>
@@ -177,8 +294,9 @@ function PostCard({ post, onEdit, onView, onDelete, onExhibitUpdated, cardRef }:
                                         value={post.exhibit?.toString() || ''}
                                         onChange={handleExhibitChange}
                                         aria-label="Select exhibit"
+                                        style={{ maxWidth: '12rem' }}
                                     >
-                                        {EXHIBIT_OPTIONS.map(opt => (
+                                        {exhibitOptions.map(opt => (
                                             <option key={opt.value} value={opt.value}>
                                                 {opt.label}
                                             </option>
@@ -189,6 +307,19 @@ function PostCard({ post, onEdit, onView, onDelete, onExhibitUpdated, cardRef }:
                                         {exhibitLabel}
                                     </span>
                                 )}
+                                {isHighLevel && (
+                                    <Button
+                                        variant="link"
+                                        size="sm"
+                                        onClick={handleFeaturedClick}
+                                        aria-label={post.featuredAt ? 'Unpin from featured' : 'Pin as featured'}
+                                        aria-pressed={!!post.featuredAt}
+                                        title={post.featuredAt ? 'Unpin from featured' : 'Pin as featured'}
+                                        className="flex items-center justify-center px-2 py-2"
+                                    >
+                                        {post.featuredAt ? <PinAngleFill size={14} /> : <PinAngle size={14} />}
+                                    </Button>
+                                )}
                                 {canEdit && (
                                     <Button
                                         variant="link"
@@ -215,17 +346,69 @@ function PostCard({ post, onEdit, onView, onDelete, onExhibitUpdated, cardRef }:
                         )}
                     </div>
                     <div
-                        dangerouslySetInnerHTML={{ __html: contentWithoutImage }}
+                        ref={contentRef}
+                        dangerouslySetInnerHTML={{ __html: contentWithoutMedia }}
                         className="post-content"
                     />
-                    <Card.Text
-                        className="mt-2 text-muted"
-                        style={{ fontSize: '0.875rem' }}
-                    >
-                        {formatDate(post.createdAt)}
-                    </Card.Text>
+                    {postValues.length > 0 && (
+                        <div className="value-chips mt-2" onClick={e => e.stopPropagation()}>
+                            {postValues.map(value => (
+                                <Link
+                                    key={value.id}
+                                    to={{ pathname: '/', search: `?value=${encodeURIComponent(value.id)}` }}
+                                    className="value-chip"
+                                    title={`More posts about ${value.label}`}
+                                >
+                                    {value.label}
+                                </Link>
+                            ))}
+                        </div>
+                    )}
+                    <div className="d-flex flex-wrap justify-content-between align-items-center gap-2 mt-2">
+                        <Card.Text
+                            className="mb-0 text-muted"
+                            style={{ fontSize: '0.875rem' }}
+                        >
+                            {formatDate(post.createdAt)}
+                        </Card.Text>
+                        <div className="d-flex align-items-center gap-2">
+                            {!!post.commentCount && (
+                                <span className="post-card-comment-count" title={`${post.commentCount} comments`}>
+                                    <ChatDots size={14} aria-hidden />
+                                    {post.commentCount}
+                                </span>
+                            )}
+                            <ReactionBar postId={post.id} compact />
+                            <Button
+                                variant="link"
+                                size="sm"
+                                onClick={handleShareClick}
+                                aria-label={linkCopied ? 'Link copied' : 'Share post'}
+                                title={linkCopied ? 'Link copied' : 'Share post'}
+                                className="post-card-share-btn p-1"
+                            >
+                                {linkCopied ? <Check2 size={13} /> : <Share size={13} />}
+                            </Button>
+                            {canReport && (
+                                <Button
+                                    variant="link"
+                                    size="sm"
+                                    onClick={handleReportClick}
+                                    aria-label="Report post"
+                                    title="Report post"
+                                    className="post-card-report-btn p-1"
+                                >
+                                    <Flag size={13} />
+                                </Button>
+                            )}
+                        </div>
+                    </div>
                 </Card.Body>
             </Card>
+            {/* Rendered outside the Card so clicks inside the modal do not open the post */}
+            {canReport && (
+                <ReportPostModal show={showReport} postId={post.id} onClose={() => setShowReport(false)} />
+            )}
         </div>
     );
 }
@@ -3,6 +3,8 @@ import { EditorContent } from '@tiptap/react';
 import type { Editor } from '@tiptap/react';
 import type { Post } from './PostCard';
 import EditorToolbar from './EditorToolbar';
+import CompanyValuePicker from './CompanyValuePicker';
+import type { Recording } from '../utils/mediaRecording';
 
 interface PostEditorModalProps {
     show: boolean;
@@ -14,6 +16,11 @@ interface PostEditorModalProps {
     onSave?: () => void;
     onClose: () => void;
     onUploadImage?: (file: File) => Promise<void>;
+    onUploadVideo?: (file: File) => Promise<void>;
+    onRecordMessage?: (recording: Recording) => Promise<void>;
+    /** Company value ids the post is tagged with; the picker is shown when onValuesChange is set */
+    values?: string[];
+    onValuesChange?: (values: string[]) => void;
     /** When true, Save is disabled (e.g. new draft with empty body) */
     saveDisabled?: boolean;
 }
@@ -28,6 +35,10 @@ function PostEditorModal({
     onSave,
     onClose,
     onUploadImage,
+    onUploadVideo,
+    onRecordMessage,
+    values,
+    onValuesChange,
     saveDisabled,
 }: PostEditorModalProps) {
 
@@ -53,10 +64,22 @@ function PostEditorModal({
                     </div>
                 ) : (
                     <div className="tiptap-editor-container">
-                        <EditorToolbar editor={editor} onUploadImage={onUploadImage} />
+                        <EditorToolbar
+                            editor={editor}
+                            onUploadImage={onUploadImage}
+                            onUploadVideo={onUploadVideo}
+                            onRecordMessage={onRecordMessage}
+                        />
                         <div className="tiptap-editor">
                             {editor && <EditorContent editor={editor} />}
                         </div>
+                        {onValuesChange && (
+                            <CompanyValuePicker
+                                selected={values ?? []}
+                                onChange={onValuesChange}
+                                disabled={!!isSaving}
+                            />
+                        )}
                     </div>
                 )}
             </Modal.Body>
@@ -1,14 +1,44 @@
+import { useCallback } from 'react';
 import { Modal } from 'react-bootstrap';
+import { applyImageVariants } from '../hooks/imageVariantService';
+import { useMentionLinks } from '../hooks/useMentionLinks';
 import type { Post } from './PostCard';
+import ReactionBar from './ReactionBar';
+import CommentThread from './CommentThread';
 
 interface PostViewModalProps {
     show: boolean;
     post: Post | null;
+    /** The requested post does not exist (e.g. a shared link to a deleted post) */
+    notFound?: boolean;
     onClose: () => void;
 }
 
-function PostViewModal({ show, post, onClose }: PostViewModalProps) {
-    if (!post) return null;
+/** Rendered width of post images inside the large modal */
+const POST_VIEW_IMAGE_SIZES = '(max-width: 991px) 100vw, 800px';
+
+function PostViewModal({ show, post, notFound = false, onClose }: PostViewModalProps) {
+    const content = post?.content;
+    const handleMentionClick = useMentionLinks();
+    // Callback ref: the modal body mounts lazily, and a new callback re-applies variants when the content changes
+    const contentRef = useCallback((el: HTMLDivElement | null) => {
+        if (!el || content === undefined) return;
+        return applyImageVariants(el, POST_VIEW_IMAGE_SIZES);
+    }, [content]);
+
+    if (!post) {
+        if (!notFound) return null;
+        return (
+            <Modal show={show} onHide={onClose} centered className="post-view-modal">
+                <Modal.Header closeButton>
+                    <Modal.Title as="h2" className="h5 mb-0">Post not found</Modal.Title>
+                </Modal.Header>
+                <Modal.Body>
+                    <p className="text-muted mb-0">This post has been deleted or is no longer available.</p>
+                </Modal.Body>
+            </Modal>
+        );
+    }
 
     const formatDate = (timestamp: number) => {
         const date = new Date(timestamp);
@@ -39,14 +69,20 @@ function PostViewModal({ show, post, onClose }: PostViewModalProps) {
             </Modal.Header>
             <Modal.Body>
                 <div
+                    ref={contentRef}
                     dangerouslySetInnerHTML={{ __html: post.content }}
                     className="post-content post-view-content"
+                    onClick={e => {
+                        if (handleMentionClick(e) && e.defaultPrevented) onClose();
+                    }}
                 />
+                <CommentThread postId={post.id} />
             </Modal.Body>
-            <Modal.Footer className="justify-content-start border-top">
+            <Modal.Footer className="justify-content-between border-top">
                 <small className="text-muted">
                     Posted on {formatDate(post.createdAt)}
                 </small>
+                <ReactionBar postId={post.id} />
             </Modal.Footer>
         </Modal>
     );
@@ -0,0 +1,79 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useAuth } from '../hooks/useAuth';
+import {
+    REACTIONS,
+    subscribeToReactions,
+    toggleReaction,
+    type PostReaction,
+    type ReactionType,
+} from '../hooks/postService';
+
+interface ReactionBarProps {
+    postId: string;
+    /** Smaller buttons for cards */
+    compact?: boolean;
+}
+
+/**
+ * Live reaction counts for a post. Signed-in users can toggle their own reactions;
+ * guests see the counts only.
+ */
+function ReactionBar({ postId, compact = false }: ReactionBarProps) {
+    const { currentUser } = useAuth();
+    const [reactions, setReactions] = useState<PostReaction[]>([]);
+    const [pending, setPending] = useState<ReactionType | null>(null);
+
+    useEffect(() => {
+        const unsubscribe = subscribeToReactions(postId, setReactions);
+        return unsubscribe;
+    }, [postId]);
+
+    const summary = useMemo(() => REACTIONS.map(({ type, emoji, label }) => {
+        const ofType = reactions.filter(r => r.reaction === type);
+        return {
+            type,
+            emoji,
+            label,
+            count: ofType.length,
+            reacted: !!currentUser && ofType.some(r => r.userId === currentUser.uid),
+        };
+    }), [reactions, currentUser]);
+
+    const handleToggle = async (e: React.MouseEvent, type: ReactionType, reacted: boolean) => {
+        e.stopPropagation();
+        if (!currentUser || pending) return;
+        setPending(type);
+        try {
+            await toggleReaction(postId, currentUser.uid, type, !reacted);
+        } catch (err) {
+            console.error('Failed to update reaction:', err);
+        } finally {
+            setPending(null);
+        }
+    };
+
+    return (
+        <div
+            className={`reaction-bar${compact ? ' reaction-bar--compact' : ''}`}
+            onClick={e => e.stopPropagation()}
+        >
+            {summary.map(({ type, emoji, label, count, reacted }) => (
+                <button
+                    key={type}
+                    type="button"
+                    className={`reaction-btn${reacted ? ' active' : ''}`}
+                    onClick={(e) => handleToggle(e, type, reacted)}
+                    disabled={!currentUser || pending === type}
+                    aria-pressed={reacted}
+                    aria-label={`${label} (${count})`}
+                    title={currentUser ? label : 'Sign in to react'}
+                >
+                    <span className="reaction-emoji" aria-hidden>{emoji}</span>
+                    {count > 0 && <span className="reaction-count">{count}</span>}
+                </button>
+            ))}
+        </div>
+    );
+}
+
+export default ReactionBar;
@@ -0,0 +1,280 @@
+import { useEffect, useRef, useState } from 'react';
+import { Modal, Button, ButtonGroup, Alert, Spinner } from 'react-bootstrap';
+import { CameraVideo, Mic } from 'react-bootstrap-icons';
+import {
+    RECORDING_COUNTDOWN_SECONDS,
+    RECORDING_LIMIT_SECONDS,
+    RECORDING_STOP_MARGIN_SECONDS,
+    pickRecorderMimeType,
+    recordingToFile,
+    type Recording,
+    type RecordingKind,
+} from '../utils/mediaRecording';
+
+interface RecordMessageModalProps {
+    show: boolean;
+    onClose: () => void;
+    /** Upload and insert the recording; a thrown error is shown in the modal so the user can retry */
+    onRecorded: (recording: Recording) => Promise<void>;
+}
+
+type Phase = 'ready' | 'countdown' | 'recording' | 'preview' | 'uploading';
+
+const formatSeconds = (seconds: number) => {
+    const whole = Math.floor(seconds);
+    return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+const isRecordingSupported = () =>
+    typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+/**
+ * Record a short webcam video or microphone-only audio message: countdown, capped length,
+ * then preview with retake before it is handed to `onRecorded`.
+ */
+function RecordMessageModal({ show, onClose, onRecorded }: RecordMessageModalProps) {
+    const [kind, setKind] = useState<RecordingKind>('video');
+    const [phase, setPhase] = useState<Phase>('ready');
+    const [stream, setStream] = useState<MediaStream | null>(null);
+    const [countdown, setCountdown] = useState(RECORDING_COUNTDOWN_SECONDS);
+    const [elapsed, setElapsed] = useState(0);
+    const [recording, setRecording] = useState<Recording | null>(null);
+    const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const liveVideoRef = useRef<HTMLVideoElement>(null);
+    const recorderRef = useRef<MediaRecorder | null>(null);
+    const timerRef = useRef<number | null>(null);
+
+    const supported = isRecordingSupported();
+
+    // Hold the camera/microphone only while it can be used (released during preview and upload)
+    const needsStream = show && supported && (phase === 'ready' || phase === 'countdown' || phase === 'recording');
+    useEffect(() => {
+        if (!needsStream) return;
+        let cancelled = false;
+        let acquired: MediaStream | null = null;
+        navigator.mediaDevices.getUserMedia({
+            audio: true,
+            video: kind === 'video' ? { width: { ideal: 1280 }, height: { ideal: 720 } } : false,
+        }).then((media) => {
+            if (cancelled) {
+                media.getTracks().forEach(track => track.stop());
+                return;
+            }
+            acquired = media;
+            setStream(media);
+            setError(null);
+        }).catch((err) => {
+            console.error('Failed to access recording devices:', err);
+            if (!cancelled) {
+                setError(kind === 'video'
+                    ? 'Could not access your camera and microphone. Check your browser permissions.'
+                    : 'Could not access your microphone. Check your browser permissions.');
+            }
+        });
+        return () => {
+            cancelled = true;
+            acquired?.getTracks().forEach(track => track.stop());
+            setStream(null);
+        };
+    }, [needsStream, kind]);
+
+    useEffect(() => {
+        if (liveVideoRef.current) liveVideoRef.current.srcObject = stream;
+    }, [stream, phase]);
+
+    useEffect(() => () => {
+        if (timerRef.current !== null) window.clearInterval(timerRef.current);
+    }, []);
+
+    const clearTimer = () => {
+        if (timerRef.current !== null) {
+            window.clearInterval(timerRef.current);
+            timerRef.current = null;
+        }
+    };
+
+    const beginRecording = (media: MediaStream) => {
+        const stopAt = RECORDING_LIMIT_SECONDS - RECORDING_STOP_MARGIN_SECONDS;
+        const mimeType = pickRecorderMimeType(kind);
+        const recorder = new MediaRecorder(media, mimeType ? { mimeType } : undefined);
+        const chunks: Blob[] = [];
+        const startedAt = Date.now();
+
+        recorder.ondataavailable = (e) => {
+            if (e.data.size > 0) chunks.push(e.data);
+        };
+        recorder.onstop = () => {
+            clearTimer();
+            const file = recordingToFile(chunks, recorder.mimeType, kind);
+            const duration = Math.min((Date.now() - startedAt) / 1000, RECORDING_LIMIT_SECONDS);
+            setRecording({ file, kind, duration });
+            setPreviewUrl(URL.createObjectURL(file));
+            setPhase('preview');
+        };
+
+        recorderRef.current = recorder;
+        recorder.start(1000);
+        setElapsed(0);
+        setPhase('recording');
+        timerRef.current = window.setInterval(() => {
+            const seconds = (Date.now() - startedAt) / 1000;
+            setElapsed(seconds);
+            if (seconds >= stopAt && recorder.state === 'recording') recorder.stop();
+        }, 250);
+    };
+
+    const handleStart = () => {
+        if (!stream) return;
+        const media = stream;
+        let remaining = RECORDING_COUNTDOWN_SECONDS;
+        setCountdown(remaining);
+        setPhase('countdown');
+        timerRef.current = window.setInterval(() => {
+            remaining -= 1;
+            if (remaining > 0) {
+                setCountdown(remaining);
+                return;
+            }
+            clearTimer();
+            beginRecording(media);
+        }, 1000);
+    };
+
+    const handleStop = () => {
+        if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+    };
+
+    const discardRecording = () => {
+        if (previewUrl) URL.revokeObjectURL(previewUrl);
+        setPreviewUrl(null);
+        setRecording(null);
+    };
+
+    const handleRetake = () => {
+        discardRecording();
+        setError(null);
+        setPhase('ready');
+    };
+
+    const handleClose = () => {
+        if (phase === 'uploading') return;
+        clearTimer();
+        const recorder = recorderRef.current;
+        if (recorder && recorder.state === 'recording') {
+            recorder.onstop = null;
+            recorder.stop();
+        }
+        recorderRef.current = null;
+        discardRecording();
+        setError(null);
+        setPhase('ready');
+        onClose();
+    };
+
+    const handleUse = async () => {
+        if (!recording) return;
+        setPhase('uploading');
+        setError(null);
+        try {
+            await onRecorded(recording);
+            discardRecording();
+            setPhase('ready');
+            onClose();
+        } catch (err: unknown) {
+            setError((err as { message?: string })?.message || 'Failed to upload the recording.');
+            setPhase('preview');
+        }
+    };
+
+    const reviewing = phase === 'preview' || phase === 'uploading';
+
+    return (
+        <Modal show={show} onHide={handleClose} centered backdrop="static" className="record-message-modal">
+            <Modal.Header closeButton={phase !== 'uploading'}>
+                <Modal.Title>Record a message</Modal.Title>
+            </Modal.Header>
+            <Modal.Body>
+                {!supported ? (
+                    <Alert variant="warning" className="mb-0">
+                        This browser cannot record audio or video. Try a recent version of Chrome, Edge, Firefox or Safari.
+                    </Alert>
+                ) : (
+                    <>
+                        <ButtonGroup size="sm" className="mb-3" aria-label="Recording type">
+                            <Button
+                                variant={kind === 'video' ? 'primary' : 'outline-primary'}
+                                onClick={() => setKind('video')}
+                                disabled={phase !== 'ready'}
+                            >
+                                <CameraVideo className="me-1" /> Video
+                            </Button>
+                            <Button
+                                variant={kind === 'audio' ? 'primary' : 'outline-primary'}
+                                onClick={() => setKind('audio')}
+                                disabled={phase !== 'ready'}
+                            >
+                                <Mic className="me-1" /> Audio only
+                            </Button>
+                        </ButtonGroup>
+
+                        {error && <Alert variant="danger">{error}</Alert>}
+
+                        <div className={`record-message-stage${kind === 'audio' ? ' record-message-stage--audio' : ''}`}>
+                            {reviewing && previewUrl ? (
+                                kind === 'video' ? (
+                                    <video src={previewUrl} controls playsInline className="record-message-media" />
+                                ) : (
+                                    <audio src={previewUrl} controls className="record-message-audio" />
+                                )
+                            ) : kind === 'video' ? (
+                                <video ref={liveVideoRef} autoPlay muted playsInline className="record-message-media record-message-live" />
+                            ) : (
+                                <Mic size={48} className={phase === 'recording' ? 'text-danger' : 'text-muted'} aria-hidden />
+                            )}
+                            {phase === 'countdown' && (
+                                <span className="record-message-countdown" aria-live="assertive">{countdown}</span>
+                            )}
+                            {phase === 'recording' && (
+                                <span className="record-message-timer" aria-live="off">
+                                    <span className="record-message-dot" aria-hidden />
+                                    {formatSeconds(elapsed)} / {formatSeconds(RECORDING_LIMIT_SECONDS)}
+                                </span>
+                            )}
+                        </div>
+                        <small className="text-muted d-block mt-2">
+                            Up to {RECORDING_LIMIT_SECONDS} seconds. Recording starts after a {RECORDING_COUNTDOWN_SECONDS}-second countdown.
+                        </small>
+                    </>
+                )}
+            </Modal.Body>
+            <Modal.Footer>
+                {phase === 'recording' ? (
+                    <Button variant="danger" onClick={handleStop}>Stop</Button>
+                ) : reviewing ? (
+                    <>
+                        <Button variant="outline-secondary" onClick={handleRetake} disabled={phase === 'uploading'}>
+                            Retake
+                        </Button>
+                        <Button variant="primary" onClick={handleUse} disabled={phase === 'uploading'}>
+                            {phase === 'uploading' ? <><Spinner animation="border" size="sm" className="me-2" />Uploading...</> : 'Use recording'}
+                        </Button>
+                    </>
+                ) : (
+                    <>
+                        <Button variant="outline-secondary" onClick={handleClose}>Cancel</Button>
+                        <Button
+                            variant="danger"
+                            onClick={handleStart}
+                            disabled={!supported || !stream || phase === 'countdown'}
+                        >
+                            Start recording
+                        </Button>
+                    </>
+                )}
+            </Modal.Footer>
+        </Modal>
+    );
+}
+
+export default RecordMessageModal;
@@ -0,0 +1,113 @@
+import { useEffect, useState } from 'react';
+import { Modal, Form, Button, Spinner, Alert } from 'react-bootstrap';
+import { useAuth } from '../hooks/useAuth';
+import {
+    REPORT_DETAILS_MAX_LENGTH,
+    REPORT_REASONS,
+    reportPost,
+    type ReportReason,
+} from '../hooks/reportService';
+
+interface ReportPostModalProps {
+    show: boolean;
+    postId: string;
+    onClose: () => void;
+}
+
+/**
+ * Lets a signed-in member flag a post for Staff review with a reason and optional details.
+ */
+function ReportPostModal({ show, postId, onClose }: ReportPostModalProps) {
+    const { currentUser } = useAuth();
+    const [reason, setReason] = useState<ReportReason>('inappropriate');
+    const [details, setDetails] = useState('');
+    const [submitting, setSubmitting] = useState(false);
+    const [submitted, setSubmitted] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Reset form when opening
+    useEffect(() => {
+        if (!show) return;
+        setReason('inappropriate');
+        setDetails('');
+        setSubmitted(false);
+        setError(null);
+    }, [show]);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!currentUser || submitting) return;
+        setSubmitting(true);
+        setError(null);
+        try {
+            await reportPost(postId, currentUser.uid, reason, details.trim());
+            setSubmitted(true);
+        } catch (err: unknown) {
+            // Reports are create-only, so a second report on the same post is rejected by the rules
+            if ((err as { code?: string })?.code === 'permission-denied') {
+                setError('You have already reported this post.');
+            } else {
+                console.error('Failed to report post:', err);
+                setError('Failed to send report. Please try again.');
+            }
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    return (
+        <Modal show={show} onHide={onClose} centered>
+            <Modal.Header closeButton>
+                <Modal.Title>Report post</Modal.Title>
+            </Modal.Header>
+            {submitted ? (
+                <>
+                    <Modal.Body>
+                        <p className="mb-0">Thanks for letting us know. Staff will review this post.</p>
+                    </Modal.Body>
+                    <Modal.Footer>
+                        <Button variant="primary" onClick={onClose}>Close</Button>
+                    </Modal.Footer>
+                </>
+            ) : (
+                <Form onSubmit={handleSubmit}>
+                    <Modal.Body>
+                        {error && <Alert variant="danger">{error}</Alert>}
+                        <Form.Group className="mb-3">
+                            <Form.Label>Reason</Form.Label>
+                            <Form.Select
+                                value={reason}
+                                onChange={(e) => setReason(e.target.value as ReportReason)}
+                            >
+                                {REPORT_REASONS.map(r => (
+                                    <option key={r.value} value={r.value}>{r.label}</option>
+                                ))}
+                            </Form.Select>
+                        </Form.Group>
+                        <Form.Group>
+                            <Form.Label>Details (optional)</Form.Label>
+                            <Form.Control
+                                as="textarea"
+                                rows={3}
+                                value={details}
+                                onChange={(e) => setDetails(e.target.value)}
+                                maxLength={REPORT_DETAILS_MAX_LENGTH}
+                                placeholder="Anything Staff should know"
+                            />
+                        </Form.Group>
+                    </Modal.Body>
+                    <Modal.Footer>
+                        <Button variant="outline-secondary" onClick={onClose} disabled={submitting}>
+                            Cancel
+                        </Button>
+                        <Button variant="danger" type="submit" disabled={submitting}>
+                            {submitting ? <Spinner animation="border" size="sm" /> : 'Report'}
+                        </Button>
+                    </Modal.Footer>
+                </Form>
+            )}
+        </Modal>
+    );
+}
+
+export default ReportPostModal;
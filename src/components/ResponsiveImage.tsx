@@ -0,0 +1,50 @@
+import { useState, type CSSProperties, type ImgHTMLAttributes } from 'react';
+import { useImageVariants } from '../hooks/useImageVariants';
+import { buildSrcSet } from '../hooks/imageVariantService';
+
+type ResponsiveImageProps = Omit<ImgHTMLAttributes<HTMLImageElement>, 'src' | 'srcSet' | 'sizes'> & {
+    src: string;
+    /** `sizes` attribute describing the rendered width, e.g. "(max-width: 576px) 100vw, 33vw" */
+    sizes: string;
+};
+
+/**
+ * Drop-in <img> for uploaded images: picks a resized variant via `srcset` and shows the
+ * blurred placeholder until the image loads. Waits for the (cached) variant lookup before
+ * setting `src`, so the browser never starts downloading the full-size original for a thumbnail.
+ */
+function ResponsiveImage({ src, sizes, style, width, height, onLoad, ...imgProps }: ResponsiveImageProps) {
+    const variants = useImageVariants(src);
+    const [loadedSrc, setLoadedSrc] = useState<string | null>(null);
+
+    if (variants === undefined) {
+        return <img {...imgProps} style={style} width={width} height={height} />;
+    }
+
+    const placeholderStyle: CSSProperties | undefined = variants && loadedSrc !== src
+        ? {
+            backgroundImage: `url("${variants.placeholder}")`,
+            backgroundSize: 'cover',
+            backgroundRepeat: 'no-repeat',
+        }
+        : undefined;
+
+    return (
+        <img
+            {...imgProps}
+            // srcSet and sizes before src, so browsers never fetch the original first
+            srcSet={variants ? buildSrcSet(src, variants) : undefined}
+            sizes={variants ? sizes : undefined}
+            src={src}
+            width={width ?? variants?.width}
+            height={height ?? variants?.height}
+            style={placeholderStyle ? { ...style, ...placeholderStyle } : style}
+            onLoad={(e) => {
+                setLoadedSrc(src);
+                onLoad?.(e);
+            }}
+        />
+    );
+}
+
+export default ResponsiveImage;
@@ -0,0 +1,144 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Card, Spinner, Row, Col } from 'react-bootstrap';
+import BarChart from './BarChart';
+import ChartCard from './ChartCard';
+import {
+    averageSentiment,
+    formatMonth,
+    subscribeToPostAnalytics,
+    type PostAnalytics,
+} from '../hooks/analyticsService';
+import { SENTIMENT_LABELS } from '../hooks/sentimentService';
+import { useExhibits } from '../hooks/useExhibits';
+
+interface SentimentDashboardProps {
+    onError: (message: string) => void;
+}
+
+const formatScore = (score: number) => score.toFixed(2);
+
+/**
+ * Admin **Sentiment** tab: label breakdown and average sentiment by exhibit and by month,
+ * from the aggregate analytics/posts document. Strongly negative posts are listed in the Moderation tab.
+ */
+function SentimentDashboard({ onError }: SentimentDashboardProps) {
+    const { exhibits } = useExhibits();
+    const [analytics, setAnalytics] = useState<PostAnalytics | null>(null);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        const unsubscribe = subscribeToPostAnalytics(data => {
+            setAnalytics(data);
+            setLoading(false);
+        }, err => {
+            onError(err.message);
+            setLoading(false);
+        });
+        return unsubscribe;
+    }, [onError]);
+
+    const byExhibit = useMemo(() => {
+        const groups = analytics?.sentiment?.exhibits ?? {};
+        const titled = [
+            ...exhibits.map(e => ({ key: String(e.exhibitNumber), label: `${e.exhibitNumber}. ${e.title}` })),
+            { key: 'unassigned', label: 'Unassigned' },
+        ];
+        return titled
+            .map(({ key, label }) => ({ label, count: groups[key]?.count ?? 0, average: averageSentiment(groups[key]) }))
+            .filter((row): row is { label: string; count: number; average: number } => row.average !== null);
+    }, [analytics, exhibits]);
+
+    const byMonth = useMemo(() => {
+        const groups = analytics?.sentiment?.months ?? {};
+        return Object.keys(groups)
+            .sort()
+            .map(month => ({ month, count: groups[month].count, average: averageSentiment(groups[month]) }))
+            .filter((row): row is { month: string; count: number; average: number } => row.average !== null);
+    }, [analytics]);
+
+    if (loading) {
+        return (
+            <div className="d-flex justify-content-center p-4">
+                <Spinner animation="border" size="sm" />
+            </div>
+        );
+    }
+
+    const labels = analytics?.sentiment?.labels;
+    const analyzed = SENTIMENT_LABELS.reduce((sum, l) => sum + Math.max(labels?.[l.value] ?? 0, 0), 0);
+
+    return (
+        <>
+            <p className="text-muted small">
+                Posts are scored offline with a word list when they are saved. Scores are per word (roughly -5 to +5);
+                above 0.05 counts as positive and below -0.05 as negative. Posts scoring -0.5 or lower are flagged
+                in the <strong>Moderation</strong> tab.
+                Hidden posts are excluded; recalculate from the <strong>Analytics</strong> tab.
+            </p>
+
+            <Row xs={1} md={3} className="g-3 mb-3">
+                {SENTIMENT_LABELS.map(l => {
+                    const count = Math.max(labels?.[l.value] ?? 0, 0);
+                    return (
+                        <Col key={l.value}>
+                            <Card className="analytics-stat text-center h-100">
+                                <Card.Body>
+                                    <div className="analytics-stat-number">{count}</div>
+                                    <div className="analytics-stat-label">
+                                        {l.label} ({analyzed > 0 ? Math.round((count / analyzed) * 100) : 0}%)
+                                    </div>
+                                </Card.Body>
+                            </Card>
+                        </Col>
+                    );
+                })}
+            </Row>
+
+            <Row xs={1} lg={2} className="g-3">
+                <Col>
+                    <ChartCard
+                        title="Sentiment by exhibit"
+                        csv={{
+                            filename: 'sentiment-by-exhibit.csv',
+                            header: ['Exhibit', 'Analyzed posts', 'Average score'],
+                            rows: byExhibit.map(r => [r.label, r.count, formatScore(r.average)]),
+                        }}
+                    >
+                        <BarChart
+                            ariaLabel="Average sentiment score by exhibit"
+                            formatValue={formatScore}
+                            data={byExhibit.map(r => ({
+                                label: r.label,
+                                value: r.average,
+                                title: `${r.label}: ${formatScore(r.average)} average over ${r.count} posts`,
+                            }))}
+                        />
+                    </ChartCard>
+                </Col>
+                <Col>
+                    <ChartCard
+                        title="Sentiment over time"
+                        csv={{
+                            filename: 'sentiment-by-month.csv',
+                            header: ['Month', 'Analyzed posts', 'Average score'],
+                            rows: byMonth.map(r => [r.month, r.count, formatScore(r.average)]),
+                        }}
+                    >
+                        <BarChart
+                            orientation="vertical"
+                            ariaLabel="Average sentiment score per month"
+                            formatValue={formatScore}
+                            data={byMonth.map(r => ({
+                                label: formatMonth(r.month),
+                                value: r.average,
+                                title: `${formatMonth(r.month)}: ${formatScore(r.average)} average over ${r.count} posts`,
+                            }))}
+                        />
+                    </ChartCard>
+                </Col>
+            </Row>
+        </>
+    );
+}
+
+export default SentimentDashboard;
@@ -0,0 +1,150 @@
+import { useEffect, useState } from 'react';
+import { Card, Table, Button, Spinner, Badge, Form } from 'react-bootstrap';
+import {
+    previewStorageGc,
+    subscribeToStorageGcReports,
+    type StorageGcReport,
+} from '../hooks/storageGcService';
+
+const REPORT_HISTORY = 10;
+
+interface StorageCleanupPanelProps {
+    onError: (message: string) => void;
+}
+
+const formatDateTime = (timestamp: number) => {
+    return new Date(timestamp).toLocaleString(undefined, {
+        year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit',
+    });
+};
+
+const formatBytes = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const reportLabel = (report: StorageGcReport) =>
+    `${formatDateTime(report.startedAt)} — ${report.dryRun ? 'dry run' : 'cleanup'} (${report.trigger})`;
+
+/**
+ * Admin **Storage** tab: results of the scheduled storage garbage collector, plus an
+ * on-demand dry run that lists unreferenced files without deleting anything.
+ */
+function StorageCleanupPanel({ onError }: StorageCleanupPanelProps) {
+    const [reports, setReports] = useState<StorageGcReport[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [running, setRunning] = useState(false);
+
+    useEffect(() => {
+        const unsubscribe = subscribeToStorageGcReports(REPORT_HISTORY, list => {
+            setReports(list);
+            setLoading(false);
+        });
+        return unsubscribe;
+    }, []);
+
+    const report = reports.find(r => r.id === selectedId) ?? reports[0] ?? null;
+
+    const handleDryRun = async () => {
+        setRunning(true);
+        try {
+            setSelectedId(await previewStorageGc());
+        } catch (err: unknown) {
+            onError((err as { message?: string })?.message || 'Failed to run storage report.');
+        } finally {
+            setRunning(false);
+        }
+    };
+
+    return (
+        <Card>
+            <Card.Header className="d-flex flex-wrap justify-content-between align-items-center gap-2">
+                <strong>Storage Cleanup</strong>
+                <div className="d-flex align-items-center gap-2">
+                    {reports.length > 1 && (
+                        <Form.Select
+                            size="sm"
+                            value={report?.id ?? ''}
+                            onChange={(e) => setSelectedId(e.target.value)}
+                            aria-label="Select report"
+                            style={{ maxWidth: '20rem' }}
+                        >
+                            {reports.map(r => (
+                                <option key={r.id} value={r.id}>{reportLabel(r)}</option>
+                            ))}
+                        </Form.Select>
+                    )}
+                    <Button size="sm" variant="outline-primary" onClick={handleDryRun} disabled={running}>
+                        {running ? <Spinner animation="border" size="sm" /> : 'Run dry run'}
+                    </Button>
+                </div>
+            </Card.Header>
+            <Card.Body className={report && report.candidates.length > 0 ? 'pb-0' : undefined}>
+                <p className="text-muted small">
+                    Files under <code>post-images/</code>, <code>post-videos/</code>, <code>post-audio/</code>, <code>artifacts/</code> and{' '}
+                    <code>website-images/exhibits/backgrounds/</code> that no post, artifact or exhibit
+                    references are deleted daily once they are older than the grace period. Files of deleted
+                    posts and artifacts are removed immediately.
+                </p>
+                {loading ? (
+                    <div className="d-flex justify-content-center p-3">
+                        <Spinner animation="border" size="sm" />
+                    </div>
+                ) : !report ? (
+                    <p className="mb-0">No reports yet. Run a dry run to see what would be removed.</p>
+                ) : (
+                    <>
+                        <div className="d-flex flex-wrap gap-3 mb-3 small">
+                            <span>
+                                {report.dryRun
+                                    ? <Badge bg="info">Dry run</Badge>
+                                    : <Badge bg="secondary">Cleanup</Badge>}
+                            </span>
+                            <span>{formatDateTime(report.startedAt)}</span>
+                            <span>Scanned: <strong>{report.scannedCount}</strong></span>
+                            <span>
+                                Unreferenced: <strong>{report.candidateCount}</strong> ({formatBytes(report.candidateBytes)})
+                            </span>
+                            {!report.dryRun && <span>Deleted: <strong>{report.deletedCount}</strong></span>}
+                            <span>Grace period: {report.graceDays} days</span>
+                        </div>
+                        {report.candidates.length === 0 && (
+                            <p className="mb-0">No unreferenced files found.</p>
+                        )}
+                    </>
+                )}
+            </Card.Body>
+            {report && report.candidates.length > 0 && (
+                <div className="table-responsive">
+                    <Table className="mb-0 align-middle small">
+                        <thead>
+                            <tr>
+                                <th>Path</th>
+                                <th>Size</th>
+                                <th>Uploaded</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {report.candidates.map(candidate => (
+                                <tr key={candidate.path}>
+                                    <td><code>{candidate.path}</code></td>
+                                    <td className="text-nowrap">{formatBytes(candidate.size)}</td>
+                                    <td className="text-nowrap">{formatDateTime(Date.parse(candidate.timeCreated))}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </Table>
+                    {report.candidateCount > report.candidates.length && (
+                        <p className="text-muted small p-2 mb-0">
+                            Showing the oldest {report.candidates.length} of {report.candidateCount} files.
+                        </p>
+                    )}
+                </div>
+            )}
+        </Card>
+    );
+}
+
+export default StorageCleanupPanel;
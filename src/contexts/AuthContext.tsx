@@ -23,16 +23,31 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         return unsubscribe;
     }, []);
 
-    // Resolve highLevel from token claims when user is authenticated
+    const roleUpdatedAt = userProfile?.roleUpdatedAt;
+
+    // Resolve highLevel from token claims when user is authenticated.
+    // If the role changed after the token was issued, force a refresh so new claims apply without re-login.
     useEffect(() => {
         if (!currentUser) {
             setIsHighLevel(false);
             return;
         }
+        let cancelled = false;
         currentUser.getIdTokenResult()
-            .then((result) => setIsHighLevel(result.claims.highLevel === true))
-            .catch(() => setIsHighLevel(false));
-    }, [currentUser]);
+            .then((result) => {
+                const issuedAt = Date.parse(result.issuedAtTime);
+                return roleUpdatedAt !== undefined && roleUpdatedAt > issuedAt
+                    ? currentUser.getIdTokenResult(true)
+                    : result;
+            })
+            .then((result) => {
+                if (!cancelled) setIsHighLevel(result.claims.highLevel === true);
+            })
+            .catch(() => {
+                if (!cancelled) setIsHighLevel(false);
+            });
+        return () => { cancelled = true; };
+    }, [currentUser, roleUpdatedAt]);
 
     // Subscribe to user profile when user is authenticated
     useEffect(() => {
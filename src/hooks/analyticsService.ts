@@ -0,0 +1,133 @@
+import { doc, onSnapshot, type Unsubscribe } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { firestore, functions } from '../firebaseConfig';
+import type { SentimentLabel } from './sentimentService';
+
+/**
+ * Aggregate post counters - maintained by Cloud Functions (functions/src/analytics.ts)
+ * in analytics/posts; readable by Staff. Hidden posts only count towards `totalPosts`
+ * and `hiddenPosts`. Counters may briefly read 0 for keys that no longer have posts.
+ */
+export interface PostAnalytics {
+    totalPosts: number;
+    hiddenPosts: number;
+    visiblePosts: number;
+    /** Visible posts not yet placed in an exhibit */
+    unassignedPosts: number;
+    /** Posts containing at least one image/video/audio; textOnly has none */
+    media: { image: number; video: number; audio: number; textOnly: number };
+    /** Post count by exhibit number */
+    exhibits: Record<string, number>;
+    /** Post count by author uid */
+    authors: Record<string, number>;
+    /** Post count by company value id (settings/companyValues) */
+    values?: Record<string, number>;
+    /** By UTC month (`YYYY-MM`): posts and post count per author */
+    months: Record<string, { posts: number; authors?: Record<string, number> }>;
+    /** Sentiment of analyzed visible posts: label counts, and count/summed comparative score per group */
+    sentiment?: {
+        labels: Record<SentimentLabel, number>;
+        /** Keyed by exhibit number, or "unassigned" */
+        exhibits: Record<string, SentimentTotals>;
+        months: Record<string, SentimentTotals>;
+    };
+    updatedAt: number;
+    rebuiltAt?: number;
+}
+
+export interface SentimentTotals {
+    count: number;
+    /** Sum of comparative scores; average = sum / count */
+    sum: number;
+}
+
+export interface MonthActivity {
+    month: string;
+    posts: number;
+    /** Authors who posted that month */
+    activeContributors: number;
+    /** Authors whose first post was that month */
+    newContributors: number;
+}
+
+const rebuildPostAnalyticsCallable = httpsCallable<void, { postCount: number }>(functions, 'rebuildPostAnalytics');
+
+/**
+ * Subscribe to the analytics document; the callback receives null until it has been built.
+ */
+export function subscribeToPostAnalytics(
+    callback: (analytics: PostAnalytics | null) => void,
+    onError?: (err: Error) => void,
+): Unsubscribe {
+    return onSnapshot(doc(firestore, 'analytics', 'posts'), snap => {
+        callback(snap.exists() ? snap.data() as PostAnalytics : null);
+    }, err => onError?.(err));
+}
+
+/**
+ * Recompute analytics from every post on the server. Resolves to the number of posts counted.
+ */
+export async function rebuildPostAnalytics(): Promise<number> {
+    const result = await rebuildPostAnalyticsCallable();
+    return result.data.postCount;
+}
+
+/** Short label for a `YYYY-MM` key, e.g. "Jan 26" */
+export function formatMonth(month: string): string {
+    const [year, m] = month.split('-').map(Number);
+    return new Date(Date.UTC(year, m - 1, 1)).toLocaleDateString(undefined, {
+        month: 'short', year: '2-digit', timeZone: 'UTC',
+    });
+}
+
+function nextMonth(month: string): string {
+    const [year, m] = month.split('-').map(Number);
+    return m === 12 ? `${year + 1}-01` : `${year}-${String(m + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Month-by-month activity from the first month with posts to the last, including empty months.
+ */
+export function getMonthlyActivity(analytics: PostAnalytics): MonthActivity[] {
+    const keys = Object.keys(analytics.months ?? {})
+        .filter(month => (analytics.months[month]?.posts ?? 0) > 0)
+        .sort();
+    if (keys.length === 0) return [];
+
+    const seen = new Set<string>();
+    const result: MonthActivity[] = [];
+    for (let month = keys[0]; month <= keys[keys.length - 1]; month = nextMonth(month)) {
+        const entry = analytics.months[month];
+        const authors = Object.entries(entry?.authors ?? {})
+            .filter(([, count]) => count > 0)
+            .map(([uid]) => uid);
+        const newAuthors = authors.filter(uid => !seen.has(uid));
+        newAuthors.forEach(uid => seen.add(uid));
+        result.push({
+            month,
+            posts: Math.max(entry?.posts ?? 0, 0),
+            activeContributors: authors.length,
+            newContributors: newAuthors.length,
+        });
+    }
+    return result;
+}
+
+/**
+ * Authors ordered by post count (most first).
+ */
+export function getTopContributors(analytics: PostAnalytics, count: number): Array<{ uid: string; posts: number }> {
+    return Object.entries(analytics.authors ?? {})
+        .filter(([, posts]) => posts > 0)
+        .sort(([, a], [, b]) => b - a)
+        .slice(0, count)
+        .map(([uid, posts]) => ({ uid, posts }));
+}
+
+/**
+ * Average comparative score of a group, or null when it has no analyzed posts.
+ */
+export function averageSentiment(totals: SentimentTotals | undefined): number | null {
+    if (!totals || totals.count <= 0) return null;
+    return totals.sum / totals.count;
+}
@@ -0,0 +1,101 @@
+import {
+    collection, getDocs, query, where, orderBy, limit, startAfter,
+    type QueryConstraint, type QueryDocumentSnapshot,
+} from 'firebase/firestore';
+import { firestore } from '../firebaseConfig';
+
+/** Mirrors AuditAction in functions/src/auditLog.ts */
+export type AuditAction =
+    | 'post.update'
+    | 'post.delete'
+    | 'post.exhibit'
+    | 'post.hide'
+    | 'post.unhide'
+    | 'post.feature'
+    | 'post.unfeature'
+    | 'artifact.create'
+    | 'artifact.update'
+    | 'artifact.delete'
+    | 'role.grant'
+    | 'role.revoke';
+
+export const AUDIT_ACTIONS: Array<{ value: AuditAction; label: string }> = [
+    { value: 'post.update', label: 'Edited post' },
+    { value: 'post.delete', label: 'Deleted post' },
+    { value: 'post.exhibit', label: 'Changed post exhibit' },
+    { value: 'post.hide', label: 'Hid post' },
+    { value: 'post.unhide', label: 'Unhid post' },
+    { value: 'post.feature', label: 'Featured post' },
+    { value: 'post.unfeature', label: 'Unfeatured post' },
+    { value: 'artifact.create', label: 'Created artifact' },
+    { value: 'artifact.update', label: 'Edited artifact' },
+    { value: 'artifact.delete', label: 'Deleted artifact' },
+    { value: 'role.grant', label: 'Promoted to Staff' },
+    { value: 'role.revoke', label: 'Removed Staff' },
+];
+
+type AuditSummary = Record<string, string | number | boolean | null>;
+
+/**
+ * Audit log entry - written only by Cloud Functions to auditLog/{entryId}; readable by Staff.
+ */
+export interface AuditLogEntry {
+    id: string;
+    /** Uid of the user who acted, or null for system writes */
+    actorId: string | null;
+    action: AuditAction;
+    targetType: 'post' | 'artifact' | 'user';
+    targetId: string;
+    before: AuditSummary | null;
+    after: AuditSummary | null;
+    createdAt: number;
+}
+
+export interface AuditLogFilters {
+    actorId?: string;
+    action?: AuditAction;
+}
+
+export interface AuditLogPage {
+    entries: AuditLogEntry[];
+    /** Pass back to getAuditLogPage for the next (older) page; null when there are no more entries */
+    cursor: QueryDocumentSnapshot | null;
+}
+
+const auditLogRef = collection(firestore, 'auditLog');
+
+/**
+ * Fetch a page of audit entries, newest first. Filtered queries rely on the
+ * composite indexes in firestore.indexes.json.
+ */
+export async function getAuditLogPage(
+    filters: AuditLogFilters,
+    count: number,
+    cursor: QueryDocumentSnapshot | null = null,
+): Promise<AuditLogPage> {
+    const constraints: QueryConstraint[] = [];
+    if (filters.actorId) constraints.push(where('actorId', '==', filters.actorId));
+    if (filters.action) constraints.push(where('action', '==', filters.action));
+    constraints.push(orderBy('createdAt', 'desc'));
+    if (cursor) constraints.push(startAfter(cursor));
+    constraints.push(limit(count + 1));
+
+    const snap = await getDocs(query(auditLogRef, ...constraints));
+    const docs = snap.docs.slice(0, count);
+    return {
+        entries: docs.map(d => {
+            const data = d.data();
+            return {
+                id: d.id,
+                actorId: (data.actorId as string | null) ?? null,
+                action: data.action as AuditAction,
+                targetType: data.targetType as AuditLogEntry['targetType'],
+                targetId: data.targetId as string,
+                before: (data.before as AuditSummary | null) ?? null,
+                after: (data.after as AuditSummary | null) ?? null,
+                createdAt: data.createdAt as number,
+            };
+        }),
+        cursor: snap.docs.length > count ? docs[docs.length - 1] : null,
+    };
+}
@@ -0,0 +1,56 @@
+import { collection, onSnapshot, query, orderBy, limit, type Unsubscribe } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { firestore, functions } from '../firebaseConfig';
+
+/** A document that refers to a Storage file missing at backup time */
+export interface DanglingReference {
+    /** Document path, e.g. "posts/abc" */
+    document: string;
+    /** Storage object path */
+    path: string;
+}
+
+/**
+ * One backup made from the Admin dashboard - written by Cloud Functions
+ * (functions/src/backup.ts) to backups/{backupId}; readable by Staff.
+ * The archive itself (manifest.json and files/) is in Storage under `storagePrefix`.
+ */
+export interface BackupRecord {
+    id: string;
+    actorId: string;
+    startedAt: number;
+    finishedAt: number;
+    storagePrefix: string;
+    documentCount: number;
+    authUserCount: number;
+    fileCount: number;
+    totalBytes: number;
+    danglingCount: number;
+    /** Capped list (danglingCount has the full total) */
+    dangling: DanglingReference[];
+}
+
+const backupsRef = collection(firestore, 'backups');
+
+const exportBackupCallable = httpsCallable<void, { backupId: string }>(functions, 'exportBackup');
+
+/**
+ * Subscribe to the most recent backups, newest first.
+ */
+export function subscribeToBackups(
+    count: number,
+    callback: (backups: BackupRecord[]) => void,
+): Unsubscribe {
+    const q = query(backupsRef, orderBy('startedAt', 'desc'), limit(count));
+    return onSnapshot(q, snap => {
+        callback(snap.docs.map(d => ({ id: d.id, ...d.data() }) as BackupRecord));
+    });
+}
+
+/**
+ * Back up the board to Storage now. Resolves to the new backup id.
+ */
+export async function exportBackup(): Promise<string> {
+    const result = await exportBackupCallable();
+    return result.data.backupId;
+}
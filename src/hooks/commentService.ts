@@ -0,0 +1,89 @@
+import {
+    collection, doc, addDoc, updateDoc, deleteDoc, onSnapshot,
+    query, orderBy, type Unsubscribe,
+} from 'firebase/firestore';
+import { firestore } from '../firebaseConfig';
+
+/** Max comment length (also enforced in Firestore rules) */
+export const COMMENT_MAX_LENGTH = 2000;
+
+/**
+ * Comment on a post - stored at posts/{postId}/comments/{commentId}.
+ * Plain text only. Replies point at a top-level comment via parentId (one level deep).
+ */
+export interface Comment {
+    id: string;
+    postId: string;
+    authorId: string;
+    content: string;
+    /** Top-level comment this replies to, or null for a top-level comment */
+    parentId: string | null;
+    createdAt: number;
+    updatedAt: number;
+}
+
+function commentsRef(postId: string) {
+    return collection(firestore, 'posts', postId, 'comments');
+}
+
+function docToComment(postId: string, id: string, data: Record<string, unknown>): Comment {
+    return {
+        id,
+        postId,
+        authorId: data.authorId as string,
+        content: (data.content as string) || '',
+        parentId: (data.parentId as string | null) ?? null,
+        createdAt: data.createdAt as number,
+        updatedAt: data.updatedAt as number,
+    };
+}
+
+/**
+ * Drop replies whose parent comment no longer exists (e.g. parent deleted while a reply was being written).
+ */
+export function getVisibleComments(comments: Comment[]): Comment[] {
+    const topLevelIds = new Set(comments.filter(c => c.parentId === null).map(c => c.id));
+    return comments.filter(c => c.parentId === null || topLevelIds.has(c.parentId));
+}
+
+/**
+ * Subscribe to all comments on a post, oldest first.
+ */
+export function subscribeToComments(
+    postId: string,
+    callback: (comments: Comment[]) => void,
+): Unsubscribe {
+    const q = query(commentsRef(postId), orderBy('createdAt', 'asc'));
+    return onSnapshot(q, snap => {
+        callback(snap.docs.map(d => docToComment(postId, d.id, d.data() as Record<string, unknown>)));
+    });
+}
+
+export async function addComment(
+    postId: string,
+    authorId: string,
+    content: string,
+    parentId: string | null = null,
+): Promise<string> {
+    const now = Date.now();
+    const docRef = await addDoc(commentsRef(postId), {
+        authorId,
+        content,
+        parentId,
+        createdAt: now,
+        updatedAt: now,
+    });
+    return docRef.id;
+}
+
+export function updateComment(postId: string, commentId: string, content: string): Promise<void> {
+    return updateDoc(doc(commentsRef(postId), commentId), { content, updatedAt: Date.now() });
+}
+
+/**
+ * Delete a comment. Rules allow this for its author and for Staff; the replies to a top-level
+ * comment are deleted by the deleteRepliesOnCommentDelete Cloud Function.
+ */
+export function deleteComment(postId: string, commentId: string): Promise<void> {
+    return deleteDoc(doc(commentsRef(postId), commentId));
+}
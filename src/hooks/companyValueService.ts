@@ -0,0 +1,70 @@
+import { doc, onSnapshot, setDoc, type Unsubscribe } from 'firebase/firestore';
+import { firestore } from '../firebaseConfig';
+
+/** A company value posts can be tagged with; `id` is what posts store, so renaming keeps existing tags */
+export interface CompanyValue {
+    id: string;
+    label: string;
+}
+
+/** Most values one post can carry (also enforced by Firestore rules) */
+export const MAX_POST_VALUES = 5;
+
+/**
+ * Staff-managed list in settings/companyValues. The document also keeps `ids`, a plain list
+ * of the value ids, which Firestore rules check post tags against.
+ */
+const companyValuesDoc = doc(firestore, 'settings', 'companyValues');
+
+/**
+ * ACP values offered before Staff have saved their own list. The ids match the themes
+ * the sentiment analysis detects (functions/src/sentiment.ts).
+ */
+export const DEFAULT_COMPANY_VALUES: CompanyValue[] = [
+    { id: 'advocacy', label: 'Advocacy' },
+    { id: 'leadership', label: 'Leadership' },
+    { id: 'inclusion', label: 'Inclusion' },
+    { id: 'education', label: 'Education' },
+    { id: 'compassion', label: 'Compassion' },
+    { id: 'collaboration', label: 'Collaboration' },
+    { id: 'excellence', label: 'Excellence' },
+    { id: 'integrity', label: 'Integrity' },
+];
+
+/**
+ * Subscribe to the company values in display order; the callback receives null until Staff have saved a list.
+ */
+export function subscribeToCompanyValues(
+    callback: (values: CompanyValue[] | null) => void,
+    onError?: (err: Error) => void,
+): Unsubscribe {
+    return onSnapshot(companyValuesDoc, snap => {
+        if (!snap.exists()) {
+            callback(null);
+            return;
+        }
+        const values = (snap.get('values') as CompanyValue[] | undefined) ?? [];
+        callback(values.filter(v => typeof v?.id === 'string' && typeof v.label === 'string'));
+    }, err => onError?.(err));
+}
+
+/** Staff only (enforced by rules): replace the whole list */
+export function saveCompanyValues(values: CompanyValue[]): Promise<void> {
+    return setDoc(companyValuesDoc, {
+        values: values.map(({ id, label }) => ({ id, label })),
+        ids: values.map(v => v.id),
+        updatedAt: Date.now(),
+    });
+}
+
+/**
+ * Id for a new value: its label lowercased with non-alphanumerics collapsed to dashes,
+ * suffixed with a number when that id is already taken.
+ */
+export function companyValueId(label: string, existing: CompanyValue[]): string {
+    const base = label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'value';
+    const taken = new Set(existing.map(v => v.id));
+    let id = base;
+    for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+    return id;
+}
@@ -0,0 +1,193 @@
+import {
+    collection, doc, updateDoc, onSnapshot, writeBatch, runTransaction,
+    query, orderBy, type Unsubscribe,
+} from 'firebase/firestore';
+import { firestore } from '../firebaseConfig';
+import type { ExhibitConfig } from '../components/ParallaxExhibit';
+
+const exhibitsRef = collection(firestore, 'exhibits');
+
+type ExhibitFields = Omit<ExhibitConfig, 'id' | 'exhibitNumber' | 'order'>;
+
+/**
+ * The original hard-coded exhibits. Staff can import these from /admin into an empty `exhibits` collection.
+ */
+export const DEFAULT_EXHIBITS: Array<Omit<ExhibitConfig, 'id'>> = [
+    {
+        exhibitNumber: 1,
+        title: 'Physician Well-being and Professional Fulfillment',
+        subtitle: '',
+        backgroundImage: '/exhibits/bg-wellbeing.webp',
+        quote: '"For there is always light, if only we\'re brave enough to see it, if only we\'re brave enough to be it."',
+        quoteAuthor: '— Amanda Gorman',
+        order: 1,
+        visible: true,
+    },
+    {
+        exhibitNumber: 2,
+        title: 'Advocacy',
+        subtitle: '',
+        backgroundImage: '/exhibits/bg-advocacy.webp',
+        quote: '"Don\'t agonize—organize."',
+        quoteAuthor: '— Nancy Pelosi',
+        order: 2,
+        visible: true,
+    },
+    {
+        exhibitNumber: 3,
+        title: 'College Alignment, Sustainability, and Success',
+        subtitle: '',
+        backgroundImage: '/exhibits/chapter.webp',
+        quote: '"If you want to go fast, go alone; if you want to go far, go together."',
+        quoteAuthor: '— African Proverb',
+        order: 3,
+        visible: true,
+    },
+    {
+        exhibitNumber: 4,
+        title: 'Medical Education and Evidence-based Medicine',
+        subtitle: '',
+        backgroundImage: '/exhibits/bg-med-ed.webp',
+        quote: '"Medicine disregards international boundaries. The physician studies for the benefit of humankind."',
+        quoteAuthor: '— George R. Minot',
+        order: 4,
+        visible: true,
+    },
+    {
+        exhibitNumber: 5,
+        title: 'Membership Engagement and Creating a Professional Home',
+        subtitle: '',
+        backgroundImage: '/exhibits/bg-professional-home.webp',
+        quote: '"Diversity is being invited to the party; Inclusion is being asked to dance."',
+        quoteAuthor: '— Verna Myers',
+        order: 5,
+        visible: true,
+    },
+    {
+        exhibitNumber: 6,
+        title: 'About That Time There Was A Pandemic',
+        subtitle: '',
+        backgroundImage: 'https://images.unsplash.com/photo-1584036561566-baf8f5f1b144?auto=format&fit=crop&q=80&w=1600',
+        quote: '"This pandemic has magnified every existing inequality in our society."',
+        quoteAuthor: '— Melinda Gates',
+        order: 6,
+        visible: true,
+    },
+    {
+        exhibitNumber: 7,
+        title: 'Leadership Development',
+        subtitle: '',
+        backgroundImage: '/exhibits/bg-leaders.webp',
+        quote: '"The best leaders don\'t just lead. They create environments where new leaders are created."',
+        quoteAuthor: '— Ross Simmonds',
+        order: 7,
+        visible: true,
+    },
+    {
+        exhibitNumber: 8,
+        title: 'Legacy and Impact',
+        subtitle: '',
+        backgroundImage: '/exhibits/bg-legacy.webp',
+        quote: '"If you\'re going to live, leave a legacy. Make a mark on the world that can\'t be erased."',
+        quoteAuthor: '— Maya Angelou',
+        order: 8,
+        visible: true,
+    },
+];
+
+function exhibitDocId(exhibitNumber: number): string {
+    return `exhibit-${exhibitNumber}`;
+}
+
+function docToExhibit(id: string, data: Record<string, unknown>): ExhibitConfig {
+    return {
+        id,
+        exhibitNumber: (data.exhibitNumber as number) || 0,
+        title: (data.title as string) || '',
+        subtitle: (data.subtitle as string) || '',
+        backgroundImage: (data.backgroundImage as string) || '',
+        quote: (data.quote as string) || undefined,
+        quoteAuthor: (data.quoteAuthor as string) || undefined,
+        order: (data.order as number) ?? 0,
+        visible: data.visible !== false,
+    };
+}
+
+/**
+ * Subscribe to all exhibits (including hidden ones), sorted by display order.
+ */
+export function subscribeToExhibits(callback: (exhibits: ExhibitConfig[]) => void): Unsubscribe {
+    const q = query(exhibitsRef, orderBy('order', 'asc'));
+    return onSnapshot(q, snap => {
+        callback(snap.docs.map(d => docToExhibit(d.id, d.data() as Record<string, unknown>)));
+    });
+}
+
+/**
+ * Create an exhibit with the next free exhibit number, appended to the end of the display order.
+ * Numbers taken since `existing` was loaded (e.g. by another Staff member) are skipped; the
+ * transaction retries if one is taken while it runs.
+ * @returns The new exhibit's number
+ */
+export async function createExhibit(existing: ExhibitConfig[], fields: ExhibitFields): Promise<number> {
+    const order = existing.reduce((max, e) => Math.max(max, e.order), 0) + 1;
+    return runTransaction(firestore, async transaction => {
+        let exhibitNumber = existing.reduce((max, e) => Math.max(max, e.exhibitNumber), 0) + 1;
+        while ((await transaction.get(doc(exhibitsRef, exhibitDocId(exhibitNumber)))).exists()) {
+            exhibitNumber++;
+        }
+        const now = Date.now();
+        transaction.set(doc(exhibitsRef, exhibitDocId(exhibitNumber)), {
+            exhibitNumber,
+            title: fields.title,
+            subtitle: fields.subtitle,
+            backgroundImage: fields.backgroundImage,
+            quote: fields.quote ?? '',
+            quoteAuthor: fields.quoteAuthor ?? '',
+            order,
+            visible: fields.visible,
+            createdAt: now,
+            updatedAt: now,
+        });
+        return exhibitNumber;
+    });
+}
+
+export function updateExhibit(exhibitId: string, updates: Partial<ExhibitFields>): Promise<void> {
+    const data: Record<string, unknown> = { updatedAt: Date.now() };
+    if (updates.title !== undefined) data.title = updates.title;
+    if (updates.subtitle !== undefined) data.subtitle = updates.subtitle;
+    if (updates.backgroundImage !== undefined) data.backgroundImage = updates.backgroundImage;
+    if (updates.quote !== undefined) data.quote = updates.quote;
+    if (updates.quoteAuthor !== undefined) data.quoteAuthor = updates.quoteAuthor;
+    if (updates.visible !== undefined) data.visible = updates.visible;
+    return updateDoc(doc(exhibitsRef, exhibitId), data);
+}
+
+/**
+ * Persist a new display order: each exhibit's `order` becomes its 1-based index in `orderedIds`.
+ */
+export async function reorderExhibits(orderedIds: string[]): Promise<void> {
+    const batch = writeBatch(firestore);
+    const now = Date.now();
+    orderedIds.forEach((id, i) => {
+        batch.update(doc(exhibitsRef, id), { order: i + 1, updatedAt: now });
+    });
+    await batch.commit();
+}
+
+/**
+ * Write DEFAULT_EXHIBITS into the collection (used once to migrate from the hard-coded list).
+ */
+export async function seedDefaultExhibits(): Promise<void> {
+    const batch = writeBatch(firestore);
+    const now = Date.now();
+    DEFAULT_EXHIBITS.forEach(exhibit => {
+        batch.set(doc(exhibitsRef, exhibitDocId(exhibit.exhibitNumber)), {
+            ...exhibit,
+            createdAt: now,
+            updatedAt: now,
+        });
+    });
+    await batch.commit();
+}
@@ -0,0 +1,99 @@
+import { doc, getDoc } from 'firebase/firestore';
+import { firestore } from '../firebaseConfig';
+import { getStoragePathFromUrl } from '../utils/imageUpload';
+
+/**
+ * Resized copies of an uploaded image, written by the `generateImageVariants` Cloud Function
+ * to imageVariants/{encoded storage path}. Only images under post-images/ and artifacts/ have them.
+ */
+export interface ImageVariants {
+    /** Size of the original */
+    width: number;
+    height: number;
+    /** Tiny WebP data URL shown while the image loads */
+    placeholder: string;
+    /** Smallest first; the original is not included */
+    variants: Array<{ width: number; url: string }>;
+}
+
+const VARIANT_SOURCE_PREFIXES = ['post-images/', 'artifacts/'];
+
+/** Lookups by storage path; misses are dropped so images processed later are picked up on the next mount */
+const cache = new Map<string, Promise<ImageVariants | null>>();
+
+/**
+ * Variant metadata for an image URL, or null for external images and images without variants
+ * (GIFs, uploads the function has not processed yet).
+ */
+export function getImageVariants(src: string): Promise<ImageVariants | null> {
+    const path = getStoragePathFromUrl(src);
+    if (!path || !VARIANT_SOURCE_PREFIXES.some(prefix => path.startsWith(prefix))) {
+        return Promise.resolve(null);
+    }
+
+    const cached = cache.get(path);
+    if (cached) return cached;
+
+    const lookup = getDoc(doc(firestore, 'imageVariants', encodeURIComponent(path)))
+        .then(snap => (snap.exists() ? snap.data() as ImageVariants : null))
+        .catch((err) => {
+            console.warn('Failed to load image variants:', err);
+            return null;
+        })
+        .then((variants) => {
+            if (!variants) cache.delete(path);
+            return variants;
+        });
+    cache.set(path, lookup);
+    return lookup;
+}
+
+/**
+ * `srcset` value listing each variant plus the original at its full width.
+ */
+export function buildSrcSet(src: string, variants: ImageVariants): string {
+    return [
+        ...variants.variants.map(v => `${v.url} ${v.width}w`),
+        `${src} ${variants.width}w`,
+    ].join(', ');
+}
+
+/**
+ * Show the placeholder as the image's background until the real image has loaded.
+ */
+export function showPlaceholderUntilLoaded(img: HTMLImageElement, placeholder: string): void {
+    if (img.complete && img.naturalWidth > 0) return;
+    img.style.backgroundImage = `url("${placeholder}")`;
+    img.style.backgroundSize = 'cover';
+    img.style.backgroundRepeat = 'no-repeat';
+    const clear = () => {
+        img.style.removeProperty('background-image');
+        img.style.removeProperty('background-size');
+        img.style.removeProperty('background-repeat');
+    };
+    img.addEventListener('load', clear, { once: true });
+    img.addEventListener('error', clear, { once: true });
+}
+
+/**
+ * Add `srcset`, intrinsic size and the blur placeholder to every <img> inside rendered post HTML.
+ * @returns A function that stops applying results still in flight (call on unmount / content change)
+ */
+export function applyImageVariants(container: HTMLElement, sizes: string): () => void {
+    let cancelled = false;
+    container.querySelectorAll('img').forEach((img) => {
+        const src = img.getAttribute('src');
+        if (!src || img.srcset) return;
+        getImageVariants(src).then((variants) => {
+            if (cancelled || !variants || !img.isConnected) return;
+            if (!img.hasAttribute('width') && !img.hasAttribute('height')) {
+                img.width = variants.width;
+                img.height = variants.height;
+            }
+            img.sizes = sizes;
+            img.srcset = buildSrcSet(src, variants);
+            showPlaceholderUntilLoaded(img, variants.placeholder);
+        });
+    });
+    return () => { cancelled = true; };
+}
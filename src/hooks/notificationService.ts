@@ -0,0 +1,117 @@
+import {
+    collection, doc, setDoc, updateDoc, onSnapshot, writeBatch, getDocs,
+    query, where, orderBy, limit, arrayUnion, arrayRemove, type Unsubscribe,
+} from 'firebase/firestore';
+import { firestore } from '../firebaseConfig';
+
+export type NotificationCategory = 'exhibit' | 'reaction' | 'comment' | 'mention';
+
+/** Categories users can mute, in the order the preferences list shows them */
+export const NOTIFICATION_CATEGORIES: Array<{ value: NotificationCategory; label: string }> = [
+    { value: 'exhibit', label: 'My post is added to an exhibit' },
+    { value: 'reaction', label: 'Reactions to my posts' },
+    { value: 'comment', label: 'Comments and replies' },
+    { value: 'mention', label: 'Mentions' },
+];
+
+/**
+ * A notification at notifications/{uid}/items/{id}, written only by Cloud Functions.
+ * Users can only flip `read`.
+ */
+export interface AppNotification {
+    id: string;
+    category: NotificationCategory;
+    postId: string;
+    actorId: string | null;
+    actorName: string | null;
+    /** Post excerpt, or the comment text for comment notifications */
+    excerpt: string;
+    reaction?: string;
+    exhibitNumber?: number;
+    exhibitTitle?: string;
+    isReply?: boolean;
+    read: boolean;
+    createdAt: number;
+}
+
+/** Unread items counted for the badge; the badge shows "N+" beyond this */
+export const UNREAD_COUNT_LIMIT = 99;
+
+function itemsRef(uid: string) {
+    return collection(firestore, 'notifications', uid, 'items');
+}
+
+function docToNotification(id: string, data: Record<string, unknown>): AppNotification {
+    return {
+        id,
+        category: data.category as NotificationCategory,
+        postId: data.postId as string,
+        actorId: (data.actorId as string | null) ?? null,
+        actorName: (data.actorName as string | null) ?? null,
+        excerpt: (data.excerpt as string) || '',
+        reaction: data.reaction as string | undefined,
+        exhibitNumber: data.exhibitNumber as number | undefined,
+        exhibitTitle: data.exhibitTitle as string | undefined,
+        isReply: data.isReply === true,
+        read: data.read === true,
+        createdAt: data.createdAt as number,
+    };
+}
+
+/**
+ * Subscribe to a user's most recent notifications, newest first.
+ */
+export function subscribeToNotifications(
+    uid: string,
+    count: number,
+    callback: (notifications: AppNotification[]) => void,
+): Unsubscribe {
+    const q = query(itemsRef(uid), orderBy('createdAt', 'desc'), limit(count));
+    return onSnapshot(q, snap => {
+        callback(snap.docs.map(d => docToNotification(d.id, d.data() as Record<string, unknown>)));
+    }, err => console.error('Failed to load notifications:', err));
+}
+
+/**
+ * Subscribe to the number of unread notifications (capped at UNREAD_COUNT_LIMIT + 1).
+ */
+export function subscribeToUnreadCount(uid: string, callback: (count: number) => void): Unsubscribe {
+    const q = query(itemsRef(uid), where('read', '==', false), limit(UNREAD_COUNT_LIMIT + 1));
+    return onSnapshot(q, snap => callback(snap.size), err => console.error('Failed to count notifications:', err));
+}
+
+export function markNotificationRead(uid: string, notificationId: string): Promise<void> {
+    return updateDoc(doc(itemsRef(uid), notificationId), { read: true });
+}
+
+/**
+ * Mark every unread notification as read (in batches of up to 500 writes).
+ */
+export async function markAllNotificationsRead(uid: string): Promise<void> {
+    const snap = await getDocs(query(itemsRef(uid), where('read', '==', false)));
+    for (let i = 0; i < snap.docs.length; i += 500) {
+        const batch = writeBatch(firestore);
+        snap.docs.slice(i, i + 500).forEach(d => batch.update(d.ref, { read: true }));
+        await batch.commit();
+    }
+}
+
+/**
+ * Subscribe to the categories a user has muted (stored on notifications/{uid}).
+ */
+export function subscribeToMutedCategories(
+    uid: string,
+    callback: (muted: NotificationCategory[]) => void,
+): Unsubscribe {
+    return onSnapshot(doc(firestore, 'notifications', uid), snap => {
+        callback((snap.get('muted') as NotificationCategory[] | undefined) ?? []);
+    }, err => console.error('Failed to load notification preferences:', err));
+}
+
+export function setCategoryMuted(uid: string, category: NotificationCategory, muted: boolean): Promise<void> {
+    return setDoc(
+        doc(firestore, 'notifications', uid),
+        { muted: muted ? arrayUnion(category) : arrayRemove(category) },
+        { merge: true },
+    );
+}
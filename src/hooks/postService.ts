@@ -1,6 +1,6 @@
 import {
-    collection, doc, setDoc, updateDoc, deleteDoc, getDocs, getDoc, onSnapshot,
-    query, orderBy, limit, startAfter, type Unsubscribe,
+    collection, doc, setDoc, updateDoc, deleteDoc, getDocs, getDoc, onSnapshot, writeBatch,
+    query, where, orderBy, limit, startAfter, type QueryConstraint, type Unsubscribe,
 } from 'firebase/firestore';
 import { firestore } from '../firebaseConfig';
 import type { Post } from '../components/PostCard';
@@ -17,6 +17,14 @@ function docToPost(id: string, data: Record<string, unknown>): Post {
         createdAt: data.createdAt as number,
         updatedAt: data.updatedAt as number,
         exhibit: data.exhibit as number | undefined,
+        hidden: data.hidden === true,
+        featuredAt: typeof data.featuredAt === 'number' ? data.featuredAt : undefined,
+        values: Array.isArray(data.values) ? data.values as string[] : [],
+        mentions: Array.isArray(data.mentions) ? data.mentions as string[] : [],
+        commentCount: typeof data.commentCount === 'number' ? data.commentCount : 0,
+        reactionCounts: data.reactionCounts && typeof data.reactionCounts === 'object'
+            ? data.reactionCounts as Record<string, number>
+            : {},
     };
 }
 
@@ -26,6 +34,7 @@ export function createPost(
     authorEmail: string | null,
     authorName?: string,
     content = '',
+    values: string[] = [],
 ): Promise<void> {
     const now = Date.now();
     return setDoc(doc(postsRef, postId), {
@@ -33,43 +42,90 @@ export function createPost(
         authorEmail,
         authorName: authorName || null,
         content,
+        values,
         createdAt: now,
         updatedAt: now,
         exhibit: null,
     });
 }
 
-export function updatePostContent(postId: string, content: string): Promise<void> {
-    return updateDoc(doc(postsRef, postId), { content, updatedAt: Date.now() });
+/** Save edited content and, when given, the company value ids the post is tagged with */
+export function updatePostContent(postId: string, content: string, values?: string[]): Promise<void> {
+    return updateDoc(doc(postsRef, postId), {
+        content,
+        ...(values !== undefined ? { values } : {}),
+        updatedAt: Date.now(),
+    });
 }
 
 export function updatePostExhibit(postId: string, exhibitNumber: number | null): Promise<void> {
     return updateDoc(doc(postsRef, postId), { exhibit: exhibitNumber, updatedAt: Date.now() });
 }
 
+/** Delete a post; the cleanupPostFilesOnDelete function removes its files, comments and reactions */
 export function deletePost(postId: string): Promise<void> {
     return deleteDoc(doc(postsRef, postId));
 }
 
-export async function getPostContent(postId: string): Promise<string> {
+/** Staff only (enforced by rules): hide or restore a post in the feed and exhibits */
+export function setPostHidden(postId: string, hidden: boolean): Promise<void> {
+    return updateDoc(doc(postsRef, postId), { hidden, updatedAt: Date.now() });
+}
+
+/** Staff only (enforced by rules): pin a post to the end of the featured carousel, or unpin it. Resolves to the new `featuredAt` */
+export async function setPostFeatured(postId: string, featured: boolean): Promise<number | null> {
+    const featuredAt = featured ? Date.now() : null;
+    await updateDoc(doc(postsRef, postId), { featuredAt });
+    return featuredAt;
+}
+
+/**
+ * Reorder featured posts. The existing `featuredAt` values are reassigned in the new order,
+ * so pinning another post still appends it to the end.
+ */
+export async function reorderFeaturedPosts(orderedPosts: Post[]): Promise<void> {
+    const slots = orderedPosts.map(p => p.featuredAt ?? Date.now()).sort((a, b) => a - b);
+    const batch = writeBatch(firestore);
+    orderedPosts.forEach((post, index) => {
+        batch.update(doc(postsRef, post.id), { featuredAt: slots[index] });
+    });
+    await batch.commit();
+}
+
+export async function getPost(postId: string): Promise<Post | null> {
     const snap = await getDoc(doc(postsRef, postId));
-    if (!snap.exists()) return '';
-    return (snap.data().content as string) || '';
+    if (!snap.exists()) return null;
+    return docToPost(snap.id, snap.data() as Record<string, unknown>);
+}
+
+/** Posts newest first, optionally only those tagged with one company value id */
+function feedQuery(value: string | null, ...constraints: QueryConstraint[]) {
+    const filter = value ? [where('values', 'array-contains', value)] : [];
+    return query(postsRef, ...filter, orderBy('createdAt', 'desc'), ...constraints);
 }
 
-export async function getPostsPaginated(count: number): Promise<Post[]> {
-    const q = query(postsRef, orderBy('createdAt', 'desc'), limit(count));
-    const snap = await getDocs(q);
+export async function getPostsPaginated(count: number, value: string | null = null): Promise<Post[]> {
+    const snap = await getDocs(feedQuery(value, limit(count)));
     return snap.docs.map(d => docToPost(d.id, d.data() as Record<string, unknown>));
 }
 
-export async function getMorePosts(oldestCreatedAt: number, count: number): Promise<Post[]> {
-    const anchorSnap = await getDocs(
-        query(postsRef, orderBy('createdAt', 'desc'), startAfter(oldestCreatedAt), limit(count)),
-    );
+export async function getMorePosts(oldestCreatedAt: number, count: number, value: string | null = null): Promise<Post[]> {
+    const anchorSnap = await getDocs(feedQuery(value, startAfter(oldestCreatedAt), limit(count)));
     return anchorSnap.docs.map(d => docToPost(d.id, d.data() as Record<string, unknown>));
 }
 
+/** A member's own posts, newest first */
+export async function getPostsByAuthor(uid: string): Promise<Post[]> {
+    const snap = await getDocs(query(postsRef, where('authorId', '==', uid), orderBy('createdAt', 'desc')));
+    return snap.docs.map(d => docToPost(d.id, d.data() as Record<string, unknown>));
+}
+
+/** Posts that @mention a member, newest first (`mentions` is maintained by Cloud Functions) */
+export async function getPostsMentioning(uid: string): Promise<Post[]> {
+    const snap = await getDocs(query(postsRef, where('mentions', 'array-contains', uid), orderBy('createdAt', 'desc')));
+    return snap.docs.map(d => docToPost(d.id, d.data() as Record<string, unknown>));
+}
+
 export function subscribeToPost(
     postId: string,
     callback: (post: Post | null) => void,
@@ -85,9 +141,9 @@ export function subscribeToPost(
 
 export function subscribeToNewestPost(
     callback: (post: Post | null) => void,
+    value: string | null = null,
 ): Unsubscribe {
-    const q = query(postsRef, orderBy('createdAt', 'desc'), limit(1));
-    return onSnapshot(q, snap => {
+    return onSnapshot(feedQuery(value, limit(1)), snap => {
         if (snap.empty) {
             callback(null);
         } else {
@@ -105,3 +161,76 @@ export function subscribeToAllPosts(
         callback(snap.docs.map(d => docToPost(d.id, d.data() as Record<string, unknown>)));
     });
 }
+
+export function subscribeToHiddenPosts(
+    callback: (posts: Post[]) => void,
+): Unsubscribe {
+    const q = query(postsRef, where('hidden', '==', true));
+    return onSnapshot(q, snap => {
+        callback(snap.docs.map(d => docToPost(d.id, d.data() as Record<string, unknown>)));
+    });
+}
+
+/**
+ * Subscribe to featured posts in carousel order (earliest `featuredAt` first).
+ */
+export function subscribeToFeaturedPosts(
+    callback: (posts: Post[]) => void,
+): Unsubscribe {
+    const q = query(postsRef, where('featuredAt', '>', 0), orderBy('featuredAt', 'asc'));
+    return onSnapshot(q, snap => {
+        callback(snap.docs.map(d => docToPost(d.id, d.data() as Record<string, unknown>)));
+    });
+}
+
+// --- Reactions ---
+// One document per user+reaction under posts/{postId}/reactions/{uid}_{reaction}
+
+export type ReactionType = 'heart' | 'clap' | 'star';
+
+/** Fixed reaction palette (Firestore rules only accept these types) */
+export const REACTIONS: Array<{ type: ReactionType; emoji: string; label: string }> = [
+    { type: 'heart', emoji: '❤️', label: 'Heart' },
+    { type: 'clap', emoji: '👏', label: 'Clap' },
+    { type: 'star', emoji: '⭐', label: 'Star' },
+];
+
+export interface PostReaction {
+    postId: string;
+    userId: string;
+    reaction: ReactionType;
+    createdAt: number;
+}
+
+function reactionsRef(postId: string) {
+    return collection(postsRef, postId, 'reactions');
+}
+
+/**
+ * Add or remove the current user's reaction of one type on a post.
+ */
+export function toggleReaction(
+    postId: string,
+    userId: string,
+    reaction: ReactionType,
+    active: boolean,
+): Promise<void> {
+    const reactionDoc = doc(reactionsRef(postId), `${userId}_${reaction}`);
+    if (!active) return deleteDoc(reactionDoc);
+    return setDoc(reactionDoc, { userId, reaction, createdAt: Date.now() });
+}
+
+export function subscribeToReactions(
+    postId: string,
+    callback: (reactions: PostReaction[]) => void,
+): Unsubscribe {
+    return onSnapshot(reactionsRef(postId), snap => {
+        callback(snap.docs.map(d => ({
+            postId,
+            userId: d.data().userId as string,
+            reaction: d.data().reaction as ReactionType,
+            createdAt: d.data().createdAt as number,
+        })));
+    });
+}
+
@@ -0,0 +1,73 @@
+import {
+    collection, doc, setDoc, onSnapshot, writeBatch,
+    query, orderBy, type Unsubscribe,
+} from 'firebase/firestore';
+import { firestore } from '../firebaseConfig';
+
+export type ReportReason = 'inappropriate' | 'spam' | 'harassment' | 'other';
+
+export const REPORT_REASONS: Array<{ value: ReportReason; label: string }> = [
+    { value: 'inappropriate', label: 'Inappropriate content' },
+    { value: 'spam', label: 'Spam or unrelated' },
+    { value: 'harassment', label: 'Harassment or hurtful' },
+    { value: 'other', label: 'Other' },
+];
+
+/** Max length of the optional free-text details (also enforced in Firestore rules) */
+export const REPORT_DETAILS_MAX_LENGTH = 500;
+
+/**
+ * A user's report on a post - stored at reports/{postId}_{reporterId}, so each user can report a post once.
+ * Only Staff can read or delete reports.
+ */
+export interface PostReport {
+    id: string;
+    postId: string;
+    reporterId: string;
+    reason: ReportReason;
+    details: string;
+    createdAt: number;
+}
+
+const reportsRef = collection(firestore, 'reports');
+
+export function reportPost(
+    postId: string,
+    reporterId: string,
+    reason: ReportReason,
+    details: string,
+): Promise<void> {
+    return setDoc(doc(reportsRef, `${postId}_${reporterId}`), {
+        postId,
+        reporterId,
+        reason,
+        details,
+        createdAt: Date.now(),
+    });
+}
+
+export function subscribeToReports(callback: (reports: PostReport[]) => void): Unsubscribe {
+    const q = query(reportsRef, orderBy('createdAt', 'desc'));
+    return onSnapshot(q, snap => {
+        callback(snap.docs.map(d => {
+            const data = d.data();
+            return {
+                id: d.id,
+                postId: data.postId as string,
+                reporterId: data.reporterId as string,
+                reason: (data.reason as ReportReason) || 'other',
+                details: (data.details as string) || '',
+                createdAt: data.createdAt as number,
+            };
+        }));
+    });
+}
+
+/**
+ * Remove reports (e.g. dismissed, or resolved by hiding/deleting the post).
+ */
+export async function deleteReports(reportIds: string[]): Promise<void> {
+    const batch = writeBatch(firestore);
+    reportIds.forEach(id => batch.delete(doc(reportsRef, id)));
+    await batch.commit();
+}
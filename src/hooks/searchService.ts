@@ -0,0 +1,94 @@
+import { collection, getDocs, limit, orderBy, query, where, type QueryConstraint } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { firestore, functions } from '../firebaseConfig';
+import { countMatches, queryTerms } from '../utils/searchText';
+
+export type SearchResultType = 'post' | 'artifact' | 'exhibit';
+
+/**
+ * Search index entry - maintained by Cloud Functions (functions/src/search.ts) in
+ * searchIndex/{type}_{id}; readable by signed-in users. Hidden posts and exhibits are not indexed.
+ */
+export interface SearchResult {
+    id: string;
+    type: SearchResultType;
+    /** Id of the post, artifact or exhibit document */
+    refId: string;
+    /** Artifact or exhibit title; empty for posts */
+    title: string;
+    /** Plain text of the post, artifact description or exhibit subtitle and quote */
+    text: string;
+    authorId: string | null;
+    authorName: string | null;
+    exhibit: number | null;
+    createdAt: number;
+    /** Relevance: title matches count most, then author name, then the text */
+    score: number;
+}
+
+export interface SearchFilters {
+    exhibit: number | null;
+    /** Only posts have authors, so this also limits results to posts */
+    authorId: string | null;
+}
+
+/** Candidates fetched per search (newest first) before the other terms are checked */
+const SEARCH_CANDIDATES = 100;
+
+const rebuildSearchIndexCallable = httpsCallable<void, { indexed: number; removed: number; failed: number }>(functions, 'rebuildSearchIndex');
+
+/**
+ * Entries matching every word of `queryText` (words match as prefixes: "lead" finds "leadership"),
+ * most relevant first. Firestore filters on one word; the rest are checked here.
+ */
+export async function search(queryText: string, filters: SearchFilters): Promise<SearchResult[]> {
+    const terms = queryTerms(queryText);
+    if (terms.length === 0) return [];
+
+    const constraints: QueryConstraint[] = [where('tokens', 'array-contains', terms[0])];
+    if (filters.exhibit !== null) constraints.push(where('exhibit', '==', filters.exhibit));
+    if (filters.authorId) constraints.push(where('authorId', '==', filters.authorId));
+    const snap = await getDocs(query(
+        collection(firestore, 'searchIndex'),
+        ...constraints,
+        orderBy('createdAt', 'desc'),
+        limit(SEARCH_CANDIDATES),
+    ));
+
+    return snap.docs
+        .filter(d => {
+            const tokens = new Set<string>((d.get('tokens') as string[] | undefined) ?? []);
+            return terms.every(term => tokens.has(term));
+        })
+        .map(d => {
+            const data = d.data();
+            const title = (data.title as string) || '';
+            const text = (data.text as string) || '';
+            const authorName = (data.authorName as string | null) ?? null;
+            const score = terms.reduce((sum, term) => sum
+                + 3 * countMatches(title, term)
+                + 2 * countMatches(authorName ?? '', term)
+                + Math.min(countMatches(text, term), 5), 0);
+            return {
+                id: d.id,
+                type: data.type as SearchResultType,
+                refId: (data.refId as string) || '',
+                title,
+                text,
+                authorId: (data.authorId as string | null) ?? null,
+                authorName,
+                exhibit: typeof data.exhibit === 'number' ? data.exhibit : null,
+                createdAt: (data.createdAt as number) || 0,
+                score,
+            };
+        })
+        .sort((a, b) => b.score - a.score || b.createdAt - a.createdAt);
+}
+
+/**
+ * Rebuild the search index from every post, artifact and exhibit (Staff only).
+ */
+export async function rebuildSearchIndex(): Promise<{ indexed: number; removed: number; failed: number }> {
+    const result = await rebuildSearchIndexCallable();
+    return result.data;
+}
@@ -0,0 +1,68 @@
+import { collection, doc, onSnapshot, query, updateDoc, where, type Unsubscribe } from 'firebase/firestore';
+import { firestore } from '../firebaseConfig';
+
+export type SentimentLabel = 'positive' | 'neutral' | 'negative';
+
+/**
+ * Sentiment and theme analysis stored on a post as `analysis` by Cloud Functions
+ * (functions/src/sentiment.ts) whenever its text changes. Authors cannot edit it.
+ */
+export interface PostAnalysis {
+    score: number;
+    /** Score per word, roughly -5..5 */
+    comparative: number;
+    label: SentimentLabel;
+    keywords: string[];
+    /** Company-value theme ids matched by keyword */
+    themes: string[];
+    /** Strongly negative; shown in the moderation queue until Staff dismiss it */
+    flagged: boolean;
+    analyzedAt: number;
+}
+
+export const SENTIMENT_LABELS: Array<{ value: SentimentLabel; label: string }> = [
+    { value: 'positive', label: 'Positive' },
+    { value: 'neutral', label: 'Neutral' },
+    { value: 'negative', label: 'Negative' },
+];
+
+/** A post flagged as strongly negative, with what the moderation queue shows */
+export interface FlaggedPost {
+    id: string;
+    authorId: string;
+    authorEmail: string;
+    authorName?: string;
+    content: string;
+    createdAt: number;
+    analysis: PostAnalysis;
+}
+
+/**
+ * Subscribe to visible posts flagged as strongly negative, most negative first.
+ */
+export function subscribeToFlaggedPosts(callback: (posts: FlaggedPost[]) => void): Unsubscribe {
+    const q = query(collection(firestore, 'posts'), where('analysis.flagged', '==', true));
+    return onSnapshot(q, snap => {
+        const posts = snap.docs
+            .filter(d => d.get('hidden') !== true)
+            .map(d => {
+                const data = d.data();
+                return {
+                    id: d.id,
+                    authorId: data.authorId,
+                    authorEmail: data.authorEmail,
+                    authorName: data.authorName ?? undefined,
+                    content: data.content || '',
+                    createdAt: data.createdAt,
+                    analysis: data.analysis as PostAnalysis,
+                };
+            })
+            .sort((a, b) => a.analysis.comparative - b.analysis.comparative);
+        callback(posts);
+    });
+}
+
+/** Staff only (enforced by rules): clear the flag after review. It returns only if the text changes and scores low again */
+export function dismissSentimentFlag(postId: string): Promise<void> {
+    return updateDoc(doc(firestore, 'posts', postId), { 'analysis.flagged': false });
+}
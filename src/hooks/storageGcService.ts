@@ -0,0 +1,55 @@
+import { collection, onSnapshot, query, orderBy, limit, type Unsubscribe } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { firestore, functions } from '../firebaseConfig';
+
+export interface StorageGcCandidate {
+    path: string;
+    size: number;
+    /** ISO timestamp from the Storage object metadata */
+    timeCreated: string;
+}
+
+/**
+ * Outcome of one storage garbage-collection run - written by Cloud Functions
+ * (functions/src/storageCleanup.ts) to storageGcReports/{reportId}; readable by Staff.
+ */
+export interface StorageGcReport {
+    id: string;
+    dryRun: boolean;
+    trigger: 'schedule' | 'manual';
+    actorId: string | null;
+    startedAt: number;
+    finishedAt: number;
+    graceDays: number;
+    scannedCount: number;
+    candidateCount: number;
+    candidateBytes: number;
+    deletedCount: number;
+    /** Capped list of candidates, oldest first (candidateCount has the full total) */
+    candidates: StorageGcCandidate[];
+}
+
+const reportsRef = collection(firestore, 'storageGcReports');
+
+const previewStorageGcCallable = httpsCallable<void, { reportId: string }>(functions, 'previewStorageGc');
+
+/**
+ * Subscribe to the most recent reports, newest first.
+ */
+export function subscribeToStorageGcReports(
+    count: number,
+    callback: (reports: StorageGcReport[]) => void,
+): Unsubscribe {
+    const q = query(reportsRef, orderBy('startedAt', 'desc'), limit(count));
+    return onSnapshot(q, snap => {
+        callback(snap.docs.map(d => ({ id: d.id, ...d.data() }) as StorageGcReport));
+    });
+}
+
+/**
+ * Run the collector in dry-run mode (nothing is deleted). Resolves to the new report id.
+ */
+export async function previewStorageGc(): Promise<string> {
+    const result = await previewStorageGcCallable();
+    return result.data.reportId;
+}
@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react';
+import { subscribeToCompanyValues, type CompanyValue } from './companyValueService';
+
+/**
+ * Live list of company values posts can be tagged with. `saved` is false while the
+ * settings document does not exist yet (Staff can import the defaults from /admin).
+ */
+export function useCompanyValues(): { values: CompanyValue[]; saved: boolean; loading: boolean } {
+    const [values, setValues] = useState<CompanyValue[]>([]);
+    const [saved, setSaved] = useState(false);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        const unsubscribe = subscribeToCompanyValues(list => {
+            setValues(list ?? []);
+            setSaved(list !== null);
+            setLoading(false);
+        }, () => setLoading(false));
+        return unsubscribe;
+    }, []);
+
+    return { values, saved, loading };
+}
@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react';
+import { subscribeToExhibits } from './exhibitService';
+import type { ExhibitConfig } from '../components/ParallaxExhibit';
+
+/**
+ * Live list of exhibit definitions (including hidden ones), sorted by display order.
+ * Firestore shares one listener between identical queries, so many components can use this cheaply.
+ */
+export function useExhibits(): { exhibits: ExhibitConfig[]; loading: boolean } {
+    const [exhibits, setExhibits] = useState<ExhibitConfig[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        const unsubscribe = subscribeToExhibits(list => {
+            setExhibits(list);
+            setLoading(false);
+        });
+        return unsubscribe;
+    }, []);
+
+    return { exhibits, loading };
+}
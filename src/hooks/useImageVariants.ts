@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react';
+import { getImageVariants, type ImageVariants } from './imageVariantService';
+
+/**
+ * Variant metadata for an image URL: undefined while the lookup is pending,
+ * null when the image has no variants (external, GIF, or not processed yet).
+ */
+export function useImageVariants(src: string | null): ImageVariants | null | undefined {
+    const [result, setResult] = useState<{ src: string; variants: ImageVariants | null } | null>(null);
+
+    useEffect(() => {
+        if (!src) return;
+        let cancelled = false;
+        getImageVariants(src).then((variants) => {
+            if (!cancelled) setResult({ src, variants });
+        });
+        return () => { cancelled = true; };
+    }, [src]);
+
+    if (!src) return null;
+    return result?.src === src ? result.variants : undefined;
+}
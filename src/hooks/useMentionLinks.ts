@@ -0,0 +1,21 @@
+import { useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+
+/**
+ * Click handler for rendered post HTML: plain clicks on @mention links navigate within the app
+ * instead of reloading the page. Returns true when the click was on a mention link (so the caller
+ * should not treat it as a click on the post); modified clicks are left to the browser.
+ */
+export function useMentionLinks(): (e: React.MouseEvent) => boolean {
+    const navigate = useNavigate();
+    return useCallback((e: React.MouseEvent) => {
+        const link = (e.target as HTMLElement).closest('a[data-type="mention"]');
+        const href = link?.getAttribute('href');
+        if (!href?.startsWith('/members/')) return false;
+        if (e.button === 0 && !e.metaKey && !e.ctrlKey && !e.shiftKey && !e.altKey) {
+            e.preventDefault();
+            navigate(href);
+        }
+        return true;
+    }, [navigate]);
+}
@@ -6,9 +6,14 @@ import Placeholder from '@tiptap/extension-placeholder';
 import Image from '@tiptap/extension-image';
 import FileHandler from '@tiptap/extension-file-handler';
 import Emoji, { emojis } from '@tiptap/extension-emoji';
-import { uploadPostImageToStorage } from '../utils/imageUpload';
+import { uploadPostImageToStorage, uploadPostVideoToStorage, uploadPostAudioToStorage } from '../utils/imageUpload';
+import { Video } from '../utils/videoNode';
+import { Audio } from '../utils/audioNode';
+import { MemberMention } from '../utils/mentionNode';
+import type { Recording } from '../utils/mediaRecording';
+import { VIDEO_MIME_TYPES } from '../utils/videoFile';
 import {
-    getPostContent,
+    getPost,
     updatePostContent,
     deletePost as deletePostService,
     createPost as createPostService,
@@ -22,6 +27,8 @@ export interface DraftAuthorMeta {
 export interface PostSavedDetail {
     postId: string;
     content: string;
+    /** Company value ids the post is tagged with */
+    values: string[];
 }
 
 interface UsePostEditorOptions {
@@ -42,10 +49,16 @@ interface UsePostEditorResult {
     isReady: boolean;
     isDirty: boolean;
     isSaving: boolean;
+    /** Company value ids picked for the post; saved together with the content */
+    values: string[];
+    setValues: (values: string[]) => void;
     save: () => Promise<void>;
     deletePost: () => Promise<void>;
     isEmpty: () => boolean;
     uploadImage: (file: File) => Promise<void>;
+    uploadVideo: (file: File) => Promise<void>;
+    /** Upload a recorded message and insert it at the cursor; throws with a user-facing message on failure */
+    uploadRecording: (recording: Recording) => Promise<void>;
 }
 
 export function usePostEditor({
@@ -59,6 +72,9 @@ export function usePostEditor({
     const [isReady, setIsReady] = useState(false);
     const [isDirty, setIsDirty] = useState(false);
     const [isSaving, setIsSaving] = useState(false);
+    const [values, setValuesState] = useState<string[]>([]);
+    const valuesRef = useRef<string[]>([]);
+    const lastSyncedValuesRef = useRef<string[]>([]);
     const postIdRef = useRef<string | null>(postId);
     const userIdRef = useRef<string | null>(userId);
     const lastSyncedRef = useRef('');
@@ -86,6 +102,39 @@ export function usePostEditor({
         }
     }, []);
 
+    const handleVideoUpload = useCallback(async (file: File, currentEditor: Editor, position: number) => {
+        const pid = postIdRef.current;
+        if (!pid) return;
+        try {
+            const { src, poster } = await uploadPostVideoToStorage(file, pid);
+            currentEditor.chain().insertContentAt(position, { type: 'video', attrs: { src, poster } }).focus().run();
+        } catch (error) {
+            console.error('Failed to upload video:', error);
+            window.alert((error as { message?: string })?.message || 'Failed to upload video.');
+        }
+    }, []);
+
+    /** Route dropped or pasted files to the image or video upload */
+    const handleFileUpload = useCallback((file: File, currentEditor: Editor, position: number) => {
+        if (file.type.startsWith('video/')) {
+            return handleVideoUpload(file, currentEditor, position);
+        }
+        return handleImageUpload(file, currentEditor, position);
+    }, [handleImageUpload, handleVideoUpload]);
+
+    const setValues = useCallback((next: string[]) => {
+        valuesRef.current = next;
+        setValuesState(next);
+        setIsDirty(true);
+    }, []);
+
+    /** Put the loaded (or cleared) tags in place without marking the post dirty */
+    const syncValues = useCallback((next: string[]) => {
+        valuesRef.current = next;
+        lastSyncedValuesRef.current = next;
+        setValuesState(next);
+    }, []);
+
     const saveRef = useRef<(() => Promise<void>) | null>(null);
 
     const editor = useEditor({
@@ -94,17 +143,20 @@ export function usePostEditor({
             TextAlign.configure({ types: ['heading', 'paragraph'] }),
             Placeholder.configure({ placeholder: 'Start writing your recognition post...' }),
             Image.configure({ allowBase64: false }),
+            Video,
+            Audio,
             FileHandler.configure({
-                allowedMimeTypes: ['image/png', 'image/jpeg', 'image/gif', 'image/webp'],
+                allowedMimeTypes: ['image/png', 'image/jpeg', 'image/gif', 'image/webp', ...VIDEO_MIME_TYPES],
                 onDrop: (currentEditor, files, pos) => {
-                    files.forEach(file => handleImageUpload(file, currentEditor, pos));
+                    files.forEach(file => handleFileUpload(file, currentEditor, pos));
                 },
                 onPaste: (currentEditor, files, htmlContent) => {
                     if (htmlContent) return false;
-                    files.forEach(file => handleImageUpload(file, currentEditor, currentEditor.state.selection.anchor));
+                    files.forEach(file => handleFileUpload(file, currentEditor, currentEditor.state.selection.anchor));
                 },
             }),
             Emoji.configure({ emojis, enableEmoticons: true }),
+            MemberMention,
         ],
         editorProps: {
             attributes: { class: 'tiptap-content' },
@@ -117,7 +169,7 @@ export function usePostEditor({
                 return false;
             },
         },
-    }, [handleImageUpload]);
+    }, [handleFileUpload]);
 
     // Load: empty local draft vs fetch existing document
     useEffect(() => {
@@ -134,6 +186,7 @@ export function usePostEditor({
             editor.commands.setContent('');
             lastSyncedRef.current = editor.getHTML();
             isSettingContentRef.current = false;
+            syncValues([]);
             setIsReady(true);
             return;
         }
@@ -142,12 +195,13 @@ export function usePostEditor({
         setIsReady(false);
         setIsDirty(false);
 
-        getPostContent(postId).then(html => {
+        getPost(postId).then(post => {
             if (cancelled || !editor || editor.isDestroyed) return;
             isSettingContentRef.current = true;
-            editor.commands.setContent(html || '');
+            editor.commands.setContent(post?.content || '');
             lastSyncedRef.current = editor.getHTML();
             isSettingContentRef.current = false;
+            syncValues(post?.values ?? []);
             setIsReady(true);
         }).catch(err => {
             console.error('Failed to load post content:', err);
@@ -155,7 +209,7 @@ export function usePostEditor({
         });
 
         return () => { cancelled = true; };
-    }, [postId, userId, editor, isUnsavedDraft]);
+    }, [postId, userId, editor, isUnsavedDraft, syncValues]);
 
     useEffect(() => {
         if (!editor || !isReady) return;
@@ -174,7 +228,9 @@ export function usePostEditor({
         const uid = userIdRef.current;
         if (!pid || !uid || !editor || editor.isDestroyed) return;
         const html = editor.getHTML();
-        if (html === lastSyncedRef.current) {
+        const tags = valuesRef.current;
+        const valuesChanged = tags.join() !== lastSyncedValuesRef.current.join();
+        if (html === lastSyncedRef.current && !valuesChanged) {
             setIsDirty(false);
             return;
         }
@@ -192,16 +248,17 @@ export function usePostEditor({
                     meta.email,
                     meta.authorName,
                     html,
+                    tags,
                 );
                 onDraftSavedRef.current?.();
-                lastSyncedRef.current = html;
-                setIsDirty(false);
             } else {
-                await updatePostContent(pid, html);
-                lastSyncedRef.current = html;
-                setIsDirty(false);
+                // Tags are only written when changed, so editing a post tagged with a since-removed value still saves
+                await updatePostContent(pid, html, valuesChanged ? tags : undefined);
             }
-            onSavedRef.current?.({ postId: pid, content: html });
+            lastSyncedRef.current = html;
+            lastSyncedValuesRef.current = tags;
+            setIsDirty(false);
+            onSavedRef.current?.({ postId: pid, content: html, values: tags });
         } catch (err) {
             console.error('Error saving post:', err);
         } finally {
@@ -218,9 +275,10 @@ export function usePostEditor({
             editor.commands.setContent('');
             lastSyncedRef.current = '';
             isSettingContentRef.current = false;
+            syncValues([]);
             setIsDirty(false);
         }
-    }, [postId, editor]);
+    }, [postId, editor, syncValues]);
 
     const deletePost = useCallback(async () => {
         const pid = postIdRef.current;
@@ -238,5 +296,23 @@ export function usePostEditor({
         await handleImageUpload(file, editor, editor.state.selection.anchor);
     }, [editor, handleImageUpload]);
 
-    return { editor, isReady, isDirty, isSaving, save, deletePost, isEmpty, uploadImage };
+    const uploadVideo = useCallback(async (file: File) => {
+        if (!editor) return;
+        await handleVideoUpload(file, editor, editor.state.selection.anchor);
+    }, [editor, handleVideoUpload]);
+
+    const uploadRecording = useCallback(async ({ file, kind, duration }: Recording) => {
+        const pid = postIdRef.current;
+        if (!editor || !pid) return;
+        const position = editor.state.selection.anchor;
+        if (kind === 'video') {
+            const { src, poster } = await uploadPostVideoToStorage(file, pid, duration);
+            editor.chain().insertContentAt(position, { type: 'video', attrs: { src, poster } }).focus().run();
+        } else {
+            const src = await uploadPostAudioToStorage(file, pid, duration);
+            editor.chain().insertContentAt(position, { type: 'audio', attrs: { src } }).focus().run();
+        }
+    }, [editor]);
+
+    return { editor, isReady, isDirty, isSaving, values, setValues, save, deletePost, isEmpty, uploadImage, uploadVideo, uploadRecording };
 }
@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useLocation, useNavigate, useSearchParams } from 'react-router-dom';
+import { useAuth } from './useAuth';
+import { subscribeToPost } from './postService';
+import { canViewPost } from '../utils/postLink';
+import type { Post } from '../components/PostCard';
+
+/** History state of the entry `openPost` pushes, so closing can go back instead of adding another entry */
+interface PostParamState {
+    postModal?: boolean;
+}
+
+/**
+ * The post shown in PostViewModal, kept in the URL as `?post={id}` so the view can be linked to and
+ * the browser back button closes it. The post is loaded live with `subscribeToPost`, so it need not
+ * be among the posts the page has loaded. `notFound` is true once a deleted post (or a hidden post
+ * the user may not see) has been looked up.
+ */
+export function usePostParam(): {
+    postId: string | null;
+    post: Post | null;
+    notFound: boolean;
+    openPost: (postId: string) => void;
+    closePost: () => void;
+} {
+    const { currentUser, isHighLevel } = useAuth();
+    const [searchParams, setSearchParams] = useSearchParams();
+    const location = useLocation();
+    const navigate = useNavigate();
+    const postId = searchParams.get('post');
+    const [loaded, setLoaded] = useState<{ id: string; post: Post | null } | null>(null);
+
+    useEffect(() => {
+        if (!postId) return;
+        return subscribeToPost(postId, post => setLoaded({ id: postId, post }));
+    }, [postId]);
+
+    const current = postId && loaded?.id === postId ? loaded : null;
+    const post = current?.post && canViewPost(current.post, currentUser?.uid ?? null, isHighLevel)
+        ? current.post
+        : null;
+
+    const openPost = useCallback((id: string) => {
+        const next = new URLSearchParams(searchParams);
+        next.set('post', id);
+        setSearchParams(next, { state: { postModal: true } satisfies PostParamState });
+    }, [searchParams, setSearchParams]);
+
+    const closePost = useCallback(() => {
+        if ((location.state as PostParamState | null)?.postModal) {
+            navigate(-1);
+            return;
+        }
+        // Opened from a shared link: drop the parameter without leaving the page
+        const next = new URLSearchParams(searchParams);
+        next.delete('post');
+        setSearchParams(next, { replace: true });
+    }, [location.state, navigate, searchParams, setSearchParams]);
+
+    return { postId, post, notFound: current !== null && post === null, openPost, closePost };
+}
@@ -1,16 +1,28 @@
 import { useEffect, useState } from 'react';
-import { Container, Card, Table, Button, Spinner, Alert, Badge } from 'react-bootstrap';
+import { Link } from 'react-router-dom';
+import { Container, Card, Table, Button, Spinner, Alert, Badge, Tabs, Tab } from 'react-bootstrap';
 import { collection, onSnapshot, query, orderBy } from 'firebase/firestore';
 import { httpsCallable } from 'firebase/functions';
 import { firestore, functions } from '../firebaseConfig';
+import { useAuth } from '../hooks/useAuth';
 import type { UserProfile } from '../utils/userProfile';
+import ExhibitManager from '../components/ExhibitManager';
+import CompanyValuesManager from '../components/CompanyValuesManager';
+import ModerationQueue from '../components/ModerationQueue';
+import FeaturedPostsManager from '../components/FeaturedPostsManager';
+import ActivityLog from '../components/ActivityLog';
+import StorageCleanupPanel from '../components/StorageCleanupPanel';
+import BackupPanel from '../components/BackupPanel';
+import AnalyticsDashboard from '../components/AnalyticsDashboard';
+import SentimentDashboard from '../components/SentimentDashboard';
 
-const assignHighLevel = httpsCallable<{ uid: string }, { success: boolean }>(functions, 'assignHighLevel');
+const setUserRole = httpsCallable<{ uid: string; role: 'staff' | 'user' }, { success: boolean }>(functions, 'setUserRole');
 
 function Admin() {
+    const { currentUser } = useAuth();
     const [users, setUsers] = useState<UserProfile[]>([]);
     const [loading, setLoading] = useState(true);
-    const [promoting, setPromoting] = useState<string | null>(null);
+    const [updatingRole, setUpdatingRole] = useState<string | null>(null);
     const [error, setError] = useState<string | null>(null);
     const [success, setSuccess] = useState<string | null>(null);
 
@@ -27,18 +39,30 @@ function Admin() {
         return unsubscribe;
     }, []);
 
-    const handlePromote = async (uid: string, displayName: string) => {
+    // The server enforces this too; disabling the button just avoids a round trip
+    const staffCount = users.filter(user => user.role === 'staff').length;
+
+    const handleRoleChange = async (uid: string, displayName: string, role: 'staff' | 'user') => {
+        if (role === 'user') {
+            const self = uid === currentUser?.uid;
+            const prompt = self
+                ? 'Remove your own Staff access? You will lose access to this page.'
+                : `Remove Staff access from ${displayName}?`;
+            if (!window.confirm(prompt)) return;
+        }
         setError(null);
         setSuccess(null);
-        setPromoting(uid);
+        setUpdatingRole(uid);
         try {
-            await assignHighLevel({ uid });
-            setSuccess(`${displayName} has been promoted to Staff.`);
+            await setUserRole({ uid, role });
+            setSuccess(role === 'staff'
+                ? `${displayName} has been promoted to Staff.`
+                : `${displayName} is no longer Staff.`);
         } catch (err: unknown) {
-            const msg = (err as { message?: string })?.message || 'Failed to promote user.';
+            const msg = (err as { message?: string })?.message || 'Failed to update role.';
             setError(msg);
         } finally {
-            setPromoting(null);
+            setUpdatingRole(null);
         }
     };
 
@@ -50,72 +74,120 @@ function Admin() {
 
     return (
         <Container className="mt-4 mb-5">
-            <h2 className="mb-4">Admin Dashboard</h2>
+            <div className="d-flex flex-wrap justify-content-between align-items-center gap-2 mb-4">
+                <h2 className="mb-0">Admin Dashboard</h2>
+                <Link to="/admin/memory-book" className="btn btn-outline-primary">Memory book</Link>
+            </div>
 
             {error && <Alert variant="danger" dismissible onClose={() => setError(null)}>{error}</Alert>}
             {success && <Alert variant="success" dismissible onClose={() => setSuccess(null)}>{success}</Alert>}
 
-            <Card>
-                <Card.Header className="d-flex justify-content-between align-items-center">
-                    <strong>Users</strong>
-                    <Badge bg="secondary">{users.length}</Badge>
-                </Card.Header>
-                <Card.Body className="p-0">
-                    {loading ? (
-                        <div className="d-flex justify-content-center p-4">
-                            <Spinner animation="border" size="sm" />
-                        </div>
-                    ) : users.length === 0 ? (
-                        <p className="text-muted p-3 mb-0">No users found.</p>
-                    ) : (
-                        <div className="table-responsive">
-                            <Table className="mb-0 align-middle">
-                                <thead>
-                                    <tr>
-                                        <th>Name</th>
-                                        <th>Email</th>
-                                        <th>Joined</th>
-                                        <th>Role</th>
-                                        <th></th>
-                                    </tr>
-                                </thead>
-                                <tbody>
-                                    {users.map((user) => (
-                                        <tr key={user.uid}>
-                                            <td>{user.firstName} {user.lastName}</td>
-                                            <td>{user.email}</td>
-                                            <td>{formatDate(user.createdAt)}</td>
-                                            <td>
-                                                {user.role === 'staff' ? (
-                                                    <Badge style={{ backgroundColor: '#6f42c1' }}>Staff</Badge>
-                                                ) : (
-                                                    <span className="text-muted">Member</span>
-                                                )}
-                                            </td>
-                                            <td className="text-end">
-                                                {user.role !== 'staff' && (
-                                                    <Button
-                                                        size="sm"
-                                                        variant="outline-primary"
-                                                        disabled={promoting === user.uid}
-                                                        onClick={() => handlePromote(user.uid, `${user.firstName} ${user.lastName}`)}
-                                                    >
-                                                        {promoting === user.uid ? (
-                                                            <Spinner animation="border" size="sm" />
+            <Tabs defaultActiveKey="users" className="mb-3" mountOnEnter>
+                <Tab eventKey="users" title="Users">
+                    <Card>
+                        <Card.Header className="d-flex justify-content-between align-items-center">
+                            <strong>Users</strong>
+                            <Badge bg="secondary">{users.length}</Badge>
+                        </Card.Header>
+                        <Card.Body className="p-0">
+                            {loading ? (
+                                <div className="d-flex justify-content-center p-4">
+                                    <Spinner animation="border" size="sm" />
+                                </div>
+                            ) : users.length === 0 ? (
+                                <p className="text-muted p-3 mb-0">No users found.</p>
+                            ) : (
+                                <div className="table-responsive">
+                                    <Table className="mb-0 align-middle">
+                                        <thead>
+                                            <tr>
+                                                <th>Name</th>
+                                                <th>Email</th>
+                                                <th>Joined</th>
+                                                <th>Role</th>
+                                                <th></th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {users.map((user) => (
+                                                <tr key={user.uid}>
+                                                    <td>{user.firstName} {user.lastName}</td>
+                                                    <td>{user.email}</td>
+                                                    <td>{formatDate(user.createdAt)}</td>
+                                                    <td>
+                                                        {user.role === 'staff' ? (
+                                                            <Badge style={{ backgroundColor: '#6f42c1' }}>Staff</Badge>
+                                                        ) : (
+                                                            <span className="text-muted">Member</span>
+                                                        )}
+                                                    </td>
+                                                    <td className="text-end">
+                                                        {user.role !== 'staff' ? (
+                                                            <Button
+                                                                size="sm"
+                                                                variant="outline-primary"
+                                                                disabled={updatingRole === user.uid}
+                                                                onClick={() => handleRoleChange(user.uid, `${user.firstName} ${user.lastName}`, 'staff')}
+                                                            >
+                                                                {updatingRole === user.uid ? (
+                                                                    <Spinner animation="border" size="sm" />
+                                                                ) : (
+                                                                    'Promote to Staff'
+                                                                )}
+                                                            </Button>
                                                         ) : (
-                                                            'Promote to Staff'
+                                                            <Button
+                                                                size="sm"
+                                                                variant="outline-danger"
+                                                                disabled={updatingRole === user.uid || staffCount <= 1}
+                                                                title={staffCount <= 1 ? 'At least one Staff member is required' : undefined}
+                                                                onClick={() => handleRoleChange(user.uid, `${user.firstName} ${user.lastName}`, 'user')}
+                                                            >
+                                                                {updatingRole === user.uid ? (
+                                                                    <Spinner animation="border" size="sm" />
+                                                                ) : (
+                                                                    'Demote'
+                                                                )}
+                                                            </Button>
                                                         )}
-                                                    </Button>
-                                                )}
-                                            </td>
-                                        </tr>
-                                    ))}
-                                </tbody>
-                            </Table>
-                        </div>
-                    )}
-                </Card.Body>
-            </Card>
+                                                    </td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </Table>
+                                </div>
+                            )}
+                        </Card.Body>
+                    </Card>
+                </Tab>
+                <Tab eventKey="exhibits" title="Exhibits">
+                    <ExhibitManager onError={setError} />
+                </Tab>
+                <Tab eventKey="values" title="Values">
+                    <CompanyValuesManager onError={setError} />
+                </Tab>
+                <Tab eventKey="featured" title="Featured">
+                    <FeaturedPostsManager onError={setError} />
+                </Tab>
+                <Tab eventKey="moderation" title="Moderation">
+                    <ModerationQueue onError={setError} />
+                </Tab>
+                <Tab eventKey="activity" title="Activity">
+                    <ActivityLog users={users} onError={setError} />
+                </Tab>
+                <Tab eventKey="analytics" title="Analytics">
+                    <AnalyticsDashboard users={users} onError={setError} />
+                </Tab>
+                <Tab eventKey="sentiment" title="Sentiment">
+                    <SentimentDashboard onError={setError} />
+                </Tab>
+                <Tab eventKey="storage" title="Storage">
+                    <StorageCleanupPanel onError={setError} />
+                </Tab>
+                <Tab eventKey="backups" title="Backups">
+                    <BackupPanel onError={setError} />
+                </Tab>
+            </Tabs>
         </Container>
     );
 }
@@ -1,10 +1,14 @@
 import { useEffect, useMemo, useState } from 'react';
+import { useParams } from 'react-router-dom';
 import { useAuth } from '../hooks/useAuth';
-import { usePostEditor } from '../hooks/usePostEditor';
-import { subscribeToAllPosts, deletePost as deletePostDocument } from '../hooks/postService';
+import { usePostEditor, type PostSavedDetail } from '../hooks/usePostEditor';
+import {
+    subscribeToAllPosts,
+    deletePost as deletePostDocument,
+} from '../hooks/postService';
 import { subscribeToArtifacts, deleteArtifact } from '../hooks/artifactService';
-import { parseGalleryContent } from '../utils/artifactUtils';
-import { deleteStorageFilesByUrls } from '../utils/imageUpload';
+import { useExhibits } from '../hooks/useExhibits';
+import { usePostParam } from '../hooks/usePostParam';
 import PostEditorModal from '../components/PostEditorModal';
 import PostViewModal from '../components/PostViewModal';
 import ArtifactEditorModal from '../components/ArtifactEditorModal';
@@ -13,84 +17,6 @@ import ParallaxExhibit, { type ExhibitConfig } from '../components/ParallaxExhib
 import { type Artifact as ArtifactType } from '../components/Artifact';
 import type { Post } from '../components/PostCard';
 
-// --- Exhibit Definitions ---
-// Static exhibit data - posts with matching `exhibit` field in the database will appear under that exhibit
-
-const EXHIBITS: ExhibitConfig[] = [
-    {
-        id: 'exhibit-1',
-        exhibitNumber: 1,
-        title: 'Physician Well-being and Professional Fulfillment',
-        subtitle: '',
-        backgroundImage: '/exhibits/bg-wellbeing.webp',
-        quote: '"For there is always light, if only we\'re brave enough to see it, if only we\'re brave enough to be it."',
-        quoteAuthor: '— Amanda Gorman',
-    },
-    {
-        id: 'exhibit-2',
-        exhibitNumber: 2,
-        title: 'Advocacy',
-        subtitle: '',
-        backgroundImage: '/exhibits/bg-advocacy.webp',
-        quote: '"Don\'t agonize—organize."',
-        quoteAuthor: '— Nancy Pelosi',
-    },
-    {
-        id: 'exhibit-3',
-        exhibitNumber: 3,
-        title: 'College Alignment, Sustainability, and Success',
-        subtitle: '',
-        backgroundImage: '/exhibits/chapter.webp',
-        quote: '"If you want to go fast, go alone; if you want to go far, go together."',
-        quoteAuthor: '— African Proverb',
-    },
-    {
-        id: 'exhibit-4',
-        exhibitNumber: 4,
-        title: 'Medical Education and Evidence-based Medicine',
-        subtitle: '',
-        backgroundImage: '/exhibits/bg-med-ed.webp',
-        quote: '"Medicine disregards international boundaries. The physician studies for the benefit of humankind."',
-        quoteAuthor: '— George R. Minot',
-    },
-    {
-        id: 'exhibit-5',
-        exhibitNumber: 5,
-        title: 'Membership Engagement and Creating a Professional Home',
-        subtitle: '',
-        backgroundImage: '/exhibits/bg-professional-home.webp',
-        quote: '"Diversity is being invited to the party; Inclusion is being asked to dance."',
-        quoteAuthor: '— Verna Myers',
-    },
-    {
-        id: 'exhibit-6',
-        exhibitNumber: 6,
-        title: 'About That Time There Was A Pandemic',
-        subtitle: '',
-        backgroundImage: 'https://images.unsplash.com/photo-1584036561566-baf8f5f1b144?auto=format&fit=crop&q=80&w=1600',
-        quote: '"This pandemic has magnified every existing inequality in our society."',
-        quoteAuthor: '— Melinda Gates',
-    },
-    {
-        id: 'exhibit-7',
-        exhibitNumber: 7,
-        title: 'Leadership Development',
-        subtitle: '',
-        backgroundImage: '/exhibits/bg-leaders.webp',
-        quote: '"The best leaders don\'t just lead. They create environments where new leaders are created."',
-        quoteAuthor: '— Ross Simmonds',
-    },
-    {
-        id: 'exhibit-8',
-        exhibitNumber: 8,
-        title: 'Legacy and Impact',
-        subtitle: '',
-        backgroundImage: '/exhibits/bg-legacy.webp',
-        quote: '"If you\'re going to live, leave a legacy. Make a mark on the world that can\'t be erased."',
-        quoteAuthor: '— Maya Angelou',
-    },
-];
-
 // --- Helper Functions ---
 
 function getPostsForExhibit(posts: Post[], exhibit: ExhibitConfig): Post[] {
@@ -108,12 +34,15 @@ function getArtifactsForExhibit(artifacts: ArtifactType[], exhibit: ExhibitConfi
 
 export default function Exhibit() {
     const { currentUser, isHighLevel } = useAuth();
+    const { exhibits, loading: exhibitsLoading } = useExhibits();
+    const { exhibitNumber } = useParams();
     const [posts, setPosts] = useState<Post[]>([]);
     const [artifacts, setArtifacts] = useState<ArtifactType[]>([]);
     const [activePostId, setActivePostId] = useState<string | null>(null);
-    const [viewPostId, setViewPostId] = useState<string | null>(null);
-    // Artifact editor state (create only; no edit)
+    const { postId: viewPostId, post: viewPost, notFound: viewPostNotFound, openPost, closePost } = usePostParam();
+    // Artifact editor state: exhibit number when creating, or the artifact being edited
     const [artifactEditorExhibitId, setArtifactEditorExhibitId] = useState<number | null>(null);
+    const [editingArtifact, setEditingArtifact] = useState<ArtifactType | null>(null);
     // Carousel editor state
     const [carouselEditorExhibitNumber, setCarouselEditorExhibitNumber] = useState<number | null>(null);
     const [carouselReloadKey, setCarouselReloadKey] = useState(0);
@@ -122,17 +51,17 @@ export default function Exhibit() {
         setActivePostId(null);
     };
 
-    const handlePostSaved = (detail: { postId: string; content: string }) => {
+    const handlePostSaved = (detail: PostSavedDetail) => {
         const now = Date.now();
         setPosts(prev =>
             prev.map(p =>
-                p.id === detail.postId ? { ...p, content: detail.content, updatedAt: now } : p,
+                p.id === detail.postId ? { ...p, content: detail.content, values: detail.values, updatedAt: now } : p,
             ),
         );
         handleCloseEditor();
     };
 
-    const { editor, isReady, isDirty, isSaving, save } = usePostEditor({
+    const { editor, isReady, isDirty, isSaving, values, setValues, save } = usePostEditor({
         postId: activePostId,
         userId: currentUser?.uid ?? null,
         onSaved: handlePostSaved,
@@ -140,7 +69,7 @@ export default function Exhibit() {
 
     useEffect(() => {
         const unsubscribe = subscribeToAllPosts((postsArray) => {
-            setPosts(postsArray);
+            setPosts(postsArray.filter(p => !p.hidden));
         });
         return unsubscribe;
     }, []);
@@ -152,14 +81,20 @@ export default function Exhibit() {
         return unsubscribe;
     }, []);
 
-    // Group posts and artifacts by exhibit
+    // Group posts and artifacts by visible exhibit (exhibit definitions come from Firestore, managed in /admin)
     const exhibitsWithContent = useMemo(() => {
-        return EXHIBITS.map(exhibit => ({
+        return exhibits.filter(exhibit => exhibit.visible).map(exhibit => ({
             exhibit,
             posts: getPostsForExhibit(posts, exhibit),
             artifacts: getArtifactsForExhibit(artifacts, exhibit),
         }));
-    }, [posts, artifacts]);
+    }, [exhibits, posts, artifacts]);
+
+    // Exhibit links (/exhibit/3, e.g. from search results or shared) scroll to that exhibit once exhibits have loaded
+    useEffect(() => {
+        if (exhibitsLoading || !exhibitNumber) return;
+        document.getElementById(`exhibit-${exhibitNumber}`)?.scrollIntoView({ behavior: 'smooth' });
+    }, [exhibitNumber, exhibitsLoading]);
 
     // Handlers
     const handleEditPost = (postId: string) => {
@@ -167,30 +102,37 @@ export default function Exhibit() {
     };
 
     const handleViewPost = (postId: string) => {
-        setViewPostId(postId);
+        openPost(postId);
     };
 
     const handleDeletePost = async (postId: string) => {
         try {
             await deletePostDocument(postId);
             setActivePostId(current => (current === postId ? null : current));
-            setViewPostId(current => (current === postId ? null : current));
+            if (viewPostId === postId) closePost();
         } catch (error) {
             console.error('Failed to delete post:', error);
         }
     };
 
     const handleCloseView = () => {
-        setViewPostId(null);
+        closePost();
     };
 
-    // Artifact editor handlers (create only)
+    // Artifact editor handlers
     const handleAddArtifact = (exhibitNumber: number) => {
+        setEditingArtifact(null);
         setArtifactEditorExhibitId(exhibitNumber);
     };
 
+    const handleEditArtifact = (artifact: ArtifactType) => {
+        setEditingArtifact(artifact);
+        setArtifactEditorExhibitId(artifact.exhibitId);
+    };
+
     const handleCloseArtifactEditor = () => {
         setArtifactEditorExhibitId(null);
+        setEditingArtifact(null);
     };
 
     const handleEditCarousel = (exhibitNumber: number) => {
@@ -208,13 +150,7 @@ export default function Exhibit() {
     const handleDeleteArtifact = async (artifact: ArtifactType) => {
         if (!window.confirm('Delete this artifact? This cannot be undone.')) return;
         try {
-            if (artifact.type === 'gallery') {
-                const parsed = parseGalleryContent(artifact.content);
-                if (parsed?.images?.length) {
-                    const urls = parsed.images.map(img => img.url).filter(Boolean);
-                    await deleteStorageFilesByUrls(urls);
-                }
-            }
+            // The cleanupArtifactFilesOnDelete function removes the artifact's Storage files
             await deleteArtifact(artifact.id);
         } catch (error) {
             console.error('Failed to delete artifact:', error);
@@ -222,13 +158,16 @@ export default function Exhibit() {
     };
 
     const activePost = activePostId ? posts.find(p => p.id === activePostId) : null;
-    const viewPost = viewPostId ? posts.find(p => p.id === viewPostId) : null;
 
     // Calculate total posts and other stats (only count posts assigned to exhibits)
     const exhibitPosts = posts.filter(p => p.exhibit !== undefined);
     const totalPosts = exhibitPosts.length;
     const totalArtifacts = artifacts.length;
     const totalAuthors = new Set(exhibitPosts.map(p => p.authorId)).size;
+    const totalReactions = exhibitPosts.reduce(
+        (sum, p) => sum + Object.values(p.reactionCounts ?? {}).reduce((a, b) => a + b, 0),
+        0,
+    );
 
     return (
         <div className="exhibit-page">
@@ -253,6 +192,10 @@ export default function Exhibit() {
                             <span className="exhibit-stat-number">{totalAuthors}</span>
                             <span className="exhibit-stat-label">Contributors</span>
                         </div>
+                        <div className="exhibit-stat">
+                            <span className="exhibit-stat-number">{totalReactions}</span>
+                            <span className="exhibit-stat-label">Reactions</span>
+                        </div>
                     </div>
                 </div>
             </div>
@@ -271,13 +214,14 @@ export default function Exhibit() {
                     onEditPost={handleEditPost}
                     onDeletePost={handleDeletePost}
                     onAddArtifact={handleAddArtifact}
+                    onEditArtifact={handleEditArtifact}
                     onDeleteArtifact={handleDeleteArtifact}
                     onEditCarousel={handleEditCarousel}
                 />
             ))}
 
             {/* Empty State */}
-            {exhibitsWithContent.length === 0 && (
+            {!exhibitsLoading && exhibitsWithContent.length === 0 && (
                 <div className="exhibit-empty">
                     <p>No memories have been added yet.</p>
                     <p>Head to the Feed to add your first recognition post!</p>
@@ -329,12 +273,15 @@ export default function Exhibit() {
                 isSaving={isSaving}
                 onSave={save}
                 onClose={handleCloseEditor}
+                values={values}
+                onValuesChange={setValues}
                 saveDisabled={isSaving || !isDirty}
             />
 
             <PostViewModal
                 show={viewPostId !== null}
-                post={viewPost || null}
+                post={viewPost}
+                notFound={viewPostNotFound}
                 onClose={handleCloseView}
             />
 
@@ -342,7 +289,7 @@ export default function Exhibit() {
             <ArtifactEditorModal
                 show={artifactEditorExhibitId !== null}
                 exhibitId={artifactEditorExhibitId}
-                artifact={null}
+                artifact={editingArtifact}
                 onClose={handleCloseArtifactEditor}
             />
 
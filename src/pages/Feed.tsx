@@ -1,14 +1,17 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { Link } from 'react-router-dom';
+import { Link, useSearchParams } from 'react-router-dom';
 import { Container, Card, Button, Spinner, Alert } from 'react-bootstrap';
 import { ref, getDownloadURL } from 'firebase/storage';
 import { storage } from '../firebaseConfig';
 import { useAuth } from '../hooks/useAuth';
-import { usePostEditor } from '../hooks/usePostEditor';
+import { usePostEditor, type PostSavedDetail } from '../hooks/usePostEditor';
+import { useCompanyValues } from '../hooks/useCompanyValues';
+import { usePostParam } from '../hooks/usePostParam';
 import {
     getPostsPaginated,
     getMorePosts,
     subscribeToNewestPost,
+    subscribeToFeaturedPosts,
     deletePost as deletePostDocument,
 } from '../hooks/postService';
 import { getDisplayName } from '../utils/userProfile';
@@ -17,6 +20,7 @@ import PostCard from '../components/PostCard';
 import PostEditorModal from '../components/PostEditorModal';
 import PostViewModal from '../components/PostViewModal';
 import MasonryGrid from '../components/MasonryGrid';
+import FeaturedCarousel from '../components/FeaturedCarousel';
 import { Pencil, Trash } from 'react-bootstrap-icons';
 
 const INITIAL_BATCH = 10;
@@ -24,9 +28,14 @@ const LOAD_MORE_BATCH = 5;
 
 function Feed() {
     const { currentUser, userProfile } = useAuth();
+    const { values: companyValues } = useCompanyValues();
+    const [searchParams] = useSearchParams();
+    /** `?value=<id>` shows only posts tagged with that company value */
+    const valueFilter = searchParams.get('value') || null;
+    const valueFilterLabel = companyValues.find(v => v.id === valueFilter)?.label ?? valueFilter;
     const [activePostId, setActivePostId] = useState<string | null>(null);
     const [isUnsavedDraft, setIsUnsavedDraft] = useState(false);
-    const [viewPostId, setViewPostId] = useState<string | null>(null);
+    const { postId: viewPostId, post: viewPost, notFound: viewPostNotFound, openPost, closePost } = usePostParam();
     const [pfpUrl, setPfpUrl] = useState<string | null>(null);
     const [pfpImageLoaded, setPfpImageLoaded] = useState(false);
 
@@ -53,27 +62,56 @@ function Feed() {
     const oldestCreatedAtRef = useRef<number | null>(null);
     const isLoadingMoreRef = useRef(false);
     const refreshFeedHeadRef = useRef<() => Promise<void>>(async () => {});
+    /** Staff-pinned posts for the hero carousel; live, since the list is small */
+    const [featuredPosts, setFeaturedPosts] = useState<Post[]>([]);
+    /** Value filter the loaded posts belong to; when the URL changes the feed starts over */
+    const [loadedFilter, setLoadedFilter] = useState(valueFilter);
+
+    if (loadedFilter !== valueFilter) {
+        setLoadedFilter(valueFilter);
+        setPosts([]);
+        setHasMore(true);
+        setError(null);
+        setFeedRefreshSuggested(false);
+        setLoadingState('loading-initial');
+    }
 
-    // Initial fetch
     useEffect(() => {
-        getPostsPaginated(INITIAL_BATCH + 1)
+        const unsubscribe = subscribeToFeaturedPosts(list => {
+            setFeaturedPosts(list.filter(p => !p.hidden));
+        });
+        return unsubscribe;
+    }, []);
+
+    // Initial fetch (again whenever the value filter changes)
+    useEffect(() => {
+        let cancelled = false;
+        newestKnownPostIdRef.current = null;
+        oldestCreatedAtRef.current = null;
+
+        getPostsPaginated(INITIAL_BATCH + 1, valueFilter)
             .then(fetched => {
+                if (cancelled) return;
                 const hasMorePosts = fetched.length > INITIAL_BATCH;
                 const batch = fetched.slice(0, INITIAL_BATCH);
 
                 if (batch.length > 0) newestKnownPostIdRef.current = batch[0].id;
                 const oldest = batch.length > 0 ? Math.min(...batch.map(p => p.createdAt)) : null;
 
-                setPosts(batch);
+                // Cursor and newest id track raw query results; hidden (moderated) posts are just not shown
+                setPosts(batch.filter(p => !p.hidden));
                 oldestCreatedAtRef.current = oldest;
                 setHasMore(hasMorePosts);
                 setLoadingState('idle');
             })
             .catch(err => {
+                if (cancelled) return;
                 setError(err instanceof Error ? err : new Error('Failed to load posts'));
                 setLoadingState('error');
             });
-    }, []);
+
+        return () => { cancelled = true; };
+    }, [valueFilter]);
 
     // When the newest document in Firestore changes, our paginated view may be stale (new post or top post removed)
     useEffect(() => {
@@ -82,13 +120,13 @@ function Feed() {
             if (newestKnownPostIdRef.current === null) return;
             if (newestKnownPostIdRef.current === post.id) return;
             setFeedRefreshSuggested(true);
-        });
+        }, valueFilter);
         return unsubscribe;
-    }, []);
+    }, [valueFilter]);
 
     const refreshFeedHead = useCallback(async () => {
         try {
-            const fresh = await getPostsPaginated(INITIAL_BATCH + 1);
+            const fresh = await getPostsPaginated(INITIAL_BATCH + 1, valueFilter);
             const hasMorePosts = fresh.length > INITIAL_BATCH;
             const batch = fresh.slice(0, INITIAL_BATCH);
 
@@ -97,7 +135,9 @@ function Feed() {
             setPosts(prev => {
                 const merged = new Map(prev.map(p => [p.id, p]));
                 batch.forEach(p => merged.set(p.id, p));
-                return Array.from(merged.values()).sort((a, b) => b.createdAt - a.createdAt);
+                return Array.from(merged.values())
+                    .filter(p => !p.hidden)
+                    .sort((a, b) => b.createdAt - a.createdAt);
             });
 
             const allCreatedAts = batch.map(p => p.createdAt);
@@ -113,7 +153,7 @@ function Feed() {
         } catch (err) {
             console.error('Failed to refresh feed:', err);
         }
-    }, []);
+    }, [valueFilter]);
 
     useEffect(() => {
         refreshFeedHeadRef.current = refreshFeedHead;
@@ -130,11 +170,11 @@ function Feed() {
     }, []);
 
     const handlePostSaved = useCallback(
-        (detail: { postId: string; content: string }) => {
+        (detail: PostSavedDetail) => {
             const now = Date.now();
             setPosts(prev =>
                 prev.map(p =>
-                    p.id === detail.postId ? { ...p, content: detail.content, updatedAt: now } : p,
+                    p.id === detail.postId ? { ...p, content: detail.content, values: detail.values, updatedAt: now } : p,
                 ),
             );
             handleCloseEditor();
@@ -142,7 +182,7 @@ function Feed() {
         [handleCloseEditor],
     );
 
-    const { editor, isReady, isDirty, isSaving, save, isEmpty, uploadImage } = usePostEditor({
+    const { editor, isReady, isDirty, isSaving, values, setValues, save, isEmpty, uploadImage, uploadVideo, uploadRecording } = usePostEditor({
         postId: activePostId,
         userId: currentUser?.uid ?? null,
         isUnsavedDraft,
@@ -163,7 +203,7 @@ function Feed() {
         setLoadingState('loading-more');
 
         try {
-            const fetched = await getMorePosts(oldestCreatedAtRef.current, LOAD_MORE_BATCH + 1);
+            const fetched = await getMorePosts(oldestCreatedAtRef.current, LOAD_MORE_BATCH + 1, valueFilter);
             if (fetched.length === 0) {
                 setHasMore(false);
                 setLoadingState('idle');
@@ -177,7 +217,7 @@ function Feed() {
             const oldest = Math.min(...batch.map(p => p.createdAt));
             oldestCreatedAtRef.current = oldest;
 
-            setPosts(prev => [...prev, ...batch]);
+            setPosts(prev => [...prev, ...batch.filter(p => !p.hidden)]);
             setHasMore(hasMorePosts);
             setLoadingState('idle');
             setError(null);
@@ -187,7 +227,7 @@ function Feed() {
         } finally {
             isLoadingMoreRef.current = false;
         }
-    }, [hasMore]);
+    }, [hasMore, valueFilter]);
 
     // Stable ref so the IntersectionObserver callback always calls the latest loadMorePosts
     const loadMoreRef = useRef(loadMorePosts);
@@ -225,7 +265,7 @@ function Feed() {
         setIsUnsavedDraft(false);
         setActivePostId(postId);
     };
-    const handleViewPost = (postId: string) => setViewPostId(postId);
+    const handleViewPost = openPost;
 
     const handleDeletePost = useCallback(async (postId: string) => {
         try {
@@ -246,13 +286,13 @@ function Feed() {
                 return current;
             });
             if (closedEditor) setIsUnsavedDraft(false);
-            setViewPostId(current => (current === postId ? null : current));
+            if (viewPostId === postId) closePost();
         } catch (err) {
             console.error('Failed to delete post:', err);
         }
-    }, []);
+    }, [viewPostId, closePost]);
 
-    const handleCloseView = () => setViewPostId(null);
+    const handleCloseView = closePost;
 
     const handleExhibitUpdated = useCallback((postId: string, exhibit: number | undefined) => {
         setPosts(prev =>
@@ -268,8 +308,11 @@ function Feed() {
         );
     }, []);
 
+    const handleFeaturedUpdated = useCallback((postId: string, featuredAt: number | undefined) => {
+        setPosts(prev => prev.map(p => (p.id === postId ? { ...p, featuredAt } : p)));
+    }, []);
+
     const activePost = activePostId ? posts.find(p => p.id === activePostId) : null;
-    const viewPost = viewPostId ? posts.find(p => p.id === viewPostId) : null;
 
     // --- New-post animation tracking ---
     const previousPostIdsRef = useRef<Set<string>>(new Set());
@@ -384,6 +427,7 @@ function Feed() {
                             </p>
                         </div>
                     )}
+                    <FeaturedCarousel posts={featuredPosts} onView={handleViewPost} />
                 </Card.Body>
             </Card>
 
@@ -396,6 +440,28 @@ function Feed() {
                 </div>
             )}
 
+            {companyValues.length > 0 && (
+                <div className="value-chips justify-content-center mb-3" role="group" aria-label="Filter posts by company value">
+                    <Link
+                        to={{ search: '' }}
+                        className={`value-chip${valueFilter ? '' : ' active'}`}
+                        aria-current={valueFilter ? undefined : 'true'}
+                    >
+                        All posts
+                    </Link>
+                    {companyValues.map(value => (
+                        <Link
+                            key={value.id}
+                            to={{ search: `?value=${encodeURIComponent(value.id)}` }}
+                            className={`value-chip${valueFilter === value.id ? ' active' : ''}`}
+                            aria-current={valueFilter === value.id ? 'true' : undefined}
+                        >
+                            {value.label}
+                        </Link>
+                    ))}
+                </div>
+            )}
+
             {error && (
                 <Alert variant="danger" className="mt-3">
                     <Alert.Heading>Error loading posts</Alert.Heading>
@@ -412,7 +478,11 @@ function Feed() {
                 </div>
             ) : posts.length === 0 ? (
                 <div className="text-center text-muted mt-5">
-                    <p>No posts yet. Be the first to create a recognition post!</p>
+                    {valueFilter ? (
+                        <p>No posts are tagged with {valueFilterLabel} yet. <Link to={{ search: '' }}>Show all posts</Link></p>
+                    ) : (
+                        <p>No posts yet. Be the first to create a recognition post!</p>
+                    )}
                 </div>
             ) : (
                 <>
@@ -426,6 +496,7 @@ function Feed() {
                                     onView={handleViewPost}
                                     onDelete={handleDeletePost}
                                     onExhibitUpdated={handleExhibitUpdated}
+                                    onFeaturedUpdated={handleFeaturedUpdated}
                                     cardRef={masonryRef}
                                 />
                             </div>
@@ -458,12 +529,17 @@ function Feed() {
                 onSave={save}
                 onClose={handleCloseEditor}
                 onUploadImage={uploadImage}
+                onUploadVideo={uploadVideo}
+                onRecordMessage={uploadRecording}
+                values={values}
+                onValuesChange={setValues}
                 saveDisabled={isSaving || !isDirty || (isUnsavedDraft && isEmpty())}
             />
 
             <PostViewModal
                 show={viewPostId !== null}
-                post={viewPost || null}
+                post={viewPost}
+                notFound={viewPostNotFound}
                 onClose={handleCloseView}
             />
             </Container>
@@ -0,0 +1,122 @@
+import { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { Container, Card, Spinner, Alert } from 'react-bootstrap';
+import { getPostsByAuthor, getPostsMentioning } from '../hooks/postService';
+import { usePostParam } from '../hooks/usePostParam';
+import { getDisplayName, getUserProfile, type UserProfile } from '../utils/userProfile';
+import type { Post } from '../components/PostCard';
+import PostCard from '../components/PostCard';
+import PostViewModal from '../components/PostViewModal';
+import MasonryGrid from '../components/MasonryGrid';
+
+interface MemberData {
+    uid: string;
+    profile: UserProfile | null;
+    authored: Post[];
+    mentioned: Post[];
+}
+
+/**
+ * Member profile (`/members/:uid`, the target of @mention links): the member's name,
+ * their posts and the posts that mention them. Hidden posts are left out.
+ */
+function Member() {
+    const { uid = '' } = useParams();
+    const [data, setData] = useState<MemberData | null>(null);
+    const [error, setError] = useState<{ uid: string; message: string } | null>(null);
+    const { postId: viewPostId, post: viewPost, notFound: viewPostNotFound, openPost, closePost } = usePostParam();
+
+    useEffect(() => {
+        let cancelled = false;
+        Promise.all([getUserProfile(uid), getPostsByAuthor(uid), getPostsMentioning(uid)])
+            .then(([profile, authored, mentioned]) => {
+                if (cancelled) return;
+                setData({
+                    uid,
+                    profile,
+                    authored: authored.filter(p => !p.hidden),
+                    mentioned: mentioned.filter(p => !p.hidden && p.authorId !== uid),
+                });
+            })
+            .catch(err => {
+                if (!cancelled) setError({ uid, message: (err as Error)?.message || 'Failed to load member.' });
+            });
+        return () => { cancelled = true; };
+    }, [uid]);
+
+    const current = data?.uid === uid ? data : null;
+    const failure = error?.uid === uid ? error.message : null;
+
+    const renderPosts = (posts: Post[], empty: string) => (
+        posts.length === 0 ? (
+            <p className="text-muted">{empty}</p>
+        ) : (
+            <MasonryGrid
+                items={posts.map(post => ({ ...post, contentLength: post.content.length }))}
+                renderItem={(post, ref) => (
+                    <PostCard post={post} onView={openPost} cardRef={ref} />
+                )}
+            />
+        )
+    );
+
+    if (failure) {
+        return (
+            <Container className="mt-4 page-container">
+                <Alert variant="danger">{failure}</Alert>
+            </Container>
+        );
+    }
+
+    if (!current) {
+        return (
+            <div className="text-center mt-5">
+                <Spinner animation="border" role="status">
+                    <span className="visually-hidden">Loading member...</span>
+                </Spinner>
+            </div>
+        );
+    }
+
+    if (!current.profile) {
+        return (
+            <Container className="mt-4 page-container">
+                <Alert variant="secondary">This member could not be found.</Alert>
+            </Container>
+        );
+    }
+
+    const name = getDisplayName(current.profile);
+
+    return (
+        <Container className="mt-4 mb-5 page-container">
+            <Card className="mb-4">
+                <Card.Body>
+                    <Card.Title as="h2" className="mb-1">{name}</Card.Title>
+                    <Card.Text className="text-muted mb-0">
+                        Member since {new Date(current.profile.createdAt).toLocaleDateString(undefined, {
+                            year: 'numeric', month: 'long',
+                        })}
+                        {' · '}{current.authored.length} {current.authored.length === 1 ? 'post' : 'posts'}
+                        {' · '}mentioned in {current.mentioned.length}
+                    </Card.Text>
+                </Card.Body>
+            </Card>
+
+            <h3 className="h5 mb-3">Posts by {name}</h3>
+            {renderPosts(current.authored, 'No posts yet.')}
+
+            <h3 className="h5 mt-4 mb-3">Posts mentioning {name}</h3>
+            {renderPosts(current.mentioned, 'Nobody has mentioned this member yet.')}
+
+            <PostViewModal
+                show={viewPostId !== null}
+                post={viewPost}
+                notFound={viewPostNotFound}
+                onClose={closePost}
+            />
+        </Container>
+    );
+}
+
+export default Member;
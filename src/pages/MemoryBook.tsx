@@ -0,0 +1,229 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Container, Card, Form, Button, Spinner } from 'react-bootstrap';
+import { Printer } from 'react-bootstrap-icons';
+import { useExhibits } from '../hooks/useExhibits';
+import { subscribeToAllPosts } from '../hooks/postService';
+import { subscribeToArtifacts, type Artifact } from '../hooks/artifactService';
+import { subscribeToReports, type PostReport } from '../hooks/reportService';
+import { getThumbnailUrl, parseGalleryContent, parseSlidesContent } from '../utils/artifactUtils';
+import type { ExhibitConfig } from '../components/ParallaxExhibit';
+import type { Post } from '../components/PostCard';
+
+interface Chapter {
+    exhibit: ExhibitConfig;
+    posts: Post[];
+    artifacts: Artifact[];
+}
+
+function byCreatedAt(a: { createdAt: number }, b: { createdAt: number }): number {
+    return a.createdAt - b.createdAt;
+}
+
+function formatDate(timestamp: number): string {
+    return new Date(timestamp).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+}
+
+/** Images printed for an artifact: every gallery image or slide, else its thumbnail */
+function artifactImages(artifact: Artifact): string[] {
+    if (artifact.type === 'gallery') {
+        return parseGalleryContent(artifact.content)?.images.map(img => img.url).filter(Boolean) ?? [];
+    }
+    if (artifact.type === 'slideshow') return parseSlidesContent(artifact.content);
+    const thumbnail = getThumbnailUrl(artifact);
+    return thumbnail ? [thumbnail] : [];
+}
+
+function BookPost({ post }: { post: Post }) {
+    return (
+        <article className="memory-book-post">
+            <div
+                className="post-content memory-book-post-content"
+                dangerouslySetInnerHTML={{ __html: post.content }}
+            />
+            <p className="memory-book-post-meta">
+                — {post.authorName || post.authorEmail}, {formatDate(post.createdAt)}
+            </p>
+        </article>
+    );
+}
+
+function BookArtifact({ artifact }: { artifact: Artifact }) {
+    const images = artifactImages(artifact);
+    return (
+        <figure className="memory-book-artifact">
+            {images.length > 0 && (
+                <div className={`memory-book-artifact-images${images.length > 1 ? ' memory-book-artifact-images--grid' : ''}`}>
+                    {images.map((src, i) => <img key={`${src}-${i}`} src={src} alt="" />)}
+                </div>
+            )}
+            <figcaption>
+                <strong>{artifact.title}</strong>
+                {artifact.description && <span className="d-block">{artifact.description}</span>}
+            </figcaption>
+        </figure>
+    );
+}
+
+/**
+ * Staff-only keepsake of the whole tribute (`/admin/memory-book`): a cover, table of contents and one
+ * chapter per visible exhibit with its quote, artifacts and assigned posts, laid out for printing to
+ * PDF from the browser (see the "Memory book" print styles in index.css).
+ */
+function MemoryBook() {
+    const { exhibits, loading: exhibitsLoading } = useExhibits();
+    const [posts, setPosts] = useState<Post[] | null>(null);
+    const [artifacts, setArtifacts] = useState<Artifact[] | null>(null);
+    const [reports, setReports] = useState<PostReport[]>([]);
+    const [includeUnassigned, setIncludeUnassigned] = useState(false);
+    const [excludeModerated, setExcludeModerated] = useState(true);
+    const [compiledAt] = useState(() => Date.now());
+
+    useEffect(() => subscribeToAllPosts(setPosts), []);
+    useEffect(() => subscribeToArtifacts(setArtifacts), []);
+    useEffect(() => subscribeToReports(setReports), []);
+
+    const includedPosts = useMemo(() => {
+        if (!posts) return [];
+        const reported = new Set(reports.map(report => report.postId));
+        return posts
+            .filter(post => !excludeModerated || (!post.hidden && !reported.has(post.id)))
+            .sort(byCreatedAt);
+    }, [posts, reports, excludeModerated]);
+
+    const chapters = useMemo<Chapter[]>(() => exhibits
+        .filter(exhibit => exhibit.visible)
+        .map(exhibit => ({
+            exhibit,
+            posts: includedPosts.filter(post => post.exhibit === exhibit.exhibitNumber),
+            artifacts: (artifacts ?? [])
+                .filter(artifact => artifact.exhibitId === exhibit.exhibitNumber)
+                .sort(byCreatedAt),
+        })), [exhibits, includedPosts, artifacts]);
+
+    const unassignedPosts = useMemo(
+        () => includedPosts.filter(post => post.exhibit == null),
+        [includedPosts],
+    );
+
+    if (exhibitsLoading || !posts || !artifacts) {
+        return (
+            <div className="text-center mt-5">
+                <Spinner animation="border" role="status">
+                    <span className="visually-hidden">Loading memory book...</span>
+                </Spinner>
+            </div>
+        );
+    }
+
+    const bookPosts = [...chapters.flatMap(chapter => chapter.posts), ...(includeUnassigned ? unassignedPosts : [])];
+    const contributors = new Set(bookPosts.map(post => post.authorId)).size;
+
+    return (
+        <div className="memory-book">
+            <Container className="mt-4 mb-4 page-container d-print-none">
+                <Card>
+                    <Card.Body className="d-flex flex-wrap align-items-center gap-3">
+                        <div className="me-auto">
+                            <h2 className="h4 mb-1">Memory book</h2>
+                            <p className="text-muted mb-0 small">
+                                Print this page and choose "Save as PDF" to keep a copy. <Link to="/admin">Back to Admin</Link>
+                            </p>
+                        </div>
+                        <Form.Check
+                            type="switch"
+                            id="memory-book-unassigned"
+                            label={`Appendix of unassigned posts (${unassignedPosts.length})`}
+                            checked={includeUnassigned}
+                            onChange={e => setIncludeUnassigned(e.target.checked)}
+                        />
+                        <Form.Check
+                            type="switch"
+                            id="memory-book-moderated"
+                            label="Leave out hidden and reported posts"
+                            checked={excludeModerated}
+                            onChange={e => setExcludeModerated(e.target.checked)}
+                        />
+                        <Button onClick={() => window.print()} className="d-flex align-items-center gap-2">
+                            <Printer size={16} /> Print
+                        </Button>
+                    </Card.Body>
+                </Card>
+            </Container>
+
+            <section className="memory-book-sheet memory-book-cover">
+                <p className="memory-book-cover-eyebrow">Celebrating a decade of</p>
+                <h1 className="memory-book-cover-title">Inspiring Leadership</h1>
+                <p className="memory-book-cover-subtitle">A memory book for Dr. Moyer</p>
+                <p className="memory-book-cover-stats">
+                    {bookPosts.length} memories from {contributors} colleagues
+                </p>
+                <p className="memory-book-cover-date">{formatDate(compiledAt)}</p>
+            </section>
+
+            <nav className="memory-book-sheet memory-book-toc" aria-labelledby="memory-book-toc-heading">
+                <h2 id="memory-book-toc-heading">Contents</h2>
+                <ol>
+                    {chapters.map(({ exhibit, posts: chapterPosts }) => (
+                        <li key={exhibit.id}>
+                            <a href={`#memory-book-exhibit-${exhibit.exhibitNumber}`}>
+                                <span>Exhibit {exhibit.exhibitNumber}: {exhibit.title}</span>
+                                <span className="memory-book-toc-count">{chapterPosts.length} memories</span>
+                            </a>
+                        </li>
+                    ))}
+                    {includeUnassigned && unassignedPosts.length > 0 && (
+                        <li className="memory-book-toc-appendix">
+                            <a href="#memory-book-appendix">
+                                <span>Appendix: From the Feed</span>
+                                <span className="memory-book-toc-count">{unassignedPosts.length} memories</span>
+                            </a>
+                        </li>
+                    )}
+                </ol>
+            </nav>
+
+            {chapters.map(({ exhibit, posts: chapterPosts, artifacts: chapterArtifacts }) => (
+                <section
+                    key={exhibit.id}
+                    id={`memory-book-exhibit-${exhibit.exhibitNumber}`}
+                    className="memory-book-sheet memory-book-chapter"
+                >
+                    <header className="memory-book-chapter-header">
+                        <p className="memory-book-chapter-number">Exhibit {exhibit.exhibitNumber}</p>
+                        <h2>{exhibit.title}</h2>
+                        {exhibit.subtitle && <p className="memory-book-chapter-subtitle">{exhibit.subtitle}</p>}
+                        {exhibit.quote && (
+                            <blockquote className="memory-book-quote">
+                                <p>{exhibit.quote}</p>
+                                {exhibit.quoteAuthor && <footer>{exhibit.quoteAuthor}</footer>}
+                            </blockquote>
+                        )}
+                    </header>
+                    {chapterArtifacts.length > 0 && (
+                        <div className="memory-book-artifacts">
+                            {chapterArtifacts.map(artifact => <BookArtifact key={artifact.id} artifact={artifact} />)}
+                        </div>
+                    )}
+                    {chapterPosts.map(post => <BookPost key={post.id} post={post} />)}
+                    {chapterPosts.length === 0 && chapterArtifacts.length === 0 && (
+                        <p className="text-muted fst-italic">No memories in this exhibit yet.</p>
+                    )}
+                </section>
+            ))}
+
+            {includeUnassigned && unassignedPosts.length > 0 && (
+                <section id="memory-book-appendix" className="memory-book-sheet memory-book-chapter">
+                    <header className="memory-book-chapter-header">
+                        <p className="memory-book-chapter-number">Appendix</p>
+                        <h2>From the Feed</h2>
+                        <p className="memory-book-chapter-subtitle">Memories shared on the board outside the exhibits</p>
+                    </header>
+                    {unassignedPosts.map(post => <BookPost key={post.id} post={post} />)}
+                </section>
+            )}
+        </div>
+    );
+}
+
+export default MemoryBook;
@@ -0,0 +1,120 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Container, Card, Button, Spinner } from 'react-bootstrap';
+import { Share, Check2 } from 'react-bootstrap-icons';
+import { useAuth } from '../hooks/useAuth';
+import { subscribeToPost } from '../hooks/postService';
+import { applyImageVariants } from '../hooks/imageVariantService';
+import { useMentionLinks } from '../hooks/useMentionLinks';
+import { canViewPost, sharePost } from '../utils/postLink';
+import { memberPath } from '../utils/mentionNode';
+import type { Post } from '../components/PostCard';
+import ReactionBar from '../components/ReactionBar';
+import CommentThread from '../components/CommentThread';
+
+/** Rendered width of post images on the permalink page */
+const POST_PAGE_IMAGE_SIZES = '(max-width: 991px) 100vw, 800px';
+
+/**
+ * Permalink page of one post (`/post/:postId`), readable without signing in since posts are public.
+ * Deleted posts, and hidden posts for anyone but their author and Staff, show a not-found state.
+ */
+function PostPage() {
+    const { postId = '' } = useParams();
+    const { currentUser, isHighLevel } = useAuth();
+    const handleMentionClick = useMentionLinks();
+    const [loaded, setLoaded] = useState<{ id: string; post: Post | null } | null>(null);
+    const [linkCopied, setLinkCopied] = useState(false);
+
+    useEffect(() => subscribeToPost(postId, post => setLoaded({ id: postId, post })), [postId]);
+
+    const current = loaded?.id === postId ? loaded : null;
+    const post = current?.post && canViewPost(current.post, currentUser?.uid ?? null, isHighLevel)
+        ? current.post
+        : null;
+    const content = post?.content;
+
+    const contentRef = useCallback((el: HTMLDivElement | null) => {
+        if (!el || content === undefined) return;
+        return applyImageVariants(el, POST_PAGE_IMAGE_SIZES);
+    }, [content]);
+
+    const handleShare = () => {
+        if (!post) return;
+        sharePost(post)
+            .then((result) => {
+                if (result !== 'copied') return;
+                setLinkCopied(true);
+                window.setTimeout(() => setLinkCopied(false), 2000);
+            })
+            .catch(err => console.error('Failed to share post:', err));
+    };
+
+    if (!current) {
+        return (
+            <div className="text-center mt-5">
+                <Spinner animation="border" role="status">
+                    <span className="visually-hidden">Loading post...</span>
+                </Spinner>
+            </div>
+        );
+    }
+
+    if (!post) {
+        return (
+            <Container className="mt-4 page-container">
+                <Card className="text-center">
+                    <Card.Body className="py-5">
+                        <Card.Title as="h2" className="h4">Post not found</Card.Title>
+                        <Card.Text className="text-muted">
+                            This post has been deleted or is no longer available.
+                        </Card.Text>
+                        <Link to="/" className="btn btn-primary">Go to the Feed</Link>
+                    </Card.Body>
+                </Card>
+            </Container>
+        );
+    }
+
+    const author = post.authorName || post.authorEmail;
+
+    return (
+        <Container className="mt-4 mb-5 page-container">
+            <Card>
+                <Card.Header className="d-flex justify-content-between align-items-center gap-2">
+                    <span className="text-muted">
+                        {currentUser ? <Link to={memberPath(post.authorId)}>{author}</Link> : author}
+                    </span>
+                    <Button
+                        variant="link"
+                        size="sm"
+                        onClick={handleShare}
+                        className="post-card-share-btn d-flex align-items-center gap-1"
+                    >
+                        {linkCopied ? <Check2 size={14} /> : <Share size={14} />}
+                        {linkCopied ? 'Link copied' : 'Share'}
+                    </Button>
+                </Card.Header>
+                <Card.Body>
+                    <div
+                        ref={contentRef}
+                        dangerouslySetInnerHTML={{ __html: post.content }}
+                        className="post-content post-view-content"
+                        onClick={handleMentionClick}
+                    />
+                    <CommentThread postId={post.id} />
+                </Card.Body>
+                <Card.Footer className="d-flex flex-wrap justify-content-between align-items-center gap-2">
+                    <small className="text-muted">
+                        Posted on {new Date(post.createdAt).toLocaleDateString('en-US', {
+                            weekday: 'long', year: 'numeric', month: 'long', day: 'numeric',
+                        })}
+                    </small>
+                    <ReactionBar postId={post.id} />
+                </Card.Footer>
+            </Card>
+        </Container>
+    );
+}
+
+export default PostPage;
@@ -0,0 +1,263 @@
+import { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Container, Card, Form, InputGroup, Button, Spinner, Alert, Badge } from 'react-bootstrap';
+import { Search as SearchIcon } from 'react-bootstrap-icons';
+import { useAuth } from '../hooks/useAuth';
+import { useExhibits } from '../hooks/useExhibits';
+import { usePostParam } from '../hooks/usePostParam';
+import { search, rebuildSearchIndex, type SearchResult, type SearchResultType } from '../hooks/searchService';
+import { getAllUserProfiles, getDisplayName, type UserProfile } from '../utils/userProfile';
+import { highlightSnippet, queryTerms } from '../utils/searchText';
+import PostViewModal from '../components/PostViewModal';
+
+const RESULT_TYPES: Array<{ value: SearchResultType; label: string; variant: string }> = [
+    { value: 'post', label: 'Post', variant: 'primary' },
+    { value: 'artifact', label: 'Artifact', variant: 'success' },
+    { value: 'exhibit', label: 'Exhibit', variant: 'secondary' },
+];
+
+interface LoadedResults {
+    /** Search the results are for: query, exhibit and author */
+    key: string;
+    results: SearchResult[];
+    error: string | null;
+}
+
+/**
+ * Search page (`/search?q=&exhibit=&author=&type=`): posts, artifacts and exhibits matching every
+ * word of the query, with highlighted snippets. Exhibit and author filter on the server; the
+ * result type filters the loaded results.
+ */
+function Search() {
+    const { isHighLevel } = useAuth();
+    const { exhibits } = useExhibits();
+    const [searchParams, setSearchParams] = useSearchParams();
+    const { postId: viewPostId, post: viewPost, notFound: viewPostNotFound, openPost, closePost } = usePostParam();
+    const q = searchParams.get('q') ?? '';
+    const exhibitParam = Number(searchParams.get('exhibit'));
+    const exhibit = Number.isInteger(exhibitParam) && exhibitParam > 0 ? exhibitParam : null;
+    const authorId = searchParams.get('author') || null;
+    const typeFilter = RESULT_TYPES.find(t => t.value === searchParams.get('type'))?.value ?? null;
+    const searchKey = JSON.stringify([q, exhibit, authorId]);
+
+    const [draft, setDraft] = useState({ q, text: q });
+    const [loaded, setLoaded] = useState<LoadedResults | null>(null);
+    const [members, setMembers] = useState<UserProfile[]>([]);
+    const [rebuilding, setRebuilding] = useState(false);
+    const [notice, setNotice] = useState<string | null>(null);
+
+    // The search box follows the URL when it changes elsewhere (e.g. the Navbar search)
+    if (draft.q !== q) setDraft({ q, text: q });
+
+    useEffect(() => {
+        getAllUserProfiles().then(setMembers).catch(err => console.error('Failed to load members:', err));
+    }, []);
+
+    useEffect(() => {
+        let cancelled = false;
+        search(q, { exhibit, authorId })
+            .then(results => {
+                if (!cancelled) setLoaded({ key: searchKey, results, error: null });
+            })
+            .catch(err => {
+                console.error('Search failed:', err);
+                if (!cancelled) setLoaded({ key: searchKey, results: [], error: (err as Error)?.message || 'Search failed.' });
+            });
+        return () => { cancelled = true; };
+    }, [q, exhibit, authorId, searchKey]);
+
+    const current = loaded?.key === searchKey ? loaded : null;
+    const terms = queryTerms(q);
+    const results = current?.results ?? [];
+    const shown = typeFilter ? results.filter(r => r.type === typeFilter) : results;
+    const sortedExhibits = [...exhibits].sort((a, b) => a.exhibitNumber - b.exhibitNumber);
+    const exhibitTitle = (n: number | null) => exhibits.find(e => e.exhibitNumber === n)?.title;
+
+    const updateParams = (changes: Record<string, string | null>) => {
+        const next = new URLSearchParams(searchParams);
+        Object.entries(changes).forEach(([key, value]) => {
+            if (value) next.set(key, value);
+            else next.delete(key);
+        });
+        setSearchParams(next);
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        updateParams({ q: draft.text.trim() || null });
+    };
+
+    const handleRebuild = async () => {
+        setRebuilding(true);
+        setNotice(null);
+        try {
+            const { indexed, removed, failed } = await rebuildSearchIndex();
+            setNotice(failed > 0
+                ? `Search index rebuilt with ${failed} failed writes: ${indexed} entries, ${removed} removed. Rebuild again to retry.`
+                : `Search index rebuilt: ${indexed} entries, ${removed} removed.`);
+        } catch (err: unknown) {
+            setNotice((err as { message?: string })?.message || 'Failed to rebuild the search index.');
+        } finally {
+            setRebuilding(false);
+        }
+    };
+
+    const renderSnippet = (result: SearchResult) => (
+        <p className="search-snippet mb-0">
+            {highlightSnippet(result.text, terms).map((part, i) => (
+                part.match ? <mark key={i}>{part.text}</mark> : <span key={i}>{part.text}</span>
+            ))}
+        </p>
+    );
+
+    const renderResult = (result: SearchResult) => {
+        const type = RESULT_TYPES.find(t => t.value === result.type) ?? RESULT_TYPES[0];
+        const heading = result.type === 'post'
+            ? `Post by ${result.authorName || 'Anonymous'}`
+            : result.title;
+        const exhibitLabel = result.exhibit !== null ? exhibitTitle(result.exhibit) : undefined;
+        return (
+            <Card key={result.id} className="search-result mb-3">
+                <Card.Body>
+                    <div className="d-flex flex-wrap align-items-center gap-2 mb-1">
+                        <Badge bg={type.variant}>{type.label}</Badge>
+                        {result.type === 'post' ? (
+                            <Button
+                                variant="link"
+                                className="search-result-title p-0"
+                                onClick={() => openPost(result.refId)}
+                            >
+                                {heading}
+                            </Button>
+                        ) : (
+                            <Link
+                                to={result.exhibit !== null ? `/exhibit/${result.exhibit}` : '/exhibit'}
+                                className="search-result-title"
+                            >
+                                {heading}
+                            </Link>
+                        )}
+                    </div>
+                    <small className="text-muted d-block mb-2">
+                        {exhibitLabel ? `Exhibit ${result.exhibit}: ${exhibitLabel}` : 'Not in an exhibit'}
+                        {result.type === 'post' && result.createdAt > 0 && (
+                            <> · {new Date(result.createdAt).toLocaleDateString()}</>
+                        )}
+                    </small>
+                    {result.text && renderSnippet(result)}
+                </Card.Body>
+            </Card>
+        );
+    };
+
+    return (
+        <Container className="mt-4 mb-5 page-container">
+            <div className="d-flex flex-wrap justify-content-between align-items-center gap-2 mb-3">
+                <h2 className="h4 mb-0">Search</h2>
+                {isHighLevel && (
+                    <Button size="sm" variant="outline-secondary" onClick={handleRebuild} disabled={rebuilding}>
+                        {rebuilding ? <Spinner animation="border" size="sm" /> : 'Rebuild index'}
+                    </Button>
+                )}
+            </div>
+
+            <Form onSubmit={handleSubmit} className="mb-3">
+                <InputGroup>
+                    <Form.Control
+                        type="search"
+                        placeholder="Search posts, artifacts and exhibits"
+                        value={draft.text}
+                        onChange={e => setDraft({ q, text: e.target.value })}
+                        aria-label="Search"
+                        autoFocus={!q}
+                    />
+                    <Button type="submit" variant="primary" aria-label="Search">
+                        <SearchIcon />
+                    </Button>
+                </InputGroup>
+            </Form>
+
+            <div className="d-flex flex-wrap gap-2 mb-3">
+                <Form.Select
+                    size="sm"
+                    value={exhibit ?? ''}
+                    onChange={e => updateParams({ exhibit: e.target.value || null })}
+                    aria-label="Filter by exhibit"
+                    className="search-filter"
+                >
+                    <option value="">All exhibits</option>
+                    {sortedExhibits.map(e => (
+                        <option key={e.id} value={e.exhibitNumber}>Exhibit {e.exhibitNumber}: {e.title}</option>
+                    ))}
+                </Form.Select>
+                <Form.Select
+                    size="sm"
+                    value={authorId ?? ''}
+                    onChange={e => updateParams({ author: e.target.value || null })}
+                    aria-label="Filter by author"
+                    className="search-filter"
+                >
+                    <option value="">All authors</option>
+                    {members.map(m => (
+                        <option key={m.uid} value={m.uid}>{getDisplayName(m)}</option>
+                    ))}
+                </Form.Select>
+            </div>
+
+            {notice && (
+                <Alert variant="info" dismissible onClose={() => setNotice(null)}>{notice}</Alert>
+            )}
+
+            {terms.length === 0 ? (
+                <p className="text-muted">Type a word or name to search posts, artifacts and exhibits.</p>
+            ) : !current ? (
+                <div className="text-center mt-4">
+                    <Spinner animation="border" role="status">
+                        <span className="visually-hidden">Searching...</span>
+                    </Spinner>
+                </div>
+            ) : current.error ? (
+                <Alert variant="danger">{current.error}</Alert>
+            ) : (
+                <>
+                    <div className="value-chips mb-3" role="group" aria-label="Filter by result type">
+                        <Link
+                            to={{ search: withType(searchParams, null) }}
+                            className={`value-chip${typeFilter === null ? ' active' : ''}`}
+                        >
+                            All ({results.length})
+                        </Link>
+                        {RESULT_TYPES.map(t => (
+                            <Link
+                                key={t.value}
+                                to={{ search: withType(searchParams, t.value) }}
+                                className={`value-chip${typeFilter === t.value ? ' active' : ''}`}
+                            >
+                                {t.label}s ({results.filter(r => r.type === t.value).length})
+                            </Link>
+                        ))}
+                    </div>
+                    {shown.length === 0 ? (
+                        <p className="text-muted">No results for “{q}”.</p>
+                    ) : shown.map(renderResult)}
+                </>
+            )}
+
+            <PostViewModal
+                show={viewPostId !== null}
+                post={viewPost}
+                notFound={viewPostNotFound}
+                onClose={closePost}
+            />
+        </Container>
+    );
+}
+
+function withType(params: URLSearchParams, type: SearchResultType | null): string {
+    const next = new URLSearchParams(params);
+    if (type) next.set('type', type);
+    else next.delete('type');
+    return `?${next.toString()}`;
+}
+
+export default Search;
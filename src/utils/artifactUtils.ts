@@ -60,6 +60,21 @@ export function parseGalleryContent(content: string): GalleryContent | null {
     return null;
 }
 
+/**
+ * Parse slideshow content from artifact.content.
+ * Returns the ordered slide URLs from `{ slides: [...] }`, or an empty list if invalid.
+ */
+export function parseSlidesContent(content: string): string[] {
+    if (!content.trim()) return [];
+    try {
+        const parsed = JSON.parse(content);
+        if (parsed?.slides && Array.isArray(parsed.slides)) {
+            return parsed.slides.filter((s: unknown) => typeof s === 'string');
+        }
+    } catch { /* invalid JSON */ }
+    return [];
+}
+
 /**
  * Extract YouTube video ID from URL or embed HTML
  */
@@ -109,3 +124,28 @@ export function getThumbnailUrl(artifact: ArtifactForThumbnail): string | null {
     if (galleryContent?.images?.length) return galleryContent.images[0].url;
     return extractFirstImage(artifact.content);
 }
+
+/**
+ * Collect the uploaded file URLs an artifact references (gallery images, slides, embedded or linked documents).
+ * Office viewer embeds are unwrapped to the underlying file URL.
+ */
+export function extractArtifactFileUrls(artifact: { type: string; content: string }): string[] {
+    switch (artifact.type) {
+        case 'gallery':
+            return parseGalleryContent(artifact.content)?.images.map(img => img.url).filter(Boolean) ?? [];
+        case 'slideshow':
+            return parseSlidesContent(artifact.content);
+        case 'document': {
+            const urlRegex = /(?:src|href)=["']([^"']+)["']/gi;
+            const urls: string[] = [];
+            let match;
+            while ((match = urlRegex.exec(artifact.content)) !== null) {
+                const officeMatch = match[1].match(/view\.officeapps\.live\.com\/op\/embed\.aspx\?src=([^&]+)/);
+                urls.push(officeMatch ? decodeURIComponent(officeMatch[1]) : match[1]);
+            }
+            return urls;
+        }
+        default:
+            return [];
+    }
+}
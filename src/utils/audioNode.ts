@@ -0,0 +1,25 @@
+import { Node, mergeAttributes } from '@tiptap/react';
+
+/**
+ * TipTap block node for recorded audio messages. Renders a native <audio> player.
+ */
+export const Audio = Node.create({
+    name: 'audio',
+    group: 'block',
+    atom: true,
+    draggable: true,
+
+    addAttributes() {
+        return {
+            src: { default: null },
+        };
+    },
+
+    parseHTML() {
+        return [{ tag: 'audio[src]' }];
+    },
+
+    renderHTML({ HTMLAttributes }) {
+        return ['audio', mergeAttributes(HTMLAttributes, { controls: 'true', preload: 'metadata' })];
+    },
+});
@@ -0,0 +1,30 @@
+export type CsvValue = string | number | null | undefined;
+
+function escapeCsvValue(value: CsvValue): string {
+    let text = value == null ? '' : String(value);
+    // Keep spreadsheets from evaluating user-provided text (names, titles) as formulas
+    if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * RFC 4180 CSV text: a header row followed by the data rows.
+ */
+export function toCsv(header: string[], rows: CsvValue[][]): string {
+    return [header, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\r\n');
+}
+
+/**
+ * Download CSV as a file. A byte-order mark is added so Excel reads UTF-8 names correctly.
+ */
+export function downloadCsv(filename: string, header: string[], rows: CsvValue[][]): void {
+    const blob = new Blob(['\uFEFF', toCsv(header, rows)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+}
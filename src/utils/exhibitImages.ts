@@ -47,3 +47,16 @@ export async function deleteExhibitImage(exhibitNumber: number, fileName: string
     const fileRef = ref(storage, `website-images/exhibits/exhibit-${exhibitNumber}/${fileName}`);
     await deleteObject(fileRef);
 }
+
+/**
+ * Upload a fallback header image for an exhibit (shown when its carousel folder is empty).
+ * Stored outside the `exhibit-{N}` carousel folders so it is not picked up by getExhibitImageEntries.
+ */
+export async function uploadExhibitBackground(file: File, exhibitNumber: number): Promise<string> {
+    const converted = await convertToWebP(file);
+    const timestamp = Date.now();
+    const ext = converted.name.split('.').pop() || 'webp';
+    const fileRef = ref(storage, `website-images/exhibits/backgrounds/exhibit-${exhibitNumber}-${timestamp}.${ext}`);
+    await uploadBytes(fileRef, converted, { contentType: converted.type });
+    return getDownloadURL(fileRef);
+}
@@ -1,12 +1,14 @@
 import { ref, uploadBytes, getDownloadURL, deleteObject } from 'firebase/storage';
 import { storage } from '../firebaseConfig';
 import { convertToWebP } from './convertToWebP';
+import { readVideoFile, validateVideoDuration, validateVideoFile } from './videoFile';
+import { validateAudioFile } from './mediaRecording';
 
 /**
  * Extract storage path from a Firebase Storage download URL.
  * Handles formats like: https://firebasestorage.googleapis.com/v0/b/BUCKET/o/PATH?alt=media
  */
-function getStoragePathFromUrl(url: string): string | null {
+export function getStoragePathFromUrl(url: string): string | null {
     try {
         const match = url.match(/\/o\/([^?]+)/);
         if (match) {
@@ -67,6 +69,69 @@ export async function uploadPostImageToStorage(file: File, postId: string): Prom
     return downloadURL;
 }
 
+/**
+ * Upload a short post video to Firebase Storage, plus a poster frame captured in the browser
+ * @param file - The video file (MP4, WebM or MOV within the limits in videoFile.ts)
+ * @param postId - The ID of the post this video belongs to
+ * @param recordedDuration - Length in seconds measured while recording; used instead of the length
+ *   read from the file, which for MediaRecorder WebM files can come out slightly longer
+ * @returns Download URLs of the video and its poster (null when no frame could be captured)
+ */
+export async function uploadPostVideoToStorage(
+    file: File,
+    postId: string,
+    recordedDuration?: number,
+): Promise<{ src: string; poster: string | null }> {
+    validateVideoFile(file);
+    const { duration: fileDuration, poster } = await readVideoFile(file);
+    const duration = recordedDuration ?? fileDuration;
+    validateVideoDuration(duration);
+
+    const timestamp = Date.now();
+    const randomStr = Math.random().toString(36).substring(2, 8);
+    const extension = file.name.split('.').pop() || 'mp4';
+    const baseName = `${timestamp}-${randomStr}`;
+
+    // storage.rules checks the duration from custom metadata
+    const videoRef = ref(storage, `post-videos/${postId}/${baseName}.${extension}`);
+    const snapshot = await uploadBytes(videoRef, file, {
+        contentType: file.type,
+        customMetadata: { duration: duration.toFixed(2) },
+    });
+    const src = await getDownloadURL(snapshot.ref);
+
+    let posterUrl: string | null = null;
+    if (poster) {
+        const posterRef = ref(storage, `post-images/${postId}/${baseName}-poster.webp`);
+        const posterSnapshot = await uploadBytes(posterRef, poster, { contentType: 'image/webp' });
+        posterUrl = await getDownloadURL(posterSnapshot.ref);
+    }
+
+    return { src, poster: posterUrl };
+}
+
+/**
+ * Upload a recorded audio message to Firebase Storage
+ * @param file - The recording (see mediaRecording.ts for accepted types and limits)
+ * @param postId - The ID of the post this message belongs to
+ * @param duration - Length in seconds, measured while recording
+ * @returns The download URL of the uploaded audio
+ */
+export async function uploadPostAudioToStorage(file: File, postId: string, duration: number): Promise<string> {
+    validateAudioFile(file, duration);
+    const timestamp = Date.now();
+    const randomStr = Math.random().toString(36).substring(2, 8);
+    const extension = file.name.split('.').pop() || 'webm';
+
+    // storage.rules checks the duration from custom metadata
+    const audioRef = ref(storage, `post-audio/${postId}/${timestamp}-${randomStr}.${extension}`);
+    const snapshot = await uploadBytes(audioRef, file, {
+        contentType: file.type,
+        customMetadata: { duration: duration.toFixed(2) },
+    });
+    return getDownloadURL(snapshot.ref);
+}
+
 /**
  * Upload an artifact file to Firebase Storage
  * @param file - The file to upload (PDF, images, etc.)
@@ -0,0 +1,64 @@
+import { MAX_VIDEO_SECONDS } from './videoFile';
+
+export type RecordingKind = 'video' | 'audio';
+
+/** Seconds counted down before recording starts */
+export const RECORDING_COUNTDOWN_SECONDS = 3;
+
+/** Recordings stop automatically at the post video limit */
+export const RECORDING_LIMIT_SECONDS = MAX_VIDEO_SECONDS;
+
+/**
+ * Recordings stop this much before the limit: the recorder is polled and flushes its last chunk
+ * after stop(), so a file stopped right at the limit can measure slightly over it
+ */
+export const RECORDING_STOP_MARGIN_SECONDS = 0.5;
+
+/** Upload limits for audio messages (also checked in storage.rules) */
+export const MAX_AUDIO_BYTES = 10 * 1024 * 1024;
+export const AUDIO_MIME_TYPES = ['audio/webm', 'audio/ogg', 'audio/mp4', 'audio/mpeg'];
+
+/** Preferred container/codec per kind, best first (Safari only records MP4) */
+const RECORDER_MIME_TYPES: Record<RecordingKind, string[]> = {
+    video: ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm', 'video/mp4'],
+    audio: ['audio/webm;codecs=opus', 'audio/webm', 'audio/ogg;codecs=opus', 'audio/mp4'],
+};
+
+export interface Recording {
+    file: File;
+    kind: RecordingKind;
+    /** Measured while recording; MediaRecorder WebM files carry no duration header */
+    duration: number;
+}
+
+/**
+ * First MediaRecorder MIME type this browser supports for the kind, or undefined to let it choose.
+ */
+export function pickRecorderMimeType(kind: RecordingKind): string | undefined {
+    if (typeof MediaRecorder === 'undefined') return undefined;
+    return RECORDER_MIME_TYPES[kind].find(type => MediaRecorder.isTypeSupported(type));
+}
+
+/**
+ * Wrap recorded chunks in a File whose type has no codec parameters, so it matches the upload allowlists.
+ */
+export function recordingToFile(chunks: Blob[], mimeType: string, kind: RecordingKind): File {
+    const type = mimeType.split(';')[0] || (kind === 'video' ? 'video/webm' : 'audio/webm');
+    const extension = type.endsWith('mp4') ? (kind === 'video' ? 'mp4' : 'm4a') : type.split('/')[1];
+    return new File(chunks, `message-${Date.now()}.${extension}`, { type });
+}
+
+/**
+ * Throw a user-facing error when an audio message is not an accepted type or exceeds the limits.
+ */
+export function validateAudioFile(file: File, duration: number): void {
+    if (!AUDIO_MIME_TYPES.includes(file.type)) {
+        throw new Error('This browser recorded audio in an unsupported format.');
+    }
+    if (file.size >= MAX_AUDIO_BYTES) {
+        throw new Error(`Audio messages must be smaller than ${MAX_AUDIO_BYTES / (1024 * 1024)} MB.`);
+    }
+    if (!Number.isFinite(duration) || duration > RECORDING_LIMIT_SECONDS) {
+        throw new Error(`Audio messages can be at most ${RECORDING_LIMIT_SECONDS} seconds long.`);
+    }
+}
@@ -0,0 +1,85 @@
+import { ReactRenderer, mergeAttributes } from '@tiptap/react';
+import Mention from '@tiptap/extension-mention';
+import type { SuggestionProps } from '@tiptap/suggestion';
+import MentionList, { type MentionItem, type MentionListHandle } from '../components/MentionList';
+import { getDisplayName, searchUserProfiles } from './userProfile';
+
+const MAX_SUGGESTIONS = 8;
+
+/** Member profile page a mention links to */
+export function memberPath(uid: string): string {
+    return `/members/${encodeURIComponent(uid)}`;
+}
+
+/**
+ * `@name` mentions of members. Stored in post HTML as
+ * `<a data-type="mention" data-id="{uid}" data-label="{name}" href="/members/{uid}">@name</a>`,
+ * which the Cloud Functions sanitizer keeps and reads to fill the post's `mentions` and notify members.
+ */
+export const MemberMention = Mention.extend({
+    parseHTML() {
+        // Above the Link mark, which would otherwise claim the <a>
+        return [
+            { tag: 'a[data-type="mention"]', priority: 100 },
+            { tag: 'span[data-type="mention"]' },
+        ];
+    },
+}).configure({
+    renderHTML({ options, node }) {
+        return [
+            'a',
+            mergeAttributes(options.HTMLAttributes, { href: memberPath(node.attrs.id ?? ''), class: 'mention' }),
+            `@${node.attrs.label ?? node.attrs.id}`,
+        ];
+    },
+    suggestion: {
+        items: async ({ query }): Promise<MentionItem[]> => {
+            try {
+                const profiles = await searchUserProfiles(query, MAX_SUGGESTIONS);
+                return profiles.map(p => ({ id: p.uid, label: getDisplayName(p), email: p.email }));
+            } catch (err) {
+                console.error('Failed to search members:', err);
+                return [];
+            }
+        },
+        render: () => {
+            let renderer: ReactRenderer<MentionListHandle> | null = null;
+
+            const position = (props: SuggestionProps<MentionItem>) => {
+                const rect = props.clientRect?.();
+                const el = renderer?.element as HTMLElement | undefined;
+                if (!rect || !el) return;
+                el.style.top = `${rect.bottom + 4}px`;
+                el.style.left = `${rect.left}px`;
+            };
+
+            return {
+                onStart: (props: SuggestionProps<MentionItem>) => {
+                    renderer = new ReactRenderer(MentionList, {
+                        props: { items: props.items, command: props.command },
+                        editor: props.editor,
+                        className: 'mention-suggestions',
+                    });
+                    document.body.appendChild(renderer.element);
+                    position(props);
+                },
+                onUpdate: (props: SuggestionProps<MentionItem>) => {
+                    renderer?.updateProps({ items: props.items, command: props.command });
+                    position(props);
+                },
+                onKeyDown: ({ event }) => {
+                    if (event.key === 'Escape') {
+                        renderer?.element.remove();
+                        return true;
+                    }
+                    return renderer?.ref?.onKeyDown(event) ?? false;
+                },
+                onExit: () => {
+                    renderer?.element.remove();
+                    renderer?.destroy();
+                    renderer = null;
+                },
+            };
+        },
+    },
+});
@@ -0,0 +1,43 @@
+import type { Post } from '../components/PostCard';
+import { getPlainTextExcerpt } from './postText';
+
+/** Permalink page of a post (`/post/:postId`, readable without signing in) */
+export function postPath(postId: string): string {
+    return `/post/${encodeURIComponent(postId)}`;
+}
+
+/** Absolute permalink of a post, for sharing */
+export function postUrl(postId: string): string {
+    return new URL(postPath(postId), window.location.origin).toString();
+}
+
+/**
+ * Whether a post can be shown: hidden (moderated) posts stay readable in Firestore,
+ * but only their author and Staff see them in the app.
+ */
+export function canViewPost(post: Post, uid: string | null, isHighLevel: boolean): boolean {
+    return !post.hidden || isHighLevel || post.authorId === uid;
+}
+
+/**
+ * Share a post's permalink with the Web Share API, or copy it to the clipboard where sharing
+ * is not available. Resolves to 'cancelled' when the user dismisses the share sheet.
+ */
+export async function sharePost(post: Post): Promise<'shared' | 'copied' | 'cancelled'> {
+    const url = postUrl(post.id);
+    if (navigator.share) {
+        try {
+            await navigator.share({
+                title: `A tribute from ${post.authorName || 'a colleague'}`,
+                text: getPlainTextExcerpt(post.content, 100),
+                url,
+            });
+            return 'shared';
+        } catch (err) {
+            if ((err as DOMException)?.name === 'AbortError') return 'cancelled';
+            // Sharing can be refused (e.g. no user gesture or unsupported data); copy instead
+        }
+    }
+    await navigator.clipboard.writeText(url);
+    return 'copied';
+}
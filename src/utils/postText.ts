@@ -0,0 +1,26 @@
+/**
+ * Plain-text view of post HTML (tags stripped, whitespace collapsed).
+ */
+export function htmlToPlainText(html: string): string {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    return (doc.body.textContent || '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Short plain-text excerpt of post HTML, cut at a word boundary with an ellipsis.
+ */
+export function getPlainTextExcerpt(html: string, maxLength = 160): string {
+    const text = htmlToPlainText(html);
+    if (text.length <= maxLength) return text;
+    const cut = text.slice(0, maxLength);
+    const lastSpace = cut.lastIndexOf(' ');
+    return `${(lastSpace > maxLength * 0.6 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+}
+
+/**
+ * First image src in post HTML, or null when the post has no images.
+ */
+export function getFirstImageSrc(html: string): string | null {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    return doc.querySelector('img')?.getAttribute('src') || null;
+}
@@ -0,0 +1,78 @@
+/**
+ * Text normalization for search, mirroring functions/src/search.ts (which builds the
+ * index entries' `tokens`). Keep the two in sync, or queries stop matching the index;
+ * functions/test/searchText.test.ts fails when they drift apart.
+ */
+
+/** Longer words are cut to this length (in the index and in queries alike) */
+export const MAX_WORD_LENGTH = 24;
+
+export const STOPWORDS = new Set(('a an and are as at be but by for from had has have he her his i in is it its '
+    + 'of on or our she so that the their them they this to was we were what when which who will with you your').split(' '));
+
+/** Lowercase, without diacritics ('Café' → 'cafe') */
+export function normalizeText(text: string): string {
+    return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+/** Searchable words of some text, in order: letters and digits, stopwords and single characters left out */
+export function searchWords(text: string): string[] {
+    return (normalizeText(text).match(/[a-z0-9]+/g) ?? [])
+        .filter(word => word.length >= 2 && !STOPWORDS.has(word))
+        .map(word => word.slice(0, MAX_WORD_LENGTH));
+}
+
+/** Distinct search terms of a query, longest first (the longest is usually the most selective) */
+export function queryTerms(queryText: string): string[] {
+    return [...new Set(searchWords(queryText))].sort((a, b) => b.length - a.length);
+}
+
+/** Number of words in `text` that start with `term` */
+export function countMatches(text: string, term: string): number {
+    return searchWords(text).filter(word => word.startsWith(term)).length;
+}
+
+export interface SnippetPart {
+    text: string;
+    /** True for a word that matches one of the search terms */
+    match: boolean;
+}
+
+/**
+ * A window of `text` around the first word matching a term, split into parts so matching
+ * words can be highlighted. Matching ignores case and diacritics, like the index.
+ */
+export function highlightSnippet(text: string, terms: string[], maxLength = 220): SnippetPart[] {
+    const words = [...text.matchAll(/[\p{L}\p{N}]+/gu)];
+    const isMatch = (word: string) => {
+        const normalized = normalizeText(word);
+        return terms.some(term => normalized.startsWith(term));
+    };
+
+    const first = words.find(w => isMatch(w[0]));
+    let start = 0;
+    if (first && text.length > maxLength) {
+        start = Math.max(0, Math.min(first.index - Math.floor(maxLength / 3), text.length - maxLength));
+        // Start on a word boundary
+        const space = text.lastIndexOf(' ', start);
+        start = space >= 0 && start - space < 20 ? space + 1 : start;
+    }
+    let end = Math.min(text.length, start + maxLength);
+    if (end < text.length) {
+        const space = text.lastIndexOf(' ', end);
+        end = space > start && end - space < 20 ? space : end;
+    }
+
+    const parts: SnippetPart[] = [];
+    if (start > 0) parts.push({ text: '…', match: false });
+    let pos = start;
+    for (const w of words) {
+        if (w.index < start || w.index + w[0].length > end || !isMatch(w[0])) continue;
+        if (w.index > pos) parts.push({ text: text.slice(pos, w.index), match: false });
+        parts.push({ text: w[0], match: true });
+        pos = w.index + w[0].length;
+    }
+    if (end > pos) parts.push({ text: text.slice(pos, end), match: false });
+    if (end < text.length) parts.push({ text: '…', match: false });
+    return parts;
+}
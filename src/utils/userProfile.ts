@@ -1,4 +1,4 @@
-import { doc, getDoc, setDoc, updateDoc, onSnapshot, type Unsubscribe } from 'firebase/firestore';
+import { collection, doc, getDoc, getDocs, setDoc, updateDoc, onSnapshot, type Unsubscribe } from 'firebase/firestore';
 import { firestore } from '../firebaseConfig';
 
 /**
@@ -11,7 +11,10 @@ export interface UserProfile {
     lastName: string;
     createdAt: number;
     updatedAt: number;
+    /** 'staff' or 'user'; only Cloud Functions change it, together with the highLevel claim */
     role: string;
+    /** Set by Cloud Functions when the role changes, so the user's client refreshes its ID token */
+    roleUpdatedAt?: number;
 }
 
 /**
@@ -114,3 +117,39 @@ export async function getUserProfiles(uids: string[]): Promise<Map<string, UserP
     await Promise.all(promises);
     return profiles;
 }
+
+/** How long the cached member list is reused before being fetched again */
+const MEMBER_LIST_TTL_MS = 5 * 60 * 1000;
+
+let memberList: { fetchedAt: number; profiles: Promise<UserProfile[]> } | null = null;
+
+/**
+ * Every member's profile, sorted by display name. The whole `users` collection is fetched
+ * once and cached briefly (used for @mention autocomplete and the search author filter).
+ */
+export async function getAllUserProfiles(): Promise<UserProfile[]> {
+    if (!memberList || Date.now() - memberList.fetchedAt > MEMBER_LIST_TTL_MS) {
+        const profiles = getDocs(collection(firestore, 'users'))
+            .then(snap => snap.docs
+                .map(d => d.data() as UserProfile)
+                .sort((a, b) => getDisplayName(a).localeCompare(getDisplayName(b))));
+        memberList = { fetchedAt: Date.now(), profiles };
+        profiles.catch(() => { memberList = null; });
+    }
+    return memberList.profiles;
+}
+
+/**
+ * Members whose first name, last name, full name or email starts with `text` (case-insensitive),
+ * sorted by display name. Matches against the cached member list, since Firestore cannot
+ * match name prefixes case-insensitively.
+ */
+export async function searchUserProfiles(text: string, max: number): Promise<UserProfile[]> {
+    const needle = text.trim().toLowerCase();
+    const matches = (await getAllUserProfiles()).filter(profile => {
+        if (!needle) return true;
+        return [profile.firstName, profile.lastName, getDisplayName(profile), profile.email]
+            .some(value => value?.toLowerCase().startsWith(needle));
+    });
+    return matches.slice(0, max);
+}
@@ -0,0 +1,107 @@
+/** Upload limits for post videos (size and duration are also checked in storage.rules) */
+export const MAX_VIDEO_BYTES = 50 * 1024 * 1024;
+export const MAX_VIDEO_SECONDS = 60;
+
+export const VIDEO_MIME_TYPES = ['video/mp4', 'video/webm', 'video/quicktime'];
+
+export interface VideoFileInfo {
+    duration: number;
+    /** WebP frame for the poster, or null when the browser cannot decode the video */
+    poster: Blob | null;
+}
+
+/** How long to wait for the browser to load or seek the video before giving up */
+const READ_TIMEOUT_MS = 10_000;
+
+const READ_ERROR = 'Could not read this video file.';
+
+/**
+ * Resolve on the next `event`; reject on an `error` event or after READ_TIMEOUT_MS (some codecs,
+ * e.g. HEVC in Chromium, load metadata but never decode a frame). Listeners are removed either way.
+ */
+function once(target: HTMLVideoElement, event: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const settle = (error: Error | null) => {
+            window.clearTimeout(timer);
+            target.removeEventListener(event, onEvent);
+            target.removeEventListener('error', onError);
+            if (error) reject(error);
+            else resolve();
+        };
+        const onEvent = () => settle(null);
+        const onError = () => settle(new Error(READ_ERROR));
+        const timer = window.setTimeout(() => settle(new Error(READ_ERROR)), READ_TIMEOUT_MS);
+        target.addEventListener(event, onEvent);
+        target.addEventListener('error', onError);
+    });
+}
+
+/** WebP of the frame about a second in (or the middle of shorter clips), or null if none can be decoded */
+async function capturePoster(video: HTMLVideoElement, duration: number): Promise<Blob | null> {
+    try {
+        const seeked = once(video, 'seeked');
+        video.currentTime = Math.min(1, duration / 2);
+        await seeked;
+        if (!video.videoWidth || !video.videoHeight) return null;
+
+        const canvas = new OffscreenCanvas(video.videoWidth, video.videoHeight);
+        const context = canvas.getContext('2d');
+        if (!context) return null;
+        context.drawImage(video, 0, 0);
+        return await canvas.convertToBlob({ type: 'image/webp', quality: 0.85 });
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Read a video's duration and capture a poster frame. Throws a user-facing error when the
+ * duration cannot be read; a video whose frames cannot be decoded gets no poster.
+ */
+export async function readVideoFile(file: File): Promise<VideoFileInfo> {
+    const url = URL.createObjectURL(file);
+    const video = document.createElement('video');
+    video.preload = 'auto';
+    video.muted = true;
+    video.playsInline = true;
+    try {
+        const loaded = once(video, 'loadedmetadata');
+        video.src = url;
+        await loaded;
+        let duration = video.duration;
+        if (!Number.isFinite(duration)) {
+            // MediaRecorder WebM files have no duration header; seeking past the end makes the browser compute it
+            const seekedEnd = once(video, 'seeked');
+            video.currentTime = Number.MAX_SAFE_INTEGER;
+            await seekedEnd;
+            duration = video.duration;
+        }
+        return { duration, poster: await capturePoster(video, duration) };
+    } finally {
+        video.removeAttribute('src');
+        video.load();
+        URL.revokeObjectURL(url);
+    }
+}
+
+/**
+ * Throw a user-facing error when a video is not an accepted type or too large.
+ * Checked before reading the file, since unsupported formats may not decode at all.
+ */
+export function validateVideoFile(file: File): void {
+    if (!VIDEO_MIME_TYPES.includes(file.type)) {
+        throw new Error('Videos must be MP4, WebM or MOV files.');
+    }
+    if (file.size >= MAX_VIDEO_BYTES) {
+        throw new Error(`Videos must be smaller than ${MAX_VIDEO_BYTES / (1024 * 1024)} MB.`);
+    }
+}
+
+/**
+ * Throw a user-facing error when a video is longer than the limit.
+ */
+export function validateVideoDuration(duration: number): void {
+    if (!Number.isFinite(duration) || duration > MAX_VIDEO_SECONDS) {
+        throw new Error(`Videos can be at most ${MAX_VIDEO_SECONDS} seconds long.`);
+    }
+}
@@ -0,0 +1,27 @@
+import { Node, mergeAttributes } from '@tiptap/react';
+
+/**
+ * TipTap block node for uploaded post videos. Renders a native <video> with controls;
+ * `poster` is the frame captured client-side at upload time.
+ */
+export const Video = Node.create({
+    name: 'video',
+    group: 'block',
+    atom: true,
+    draggable: true,
+
+    addAttributes() {
+        return {
+            src: { default: null },
+            poster: { default: null },
+        };
+    },
+
+    parseHTML() {
+        return [{ tag: 'video[src]' }];
+    },
+
+    renderHTML({ HTMLAttributes }) {
+        return ['video', mergeAttributes(HTMLAttributes, { controls: 'true', preload: 'metadata', playsinline: 'true' })];
+    },
+});
@@ -0,0 +1,691 @@
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import { assertFails, assertSucceeds, type RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import {
+    MEMBER_UID, OTHER_UID, STAFF_UID,
+    createTestEnvironment, guest, member, staff,
+} from './testEnvironment';
+
+let env: RulesTestEnvironment;
+
+const NOW = 1_700_000_000_000;
+
+const profile = (uid: string, role = 'user') => ({
+    uid,
+    email: `${uid}@example.com`,
+    firstName: 'Test',
+    lastName: uid,
+    createdAt: NOW,
+    updatedAt: NOW,
+    role,
+});
+
+const post = (authorId: string, extra: Record<string, unknown> = {}) => ({
+    authorId,
+    authorEmail: `${authorId}@example.com`,
+    authorName: null,
+    content: '<p>Thank you!</p>',
+    createdAt: NOW,
+    updatedAt: NOW,
+    exhibit: null,
+    ...extra,
+});
+
+const artifact = (extra: Record<string, unknown> = {}) => ({
+    title: 'Keynote',
+    description: '',
+    content: '<iframe src="https://www.youtube.com/embed/abc"></iframe>',
+    type: 'video',
+    exhibitId: 1,
+    createdAt: NOW,
+    updatedAt: NOW,
+    ...extra,
+});
+
+const exhibit = (extra: Record<string, unknown> = {}) => ({
+    exhibitNumber: 1,
+    title: 'Leadership',
+    subtitle: '',
+    quote: '',
+    quoteAuthor: '',
+    backgroundImage: '',
+    order: 0,
+    visible: true,
+    ...extra,
+});
+
+const companyValues = (ids: string[]) => ({
+    values: ids.map(id => ({ id, label: id })),
+    ids,
+    updatedAt: NOW,
+});
+
+/** Write fixture documents with rules disabled */
+async function seed(docs: Record<string, Record<string, unknown>>): Promise<void> {
+    await env.withSecurityRulesDisabled(async (ctx) => {
+        const db = ctx.firestore();
+        await Promise.all(Object.entries(docs).map(([path, data]) => db.doc(path).set(data)));
+    });
+}
+
+beforeAll(async () => {
+    env = await createTestEnvironment();
+});
+
+afterAll(async () => {
+    await env?.cleanup();
+});
+
+beforeEach(async () => {
+    await env.clearFirestore();
+});
+
+describe('users', () => {
+    beforeEach(async () => {
+        await seed({ [`users/${MEMBER_UID}`]: profile(MEMBER_UID) });
+    });
+
+    it('lets signed-in users read any profile', async () => {
+        await assertSucceeds(member(env, OTHER_UID).firestore().doc(`users/${MEMBER_UID}`).get());
+    });
+
+    it('denies guests reading profiles', async () => {
+        await assertFails(guest(env).firestore().doc(`users/${MEMBER_UID}`).get());
+    });
+
+    it('lets users create their own profile with the user role', async () => {
+        await assertSucceeds(member(env, OTHER_UID).firestore().doc(`users/${OTHER_UID}`).set(profile(OTHER_UID)));
+    });
+
+    it('denies creating a profile for someone else', async () => {
+        await assertFails(member(env).firestore().doc(`users/${OTHER_UID}`).set(profile(OTHER_UID)));
+    });
+
+    it('denies creating a profile as staff', async () => {
+        await assertFails(member(env, OTHER_UID).firestore().doc(`users/${OTHER_UID}`).set(profile(OTHER_UID, 'staff')));
+    });
+
+    it('denies setting roleUpdatedAt on create', async () => {
+        await assertFails(member(env, OTHER_UID).firestore().doc(`users/${OTHER_UID}`)
+            .set({ ...profile(OTHER_UID), roleUpdatedAt: NOW }));
+    });
+
+    it('lets users update their own name', async () => {
+        await assertSucceeds(member(env).firestore().doc(`users/${MEMBER_UID}`).update({ firstName: 'New' }));
+    });
+
+    it('denies users changing their own role', async () => {
+        await assertFails(member(env).firestore().doc(`users/${MEMBER_UID}`).update({ role: 'staff' }));
+    });
+
+    it('denies users setting roleUpdatedAt', async () => {
+        await assertFails(member(env).firestore().doc(`users/${MEMBER_UID}`).update({ roleUpdatedAt: NOW }));
+    });
+
+    it("denies updating someone else's profile, even for staff", async () => {
+        await assertFails(member(env, OTHER_UID).firestore().doc(`users/${MEMBER_UID}`).update({ firstName: 'X' }));
+        await assertFails(staff(env).firestore().doc(`users/${MEMBER_UID}`).update({ firstName: 'X' }));
+    });
+
+    it('denies deleting profiles', async () => {
+        await assertFails(member(env).firestore().doc(`users/${MEMBER_UID}`).delete());
+        await assertFails(staff(env).firestore().doc(`users/${MEMBER_UID}`).delete());
+    });
+});
+
+describe('posts', () => {
+    beforeEach(async () => {
+        await seed({ 'posts/p1': post(MEMBER_UID) });
+    });
+
+    it('lets anyone read posts', async () => {
+        await assertSucceeds(guest(env).firestore().doc('posts/p1').get());
+    });
+
+    it('lets members create their own posts', async () => {
+        await assertSucceeds(member(env).firestore().doc('posts/p2').set(post(MEMBER_UID)));
+    });
+
+    it('denies guests creating posts', async () => {
+        await assertFails(guest(env).firestore().doc('posts/p2').set(post(MEMBER_UID)));
+    });
+
+    it('denies creating a post as another author', async () => {
+        await assertFails(member(env).firestore().doc('posts/p2').set(post(OTHER_UID)));
+    });
+
+    it('denies creating a post with invalid fields', async () => {
+        await assertFails(member(env).firestore().doc('posts/p2').set(post(MEMBER_UID, { content: 42 })));
+        await assertFails(member(env).firestore().doc('posts/p2').set(post(MEMBER_UID, { createdAt: 'now' })));
+        await assertFails(member(env).firestore().doc('posts/p2').set(post(MEMBER_UID, { updatedAt: null })));
+    });
+
+    it('denies creating an already-featured post', async () => {
+        await assertFails(member(env).firestore().doc('posts/p2').set(post(MEMBER_UID, { featuredAt: NOW })));
+    });
+
+    it('lets authors edit their content', async () => {
+        await assertSucceeds(member(env).firestore().doc('posts/p1').update({ content: '<p>Edited</p>', updatedAt: NOW + 1 }));
+    });
+
+    it("denies authors changing the post's exhibit", async () => {
+        await assertFails(member(env).firestore().doc('posts/p1').update({ exhibit: 2 }));
+    });
+
+    it('denies authors featuring their own post', async () => {
+        await assertFails(member(env).firestore().doc('posts/p1').update({ featuredAt: NOW }));
+    });
+
+    it('denies authors hiding or unhiding their own post', async () => {
+        await assertFails(member(env).firestore().doc('posts/p1').update({ hidden: true }));
+        await seed({ 'posts/hidden': post(MEMBER_UID, { hidden: true }) });
+        await assertFails(member(env).firestore().doc('posts/hidden').update({ hidden: false }));
+    });
+
+    it("denies editing someone else's post", async () => {
+        await assertFails(member(env, OTHER_UID).firestore().doc('posts/p1').update({ content: '<p>Mine now</p>' }));
+    });
+
+    it('denies authors writing their own sentiment analysis', async () => {
+        const analysis = { comparative: 1, label: 'positive', flagged: false };
+        await assertFails(member(env).firestore().doc('posts/p2').set(post(MEMBER_UID, { analysis })));
+        await assertFails(member(env).firestore().doc('posts/p1').update({ analysis }));
+        await seed({ 'posts/flagged': post(MEMBER_UID, { analysis: { ...analysis, comparative: -1, flagged: true } }) });
+        await assertFails(member(env).firestore().doc('posts/flagged').update({ 'analysis.flagged': false }));
+        await assertSucceeds(member(env).firestore().doc('posts/flagged').update({ content: '<p>Edited</p>' }));
+    });
+
+    it('denies authors writing the mentioned uids', async () => {
+        await assertFails(member(env).firestore().doc('posts/p2').set(post(MEMBER_UID, { mentions: [OTHER_UID] })));
+        await assertFails(member(env).firestore().doc('posts/p1').update({ mentions: [OTHER_UID] }));
+        await seed({ 'posts/mentioning': post(MEMBER_UID, { mentions: [OTHER_UID] }) });
+        await assertSucceeds(member(env).firestore().doc('posts/mentioning').update({ content: '<p>Edited</p>' }));
+    });
+
+    it('denies authors writing the comment count', async () => {
+        await assertFails(member(env).firestore().doc('posts/p2').set(post(MEMBER_UID, { commentCount: 3 })));
+        await assertFails(member(env).firestore().doc('posts/p1').update({ commentCount: 3 }));
+        await seed({ 'posts/commented': post(MEMBER_UID, { commentCount: 2 }) });
+        await assertSucceeds(member(env).firestore().doc('posts/commented').update({ content: '<p>Edited</p>' }));
+    });
+
+    it('denies authors writing the reaction counts', async () => {
+        const reactionCounts = { heart: 5, clap: 0, star: 0 };
+        await assertFails(member(env).firestore().doc('posts/p2').set(post(MEMBER_UID, { reactionCounts })));
+        await assertFails(member(env).firestore().doc('posts/p1').update({ reactionCounts }));
+        await assertFails(member(env).firestore().doc('posts/p1').update({ 'reactionCounts.heart': 5 }));
+        await seed({ 'posts/liked': post(MEMBER_UID, { reactionCounts }) });
+        await assertSucceeds(member(env).firestore().doc('posts/liked').update({ content: '<p>Edited</p>' }));
+    });
+
+    it('lets staff dismiss a sentiment flag', async () => {
+        await seed({ 'posts/flagged': post(MEMBER_UID, { analysis: { comparative: -1, label: 'negative', flagged: true } }) });
+        await assertSucceeds(staff(env).firestore().doc('posts/flagged').update({ 'analysis.flagged': false }));
+    });
+
+    it('lets authors tag posts with up to 5 values from the company list', async () => {
+        await seed({ 'settings/companyValues': companyValues(['advocacy', 'leadership', 'a', 'b', 'c', 'd']) });
+        const db = member(env).firestore();
+        await assertSucceeds(db.doc('posts/p2').set(post(MEMBER_UID, { values: ['advocacy'] })));
+        await assertSucceeds(db.doc('posts/p1').update({ values: ['advocacy', 'leadership'] }));
+        await assertSucceeds(db.doc('posts/p1').update({ values: [] }));
+        await assertFails(db.doc('posts/p1').update({ values: ['integrity'] }));
+        await assertFails(db.doc('posts/p1').update({ values: 'advocacy' }));
+        await assertFails(db.doc('posts/p1').update({ values: ['advocacy', 'leadership', 'a', 'b', 'c', 'd'] }));
+        await assertFails(staff(env).firestore().doc('posts/p1').update({ values: ['integrity'] }));
+    });
+
+    it('denies value tags before the company list exists', async () => {
+        await assertSucceeds(member(env).firestore().doc('posts/p2').set(post(MEMBER_UID, { values: [] })));
+        await assertFails(member(env).firestore().doc('posts/p3').set(post(MEMBER_UID, { values: ['advocacy'] })));
+    });
+
+    it('lets authors edit posts tagged with a removed value', async () => {
+        await seed({
+            'settings/companyValues': companyValues(['advocacy']),
+            'posts/tagged': post(MEMBER_UID, { values: ['retired'] }),
+        });
+        await assertSucceeds(member(env).firestore().doc('posts/tagged').update({ content: '<p>Edited</p>' }));
+        await assertSucceeds(member(env).firestore().doc('posts/tagged').update({ values: ['advocacy'] }));
+    });
+
+    it('lets staff change exhibit, featured and hidden state on any post', async () => {
+        const db = staff(env).firestore();
+        await assertSucceeds(db.doc('posts/p1').update({ exhibit: 3 }));
+        await assertSucceeds(db.doc('posts/p1').update({ featuredAt: NOW }));
+        await assertSucceeds(db.doc('posts/p1').update({ hidden: true }));
+    });
+
+    it('lets authors and staff delete posts', async () => {
+        await assertSucceeds(member(env).firestore().doc('posts/p1').delete());
+        await seed({ 'posts/p1': post(MEMBER_UID) });
+        await assertSucceeds(staff(env).firestore().doc('posts/p1').delete());
+    });
+
+    it("denies deleting someone else's post", async () => {
+        await assertFails(member(env, OTHER_UID).firestore().doc('posts/p1').delete());
+        await assertFails(guest(env).firestore().doc('posts/p1').delete());
+    });
+});
+
+describe('post reactions', () => {
+    const reaction = (userId: string, type = 'heart') => ({ userId, reaction: type, createdAt: NOW });
+
+    beforeEach(async () => {
+        await seed({
+            'posts/p1': post(OTHER_UID),
+            [`posts/p1/reactions/${OTHER_UID}_heart`]: reaction(OTHER_UID),
+        });
+    });
+
+    it("lets anyone read a post's reactions, but not the collection group", async () => {
+        await assertSucceeds(guest(env).firestore().collection('posts/p1/reactions').get());
+        await assertFails(guest(env).firestore().collectionGroup('reactions').get());
+    });
+
+    it('lets members add their own reaction', async () => {
+        await assertSucceeds(member(env).firestore().doc(`posts/p1/reactions/${MEMBER_UID}_clap`).set(reaction(MEMBER_UID, 'clap')));
+    });
+
+    it('denies reactions for another user, unknown types, or mismatched ids', async () => {
+        const db = member(env).firestore();
+        await assertFails(db.doc(`posts/p1/reactions/${OTHER_UID}_star`).set(reaction(OTHER_UID, 'star')));
+        await assertFails(db.doc(`posts/p1/reactions/${MEMBER_UID}_boo`).set(reaction(MEMBER_UID, 'boo')));
+        await assertFails(db.doc(`posts/p1/reactions/${MEMBER_UID}_star`).set(reaction(MEMBER_UID, 'heart')));
+        await assertFails(guest(env).firestore().doc(`posts/p1/reactions/${MEMBER_UID}_heart`).set(reaction(MEMBER_UID)));
+    });
+
+    it('denies updating reactions', async () => {
+        await assertFails(member(env, OTHER_UID).firestore().doc(`posts/p1/reactions/${OTHER_UID}_heart`).update({ createdAt: NOW + 1 }));
+    });
+
+    it('lets users remove only their own reaction', async () => {
+        await assertFails(member(env).firestore().doc(`posts/p1/reactions/${OTHER_UID}_heart`).delete());
+        await assertFails(staff(env).firestore().doc(`posts/p1/reactions/${OTHER_UID}_heart`).delete());
+        await assertSucceeds(member(env, OTHER_UID).firestore().doc(`posts/p1/reactions/${OTHER_UID}_heart`).delete());
+    });
+});
+
+describe('post comments', () => {
+    const comment = (authorId: string, parentId: string | null = null, content = 'Great memory') => ({
+        authorId, content, parentId, createdAt: NOW, updatedAt: NOW,
+    });
+
+    beforeEach(async () => {
+        await seed({
+            'posts/p1': post(STAFF_UID),
+            'posts/p1/comments/top': comment(OTHER_UID),
+            'posts/p1/comments/reply': comment(MEMBER_UID, 'top'),
+        });
+    });
+
+    it('lets anyone read comments', async () => {
+        await assertSucceeds(guest(env).firestore().collection('posts/p1/comments').get());
+    });
+
+    it('lets members comment and reply to top-level comments', async () => {
+        const db = member(env).firestore();
+        await assertSucceeds(db.doc('posts/p1/comments/c1').set(comment(MEMBER_UID)));
+        await assertSucceeds(db.doc('posts/p1/comments/c2').set(comment(MEMBER_UID, 'top')));
+    });
+
+    it('denies replies to replies', async () => {
+        await assertFails(member(env).firestore().doc('posts/p1/comments/c3').set(comment(MEMBER_UID, 'reply')));
+    });
+
+    it('denies comments by guests, as another user, empty or over 2000 characters', async () => {
+        await assertFails(guest(env).firestore().doc('posts/p1/comments/c1').set(comment(MEMBER_UID)));
+        const db = member(env).firestore();
+        await assertFails(db.doc('posts/p1/comments/c1').set(comment(OTHER_UID)));
+        await assertFails(db.doc('posts/p1/comments/c1').set(comment(MEMBER_UID, null, '')));
+        await assertFails(db.doc('posts/p1/comments/c1').set(comment(MEMBER_UID, null, 'x'.repeat(2001))));
+    });
+
+    it('lets authors edit content but not thread placement', async () => {
+        const db = member(env).firestore();
+        await assertSucceeds(db.doc('posts/p1/comments/reply').update({ content: 'Edited', updatedAt: NOW + 1 }));
+        await assertFails(db.doc('posts/p1/comments/reply').update({ parentId: null }));
+        await assertFails(db.doc('posts/p1/comments/reply').update({ createdAt: NOW + 1 }));
+        await assertFails(db.doc('posts/p1/comments/reply').update({ content: '' }));
+    });
+
+    it("denies editing someone else's comment, even for staff", async () => {
+        await assertFails(member(env).firestore().doc('posts/p1/comments/top').update({ content: 'Hijacked' }));
+        await assertFails(staff(env).firestore().doc('posts/p1/comments/top').update({ content: 'Edited' }));
+    });
+
+    it("denies the parent comment author deleting other members' replies", async () => {
+        await assertFails(member(env, OTHER_UID).firestore().doc('posts/p1/comments/reply').delete());
+    });
+
+    it('lets staff delete any comment and authors delete their own', async () => {
+        await assertSucceeds(member(env).firestore().doc('posts/p1/comments/reply').delete());
+        await assertSucceeds(staff(env).firestore().doc('posts/p1/comments/top').delete());
+    });
+
+    it("denies deleting others' top-level comments", async () => {
+        await assertFails(member(env).firestore().doc('posts/p1/comments/top').delete());
+    });
+});
+
+describe('reports', () => {
+    const report = (postId: string, reporterId: string, extra: Record<string, unknown> = {}) => ({
+        postId, reporterId, reason: 'spam', details: '', createdAt: NOW, ...extra,
+    });
+
+    beforeEach(async () => {
+        await seed({
+            'posts/p1': post(OTHER_UID),
+            [`reports/p1_${OTHER_UID}`]: report('p1', OTHER_UID),
+        });
+    });
+
+    it('lets members report an existing post once', async () => {
+        await assertSucceeds(member(env).firestore().doc(`reports/p1_${MEMBER_UID}`).set(report('p1', MEMBER_UID)));
+    });
+
+    it('denies invalid reports', async () => {
+        const db = member(env).firestore();
+        await assertFails(db.doc(`reports/missing_${MEMBER_UID}`).set(report('missing', MEMBER_UID)));
+        await assertFails(db.doc(`reports/p1_${OTHER_UID}`).set(report('p1', OTHER_UID)));
+        await assertFails(db.doc('reports/whatever').set(report('p1', MEMBER_UID)));
+        await assertFails(db.doc(`reports/p1_${MEMBER_UID}`).set(report('p1', MEMBER_UID, { reason: 'boring' })));
+        await assertFails(db.doc(`reports/p1_${MEMBER_UID}`).set(report('p1', MEMBER_UID, { details: 'x'.repeat(501) })));
+        await assertFails(guest(env).firestore().doc(`reports/p1_${MEMBER_UID}`).set(report('p1', MEMBER_UID)));
+    });
+
+    it('denies re-reporting (updates)', async () => {
+        await assertFails(member(env, OTHER_UID).firestore().doc(`reports/p1_${OTHER_UID}`).set(report('p1', OTHER_UID)));
+    });
+
+    it('lets only staff read and delete reports', async () => {
+        await assertFails(member(env, OTHER_UID).firestore().doc(`reports/p1_${OTHER_UID}`).get());
+        await assertFails(member(env, OTHER_UID).firestore().doc(`reports/p1_${OTHER_UID}`).delete());
+        await assertSucceeds(staff(env).firestore().collection('reports').get());
+        await assertSucceeds(staff(env).firestore().doc(`reports/p1_${OTHER_UID}`).delete());
+    });
+});
+
+describe('auditLog', () => {
+    beforeEach(async () => {
+        await seed({ 'auditLog/e1': { actorId: STAFF_UID, action: 'post.delete', createdAt: NOW } });
+    });
+
+    it('lets only staff read the log', async () => {
+        await assertSucceeds(staff(env).firestore().collection('auditLog').get());
+        await assertFails(member(env).firestore().collection('auditLog').get());
+    });
+
+    it('denies all client writes, even for staff', async () => {
+        const db = staff(env).firestore();
+        await assertFails(db.doc('auditLog/e2').set({ actorId: STAFF_UID, action: 'post.delete', createdAt: NOW }));
+        await assertFails(db.doc('auditLog/e1').update({ action: 'post.hide' }));
+        await assertFails(db.doc('auditLog/e1').delete());
+    });
+});
+
+describe('imageVariants', () => {
+    beforeEach(async () => {
+        await seed({ 'imageVariants/post-images%2Fp1%2Fa.webp': { path: 'post-images/p1/a.webp', variants: [] } });
+    });
+
+    it('lets anyone read variant metadata', async () => {
+        await assertSucceeds(guest(env).firestore().doc('imageVariants/post-images%2Fp1%2Fa.webp').get());
+    });
+
+    it('denies all client writes, even for staff', async () => {
+        const db = staff(env).firestore();
+        await assertFails(db.doc('imageVariants/post-images%2Fp1%2Fb.webp').set({ path: 'post-images/p1/b.webp', variants: [] }));
+        await assertFails(db.doc('imageVariants/post-images%2Fp1%2Fa.webp').delete());
+    });
+});
+
+describe('analytics', () => {
+    beforeEach(async () => {
+        await seed({ 'analytics/posts': { totalPosts: 3, visiblePosts: 3, updatedAt: NOW } });
+    });
+
+    it('lets only staff read aggregates', async () => {
+        await assertSucceeds(staff(env).firestore().doc('analytics/posts').get());
+        await assertFails(member(env).firestore().doc('analytics/posts').get());
+        await assertFails(guest(env).firestore().doc('analytics/posts').get());
+    });
+
+    it('denies all client writes, even for staff', async () => {
+        const db = staff(env).firestore();
+        await assertFails(db.doc('analytics/posts').update({ totalPosts: 100 }));
+        await assertFails(db.doc('analytics/posts').delete());
+    });
+});
+
+describe('storageGcReports', () => {
+    beforeEach(async () => {
+        await seed({ 'storageGcReports/r1': { dryRun: true, startedAt: NOW, candidates: [] } });
+    });
+
+    it('lets only staff read reports', async () => {
+        await assertSucceeds(staff(env).firestore().collection('storageGcReports').get());
+        await assertFails(member(env).firestore().collection('storageGcReports').get());
+    });
+
+    it('denies all client writes, even for staff', async () => {
+        const db = staff(env).firestore();
+        await assertFails(db.doc('storageGcReports/r2').set({ dryRun: false, startedAt: NOW, candidates: [] }));
+        await assertFails(db.doc('storageGcReports/r1').delete());
+    });
+});
+
+describe('backups', () => {
+    beforeEach(async () => {
+        await seed({ 'backups/b1': { startedAt: NOW, storagePrefix: 'backups/b1', dangling: [] } });
+    });
+
+    it('lets only staff read backup records', async () => {
+        await assertSucceeds(staff(env).firestore().collection('backups').get());
+        await assertFails(member(env).firestore().collection('backups').get());
+        await assertFails(guest(env).firestore().doc('backups/b1').get());
+    });
+
+    it('denies all client writes, even for staff', async () => {
+        const db = staff(env).firestore();
+        await assertFails(db.doc('backups/b2').set({ startedAt: NOW, storagePrefix: 'backups/b2', dangling: [] }));
+        await assertFails(db.doc('backups/b1').delete());
+    });
+});
+
+describe('mailSubscriptions and mailLog', () => {
+    beforeEach(async () => {
+        await seed({
+            [`mailSubscriptions/${MEMBER_UID}`]: { token: 'secret', unsubscribed: [] },
+            'mailLog/digest_2026-01-05_u1': { to: 'member@example.com', subject: 'Digest', sentAt: NOW },
+        });
+    });
+
+    it('hides unsubscribe tokens even from their owner and staff', async () => {
+        await assertFails(member(env).firestore().doc(`mailSubscriptions/${MEMBER_UID}`).get());
+        await assertFails(staff(env).firestore().doc(`mailSubscriptions/${MEMBER_UID}`).get());
+        await assertFails(staff(env).firestore().doc('mailLog/digest_2026-01-05_u1').get());
+    });
+
+    it('denies all client writes', async () => {
+        await assertFails(member(env).firestore().doc(`mailSubscriptions/${MEMBER_UID}`).set({ unsubscribed: ['digest'] }));
+        await assertFails(staff(env).firestore().doc('mailLog/m2').set({ to: 'x@example.com', subject: 'x', sentAt: NOW }));
+    });
+});
+
+describe('notifications', () => {
+    const item = { category: 'reaction', postId: 'p1', actorId: OTHER_UID, excerpt: '', read: false, createdAt: NOW };
+
+    beforeEach(async () => {
+        await seed({
+            [`notifications/${MEMBER_UID}`]: { muted: ['reaction'] },
+            [`notifications/${MEMBER_UID}/items/n1`]: item,
+        });
+    });
+
+    it('lets only the owner read their settings and items', async () => {
+        await assertSucceeds(member(env).firestore().doc(`notifications/${MEMBER_UID}`).get());
+        await assertSucceeds(member(env).firestore().collection(`notifications/${MEMBER_UID}/items`).get());
+        await assertFails(staff(env).firestore().doc(`notifications/${MEMBER_UID}`).get());
+        await assertFails(staff(env).firestore().collection(`notifications/${MEMBER_UID}/items`).get());
+    });
+
+    it('lets the owner set only their muted categories', async () => {
+        const db = member(env).firestore();
+        await assertSucceeds(db.doc(`notifications/${MEMBER_UID}`).set({ muted: ['comment'] }));
+        await assertFails(db.doc(`notifications/${MEMBER_UID}`).set({ muted: 'comment' }));
+        await assertFails(db.doc(`notifications/${MEMBER_UID}`).set({ muted: [], admin: true }));
+        await assertFails(db.doc(`notifications/${MEMBER_UID}`).delete());
+        await assertFails(staff(env).firestore().doc(`notifications/${MEMBER_UID}`).set({ muted: [] }));
+    });
+
+    it('lets the owner mark items read but nothing else', async () => {
+        const db = member(env).firestore();
+        await assertSucceeds(db.doc(`notifications/${MEMBER_UID}/items/n1`).update({ read: true }));
+        await assertFails(db.doc(`notifications/${MEMBER_UID}/items/n1`).update({ excerpt: 'edited' }));
+        await assertFails(db.doc(`notifications/${MEMBER_UID}/items/n1`).update({ read: 'yes' }));
+        await assertFails(db.doc(`notifications/${MEMBER_UID}/items/n2`).set(item));
+        await assertFails(db.doc(`notifications/${MEMBER_UID}/items/n1`).delete());
+        await assertFails(staff(env).firestore().doc(`notifications/${MEMBER_UID}/items/n1`).update({ read: true }));
+    });
+});
+
+describe('artifacts', () => {
+    beforeEach(async () => {
+        await seed({ 'artifacts/a1': artifact() });
+    });
+
+    it('lets signed-in users read artifacts', async () => {
+        await assertSucceeds(member(env).firestore().doc('artifacts/a1').get());
+    });
+
+    it('denies guests reading artifacts', async () => {
+        await assertFails(guest(env).firestore().doc('artifacts/a1').get());
+    });
+
+    it('lets only staff create artifacts', async () => {
+        await assertFails(member(env).firestore().doc('artifacts/a2').set(artifact()));
+        await assertSucceeds(staff(env).firestore().doc('artifacts/a2').set(artifact()));
+    });
+
+    it('denies staff creating invalid artifacts', async () => {
+        const db = staff(env).firestore();
+        await assertFails(db.doc('artifacts/a2').set(artifact({ title: '' })));
+        await assertFails(db.doc('artifacts/a2').set(artifact({ content: '' })));
+        await assertFails(db.doc('artifacts/a2').set(artifact({ type: 'audio' })));
+        await assertFails(db.doc('artifacts/a2').set(artifact({ exhibitId: '1' })));
+    });
+
+    it('lets only staff update artifacts, with the same validation', async () => {
+        await assertFails(member(env).firestore().doc('artifacts/a1').update({ title: 'Renamed' }));
+        await assertSucceeds(staff(env).firestore().doc('artifacts/a1').update({ title: 'Renamed' }));
+        await assertFails(staff(env).firestore().doc('artifacts/a1').update({ type: 'audio' }));
+    });
+
+    it('lets only staff delete artifacts', async () => {
+        await assertFails(member(env).firestore().doc('artifacts/a1').delete());
+        await assertSucceeds(staff(env).firestore().doc('artifacts/a1').delete());
+    });
+});
+
+describe('exhibits', () => {
+    beforeEach(async () => {
+        await seed({ 'exhibits/exhibit-1': exhibit() });
+    });
+
+    it('lets anyone read exhibits', async () => {
+        await assertSucceeds(guest(env).firestore().collection('exhibits').get());
+    });
+
+    it('lets only staff create and update exhibits', async () => {
+        await assertFails(member(env).firestore().doc('exhibits/exhibit-2').set(exhibit({ exhibitNumber: 2 })));
+        await assertSucceeds(staff(env).firestore().doc('exhibits/exhibit-2').set(exhibit({ exhibitNumber: 2 })));
+        await assertFails(member(env).firestore().doc('exhibits/exhibit-1').update({ visible: false }));
+        await assertSucceeds(staff(env).firestore().doc('exhibits/exhibit-1').update({ visible: false }));
+    });
+
+    it('denies invalid exhibits', async () => {
+        const db = staff(env).firestore();
+        await assertFails(db.doc('exhibits/exhibit-2').set(exhibit({ exhibitNumber: 2.5 })));
+        await assertFails(db.doc('exhibits/exhibit-2').set(exhibit({ title: '' })));
+        await assertFails(db.doc('exhibits/exhibit-2').set(exhibit({ order: 'first' })));
+        await assertFails(db.doc('exhibits/exhibit-2').set(exhibit({ visible: 'yes' })));
+    });
+
+    it('denies overwriting an existing exhibit or changing its number', async () => {
+        await seed({ 'exhibits/exhibit-2': exhibit({ exhibitNumber: 2, createdAt: NOW }) });
+        const db = staff(env).firestore();
+        await assertFails(db.doc('exhibits/exhibit-2').set(exhibit({ exhibitNumber: 2, title: 'Other', createdAt: NOW + 1 })));
+        await assertFails(db.doc('exhibits/exhibit-1').set(exhibit({ createdAt: NOW })));
+        await assertFails(db.doc('exhibits/exhibit-2').update({ exhibitNumber: 3 }));
+        await assertSucceeds(db.doc('exhibits/exhibit-2').update({ title: 'Renamed', updatedAt: NOW + 1 }));
+    });
+
+    it('denies creating an exhibit whose id does not match its number', async () => {
+        const db = staff(env).firestore();
+        await assertFails(db.doc('exhibits/exhibit-9').set(exhibit({ exhibitNumber: 3 })));
+        await assertFails(db.doc('exhibits/custom').set(exhibit({ exhibitNumber: 3 })));
+        await assertSucceeds(db.doc('exhibits/exhibit-3').set(exhibit({ exhibitNumber: 3 })));
+    });
+
+    it('denies deleting exhibits, even for staff', async () => {
+        await assertFails(staff(env).firestore().doc('exhibits/exhibit-1').delete());
+    });
+});
+
+describe('settings/companyValues', () => {
+    beforeEach(async () => {
+        await seed({ 'settings/companyValues': companyValues(['advocacy']) });
+    });
+
+    it('lets anyone read the company values', async () => {
+        await assertSucceeds(guest(env).firestore().doc('settings/companyValues').get());
+    });
+
+    it('lets only staff save the list', async () => {
+        const next = companyValues(['advocacy', 'leadership']);
+        await assertFails(member(env).firestore().doc('settings/companyValues').set(next));
+        await assertSucceeds(staff(env).firestore().doc('settings/companyValues').set(next));
+    });
+
+    it('denies lists whose ids do not match the values', async () => {
+        const db = staff(env).firestore();
+        await assertFails(db.doc('settings/companyValues').set({ ...companyValues(['advocacy']), ids: [] }));
+        await assertFails(db.doc('settings/companyValues').set({ values: 'advocacy', ids: ['advocacy'] }));
+    });
+
+    it('denies deleting the list and other settings documents, even for staff', async () => {
+        await assertFails(staff(env).firestore().doc('settings/companyValues').delete());
+        await assertFails(staff(env).firestore().doc('settings/other').set({ enabled: true }));
+    });
+});
+
+describe('searchIndex', () => {
+    beforeEach(async () => {
+        await seed({
+            'searchIndex/post_p1': {
+                type: 'post', refId: 'p1', title: '', text: 'Thank you', tokens: ['thank'], createdAt: NOW,
+            },
+        });
+    });
+
+    it('lets signed-in users search the index', async () => {
+        await assertSucceeds(member(env).firestore().collection('searchIndex')
+            .where('tokens', 'array-contains', 'thank').get());
+        await assertFails(guest(env).firestore().collection('searchIndex')
+            .where('tokens', 'array-contains', 'thank').get());
+    });
+
+    it('denies all client writes, even for staff', async () => {
+        const db = staff(env).firestore();
+        await assertFails(db.doc('searchIndex/post_p2').set({ type: 'post', refId: 'p2', tokens: [] }));
+        await assertFails(db.doc('searchIndex/post_p1').update({ tokens: ['spam'] }));
+        await assertFails(db.doc('searchIndex/post_p1').delete());
+    });
+});
+
+describe('other collections', () => {
+    it('denies everything by default', async () => {
+        await assertFails(staff(env).firestore().doc('settings/site').get());
+        await assertFails(staff(env).firestore().doc('settings/site').set({ theme: 'dark' }));
+    });
+});
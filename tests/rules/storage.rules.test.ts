@@ -0,0 +1,231 @@
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import { assertFails, assertSucceeds, type RulesTestContext, type RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import { createTestEnvironment, guest, member, staff } from './testEnvironment';
+
+let env: RulesTestEnvironment;
+
+const MB = 1024 * 1024;
+
+const bytes = (size: number) => new Uint8Array(size);
+
+function upload(ctx: RulesTestContext, path: string, size = 1024, contentType = 'image/png') {
+    return ctx.storage().ref(path).put(bytes(size), { contentType }).then();
+}
+
+const read = (ctx: RulesTestContext, path: string) => ctx.storage().ref(path).getDownloadURL();
+
+const remove = (ctx: RulesTestContext, path: string) => ctx.storage().ref(path).delete();
+
+/** Upload fixture files with rules disabled */
+async function seed(paths: string[]): Promise<void> {
+    await env.withSecurityRulesDisabled(async (ctx) => {
+        await Promise.all(paths.map(path => upload(ctx, path)));
+    });
+}
+
+beforeAll(async () => {
+    env = await createTestEnvironment();
+});
+
+afterAll(async () => {
+    await env?.cleanup();
+});
+
+beforeEach(async () => {
+    await env.clearStorage();
+});
+
+describe('post-images/{postId}/{imageId}', () => {
+    const path = 'post-images/p1/photo.png';
+
+    beforeEach(async () => {
+        await seed([path]);
+    });
+
+    it('lets anyone read post images', async () => {
+        await assertSucceeds(read(guest(env), path));
+    });
+
+    it('lets signed-in users upload images under 10MB', async () => {
+        await assertSucceeds(upload(member(env), 'post-images/p2/new.png', 10 * MB - 1));
+    });
+
+    it('denies guest uploads', async () => {
+        await assertFails(upload(guest(env), 'post-images/p2/new.png'));
+    });
+
+    it('denies uploads of 10MB or more', async () => {
+        await assertFails(upload(member(env), 'post-images/p2/big.png', 10 * MB));
+    });
+
+    it('denies non-image uploads', async () => {
+        await assertFails(upload(member(env), 'post-images/p2/notes.pdf', 1024, 'application/pdf'));
+    });
+
+    it('lets only staff delete post images', async () => {
+        await assertFails(remove(member(env), path));
+        await assertSucceeds(remove(staff(env), path));
+    });
+});
+
+describe('post-videos/{postId}/{videoId}', () => {
+    const path = 'post-videos/p1/clip.mp4';
+
+    const uploadVideo = (ctx: RulesTestContext, target: string, duration: string | null, size = 1024, contentType = 'video/mp4') =>
+        ctx.storage().ref(target).put(bytes(size), {
+            contentType,
+            customMetadata: duration === null ? {} : { duration },
+        }).then();
+
+    beforeEach(async () => {
+        await seed([path]);
+    });
+
+    it('lets anyone read post videos', async () => {
+        await assertSucceeds(read(guest(env), path));
+    });
+
+    it('lets signed-in users upload clips up to 60 seconds', async () => {
+        await assertSucceeds(uploadVideo(member(env), 'post-videos/p2/new.mp4', '59.50'));
+        await assertSucceeds(uploadVideo(member(env), 'post-videos/p2/new.webm', '60.00', 1024, 'video/webm'));
+    });
+
+    it('denies guest uploads', async () => {
+        await assertFails(uploadVideo(guest(env), 'post-videos/p2/new.mp4', '10.00'));
+    });
+
+    it('denies clips over 60 seconds or without a duration', async () => {
+        await assertFails(uploadVideo(member(env), 'post-videos/p2/long.mp4', '60.01'));
+        await assertFails(uploadVideo(member(env), 'post-videos/p2/unknown.mp4', null));
+    });
+
+    it('denies uploads of 50MB or more and non-video files', async () => {
+        await assertFails(uploadVideo(member(env), 'post-videos/p2/big.mp4', '10.00', 50 * MB));
+        await assertFails(uploadVideo(member(env), 'post-videos/p2/photo.png', '10.00', 1024, 'image/png'));
+    });
+
+    it('lets only staff delete post videos', async () => {
+        await assertFails(remove(member(env), path));
+        await assertSucceeds(remove(staff(env), path));
+    });
+});
+
+describe('post-audio/{postId}/{audioId}', () => {
+    const path = 'post-audio/p1/message.webm';
+
+    const uploadAudio = (ctx: RulesTestContext, target: string, duration: string, size = 1024, contentType = 'audio/webm') =>
+        ctx.storage().ref(target).put(bytes(size), { contentType, customMetadata: { duration } }).then();
+
+    beforeEach(async () => {
+        await seed([path]);
+    });
+
+    it('lets anyone read audio messages', async () => {
+        await assertSucceeds(read(guest(env), path));
+    });
+
+    it('lets signed-in users upload messages up to 60 seconds under 10MB', async () => {
+        await assertSucceeds(uploadAudio(member(env), 'post-audio/p2/new.webm', '42.00'));
+        await assertFails(uploadAudio(member(env), 'post-audio/p2/long.webm', '61.00'));
+        await assertFails(uploadAudio(member(env), 'post-audio/p2/big.webm', '42.00', 10 * MB));
+    });
+
+    it('denies guest uploads and non-audio files', async () => {
+        await assertFails(uploadAudio(guest(env), 'post-audio/p2/new.webm', '10.00'));
+        await assertFails(uploadAudio(member(env), 'post-audio/p2/clip.mp4', '10.00', 1024, 'video/mp4'));
+    });
+});
+
+describe('website-images/**', () => {
+    const path = 'website-images/exhibits/exhibit-1/001-hero.png';
+
+    beforeEach(async () => {
+        await seed([path]);
+    });
+
+    it('lets anyone read site images', async () => {
+        await assertSucceeds(read(guest(env), path));
+    });
+
+    it('lets only staff upload site images', async () => {
+        await assertFails(upload(guest(env), 'website-images/hero.png'));
+        await assertFails(upload(member(env), 'website-images/hero.png'));
+        await assertSucceeds(upload(staff(env), 'website-images/hero.png'));
+    });
+
+    it('lets only staff delete site images', async () => {
+        await assertFails(remove(member(env), path));
+        await assertSucceeds(remove(staff(env), path));
+    });
+});
+
+describe('artifacts/{exhibitFolder}/{fileId}', () => {
+    const path = 'artifacts/exhibit-1/slides.pdf';
+
+    beforeEach(async () => {
+        await seed([path]);
+    });
+
+    it('lets anyone read artifact files', async () => {
+        await assertSucceeds(read(guest(env), path));
+    });
+
+    it('lets any signed-in user upload files under 50MB', async () => {
+        await assertSucceeds(upload(member(env), 'artifacts/exhibit-1/deck.pdf', 50 * MB - 1, 'application/pdf'));
+    });
+
+    it('denies guest uploads', async () => {
+        await assertFails(upload(guest(env), 'artifacts/exhibit-1/deck.pdf', 1024, 'application/pdf'));
+    });
+
+    it('denies uploads of 50MB or more', async () => {
+        await assertFails(upload(member(env), 'artifacts/exhibit-1/huge.pdf', 50 * MB, 'application/pdf'));
+    });
+
+    it('denies uploads nested deeper than one folder', async () => {
+        await assertFails(upload(staff(env), 'artifacts/exhibit-1/extra/deck.pdf', 1024, 'application/pdf'));
+    });
+
+    it('lets only staff delete artifact files', async () => {
+        await assertFails(remove(member(env), path));
+        await assertSucceeds(remove(staff(env), path));
+    });
+});
+
+describe('image-variants/**', () => {
+    const path = 'image-variants/post-images/p1/photo.png/320.webp';
+
+    beforeEach(async () => {
+        await seed([path]);
+    });
+
+    it('lets anyone read variants', async () => {
+        await assertSucceeds(read(guest(env), path));
+    });
+
+    it('denies all client writes, even for staff', async () => {
+        await assertFails(upload(staff(env), 'image-variants/post-images/p1/photo.png/640.webp', 1024, 'image/webp'));
+        await assertFails(remove(staff(env), path));
+    });
+});
+
+describe('backups/**', () => {
+    const path = 'backups/2026-01-01T00-00-00-000Z/files/post-images/p1/photo.png';
+
+    beforeEach(async () => {
+        await seed([path]);
+    });
+
+    it('denies all client access, even for staff', async () => {
+        await assertFails(read(staff(env), path));
+        await assertFails(upload(staff(env), 'backups/2026-01-01T00-00-00-000Z/manifest.json', 1024, 'application/json'));
+        await assertFails(remove(staff(env), path));
+    });
+});
+
+describe('other paths', () => {
+    it('denies everything by default', async () => {
+        await assertFails(upload(staff(env), 'private/secret.png'));
+        await assertFails(read(staff(env), 'private/secret.png'));
+    });
+});
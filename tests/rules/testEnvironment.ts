@@ -0,0 +1,37 @@
+/**
+ * Shared setup for the Firestore/Storage rules tests.
+ *
+ * Run through `npm run test:rules`, which starts the local emulators with a `demo-` project id
+ * (no credentials needed; the emulator JARs must have been downloaded once, see
+ * `npm run test:rules:setup`) and exports their host/port for initializeTestEnvironment.
+ * Rules files are read relative to the repo root, where the script runs.
+ */
+import { readFileSync } from 'node:fs';
+import {
+    initializeTestEnvironment,
+    type RulesTestContext,
+    type RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+
+export const PROJECT_ID = 'demo-acptributeboard';
+
+export const MEMBER_UID = 'member';
+export const OTHER_UID = 'other';
+export const STAFF_UID = 'staff';
+
+export function createTestEnvironment(): Promise<RulesTestEnvironment> {
+    return initializeTestEnvironment({
+        projectId: PROJECT_ID,
+        firestore: { rules: readFileSync('firestore.rules', 'utf8') },
+        storage: { rules: readFileSync('storage.rules', 'utf8') },
+    });
+}
+
+export const guest = (env: RulesTestEnvironment): RulesTestContext => env.unauthenticatedContext();
+
+export const member = (env: RulesTestEnvironment, uid = MEMBER_UID): RulesTestContext =>
+    env.authenticatedContext(uid);
+
+/** Signed-in user with the `highLevel` custom claim (Staff) */
+export const staff = (env: RulesTestEnvironment, uid = STAFF_UID): RulesTestContext =>
+    env.authenticatedContext(uid, { highLevel: true });
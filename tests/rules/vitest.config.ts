@@ -0,0 +1,12 @@
+import { defineConfig } from 'vitest/config';
+
+// Rules tests share one emulator and clear it between tests, so files run one at a time.
+export default defineConfig({
+    test: {
+        include: ['tests/rules/**/*.test.ts'],
+        environment: 'node',
+        fileParallelism: false,
+        testTimeout: 30_000,
+        hookTimeout: 30_000,
+    },
+});